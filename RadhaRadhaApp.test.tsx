@@ -0,0 +1,442 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CombinedApp from './RadhaRadhaApp';
+import { heartStroke, type Point } from './challenges';
+import defaultScript from './experiences/radha-radha.json';
+import { translate, type MessageKey, type MessageParams } from './i18n';
+import { SpeechRecognizerContext, type SpeechRecognizer, type SpeechRecognizerBackend } from './useVoiceRecognition';
+
+const [lock, letter, proposal] = defaultScript.stages;
+
+const t = (key: MessageKey, params?: MessageParams) => translate('hi', key, params);
+
+// A recognizer the test speaks into
+const createFakeSpeech = (supported = true) => {
+  let recognizer: SpeechRecognizer | null = null;
+  const backend: SpeechRecognizerBackend = {
+    isSupported: () => supported,
+    create: () => {
+      recognizer = {
+        start: vi.fn(() => recognizer?.onstart?.()),
+        stop: vi.fn(() => recognizer?.onend?.()),
+        abort: vi.fn(() => recognizer?.onend?.()),
+        onstart: null,
+        onresult: null,
+        onerror: null,
+        onend: null,
+      };
+      return recognizer;
+    },
+  };
+  return {
+    backend,
+    interim: (transcript: string) =>
+      recognizer?.onresult?.([{ alternatives: [{ transcript, confidence: 0.5 }], isFinal: false }]),
+    // Every hypothesis, best first
+    final: async (...transcripts: string[]) => {
+      recognizer?.onresult?.([{ alternatives: transcripts.map((transcript) => ({ transcript, confidence: 0.8 })), isFinal: true }]);
+      recognizer?.onend?.();
+    },
+    fail: (error: string) => {
+      recognizer?.onerror?.(error);
+      recognizer?.onend?.();
+    },
+  };
+};
+
+const letterStage = (id: string, title: string) => ({ ...letter, id, content: { ...letter.content, title } });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  localStorage.clear();
+  // jsdom has no canvas; the particles and the sky simply do not draw
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  vi.stubGlobal('ResizeObserver', class { observe() {} disconnect() {} });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+const wait = (ms: number) => act(() => vi.advanceTimersByTime(ms));
+
+describe('lock', () => {
+  const renderLock = (supported = true) => {
+    const speech = createFakeSpeech(supported);
+    render(
+      <SpeechRecognizerContext.Provider value={speech.backend}>
+        <CombinedApp />
+      </SpeechRecognizerContext.Provider>
+    );
+    return speech;
+  };
+
+  const lockButton = () => screen.getByRole('button', { name: t('lock.listenLabel') });
+
+  it('asks for the voice, without the typed fallback, where recognition is supported', () => {
+    renderLock();
+    expect(screen.getByRole('status').textContent).toBe(lock.content.prompt);
+    expect(screen.queryByRole('textbox')).toBeNull();
+  });
+
+  it('shows what it hears and opens on any hypothesis that is the passphrase', async () => {
+    const speech = renderLock();
+    fireEvent.click(lockButton());
+    expect(screen.getByRole('status').textContent).toBe(t('lock.listening'));
+
+    act(() => speech.interim('राधा रा'));
+    expect(screen.getByText('"राधा रा"')).toBeTruthy();
+
+    await act(() => speech.final('राजा', 'राधा'));
+    expect(screen.getByRole('status').textContent).toBe(t('lock.unlocked'));
+    await wait(1500);
+    expect(screen.getByText((letter.content as { title: string }).title)).toBeTruthy();
+  });
+
+  it('says what it heard when it is not the passphrase', async () => {
+    const speech = renderLock();
+    fireEvent.click(lockButton());
+    await act(() => speech.final('कृष्णा'));
+    expect(screen.getByRole('status').textContent).toBe(t('lock.heardWrong', { heard: 'कृष्णा' }));
+    await wait(3000);
+    expect(screen.getByRole('status').textContent).toBe(lock.content.prompt);
+  });
+
+  it('offers typing when the microphone is not allowed', async () => {
+    const speech = renderLock();
+    fireEvent.click(lockButton());
+    act(() => speech.fail('not-allowed'));
+    expect(screen.getByRole('status').textContent).toBe(t('lock.notAllowed'));
+
+    const input = screen.getByRole('textbox');
+    fireEvent.change(input, { target: { value: 'Radha' } });
+    await act(async () => fireEvent.keyDown(input, { key: 'Enter' }));
+    expect(screen.getByRole('status').textContent).toBe(t('lock.unlocked'));
+  });
+
+  it('gives a status of its own to each kind of error', () => {
+    const speech = renderLock();
+    const statuses = (['no-speech', 'network', 'audio-capture'] as const).map((error) => {
+      fireEvent.click(lockButton());
+      act(() => speech.fail(error));
+      return screen.getByRole('status').textContent;
+    });
+    expect(statuses).toEqual([t('lock.noSpeech'), t('lock.network'), t('lock.audioCapture')]);
+  });
+
+  it('gives up after the listen timeout', () => {
+    renderLock();
+    fireEvent.click(lockButton());
+    act(() => vi.advanceTimersByTime(10000));
+    expect(screen.getByRole('status').textContent).toBe(t('lock.timeout'));
+  });
+
+  it('goes straight to typing where recognition is unsupported', () => {
+    renderLock(false);
+    expect(screen.getByRole('status').textContent).toBe(t('lock.unsupported'));
+    expect(screen.getByRole('textbox')).toBeTruthy();
+  });
+});
+
+describe('draw-heart challenge', () => {
+  const renderChallenge = () => render(
+    <CombinedApp
+      script={{
+        ...defaultScript,
+        id: 'heart-test',
+        stages: [
+          { id: 'heart', type: 'challenge', content: { title: 'Draw us a heart', prompt: 'Draw', challenge: { kind: 'draw-heart' } } },
+          letter,
+        ],
+      }}
+    />
+  );
+
+  const canvas = () => screen.getByRole('button', { name: t('heart.canvas') });
+  const status = () => screen.getByRole('status').textContent;
+
+  // The arrow keys that walk the pen, 14 pixels a press, round a heart
+  const heartKeys = () => {
+    const moves: Record<string, Point> = {
+      ArrowUp: { x: 0, y: -1 }, ArrowDown: { x: 0, y: 1 }, ArrowLeft: { x: -1, y: 0 }, ArrowRight: { x: 1, y: 0 },
+      Home: { x: -1, y: -1 }, PageUp: { x: 1, y: -1 }, End: { x: -1, y: 1 }, PageDown: { x: 1, y: 1 },
+    };
+    const keys: string[] = [];
+    let pen = { x: 140, y: 84 };
+    heartStroke(42, 42, 196).forEach((goal) => {
+      for (;;) {
+        const distance = (point: Point) => Math.hypot(point.x - goal.x, point.y - goal.y);
+        const [key, next] = Object.entries(moves)
+          .map(([name, move]): [string, Point] => [name, { x: pen.x + move.x * 14, y: pen.y + move.y * 14 }])
+          .reduce((best, option) => (distance(option[1]) < distance(best[1]) ? option : best));
+        if (distance(next) >= distance(pen)) break;
+        keys.push(key);
+        pen = next;
+      }
+    });
+    return keys;
+  };
+
+  it('is not solved by a key press alone', () => {
+    renderChallenge();
+    fireEvent.keyDown(canvas(), { key: 'Enter' });
+    fireEvent.keyDown(canvas(), { key: ' ' });
+    expect(status()).toBe('Draw');
+  });
+
+  it('can be drawn with the arrow keys', () => {
+    renderChallenge();
+    heartKeys().forEach((key) => fireEvent.keyDown(canvas(), { key }));
+    fireEvent.keyDown(canvas(), { key: 'Enter' });
+    expect(status()).toBe(t('lock.unlocked'));
+  });
+
+  it('counts a stroke that is not a heart as a wrong try', () => {
+    renderChallenge();
+    ['ArrowRight', 'ArrowDown', 'ArrowLeft', 'ArrowUp'].forEach((key) => {
+      for (let step = 0; step < 4; step++) fireEvent.keyDown(canvas(), { key });
+    });
+    fireEvent.keyDown(canvas(), { key: 'Enter' });
+    expect(status()).toBe(t('challenge.wrong'));
+  });
+});
+
+describe('proposal', () => {
+  const script = (next: Record<string, string>) => ({
+    ...defaultScript,
+    id: 'proposal-test',
+    stages: [
+      {
+        ...proposal,
+        next,
+        content: {
+          ...proposal.content,
+          constellation: undefined,
+          noButton: { kind: 'confirm', prompts: ['Sure?', 'Really sure?'] },
+          decline: { title: 'Thank you for being honest', lines: [] },
+        },
+      },
+      letterStage('celebrate', 'Yay'),
+      letterStage('goodbye', 'Goodbye'),
+    ],
+  });
+
+  const openProposal = async () => {
+    await wait(1000);
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.revealLabel }));
+    await wait(2000);
+  };
+
+  it('stays on the proposal until "No" has played out, then completes once with "declined"', async () => {
+    render(<CombinedApp script={script({ yes: 'celebrate', default: 'goodbye' })} />);
+    await openProposal();
+
+    const no = () => screen.getByRole('button', { name: proposal.content.noLabel });
+    fireEvent.click(no());
+    expect(document.body.textContent).toContain('Sure?');
+    fireEvent.click(no());
+    expect(screen.queryByText('Goodbye')).toBeNull();
+
+    fireEvent.click(no());
+    expect(screen.getByText('Goodbye')).toBeTruthy();
+
+    // One step back is the proposal, remembering the answer, not a second "Goodbye"
+    fireEvent.click(screen.getByRole('button', { name: t('nav.back') }));
+    expect(screen.getAllByText('Thank you for being honest').length).toBeGreaterThan(0);
+  });
+
+  it('branches on "yes"', async () => {
+    render(<CombinedApp script={script({ yes: 'celebrate', declined: 'goodbye' })} />);
+    await openProposal();
+
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.yesLabel }));
+    expect(screen.getByText('Yay')).toBeTruthy();
+  });
+
+  it('stops the fireworks when the celebration goes away', async () => {
+    const frames = new Map<number, FrameRequestCallback>();
+    let lastFrame = 0;
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frames.set(++lastFrame, callback);
+      return lastFrame;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (frame: number) => frames.delete(frame));
+    const { unmount } = render(<CombinedApp script={script({ declined: 'goodbye' })} />);
+    await openProposal();
+
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.yesLabel }));
+    await wait(100);
+    expect(frames.size).toBeGreaterThan(0);
+    unmount();
+    expect(frames.size).toBe(0);
+  });
+});
+
+describe('accessibility', () => {
+  // jsdom does no layout, so contrast is left to the browser checks
+  const violations = async () => {
+    vi.useRealTimers();
+    const results = await axe.run(document.body, { rules: { 'color-contrast': { enabled: false } } });
+    return results.violations.map(({ id, nodes }) => `${id}: ${nodes.map((node) => node.target.join(' ')).join(', ')}`);
+  };
+
+  beforeEach(() => {
+    // jsdom has no scrolling; the letter keeps its newest paragraph in view
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  afterEach(() => {
+    delete (Element.prototype as Partial<Element>).scrollIntoView;
+  });
+
+  const renderStage = (stage: object) =>
+    render(<CombinedApp script={{ ...defaultScript, id: 'a11y-test', stages: [stage, letterStage('after', 'After')] }} />);
+
+  it('finds nothing on the lock', async () => {
+    render(<CombinedApp />);
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds nothing on the letter', async () => {
+    renderStage(letter);
+    await wait(5000);
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds nothing on the proposal, before and after "Yes"', async () => {
+    renderStage({ ...proposal, content: { ...proposal.content, constellation: undefined } });
+    await wait(1000);
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.revealLabel }));
+    await wait(2000);
+    expect(await violations()).toEqual([]);
+
+    vi.useFakeTimers();
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.yesLabel }));
+    await wait(1000);
+    expect(await violations()).toEqual([]);
+  });
+
+  it.each([
+    ['quiz', { kind: 'quiz', questions: [{ question: 'Where did we meet?', answers: ['Goa'], choices: ['Goa', 'Pune'] }] }],
+    ['typed quiz', { kind: 'quiz', questions: [{ question: 'Where did we meet?', answers: ['Goa'] }] }],
+    ['memory match', { kind: 'memory-match', pairs: ['🪷', '🦚'] }],
+    ['date', { kind: 'date', date: '2021-02-14' }],
+    ['draw-heart', { kind: 'draw-heart' }],
+  ])('finds nothing on the %s challenge', async (_name, challenge) => {
+    renderStage({ id: 'challenge', type: 'challenge', content: { title: 'A little test', prompt: 'Answer me', challenge, hints: ['Think'], skipLabel: 'Skip' } });
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds nothing on the jap', async () => {
+    renderStage({ id: 'jap', type: 'jap', content: { title: 'Naam jap', prompt: 'Say her name', target: 11, tapLabel: 'Count one', nextLabel: 'Next' } });
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds nothing on the gallery', async () => {
+    renderStage({
+      id: 'gallery',
+      type: 'gallery',
+      content: {
+        title: 'Us',
+        items: [{ kind: 'photo', src: 'https://example.com/a.jpg', caption: 'Goa' }, { kind: 'photo', src: 'https://example.com/b.jpg' }],
+        nextLabel: 'Next',
+      },
+    });
+    expect(await violations()).toEqual([]);
+  });
+});
+
+describe('offline', () => {
+  // Anything that would load from another host fails without a network
+  const remoteReferences = () =>
+    Array.from(document.querySelectorAll('*')).flatMap((element) =>
+      ['src', 'href', 'poster', 'style']
+        .map((name) => element.getAttribute(name) ?? '')
+        .filter((value) => /(https?:)?\/\/[^/]/i.test(value)));
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new TypeError('Failed to fetch'))));
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    // The stars gather into the constellation frame by frame
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => setTimeout(() => callback(Date.now()), 16));
+    vi.stubGlobal('cancelAnimationFrame', (frame: number) => clearTimeout(frame));
+    // The star field needs a size to place taps on
+    vi.spyOn(HTMLCanvasElement.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 400, 600));
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  afterEach(() => {
+    delete (Element.prototype as Partial<Element>).scrollIntoView;
+  });
+
+  it('goes from the lock through the letter to the answer', async () => {
+    const speech = createFakeSpeech();
+    render(
+      <SpeechRecognizerContext.Provider value={speech.backend}>
+        <CombinedApp />
+      </SpeechRecognizerContext.Provider>
+    );
+    expect(remoteReferences()).toEqual([]);
+
+    // The browser's recogniser needs its server; typing is offered instead
+    fireEvent.click(screen.getByRole('button', { name: t('lock.listenLabel') }));
+    act(() => speech.fail('network'));
+    const input = screen.getByRole('textbox');
+    fireEvent.change(input, { target: { value: 'राधा' } });
+    await act(async () => fireEvent.keyDown(input, { key: 'Enter' }));
+    await wait(1500);
+
+    expect(screen.getByText((letter.content as { title: string }).title)).toBeTruthy();
+    expect(remoteReferences()).toEqual([]);
+    // Each paragraph appears after the last has had time to be read
+    for (let second = 0; second < 300 && !screen.queryByRole('button', { name: letter.content.nextLabel }); second += 5) {
+      await wait(5000);
+    }
+    fireEvent.click(screen.getByRole('button', { name: letter.content.nextLabel }));
+
+    const sky = screen.getByRole('button', { name: t('constellation.tap') });
+    for (let tap = 0; tap < proposal.content.constellation!.taps; tap++) {
+      fireEvent.keyDown(sky, { key: 'Enter' });
+    }
+    // The shape forms, then the hint follows it
+    await wait(5000);
+    await wait(2000);
+    expect(remoteReferences()).toEqual([]);
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.revealLabel }));
+    await wait(2000);
+    fireEvent.click(screen.getByRole('button', { name: proposal.content.yesLabel }));
+    await wait(1000);
+
+    expect(screen.getByText(proposal.content.celebration!.title, { exact: false })).toBeTruthy();
+    expect(remoteReferences()).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('editor', () => {
+  afterEach(() => {
+    window.location.hash = '';
+  });
+
+  it('leaves undo in a text field to the field, and undoes edits from anywhere else', () => {
+    window.location.hash = '#/editor';
+    render(<CombinedApp />);
+    const recipient = screen.getByLabelText('Recipient') as HTMLInputElement;
+    fireEvent.change(recipient, { target: { value: 'Asha' } });
+    wait(1000);
+
+    // Not cancelled, so the browser's own undo runs in the field
+    expect(fireEvent.keyDown(recipient, { key: 'z', ctrlKey: true })).toBe(true);
+    expect(recipient.value).toBe('Asha');
+
+    expect(fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true })).toBe(false);
+    expect(recipient.value).toBe(defaultScript.recipient.name);
+    fireEvent.keyDown(document.body, { key: 'y', ctrlKey: true });
+    expect(recipient.value).toBe('Asha');
+  });
+});
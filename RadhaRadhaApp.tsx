@@ -1,763 +1,1506 @@
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useContext, useId, useMemo, useRef, type ReactNode, type KeyboardEvent as ReactKeyboardEvent, type MouseEvent as ReactMouseEvent, type PointerEvent as ReactPointerEvent, type WheelEvent as ReactWheelEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-
-// Voice Recognition Hook
-interface VoiceRecognitionOptions {
-  onResult: (transcript: string) => void;
-  onError: () => void;
-  onStart: () => void;
-}
-
-const useVoiceRecognition = ({ onResult, onError, onStart }: VoiceRecognitionOptions) => {
-  const [isSupported, setIsSupported] = useState(false);
-  const recognitionRef = useRef<any>(null);
-
-  useEffect(() => {
-    const SpeechRecognition = window.SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (SpeechRecognition) {
-      setIsSupported(true);
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = false;
-      recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = 'hi-IN';
-      
-      recognitionRef.current.onresult = (event: any) => {
-        const transcript = event.results[0][0].transcript;
-        onResult(transcript);
-      };
-      
-      recognitionRef.current.onerror = () => {
-        onError();
-      };
-      
-      recognitionRef.current.onstart = () => {
-        onStart();
-      };
-    }
-  }, [onResult, onError, onStart]);
-
-  const startListening = () => {
-    if (recognitionRef.current) {
-      recognitionRef.current.start();
-    }
-  };
-
-  return { startListening, isSupported };
-};
+import defaultScript from './experiences/radha-radha.json';
+import { AudioDirectorProvider, useAudioDirector, useAudioDirectorState } from './audioDirector';
+import { buildNightSky, buildScene, type BackgroundSettings } from './backgrounds';
+import {
+  celebrationLength,
+  defaultCelebrationTimeline,
+  renderCelebrationStill,
+  scheduleCelebration,
+  shareCelebrationStill,
+  type ScheduledCue,
+} from './celebration';
+import {
+  checkQuizAnswer,
+  compareDates,
+  createMemoryDeck,
+  flipMemoryCard,
+  isHeart,
+  isMemoryMatchSolved,
+  type ChallengeKind,
+  type ChallengeSpec,
+  type Point,
+} from './challenges';
+import { EventLogContext, createEventLog, createFetchTransport, useEventLog } from './eventLog';
+import { EDITOR_ROUTE, ExperienceEditor, useHashRoute } from './experienceEditor';
+import {
+  ExperienceScriptError,
+  loadExperienceScript,
+  readChallengeContent,
+  readGalleryContent,
+  readJapContent,
+  readLetterContent,
+  readLockContent,
+  readProposalContent,
+  type CelebrationContent,
+  type ChallengeContent,
+  type ExperienceScript,
+  type GalleryContent,
+  type JapContent,
+  type LetterAttachment,
+  type LetterContent,
+  type LockContent,
+  type ProposalContent,
+} from './experienceScript';
+import {
+  UnsealContext,
+  openSealedExperience,
+  useExperiencePackage,
+  type SealedEnvelope,
+} from './experiencePackage';
+import { createFireworks, type Fireworks } from './fireworks';
+import {
+  I18nContext,
+  LOCALES,
+  LOCALE_CODES,
+  useI18n,
+  useLocaleState,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from './i18n';
+import {
+  DEFAULT_JAP_TARGET,
+  MALA_BEADS,
+  addToJapHistory,
+  createJapCounter,
+  japStreak,
+  loadJapHistory,
+  localDayKey,
+  saveJapHistory,
+  type JapCount,
+  type JapCounter,
+} from './japCounter';
+import { createKeywordSpotterBackend } from './keywordSpotter';
+import {
+  formatLetterDate,
+  markupToPlainText,
+  parseLetterMarkup,
+  truncateMarkup,
+  type MarkupBlock,
+  type MarkupInline,
+} from './letterMarkup';
+import { kenBurnsMotion, kenBurnsTransform, useMediaSource, type MediaItem } from './media';
+import { useNarration, type NarrationState } from './narration';
+import { pickDodgePosition, pressNo } from './noButton';
+import { useOfflineSupport } from './offline';
+import { ParticleContext, createParticleEngine, useParticles, type ParticleEngine } from './particleEngine';
+import { PARTICLE_THEMES, type ParticleThemeName } from './particleThemes';
+import { createPassphraseMatcher } from './passphraseMatcher';
+import { useExperienceProgress } from './progressStore';
+import { useRevealController, type RevealMode, type RevealSettings } from './revealController';
+import { StagePipeline, createStageRegistry, defineStage, useStageMemory, type StageProps } from './stagePipeline';
+import { createStarField, heartShape, textShape, type ConstellationShape, type StarField } from './starField';
+import { useParallax } from './useParallax';
+import { setReducedMotionPreference, useReducedMotion, useSystemReducedMotion } from './useReducedMotion';
+import {
+  SpeechRecognizerContext,
+  preferBackend,
+  useVoiceRecognition,
+  type VoiceRecognitionErrorKind,
+} from './useVoiceRecognition';
 
 // Particle System Component
-interface Particle {
-  id: string;
-  type: 'heart' | 'star' | 'flower' | 'om' | 'peacock';
-  x: number;
-  y: number;
-  size: number;
-  duration: number;
-  delay: number;
+// The canvas behind every stage; the stages inside it throw their celebration
+// bursts onto it through useParticles.
+interface ParticleSystemProps {
+  theme?: ParticleThemeName;
+  density?: number;
+  children?: ReactNode;
 }
 
-const ParticleSystem = () => {
-  const [particles, setParticles] = useState<Particle[]>([]);
+const ParticleSystem = ({ theme = 'vrindavan', density = 1, children }: ParticleSystemProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const reducedMotion = useReducedMotion();
+  const [engine, setEngine] = useState<ParticleEngine | null>(null);
 
   useEffect(() => {
-    const generateParticles = () => {
-      const newParticles: Particle[] = [];
-      const particleTypes: Particle['type'][] = ['heart', 'star', 'flower', 'om', 'peacock'];
-      
-      for (let i = 0; i < 20; i++) {
-        const particle: Particle = {
-          id: `particle-${i}`,
-          type: particleTypes[Math.floor(Math.random() * particleTypes.length)],
-          x: Math.random() * 100,
-          y: Math.random() * 100,
-          size: Math.random() * 30 + 10,
-          duration: Math.random() * 10 + 5,
-          delay: Math.random() * 5,
-        };
-        newParticles.push(particle);
-      }
-      
-      setParticles(newParticles);
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const created = createParticleEngine(canvas, {
+      theme: PARTICLE_THEMES[theme],
+      overlay: overlayRef.current ?? undefined,
+      density,
+      reducedMotion,
+    });
+    const handleResize = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      created.resize(width, height, window.devicePixelRatio);
+    };
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    setEngine(created);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      created.dispose();
     };
-
-    generateParticles();
-    const interval = setInterval(generateParticles, 15000);
-    return () => clearInterval(interval);
   }, []);
 
-  const getParticleEmoji = (type: Particle['type']) => {
-    switch (type) {
-      case 'heart': return '💕';
-      case 'star': return '⭐';
-      case 'flower': return '🌸';
-      case 'om': return '🕉️';
-      case 'peacock': return '🦚';
-      default: return '✨';
-    }
-  };
+  useEffect(() => engine?.setTheme(PARTICLE_THEMES[theme]), [engine, theme]);
+  useEffect(() => engine?.setDensity(density), [engine, density]);
+  useEffect(() => engine?.setReducedMotion(reducedMotion), [engine, reducedMotion]);
 
   return (
-    <div className="fixed inset-0 pointer-events-none z-10">
-      {particles.map((particle) => (
-        <div
-          key={particle.id}
-          className="absolute animate-drift opacity-60"
-          style={{
-            left: `${particle.x}%`,
-            top: `${particle.y}%`,
-            fontSize: `${particle.size}px`,
-            animationDuration: `${particle.duration}s`,
-            animationDelay: `${particle.delay}s`,
-          }}
-        >
-          {getParticleEmoji(particle.type)}
-        </div>
-      ))}
-    </div>
+    <ParticleContext.Provider value={engine}>
+      <canvas ref={canvasRef} className="fixed inset-0 w-full h-full pointer-events-none z-10" aria-hidden="true" />
+      {children}
+      {/* Bursts show above the stages and their controls, as the old DOM particles did */}
+      <canvas ref={overlayRef} className="fixed inset-0 w-full h-full pointer-events-none z-[51]" aria-hidden="true" />
+    </ParticleContext.Provider>
   );
 };
 
 // Background Music Component
-interface BackgroundMusicProps {
-  isPlaying: boolean;
-  onToggle: () => void;
-}
-
-const BackgroundMusic = ({ isPlaying, onToggle }: BackgroundMusicProps) => {
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const oscillatorRef = useRef<OscillatorNode | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
-  const [isSupported, setIsSupported] = useState(true);
+// The on/off toggle and volume for whatever track the current stage is playing
+const BackgroundMusic = () => {
+  const director = useAudioDirector();
+  const { enabled, volume, hasTrack } = useAudioDirectorState(director);
+  const [showVolume, setShowVolume] = useState(false);
+  const { t } = useI18n();
+  const reducedMotion = useReducedMotion();
+
+  if (!director || !hasTrack) {
+    return null;
+  }
 
-  useEffect(() => {
+  const handleToggle = async () => {
     try {
-      if (!window.AudioContext && !(window as any).webkitAudioContext) {
-        setIsSupported(false);
-        return;
-      }
-
-      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-      audioContextRef.current = new AudioContext();
-      
-      gainNodeRef.current = audioContextRef.current.createGain();
-      gainNodeRef.current.gain.value = 0.08;
-      
-      const delayNode = audioContextRef.current.createDelay();
-      const delayGain = audioContextRef.current.createGain();
-      delayNode.delayTime.value = 0.3;
-      delayGain.gain.value = 0.2;
-      
-      gainNodeRef.current.connect(delayNode);
-      delayNode.connect(delayGain);
-      delayGain.connect(delayNode);
-      delayGain.connect(audioContextRef.current.destination);
-      gainNodeRef.current.connect(audioContextRef.current.destination);
-
+      await director.setEnabled(!enabled);
     } catch (error) {
-      console.error('Audio context creation failed:', error);
-      setIsSupported(false);
-    }
-
-    return () => {
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    if (!isSupported || !audioContextRef.current || !gainNodeRef.current) return;
-
-    if (isPlaying) {
-      startMusic();
-    } else {
-      stopMusic();
-    }
-
-    return () => {
-      stopMusic();
-    };
-  }, [isPlaying, isSupported]);
-
-  const startMusic = async () => {
-    if (!audioContextRef.current || !gainNodeRef.current) return;
-    
-    if (audioContextRef.current.state === 'suspended') {
-      try {
-        await audioContextRef.current.resume();
-      } catch (error) {
-        console.error('Failed to resume AudioContext:', error);
-        return;
-      }
+      console.error('Failed to resume AudioContext:', error);
     }
+  };
 
-    const playNote = (frequency: number, startTime: number, duration: number, volume: number = 1.0) => {
-      const oscillator = audioContextRef.current!.createOscillator();
-      const noteGain = audioContextRef.current!.createGain();
-      
-      oscillator.type = 'sine';
-      oscillator.frequency.value = frequency;
-      
-      const baseVolume = 0.03 * volume;
-      noteGain.gain.setValueAtTime(0, startTime);
-      noteGain.gain.linearRampToValueAtTime(baseVolume, startTime + 0.2);
-      noteGain.gain.exponentialRampToValueAtTime(baseVolume * 0.5, startTime + duration - 0.2);
-      noteGain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
-      
-      oscillator.connect(noteGain);
-      noteGain.connect(gainNodeRef.current!);
-      
-      oscillator.start(startTime);
-      oscillator.stop(startTime + duration);
-    };
+  return (
+    <div
+      className="fixed top-4 right-4 z-50 flex items-center gap-2"
+      onMouseEnter={() => setShowVolume(true)}
+      onMouseLeave={() => setShowVolume(false)}
+    >
+      {showVolume && enabled && (
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(e) => director.setVolume(Number(e.target.value))}
+          className="w-24 accent-pink-500 animate-fadeIn"
+          aria-label={t('music.volume')}
+        />
+      )}
+      <button
+        onClick={handleToggle}
+        onFocus={() => setShowVolume(true)}
+        className={`bg-romantic/80 hover:bg-romantic text-white p-3 rounded-full transition-all duration-300 shadow-lg ${reducedMotion ? '' : 'animate-pulse'}`}
+        title={enabled ? t('music.pause') : t('music.play')}
+        aria-label={enabled ? t('music.pause') : t('music.play')}
+      >
+        {enabled ? '🔊' : '🔇'}
+      </button>
+    </div>
+  );
+};
 
-    const melody = [
-      { note: 261.63, duration: 1.0 }, // C4 - Sa
-      { note: 293.66, duration: 1.0 }, // D4 - Re
-      { note: 329.63, duration: 1.2 }, // E4 - Ga
-      { note: 392.00, duration: 1.5 }, // G4 - Pa
-      { note: 349.23, duration: 1.0 }, // F4 - Ma
-      { note: 329.63, duration: 1.8 }, // E4 - Ga
-      { note: 440.00, duration: 1.2 }, // A4 - Dha
-      { note: 392.00, duration: 1.5 }, // G4 - Pa
-      { note: 349.23, duration: 1.0 }, // F4 - Ma
-      { note: 329.63, duration: 2.0 }, // E4 - Ga
-    ];
-
-    let currentTime = audioContextRef.current.currentTime;
-    
-    const playMelody = () => {
-      melody.forEach((note, index) => {
-        playNote(note.note, currentTime, note.duration);
-        
-        if (index % 3 === 0) {
-          playNote(note.note * 1.5, currentTime, note.duration, 0.3);
-        }
-        
-        if (index % 4 === 0) {
-          playNote(note.note * 2, currentTime + 0.1, note.duration * 0.8, 0.2);
-        }
-        
-        currentTime += note.duration;
-      });
-      
-      setTimeout(() => {
-        if (isPlaying) playMelody();
-      }, melody.reduce((sum, note) => sum + note.duration, 0) * 1000);
-    };
+// Scene Background Component
+// Layers further "forward" shift further as the pointer moves or the phone tilts
+const PARALLAX_SHIFT = 24;
 
-    playMelody();
-  };
+interface SceneBackgroundProps {
+  settings: BackgroundSettings;
+}
 
-  const stopMusic = () => {
-    if (oscillatorRef.current) {
-      oscillatorRef.current.stop();
-      oscillatorRef.current = null;
-    }
-  };
+const SceneBackground = ({ settings }: SceneBackgroundProps) => {
+  const reducedMotion = useReducedMotion();
+  const tilt = useParallax(settings.parallax && !reducedMotion);
+  const scene = useMemo(() => buildScene(settings), [settings]);
+  // Unique per instance, so two scenes on a page keep their own gradient
+  const skyId = `sky-${useId().replace(/:/g, '')}`;
 
-  if (!isSupported) {
-    return null;
-  }
+  return (
+    <div className="absolute inset-0 overflow-hidden opacity-10" aria-hidden="true">
+      <svg
+        width="100%"
+        height="100%"
+        viewBox="0 0 800 600"
+        preserveAspectRatio="xMidYMid slice"
+        className="absolute inset-0 w-full h-full"
+      >
+        <defs>
+          <radialGradient id={skyId} cx="50%" cy="50%" r="70%">
+            {scene.sky.map((color, index) => (
+              <stop key={index} offset={`${(index / Math.max(1, scene.sky.length - 1)) * 100}%`} stopColor={color} stopOpacity={Math.max(0.1, 0.3 - index * 0.1)} />
+            ))}
+          </radialGradient>
+        </defs>
 
-  const handleToggle = async () => {
-    if (!isPlaying && audioContextRef.current?.state === 'suspended') {
-      try {
-        await audioContextRef.current.resume();
-      } catch (error) {
-        console.error('Failed to resume AudioContext:', error);
-      }
-    }
-    onToggle();
-  };
+        <rect width="800" height="600" fill={`url(#${skyId})`} />
 
-  return (
-    <button
-      onClick={handleToggle}
-      className="fixed top-4 right-4 z-40 bg-romantic/80 hover:bg-romantic text-white p-3 rounded-full transition-all duration-300 shadow-lg animate-pulse"
-      title={isPlaying ? "Pause music" : "Play music"}
-    >
-      {isPlaying ? '🔊' : '🔇'}
-    </button>
+        {scene.layers.map((layer, index) => (
+          <g
+            key={index}
+            style={{
+              transform: `translate(${tilt.x * layer.depth * -PARALLAX_SHIFT}px, ${tilt.y * layer.depth * -PARALLAX_SHIFT}px)`,
+              transition: 'transform 0.3s ease-out',
+            }}
+          >
+            {layer.paths.map((path, pathIndex) => (
+              <path
+                key={pathIndex}
+                d={path.d}
+                fill={path.fill}
+                stroke={path.stroke}
+                strokeWidth={path.strokeWidth}
+                opacity={path.opacity}
+              />
+            ))}
+          </g>
+        ))}
+      </svg>
+    </div>
   );
 };
 
-// Radha Krishna Background Component
-const RadhaKrishnaBackground = () => {
+// Night Sky Component
+// Generated, so the proposal's backdrop needs no download
+const NightSky = () => {
+  const sky = useMemo(() => buildNightSky(), []);
+  const skyId = `night-${useId().replace(/:/g, '')}`;
+
   return (
-    <div className="absolute inset-0 overflow-hidden opacity-10">
+    <div className="absolute inset-0 overflow-hidden" aria-hidden="true">
       <svg
         width="100%"
         height="100%"
         viewBox="0 0 800 600"
-        className="absolute inset-0 w-full h-full object-cover"
+        preserveAspectRatio="xMidYMid slice"
+        className="absolute inset-0 w-full h-full"
       >
         <defs>
-          <radialGradient id="backgroundGradient" cx="50%" cy="50%" r="70%">
-            <stop offset="0%" stopColor="#ffd700" stopOpacity="0.3" />
-            <stop offset="50%" stopColor="#ff69b4" stopOpacity="0.2" />
-            <stop offset="100%" stopColor="#9370db" stopOpacity="0.1" />
+          <radialGradient id={skyId} cx="50%" cy="35%" r="80%">
+            {sky.sky.map((color, index) => (
+              <stop key={index} offset={`${(index / Math.max(1, sky.sky.length - 1)) * 100}%`} stopColor={color} />
+            ))}
           </radialGradient>
-          
-          <linearGradient id="petalGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" stopColor="#ff69b4" />
-            <stop offset="100%" stopColor="#ff1493" />
-          </linearGradient>
-          
-          <linearGradient id="leafGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" stopColor="#32cd32" />
-            <stop offset="100%" stopColor="#228b22" />
-          </linearGradient>
         </defs>
-        
-        <rect width="800" height="600" fill="url(#backgroundGradient)" />
-        
-        {/* Floating lotus flowers */}
-        <g className="lotus-group">
-          <g transform="translate(100, 100)">
-            <circle cx="25" cy="25" r="30" fill="#ff69b4" opacity="0.3" />
-            <path d="M25 5 L35 25 L25 45 L15 25 Z" fill="url(#petalGradient)" />
-            <path d="M5 25 L25 15 L45 25 L25 35 Z" fill="url(#petalGradient)" />
-            <path d="M15 15 L35 15 L35 35 L15 35 Z" fill="url(#petalGradient)" transform="rotate(45 25 25)" />
-            <circle cx="25" cy="25" r="8" fill="#ffd700" />
-          </g>
-          
-          <g transform="translate(650, 150)">
-            <circle cx="25" cy="25" r="25" fill="#ff69b4" opacity="0.3" />
-            <path d="M25 8 L32 25 L25 42 L18 25 Z" fill="url(#petalGradient)" />
-            <path d="M8 25 L25 18 L42 25 L25 32 Z" fill="url(#petalGradient)" />
-            <path d="M18 18 L32 18 L32 32 L18 32 Z" fill="url(#petalGradient)" transform="rotate(45 25 25)" />
-            <circle cx="25" cy="25" r="6" fill="#ffd700" />
-          </g>
-          
-          <g transform="translate(500, 450)">
-            <circle cx="25" cy="25" r="35" fill="#ff69b4" opacity="0.3" />
-            <path d="M25 3 L37 25 L25 47 L13 25 Z" fill="url(#petalGradient)" />
-            <path d="M3 25 L25 13 L47 25 L25 37 Z" fill="url(#petalGradient)" />
-            <path d="M13 13 L37 13 L37 37 L13 37 Z" fill="url(#petalGradient)" transform="rotate(45 25 25)" />
-            <circle cx="25" cy="25" r="10" fill="#ffd700" />
-          </g>
-        </g>
-        
-        {/* Peacock feathers */}
-        <g className="peacock-feathers">
-          <g transform="translate(200, 50)">
-            <path d="M0 0 Q50 20 100 0 Q80 50 50 100 Q20 50 0 0" fill="#4169e1" opacity="0.6" />
-            <ellipse cx="75" cy="25" rx="15" ry="10" fill="#32cd32" />
-            <ellipse cx="75" cy="25" rx="8" ry="5" fill="#ffd700" />
-            <circle cx="75" cy="25" r="3" fill="#000080" />
-          </g>
-          
-          <g transform="translate(550, 300) rotate(45)">
-            <path d="M0 0 Q40 15 80 0 Q65 40 40 80 Q15 40 0 0" fill="#4169e1" opacity="0.6" />
-            <ellipse cx="60" cy="20" rx="12" ry="8" fill="#32cd32" />
-            <ellipse cx="60" cy="20" rx="6" ry="4" fill="#ffd700" />
-            <circle cx="60" cy="20" r="2" fill="#000080" />
-          </g>
-        </g>
-        
-        {/* Divine figures silhouettes */}
-        <g className="divine-figures" opacity="0.4">
-          <g transform="translate(250, 200)">
-            <circle cx="30" cy="30" r="20" fill="#ff69b4" />
-            <path d="M10 50 Q30 40 50 50 L50 150 Q30 160 10 150 Z" fill="#ff69b4" />
-            <path d="M20 70 Q30 60 40 70 L40 130 Q30 140 20 130 Z" fill="#ff1493" />
-            <path d="M5 45 Q15 35 25 45 L25 55 Q15 65 5 55 Z" fill="#ff69b4" />
-            <path d="M35 45 Q45 35 55 45 L55 55 Q45 65 35 55 Z" fill="#ff69b4" />
-          </g>
-          
-          <g transform="translate(450, 200)">
-            <circle cx="30" cy="30" r="20" fill="#4169e1" />
-            <path d="M10 50 Q30 40 50 50 L50 150 Q30 160 10 150 Z" fill="#4169e1" />
-            <path d="M20 70 Q30 60 40 70 L40 130 Q30 140 20 130 Z" fill="#000080" />
-            <path d="M5 45 Q15 35 25 45 L25 55 Q15 65 5 55 Z" fill="#4169e1" />
-            <path d="M35 45 Q45 35 55 45 L55 55 Q45 65 35 55 Z" fill="#4169e1" />
-            <circle cx="30" cy="15" r="3" fill="#ffd700" />
-          </g>
-        </g>
-        
-        {/* Floating hearts */}
-        <g className="floating-hearts">
-          <g transform="translate(150, 300)">
-            <path d="M20,30 C20,25 25,20 30,25 C35,20 40,25 40,30 C40,35 30,45 20,30 Z" fill="#ff69b4" opacity="0.5" />
-          </g>
-          <g transform="translate(600, 100)">
-            <path d="M15,25 C15,20 20,15 25,20 C30,15 35,20 35,25 C35,30 25,40 15,25 Z" fill="#ff69b4" opacity="0.5" />
-          </g>
-          <g transform="translate(350, 400)">
-            <path d="M18,28 C18,23 23,18 28,23 C33,18 38,23 38,28 C38,33 28,43 18,28 Z" fill="#ff69b4" opacity="0.5" />
-          </g>
-        </g>
-        
-        {/* Om symbols */}
-        <g className="om-symbols">
-          <g transform="translate(80, 400)">
-            <text x="0" y="0" fontSize="40" fill="#ffd700" opacity="0.6" fontFamily="serif">🕉️</text>
-          </g>
-          <g transform="translate(700, 450)">
-            <text x="0" y="0" fontSize="30" fill="#ffd700" opacity="0.6" fontFamily="serif">🕉️</text>
-          </g>
-        </g>
-        
-        {/* Decorative mandala patterns */}
-        <g className="mandala-patterns">
-          <g transform="translate(400, 300)">
-            <circle cx="0" cy="0" r="80" fill="none" stroke="#ffd700" strokeWidth="2" opacity="0.3" />
-            <circle cx="0" cy="0" r="60" fill="none" stroke="#ff69b4" strokeWidth="1" opacity="0.3" />
-            <circle cx="0" cy="0" r="40" fill="none" stroke="#4169e1" strokeWidth="1" opacity="0.3" />
-            <circle cx="0" cy="0" r="20" fill="none" stroke="#32cd32" strokeWidth="1" opacity="0.3" />
-          </g>
-        </g>
-        
-        {/* Scattered flower petals */}
-        <g className="scattered-petals">
-          <ellipse cx="120" cy="180" rx="8" ry="4" fill="#ff69b4" opacity="0.4" transform="rotate(30 120 180)" />
-          <ellipse cx="680" cy="250" rx="6" ry="3" fill="#ff69b4" opacity="0.4" transform="rotate(-45 680 250)" />
-          <ellipse cx="300" cy="500" rx="7" ry="4" fill="#ff69b4" opacity="0.4" transform="rotate(60 300 500)" />
-          <ellipse cx="580" cy="380" rx="5" ry="3" fill="#ff69b4" opacity="0.4" transform="rotate(-30 580 380)" />
-          <ellipse cx="180" cy="450" rx="6" ry="4" fill="#ff69b4" opacity="0.4" transform="rotate(90 180 450)" />
-        </g>
+
+        <rect width="800" height="600" fill={`url(#${skyId})`} />
+
+        {sky.layers.flatMap((layer) => layer.paths).map((path, index) => (
+          <path key={index} d={path.d} fill={path.fill} stroke={path.stroke} strokeWidth={path.strokeWidth} opacity={path.opacity} />
+        ))}
       </svg>
     </div>
   );
 };
 
 // Star Canvas Component
-const StarCanvas = () => {
+// With a constellation, taps link stars until they form its shape; from the
+// keyboard, Enter or Space links the star nearest a random spot.
+interface StarCanvasProps {
+  constellation?: { taps: number; shape: ConstellationShape };
+  // Accessible name while the constellation is being linked
+  label?: string;
+  onConnect?: (connected: number) => void;
+  onFormed?: () => void;
+}
+
+const StarCanvas = ({ constellation, label, onConnect, onFormed }: StarCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fieldRef = useRef<StarField | null>(null);
+  const reducedMotion = useReducedMotion();
+  const callbacksRef = useRef({ onConnect, onFormed });
+  callbacksRef.current = { onConnect, onFormed };
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-
-    const stars: Array<{x: number, y: number, size: number, opacity: number}> = [];
-
-    // Create stars
-    for (let i = 0; i < 100; i++) {
-      stars.push({
-        x: Math.random() * canvas.width,
-        y: Math.random() * canvas.height,
-        size: Math.random() * 3 + 1,
-        opacity: Math.random()
-      });
-    }
-
-    const animate = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      stars.forEach(star => {
-        ctx.beginPath();
-        ctx.arc(star.x, star.y, star.size, 0, Math.PI * 2);
-        ctx.fillStyle = `rgba(255, 255, 255, ${star.opacity})`;
-        ctx.fill();
-        
-        // Twinkle effect
-        star.opacity += (Math.random() - 0.5) * 0.02;
-        star.opacity = Math.max(0.1, Math.min(1, star.opacity));
-      });
-
-      requestAnimationFrame(animate);
-    };
-
-    animate();
+    const field = createStarField(canvas, {
+      constellation,
+      reducedMotion,
+      onConnect: (connected) => callbacksRef.current.onConnect?.(connected),
+      onFormed: () => callbacksRef.current.onFormed?.(),
+    });
+    fieldRef.current = field;
 
-    const handleClick = (e: MouseEvent) => {
+    const resize = () => {
       const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-
-      // Add sparkle effect at click position
-      for (let i = 0; i < 5; i++) {
-        stars.push({
-          x: x + (Math.random() - 0.5) * 50,
-          y: y + (Math.random() - 0.5) * 50,
-          size: Math.random() * 4 + 2,
-          opacity: 1
-        });
-      }
+      field.resize(rect.width, rect.height, window.devicePixelRatio);
     };
-
-    canvas.addEventListener('click', handleClick);
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
 
     return () => {
-      canvas.removeEventListener('click', handleClick);
+      observer.disconnect();
+      field.dispose();
+      fieldRef.current = null;
     };
-  }, []);
+  }, [constellation, reducedMotion]);
+
+  const handleKeyDown = (event: ReactKeyboardEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas || (event.key !== 'Enter' && event.key !== ' ')) return;
+    event.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    fieldRef.current?.tap(Math.random() * rect.width, Math.random() * rect.height);
+  };
+
+  const interactive = constellation !== undefined && label !== undefined;
 
   return (
     <canvas
       ref={canvasRef}
-      className="absolute inset-0 w-full h-full"
+      className="absolute inset-0 w-full h-full outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-yellow-300"
       style={{ zIndex: 1 }}
+      {...(interactive
+        ? { role: 'button', tabIndex: 0, 'aria-label': label, onKeyDown: handleKeyDown, 'data-autofocus': true }
+        : { 'aria-hidden': true })}
     />
   );
 };
 
-// Lock Screen Component
-interface LockScreenProps {
-  onUnlock: () => void;
+// Lock Frame Component
+// The lock, its sparkles and the status line under it, shared by the voice
+// lock and the challenges so every step to the letter looks alike. The voice
+// lock's icon is itself a button; a challenge's is only a picture.
+interface LockFrameProps {
+  icon: string;
+  heading: ReactNode;
+  status: string;
+  lockButton?: { label: string; busy: boolean; onClick: () => void };
+  children?: ReactNode;
 }
 
-const LockScreen = ({ onUnlock }: LockScreenProps) => {
+const LockFrame = ({ icon, heading, status, lockButton, children }: LockFrameProps) => {
+  const reducedMotion = useReducedMotion();
+  const statusId = useId();
+  const float = reducedMotion ? '' : 'animate-float';
+  const iconClass = `text-8xl md:text-9xl text-golden mb-6 rounded-full px-4 ${reducedMotion ? '' : 'animate-pulse-glow'}`;
+
+  return (
+    <div className="gradient-bg min-h-screen flex items-center justify-center relative">
+      {/* Floating Elements - Radha Krishna themed */}
+      <div aria-hidden="true">
+        <div className={`floating-element top-20 left-20 text-4xl ${float}`}>🌸</div>
+        <div className={`floating-element top-32 right-32 text-3xl ${float}`} style={{ animationDelay: '1s' }}>🕉️</div>
+        <div className={`floating-element bottom-20 left-32 text-2xl ${float}`} style={{ animationDelay: '2s' }}>🦚</div>
+        <div className={`floating-element bottom-32 right-20 text-4xl ${float}`} style={{ animationDelay: '0.5s' }}>🌺</div>
+        <div className={`floating-element top-1/2 left-10 text-2xl ${float}`} style={{ animationDelay: '1.5s' }}>💕</div>
+        <div className={`floating-element top-1/4 right-10 text-3xl ${float}`} style={{ animationDelay: '2.5s' }}>🙏</div>
+      </div>
+
+      <div className="container mx-auto px-4 text-center relative z-10">
+        {/* Lock Container */}
+        <div className="relative mb-8">
+          {lockButton ? (
+            <button
+              type="button"
+              onClick={lockButton.onClick}
+              aria-busy={lockButton.busy}
+              aria-label={lockButton.label}
+              aria-describedby={statusId}
+              data-autofocus
+              className={`${iconClass} cursor-pointer outline-none focus-visible:ring-4 focus-visible:ring-yellow-300`}
+            >
+              {icon}
+            </button>
+          ) : (
+            <div className={`${iconClass} inline-block`} aria-hidden="true">{icon}</div>
+          )}
+          
+          {/* Sparkle effects */}
+          {!reducedMotion && (
+            <div aria-hidden="true">
+              <div className="sparkle-effect top-0 left-1/4" style={{ animationDelay: '0s' }}></div>
+              <div className="sparkle-effect top-1/4 right-1/4" style={{ animationDelay: '0.5s' }}></div>
+              <div className="sparkle-effect bottom-1/4 left-1/2" style={{ animationDelay: '1s' }}></div>
+            </div>
+          )}
+          
+          <h2 className="text-xl md:text-2xl font-lato text-light mb-4 animate-fadeIn glow-text">
+            {heading}
+          </h2>
+        </div>
+        
+        <p id={statusId} role="status" className="text-lg md:text-xl text-light text-center mt-8 animate-slideIn min-h-[60px] flex items-center justify-center">
+          {status}
+        </p>
+
+        {children}
+      </div>
+    </div>
+  );
+};
+
+// Lock Screen Component
+const VOICE_ERROR_STATUS: Record<VoiceRecognitionErrorKind, MessageKey> = {
+  'not-allowed': 'lock.notAllowed',
+  'no-speech': 'lock.noSpeech',
+  'network': 'lock.network',
+  'audio-capture': 'lock.audioCapture',
+  'no-match': 'lock.noMatch',
+  'timeout': 'lock.timeout',
+  'unknown': 'lock.unknown',
+};
+
+// Errors the user cannot fix by simply trying again bring up the typed fallback
+const FALLBACK_ERRORS: VoiceRecognitionErrorKind[] = ['not-allowed', 'network', 'audio-capture'];
+
+// The status is kept as a message rather than text so it follows a language
+// switch; null shows the script's prompt
+type LockStatus = { key: MessageKey; params?: MessageParams } | null;
+
+const LockScreen = ({ content, onComplete }: StageProps<LockContent>) => {
   const [showFallback, setShowFallback] = useState(false);
   const [fallbackValue, setFallbackValue] = useState('');
-  const [status, setStatus] = useState('राधा रानी का नाम बोलकर ताले पर टैप करो... ✨');
+  const [status, setStatus] = useState<LockStatus>(null);
+  const { locale, t } = useI18n();
   const [lockIcon, setLockIcon] = useState('🔒');
-  const [isListening, setIsListening] = useState(false);
-
-  const { startListening, isSupported } = useVoiceRecognition({
-    onResult: (transcript) => {
-      const lowerTranscript = transcript.toLowerCase();
-      if (lowerTranscript.includes('radha radha') || 
-          lowerTranscript.includes('राधा राधा') || 
-          lowerTranscript.includes('radha') || 
-          lowerTranscript.includes('राधा')) {
+  const [interimTranscript, setInterimTranscript] = useState('');
+
+  const matcher = useMemo(() => createPassphraseMatcher({
+    passphrases: content.keywords,
+    mode: content.matchMode,
+    threshold: content.matchThreshold,
+  }), [content]);
+
+  // A sealed lock has no keywords to compare with: what was heard is tried as
+  // the key to the rest of the experience.
+  const unseal = useContext(UnsealContext);
+  const [checking, setChecking] = useState(false);
+  const eventLog = useEventLog();
+  const check = async (heard: string[]) => {
+    if (!content.sealed) return matcher.matchAny(heard).matched;
+    if (!unseal) return false;
+    setChecking(true);
+    setStatus({ key: 'lock.checkingSeal' });
+    try {
+      return await unseal(heard);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const verify = async (heard: string[], method: 'voice' | 'typed') => {
+    const success = await check(heard);
+    eventLog?.record({ type: 'unlock-attempt', method, transcripts: heard, success });
+    return success;
+  };
+
+  // Read at unlock time: a sealed experience swaps in its real stages while the
+  // lock animates open
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Browser recognition first; the on-device spotter covers browsers without
+  // it and takes over entirely once the browser engine reports no network.
+  const browserBackend = useContext(SpeechRecognizerContext);
+  const [offlineOnly, setOfflineOnly] = useState(false);
+  const offlineBackend = useMemo(
+    () => (content.offlineModel ? createKeywordSpotterBackend(content.offlineModel) : null),
+    [content.offlineModel]
+  );
+  const backend = useMemo(() => {
+    if (!offlineBackend) return browserBackend;
+    return offlineOnly ? offlineBackend : preferBackend(browserBackend, offlineBackend);
+  }, [browserBackend, offlineBackend, offlineOnly]);
+
+  const { startListening, abort, isSupported, isListening } = useVoiceRecognition({
+    backend,
+    lang: LOCALES[locale].recognitionLang,
+    timeoutMs: 10000,
+    onResult: async (transcripts) => {
+      setInterimTranscript('');
+      if (await verify(transcripts, 'voice')) {
         handleUnlock();
       } else {
-        setStatus(`ऊप्स! मैंने सुना: "${transcript}"... फिर से कोशिश करो 😉`);
+        setStatus({ key: 'lock.heardWrong', params: { heard: transcripts[0] } });
         setTimeout(() => {
-          setStatus('राधा रानी का नाम बोलकर ताले पर टैप करो... ✨');
+          setStatus(null);
         }, 3000);
       }
-      setIsListening(false);
     },
-    onError: () => {
-      setStatus('कुछ गड़बड़ हुई, फिर से कोशिश करें।');
+    onInterim: (transcript) => {
+      setInterimTranscript(transcript);
+    },
+    onError: (kind) => {
+      setInterimTranscript('');
+      if (kind === 'network' && offlineBackend && !offlineOnly) {
+        setOfflineOnly(true);
+        setStatus({ key: 'lock.offline' });
+        return;
+      }
+      setStatus({ key: VOICE_ERROR_STATUS[kind] });
+      if (FALLBACK_ERRORS.includes(kind)) {
+        setShowFallback(true);
+        return;
+      }
       setTimeout(() => {
-        setStatus('राधा रानी का नाम बोलकर ताले पर टैप करो... ✨');
-      }, 2000);
-      setIsListening(false);
+        setStatus(null);
+      }, 3000);
     },
     onStart: () => {
-      setStatus('मैं ध्यान से सुन रहा हूँ... 🤫');
-      setIsListening(true);
+      setStatus({ key: 'lock.listening' });
     }
   });
 
   useEffect(() => {
     if (!isSupported) {
-      setStatus('माफ़ करना, आपका ब्राउज़र यह जादू नहीं चला सकता। नीचे दिए बॉक्स में राधा रानी का नाम टाइप करें।');
+      setStatus({ key: 'lock.unsupported' });
       setShowFallback(true);
     }
   }, [isSupported]);
 
   const handleUnlock = () => {
-    setStatus('ताला खुल गया! 🔓🎉');
+    setStatus({ key: 'lock.unlocked' });
     setLockIcon('🔓');
     setTimeout(() => {
-      onUnlock();
+      onCompleteRef.current();
     }, 1500);
   };
 
   const handleLockClick = () => {
-    if (isSupported && !isListening) {
+    if (!isSupported || checking) return;
+    if (isListening) {
+      // A second tap cancels the attempt
+      abort();
+      setInterimTranscript('');
+      setStatus(null);
+    } else {
       startListening();
     }
   };
 
-  const handleFallbackSubmit = () => {
-    const lowerValue = fallbackValue.toLowerCase();
-    if (lowerValue.includes('radha radha') || 
-        lowerValue.includes('राधा राधा') || 
-        lowerValue.includes('radha') || 
-        lowerValue.includes('राधा')) {
+  const handleFallbackSubmit = async () => {
+    if (checking) return;
+    if (await verify([fallbackValue], 'typed')) {
       handleUnlock();
     } else {
-      setStatus('ऊप्स! गलत शब्द... फिर से कोशिश करो 😉');
+      setStatus({ key: 'lock.wrongWord' });
       setTimeout(() => {
-        setStatus('राधा रानी का नाम बोलकर ताले पर टैप करो... ✨');
+        setStatus(null);
       }, 2000);
     }
   };
 
   return (
-    <div className="gradient-bg min-h-screen flex items-center justify-center relative">
-      {/* Floating Elements - Radha Krishna themed */}
-      <div className="floating-element top-20 left-20 text-4xl animate-float">🌸</div>
-      <div className="floating-element top-32 right-32 text-3xl animate-float" style={{ animationDelay: '1s' }}>🕉️</div>
-      <div className="floating-element bottom-20 left-32 text-2xl animate-float" style={{ animationDelay: '2s' }}>🦚</div>
-      <div className="floating-element bottom-32 right-20 text-4xl animate-float" style={{ animationDelay: '0.5s' }}>🌺</div>
-      <div className="floating-element top-1/2 left-10 text-2xl animate-float" style={{ animationDelay: '1.5s' }}>💕</div>
-      <div className="floating-element top-1/4 right-10 text-3xl animate-float" style={{ animationDelay: '2.5s' }}>🙏</div>
-
-      <div className="container mx-auto px-4 text-center relative z-10">
-        {/* Lock Container */}
-        <div 
-          className="relative cursor-pointer mb-8"
-          onClick={handleLockClick}
-        >
-          <div className={`text-8xl md:text-9xl text-golden mb-6 ${isListening ? 'animate-pulse-glow' : 'animate-pulse-glow'}`}>
-            {lockIcon}
-          </div>
-          
-          {/* Sparkle effects */}
-          <div className="sparkle-effect top-0 left-1/4" style={{ animationDelay: '0s' }}></div>
-          <div className="sparkle-effect top-1/4 right-1/4" style={{ animationDelay: '0.5s' }}></div>
-          <div className="sparkle-effect bottom-1/4 left-1/2" style={{ animationDelay: '1s' }}></div>
-          
-          <h2 className="text-xl md:text-2xl font-lato text-light mb-4 animate-fadeIn glow-text">
-            🌸 राधे राधे मेरी प्यारी अन्नु 🌸<br />
-            इस ख़त में एक राज़ है... इसे खोलने की चाबी तुम्हारी आवाज़ है 🗣️<br />
-            <span className="text-sm text-golden">🕉️ राधा कृष्ण का आशीर्वाद तुम्हारे साथ 🕉️</span>
-          </h2>
-        </div>
-        
-        <p className="text-lg md:text-xl text-light text-center mt-8 animate-slideIn min-h-[60px] flex items-center justify-center">
-          {status}
+    <LockFrame
+      icon={lockIcon}
+      heading={
+        <>
+          {content.greeting}<br />
+          {content.riddle}<br />
+          <span className="text-sm text-golden">{content.blessing}</span>
+        </>
+      }
+      status={status ? t(status.key, status.params) : content.prompt}
+      lockButton={{
+        label: isListening ? t('lock.stopLabel') : t('lock.listenLabel'),
+        busy: checking,
+        onClick: handleLockClick,
+      }}
+    >
+      {isListening && interimTranscript && (
+        <p className="text-base text-golden italic animate-fadeIn" aria-hidden="true">
+          "{interimTranscript}"
         </p>
-        
-        {/* Fallback Input */}
-        {showFallback && (
-          <div className="mt-8 space-y-4">
-            <Input
-              type="text"
-              value={fallbackValue}
-              onChange={(e) => setFallbackValue(e.target.value)}
-              placeholder="राधा रानी का नाम लिखो..."
-              className="max-w-md mx-auto bg-white/90 border-2 border-yellow-400"
-              onKeyDown={(e) => e.key === 'Enter' && handleFallbackSubmit()}
-            />
-            <Button 
-              onClick={handleFallbackSubmit}
-              className="btn-romantic enhanced-button"
+      )}
+      
+      {/* Fallback Input */}
+      {showFallback && (
+        <div className="mt-8 space-y-4">
+          <Input
+            type="text"
+            value={fallbackValue}
+            onChange={(e) => setFallbackValue(e.target.value)}
+            placeholder={content.fallbackPlaceholder}
+            aria-label={content.fallbackPlaceholder}
+            autoFocus
+            className="max-w-md mx-auto bg-white/90 border-2 border-yellow-400"
+            onKeyDown={(e) => e.key === 'Enter' && handleFallbackSubmit()}
+          />
+          <Button 
+            onClick={handleFallbackSubmit}
+            className="btn-romantic enhanced-button"
+          >
+            {t('lock.submit')}
+          </Button>
+        </div>
+      )}
+    </LockFrame>
+  );
+};
+
+// Challenge Components
+// Each game reports whole tries to the screen around it: a wrong quiz answer,
+// an unmatched pair of lotuses, a stroke that is not a heart, a wrong date.
+// `feedback` replaces the plain "not quite" for that try.
+interface ChallengeGameProps<TSpec> {
+  spec: TSpec;
+  disabled: boolean;
+  onAttempt: (success: boolean, feedback?: Exclude<LockStatus, null>) => void;
+  // A step towards the answer, such as a right answer before the last question
+  onProgress: () => void;
+}
+
+type ChallengeOf<TKind extends ChallengeKind> = Extract<ChallengeSpec, { kind: TKind }>;
+
+const QuizChallenge = ({ spec, disabled, onAttempt, onProgress }: ChallengeGameProps<ChallengeOf<'quiz'>>) => {
+  const { t } = useI18n();
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const questionId = useId();
+  const question = spec.questions[index];
+
+  const handleAnswer = (value: string) => {
+    if (disabled || !value.trim()) return;
+    if (!checkQuizAnswer(question, value)) {
+      onAttempt(false);
+      return;
+    }
+    if (index + 1 < spec.questions.length) {
+      setIndex(index + 1);
+      setAnswer('');
+      onProgress();
+    } else {
+      onAttempt(true);
+    }
+  };
+
+  return (
+    <div className="mt-8 space-y-4 max-w-md mx-auto">
+      {spec.questions.length > 1 && (
+        <p className="text-sm text-golden">{t('quiz.progress', { index: index + 1, total: spec.questions.length })}</p>
+      )}
+      <p id={questionId} className="text-2xl text-light font-dancing glow-text">{question.question}</p>
+      {question.choices ? (
+        <div className="flex flex-wrap justify-center gap-3" role="group" aria-labelledby={questionId}>
+          {question.choices.map((choice, choiceIndex) => (
+            <Button
+              key={`${index}-${choice}`}
+              onClick={() => handleAnswer(choice)}
+              disabled={disabled}
+              autoFocus={choiceIndex === 0}
+              className="btn-golden enhanced-button font-lato"
             >
-              Submit
+              {choice}
             </Button>
-          </div>
-        )}
+          ))}
+        </div>
+      ) : (
+        <>
+          <Input
+            key={index}
+            type="text"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            aria-labelledby={questionId}
+            autoFocus
+            disabled={disabled}
+            className="bg-white/90 border-2 border-yellow-400"
+            onKeyDown={(e) => e.key === 'Enter' && handleAnswer(answer)}
+          />
+          <Button onClick={() => handleAnswer(answer)} disabled={disabled} className="btn-romantic enhanced-button">
+            {t('lock.submit')}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const MemoryMatchChallenge = ({ spec, disabled, onAttempt, onProgress }: ChallengeGameProps<ChallengeOf<'memory-match'>>) => {
+  const { t } = useI18n();
+  const reducedMotion = useReducedMotion();
+  const [deck, setDeck] = useState(() => createMemoryDeck(spec.pairs));
+  const found = deck.cards.filter((card) => card.matched).length / 2;
+
+  const handleFlip = (index: number) => {
+    if (disabled) return;
+    const { state, result } = flipMemoryCard(deck, index);
+    setDeck(state);
+    if (result === 'miss') onAttempt(false);
+    if (result === 'match') {
+      if (isMemoryMatchSolved(state)) onAttempt(true);
+      else onProgress();
+    }
+  };
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div className={`grid ${deck.cards.length % 4 === 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-3 w-fit mx-auto`}>
+        {deck.cards.map((card, index) => {
+          const showing = card.matched || deck.open.includes(index);
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => handleFlip(index)}
+              disabled={card.matched}
+              aria-label={showing ? `${t('memory.card', { index: index + 1 })}: ${card.face}` : t('memory.card', { index: index + 1 })}
+              data-autofocus={index === 0 || undefined}
+              className={`w-16 h-16 md:w-20 md:h-20 rounded-xl border-2 text-3xl md:text-4xl flex items-center justify-center outline-none focus-visible:ring-4 focus-visible:ring-yellow-300 ${
+                reducedMotion ? '' : 'transition-all duration-300'
+              } ${card.matched ? 'border-yellow-300 bg-yellow-300/20 opacity-80' : showing ? 'border-pink-300 bg-pink-500/30' : 'border-white/30 bg-white/10 hover:bg-white/20'}`}
+            >
+              <span aria-hidden="true">{showing ? card.face : '🪷'}</span>
+            </button>
+          );
+        })}
       </div>
+      <p className="text-sm text-golden">{t('memory.progress', { count: found })}</p>
     </div>
   );
 };
 
-// Love Letter Component
-interface LoveLetterProps {
-  onRevealProposal: () => void;
+// Drawn with one finger or the mouse. From the keyboard the arrow keys move a
+// pen (Home, End, Page Up and Page Down go diagonally) and Enter checks the
+// stroke, so the heart is drawn there too rather than handed over.
+const HEART_CANVAS_SIZE = 280;
+const HEART_PEN_STEP = 14;
+const HEART_PEN_MOVES: Record<string, Point> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  Home: { x: -1, y: -1 },
+  PageUp: { x: 1, y: -1 },
+  End: { x: -1, y: 1 },
+  PageDown: { x: 1, y: 1 },
+};
+
+const DrawHeartChallenge = ({ spec, disabled, onAttempt }: ChallengeGameProps<ChallengeOf<'draw-heart'>>) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<Point[] | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ratio = window.devicePixelRatio || 1;
+    if (!canvas) return;
+    canvas.width = HEART_CANVAS_SIZE * ratio;
+    canvas.height = HEART_CANVAS_SIZE * ratio;
+    canvas.getContext('2d')?.scale(ratio, ratio);
+  }, []);
+
+  const context = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return null;
+    ctx.strokeStyle = '#ffd700';
+    ctx.lineWidth = 6;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.shadowColor = '#ff69b4';
+    ctx.shadowBlur = 12;
+    return ctx;
+  };
+
+  const clear = () => {
+    strokeRef.current = null;
+    context()?.clearRect(0, 0, HEART_CANVAS_SIZE, HEART_CANVAS_SIZE);
+  };
+
+  const pointOf = (event: ReactPointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * HEART_CANVAS_SIZE,
+      y: ((event.clientY - rect.top) / rect.height) * HEART_CANVAS_SIZE,
+    };
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    clear();
+    strokeRef.current = [pointOf(event)];
+  };
+
+  const drawTo = (point: Point) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const previous = stroke[stroke.length - 1];
+    const ctx = context();
+    if (ctx) {
+      ctx.beginPath();
+      ctx.moveTo(previous.x, previous.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    }
+    stroke.push(point);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    drawTo(pointOf(event));
+  };
+
+  const handlePointerUp = () => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    // A tap or a slip of the finger is not a try
+    if (!stroke || stroke.length < 8) return;
+    onAttempt(isHeart(stroke, spec.threshold));
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent) => {
+    if (disabled) return;
+    const move = HEART_PEN_MOVES[event.key];
+    if (move) {
+      event.preventDefault();
+      // The pen starts where a heart usually does, at the dip in the middle
+      if (!strokeRef.current) {
+        clear();
+        strokeRef.current = [{ x: HEART_CANVAS_SIZE / 2, y: HEART_CANVAS_SIZE * 0.3 }];
+      }
+      const stroke = strokeRef.current;
+      const { x, y } = stroke[stroke.length - 1];
+      const within = (value: number) => Math.min(HEART_CANVAS_SIZE, Math.max(0, value));
+      drawTo({ x: within(x + move.x * HEART_PEN_STEP), y: within(y + move.y * HEART_PEN_STEP) });
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      handlePointerUp();
+    } else if (event.key === 'Escape') {
+      clear();
+    }
+  };
+
+  return (
+    <div className="mt-8 flex flex-col items-center gap-4">
+      <canvas
+        ref={canvasRef}
+        role="button"
+        tabIndex={0}
+        aria-label={t('heart.canvas')}
+        data-autofocus
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={clear}
+        onKeyDown={handleKeyDown}
+        className="rounded-3xl border-2 border-dashed border-yellow-300/60 bg-white/5 touch-none outline-none focus-visible:ring-4 focus-visible:ring-yellow-300"
+        style={{ width: HEART_CANVAS_SIZE, height: HEART_CANVAS_SIZE, maxWidth: '80vw', maxHeight: '80vw' }}
+      />
+      <Button onClick={clear} disabled={disabled} className="btn-golden enhanced-button font-lato">
+        {t('heart.clear')}
+      </Button>
+    </div>
+  );
+};
+
+const DateChallenge = ({ spec, disabled, onAttempt }: ChallengeGameProps<ChallengeOf<'date'>>) => {
+  const { t } = useI18n();
+  const [value, setValue] = useState('');
+  const inputId = useId();
+
+  const handleSubmit = () => {
+    if (disabled || !value) return;
+    const comparison = compareDates(value, spec);
+    if (comparison === 'same') onAttempt(true);
+    // Too early a guess is answered with "after that"
+    else onAttempt(false, { key: comparison === 'earlier' ? 'date.later' : 'date.earlier' });
+  };
+
+  return (
+    <div className="mt-8 space-y-4 max-w-xs mx-auto">
+      <label htmlFor={inputId} className="block text-xl text-light font-dancing glow-text">{t('date.label')}</label>
+      <Input
+        id={inputId}
+        type={spec.precision === 'month' ? 'month' : 'date'}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        autoFocus
+        disabled={disabled}
+        className="bg-white/90 border-2 border-yellow-400"
+        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+      />
+      <Button onClick={handleSubmit} disabled={disabled} className="btn-romantic enhanced-button">
+        {t('lock.submit')}
+      </Button>
+    </div>
+  );
+};
+
+const CHALLENGE_GAMES: { [TKind in ChallengeKind]: (props: ChallengeGameProps<ChallengeOf<TKind>>) => ReactNode } = {
+  quiz: QuizChallenge,
+  'memory-match': MemoryMatchChallenge,
+  'draw-heart': DrawHeartChallenge,
+  date: DateChallenge,
+};
+
+// Challenge Screen Component
+// Opens like the lock: wrong tries show in its status line along with the next
+// hint and the tries left, and the lock springs open when the game is won.
+const ChallengeScreen = ({ content, onComplete }: StageProps<ChallengeContent>) => {
+  const { t } = useI18n();
+  const eventLog = useEventLog();
+  const [icon, setIcon] = useState('🔒');
+  const [status, setStatus] = useState<Exclude<LockStatus, null>[]>([]);
+  const [finished, setFinished] = useState(false);
+  const failuresRef = useRef(0);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const { challenge, hints = [], attempts } = content;
+
+  const finish = (outcome: 'solved' | 'failed') => {
+    setFinished(true);
+    if (outcome === 'solved') setIcon('🔓');
+    setStatus([{ key: outcome === 'solved' ? 'lock.unlocked' : 'challenge.outOfAttempts' }]);
+    setTimeout(() => onCompleteRef.current(outcome), 1500);
+  };
+
+  const handleAttempt = (success: boolean, feedback?: Exclude<LockStatus, null>) => {
+    if (finished) return;
+    eventLog?.record({ type: 'challenge-attempt', challenge: challenge.kind, success });
+    if (success) {
+      finish('solved');
+      return;
+    }
+
+    const failures = ++failuresRef.current;
+    if (attempts !== undefined && failures >= attempts) {
+      finish('failed');
+      return;
+    }
+    const hint = hints[Math.min(failures, hints.length) - 1];
+    setStatus([
+      feedback ?? { key: 'challenge.wrong' },
+      ...(hint !== undefined ? [{ key: 'challenge.hint' as const, params: { hint } }] : []),
+      ...(attempts !== undefined ? [{ key: 'challenge.attemptsLeft' as const, params: { count: attempts - failures } }] : []),
+    ]);
+  };
+
+  const handleSkip = () => {
+    eventLog?.record({ type: 'challenge-skip', challenge: challenge.kind });
+    onComplete('skipped');
+  };
+
+  const Game = CHALLENGE_GAMES[challenge.kind] as (props: ChallengeGameProps<ChallengeSpec>) => ReactNode;
+
+  return (
+    <LockFrame
+      icon={icon}
+      heading={content.title}
+      status={status.length ? status.map(({ key, params }) => t(key, params)).join(' · ') : content.prompt}
+    >
+      <Game
+        key={challenge.kind}
+        spec={challenge}
+        disabled={finished}
+        onAttempt={handleAttempt}
+        onProgress={() => setStatus([])}
+      />
+
+      {content.skipLabel && !finished && (
+        <button
+          type="button"
+          onClick={handleSkip}
+          className="mt-8 text-sm text-light/70 underline underline-offset-4 hover:text-light"
+        >
+          {content.skipLabel}
+        </button>
+      )}
+    </LockFrame>
+  );
+};
+
+// Letter Markup Component
+const renderInlines = (nodes: MarkupInline[], locale: string): ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.kind) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index}>{renderInlines(node.children, locale)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInlines(node.children, locale)}</em>;
+      case 'highlight':
+        return <mark key={index} className="bg-pink-200/70 text-inherit rounded px-1">{renderInlines(node.children, locale)}</mark>;
+      case 'image':
+        return <img key={index} src={node.src} alt={node.alt} loading="lazy" className="inline-block h-8 align-middle rounded mx-1" />;
+      case 'date':
+        return <time key={index} dateTime={node.iso}>{formatLetterDate(node.iso, locale)}</time>;
+    }
+  });
+
+interface LetterMarkupProps {
+  blocks: MarkupBlock[];
+  locale?: string;
+}
+
+export const LetterMarkup = ({ blocks, locale = 'hi-IN' }: LetterMarkupProps) => (
+  <>
+    {blocks.map((block, index) => {
+      switch (block.kind) {
+        case 'text':
+          return <p key={index}>{renderInlines(block.children, locale)}</p>;
+        case 'quote':
+          return (
+            <blockquote key={index} className="my-3 border-l-4 border-pink-400 bg-pink-50/60 rounded-r-lg px-4 py-2 italic text-romantic">
+              {renderInlines(block.children, locale)}
+            </blockquote>
+          );
+        case 'signature':
+          return (
+            <p key={index} className="font-dancing text-2xl text-gray-600 text-right mt-2">
+              {renderInlines(block.children, locale)}
+            </p>
+          );
+        case 'figure':
+          return (
+            <figure key={index} className="my-4 text-center">
+              <img src={block.src} alt={block.alt} loading="lazy" className="rounded-lg shadow-lg max-h-80 mx-auto" />
+              {block.alt && <figcaption className="mt-2 text-sm text-gray-600 italic">{block.alt}</figcaption>}
+            </figure>
+          );
+      }
+    })}
+  </>
+);
+
+// Media View Component
+// A photo or clip that fills its box. Clips load and play (muted) only once
+// they are on screen.
+interface MediaViewProps {
+  item: MediaItem;
+  // Pans and zooms a photo over `duration` seconds, differently per `index`
+  kenBurns?: { index: number; duration: number };
+  fit?: 'cover' | 'contain';
+  loop?: boolean;
+  onEnded?: () => void;
 }
 
-const LoveLetter = ({ onRevealProposal }: LoveLetterProps) => {
-  const [visibleParagraphs, setVisibleParagraphs] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
+const MediaView = ({ item, kenBurns, fit = 'cover', loop = false, onEnded }: MediaViewProps) => {
+  const { t } = useI18n();
+  const reducedMotion = useReducedMotion();
+  const source = useMediaSource(item);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const image = imageRef.current;
+    if (!image || !kenBurns || reducedMotion || typeof image.animate !== 'function') return;
+    const { from, to } = kenBurnsMotion(kenBurns.index);
+    const animation = image.animate(
+      [{ transform: kenBurnsTransform(from) }, { transform: kenBurnsTransform(to) }],
+      { duration: kenBurns.duration * 1000, easing: 'ease-in-out', fill: 'forwards' }
+    );
+    return () => animation.cancel();
+  }, [source, kenBurns?.index, kenBurns?.duration, reducedMotion]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || reducedMotion) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) video.play().catch(() => undefined);
+      else video.pause();
+    }, { threshold: 0.5 });
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, [source, reducedMotion]);
+
+  if (source === null) {
+    return <div className="absolute inset-0 bg-white/20 animate-pulse" aria-hidden="true" />;
+  }
+  if (source === 'missing') {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center text-sm font-lato text-gray-600 bg-white/30">
+        {t('gallery.unavailable')}
+      </div>
+    );
+  }
+
+  const className = `absolute inset-0 w-full h-full ${fit === 'cover' ? 'object-cover' : 'object-contain'}`;
+  return item.kind === 'photo' ? (
+    <img ref={imageRef} src={source.src} alt={item.caption ?? ''} loading="lazy" decoding="async" className={className} />
+  ) : (
+    <video
+      ref={videoRef}
+      src={source.src}
+      poster={source.poster}
+      aria-label={item.caption}
+      muted
+      playsInline
+      controls
+      loop={loop}
+      preload="none"
+      onEnded={onEnded}
+      className={className}
+    />
+  );
+};
+
+// Slideshow Component
+// Photos move on every `interval` seconds and clips when they end; with less
+// motion, or once paused, only the buttons move it. Changes the recipient
+// makes are announced, automatic ones are not.
+const DEFAULT_SLIDE_SECONDS = 6;
+
+interface SlideshowProps {
+  items: MediaItem[];
+  interval?: number;
+  kenBurns?: boolean;
+  // Smaller and uncropped, for under a letter paragraph
+  compact?: boolean;
+}
+
+const Slideshow = ({ items, interval = DEFAULT_SLIDE_SECONDS, kenBurns = true, compact = false }: SlideshowProps) => {
+  const { t } = useI18n();
+  const reducedMotion = useReducedMotion();
+  const [index, setIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const current = index % items.length;
+  const item = items[current];
+  const autoplay = items.length > 1 && !paused && !reducedMotion;
+  const buttonClass = 'bg-white/70 hover:bg-white text-romantic px-3 py-2 rounded-full transition-all duration-300 shadow-lg text-sm font-lato';
+
+  const go = (offset: number) => setIndex((previous) => (previous + offset + items.length) % items.length);
+
+  useEffect(() => {
+    if (!autoplay || item.kind === 'clip') return;
+    const timer = setTimeout(() => go(1), interval * 1000);
+    return () => clearTimeout(timer);
+  }, [autoplay, current, interval, item.kind]);
+
+  return (
+    <div role="group" aria-roledescription="carousel" aria-label={t('gallery.slide', { index: current + 1, total: items.length })}>
+      <figure>
+        <div
+          aria-live={autoplay ? 'off' : 'polite'}
+          className={`relative overflow-hidden rounded-lg shadow-lg bg-black/20 ${compact ? 'h-56' : 'h-[55vh]'}`}
+        >
+          <MediaView
+            key={current}
+            item={item}
+            kenBurns={kenBurns ? { index: current, duration: interval + 1 } : undefined}
+            fit={compact ? 'contain' : 'cover'}
+            loop={!autoplay}
+            onEnded={autoplay ? () => go(1) : undefined}
+          />
+        </div>
+        {item.caption && (
+          <figcaption className="mt-2 text-center text-sm text-gray-600 italic font-lato">{item.caption}</figcaption>
+        )}
+      </figure>
+      {items.length > 1 && (
+        <div className="flex justify-center items-center gap-2 mt-3">
+          <button onClick={() => go(-1)} className={buttonClass} title={t('gallery.previous')} aria-label={t('gallery.previous')}>
+            ⬅️
+          </button>
+          {!reducedMotion && (
+            <button onClick={() => setPaused((value) => !value)} className={buttonClass} title={paused ? t('gallery.play') : t('gallery.pause')} aria-label={paused ? t('gallery.play') : t('gallery.pause')}>
+              {paused ? '▶️' : '⏸️'}
+            </button>
+          )}
+          <span className="text-sm font-lato text-gray-700 w-12 text-center" aria-hidden="true">{current + 1}/{items.length}</span>
+          <button onClick={() => go(1)} className={buttonClass} title={t('gallery.next')} aria-label={t('gallery.next')}>
+            ➡️
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Narration Controls Component
+interface NarrationControlsProps {
+  state: NarrationState;
+  onPlay: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}
+
+const NarrationControls = ({ state, onPlay, onPause, onResume, onSkip, onStop }: NarrationControlsProps) => {
+  const { t } = useI18n();
+  const buttonClass = 'bg-romantic/80 hover:bg-romantic text-white px-3 py-2 rounded-full transition-all duration-300 shadow-lg text-sm font-lato';
+
+  return (
+    <>
+      {(state === 'idle' || state === 'finished') && (
+        <button onClick={onPlay} className={buttonClass} title={t('narration.play')}>
+          {t('narration.listen')}
+        </button>
+      )}
+      {state === 'playing' && (
+        <button onClick={onPause} className={buttonClass} title={t('narration.pause')} aria-label={t('narration.pause')}>
+          ⏸️
+        </button>
+      )}
+      {state === 'paused' && (
+        <button onClick={onResume} className={buttonClass} title={t('narration.resume')} aria-label={t('narration.resume')}>
+          ▶️
+        </button>
+      )}
+      {(state === 'playing' || state === 'paused') && (
+        <>
+          <button onClick={onSkip} className={buttonClass} title={t('narration.skip')} aria-label={t('narration.skip')}>
+            ⏭️
+          </button>
+          <button onClick={onStop} className={buttonClass} title={t('narration.stop')} aria-label={t('narration.stop')}>
+            ⏹️
+          </button>
+        </>
+      )}
+    </>
+  );
+};
+
+// Reveal Controls Component
+interface RevealControlsProps {
+  mode: RevealMode;
+  paused: boolean;
+  speed: number;
+  canGoBack: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onBack: () => void;
+  onNext: () => void;
+  onSlower: () => void;
+  onFaster: () => void;
+}
+
+const RevealControls = ({ mode, paused, speed, canGoBack, onPause, onResume, onBack, onNext, onSlower, onFaster }: RevealControlsProps) => {
+  const { t } = useI18n();
+  const buttonClass = 'bg-white/70 hover:bg-white text-romantic px-3 py-2 rounded-full transition-all duration-300 shadow-lg text-sm font-lato disabled:opacity-40';
+
+  return (
+    <>
+      <button onClick={onBack} disabled={!canGoBack} className={buttonClass} title={t('reveal.previous')} aria-label={t('reveal.previous')}>
+        ⬆️
+      </button>
+      {mode !== 'manual' && (
+        <>
+          <button onClick={paused ? onResume : onPause} className={buttonClass} title={paused ? t('reveal.resume') : t('reveal.pause')} aria-label={paused ? t('reveal.resume') : t('reveal.pause')}>
+            {paused ? '▶️' : '⏸️'}
+          </button>
+          <button onClick={onSlower} className={buttonClass} title={t('reveal.slower')} aria-label={t('reveal.slower')}>
+            🐢
+          </button>
+          <span className="self-center text-sm font-lato text-gray-700 w-10 text-center">{speed}×</span>
+          <button onClick={onFaster} className={buttonClass} title={t('reveal.faster')} aria-label={t('reveal.faster')}>
+            🐇
+          </button>
+        </>
+      )}
+      <button onClick={onNext} className={buttonClass} title={t('reveal.next')} aria-label={t('reveal.next')}>
+        ⬇️
+      </button>
+    </>
+  );
+};
+
+// Love Letter Component
+const DEFAULT_REVEAL: RevealSettings = { mode: 'reading' };
+
+const LoveLetter = ({ content, experience, onComplete }: StageProps<LetterContent>) => {
+  const letterParagraphs = useMemo(() => content.paragraphs.map((paragraph) => parseLetterMarkup(paragraph).blocks), [content.paragraphs]);
+
+  const director = useAudioDirector();
+  const { locale, t } = useI18n();
+  const { lang, voiceLang } = LOCALES[locale];
+  const attachmentsByParagraph = useMemo(() => {
+    const grouped = new Map<number, LetterAttachment[]>();
+    (content.attachments ?? []).forEach((attachment) => {
+      grouped.set(attachment.paragraph, [...(grouped.get(attachment.paragraph) ?? []), attachment]);
+    });
+    return grouped;
+  }, [content.attachments]);
+  const paragraphTexts = useMemo(() => letterParagraphs.map((blocks) => markupToPlainText(blocks, lang)), [letterParagraphs, lang]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const paragraphRefs = useRef<(HTMLElement | null)[]>([]);
+  const lastWheelRef = useRef(0);
+  const revealSettings = content.reveal ?? DEFAULT_REVEAL;
+  const memory = useStageMemory<{ revealed: number }>();
+
+  // While narrating, each paragraph appears as its narration starts
+  const narration = useNarration({
+    paragraphs: paragraphTexts,
+    spec: content.narration || undefined,
+    lang: voiceLang,
+    onParagraphStart: (index) => reveal.revealUpTo(index),
+    onSpeakingChange: (speaking) => {
+      if (speaking) {
+        director?.duck();
+      } else {
+        director?.unduck();
+      }
+    },
+  });
+  const isNarrating = narration.state === 'playing' || narration.state === 'paused';
+
+  const reveal = useRevealController({
+    paragraphs: paragraphTexts,
+    settings: revealSettings,
+    containerRef,
+    paragraphRefs,
+    externallyDriven: isNarrating,
+    initialCount: typeof memory.saved?.revealed === 'number' ? memory.saved.revealed : 0,
+  });
+  const visibleParagraphs = reveal.visibleCount;
+
+  useEffect(() => {
+    memory.save({ revealed: visibleParagraphs });
+  }, [visibleParagraphs]);
 
+  // Time each paragraph spends as the newest one, logged when the next one
+  // appears or the letter is left
+  const eventLog = useEventLog();
+  const newestRef = useRef({ index: visibleParagraphs - 1, since: Date.now() });
   useEffect(() => {
-    const musicTimer = setTimeout(() => {
-      setIsPlaying(true);
-    }, 500);
-
-    const timer = setInterval(() => {
-      setVisibleParagraphs(prev => {
-        if (prev < letterParagraphs.length) {
-          return prev + 1;
-        }
-        clearInterval(timer);
-        return prev;
-      });
-    }, 1200);
+    const newest = newestRef.current;
+    const index = visibleParagraphs - 1;
+    if (index === newest.index) return;
+    if (index > newest.index && newest.index >= 0) {
+      eventLog?.record({ type: 'paragraph-read', index: newest.index, durationMs: Date.now() - newest.since });
+    }
+    newestRef.current = { index, since: Date.now() };
+  }, [visibleParagraphs]);
+  useEffect(() => () => {
+    const newest = newestRef.current;
+    if (newest.index >= 0) {
+      eventLog?.record({ type: 'paragraph-read', index: newest.index, durationMs: Date.now() - newest.since });
+    }
+  }, [eventLog]);
 
-    return () => {
-      clearInterval(timer);
-      clearTimeout(musicTimer);
-    };
-  }, []);
+  // Tapping the letter (or Space / ↓) brings the next paragraph forward
+  const handleLetterClick = (event: ReactMouseEvent) => {
+    if (isNarrating || reveal.isComplete) return;
+    if ((event.target as HTMLElement).closest('button, a, input, video')) return;
+    reveal.next();
+  };
 
-  const letterParagraphs = [
-    { text: "मेरी प्यारी अन्नु, मेरी राधा,", isStrong: true },
-    { 
-      text: "जब तुम ये शब्द पढ़ रही हो, तो मानो तुमने वो जादुई मंत्र फुसफुसाया है जो सिर्फ हमारी आत्माओं का राज़ है। ✨ तुम्हारी आवाज़ ने इस डिजिटल खजाने का ताला खोला, ठीक वैसे ही जैसे तुम्हारे पहले \"Hello\" ने मेरे दिल की दीवारों पर एक नरम सी दस्तक दी थी। जैसे राधा रानी के प्रेम में कृष्ण खो जाते हैं, वैसे ही मैं तुम्हारे प्यार में खो गया हूँ। तुम्हारी भक्ति और पवित्रता देखकर मुझे लगता है कि तुम सच में राधा रानी का आशीर्वाद लेकर आई हो। 🌸",
-      isStrong: false
-    },
-    { 
-      text: "दो साल पहले, जब तुम हमारे घर आई थी, हम तो बस एक छत के नीचे दो अनजान राही थे, है ना? तुम, अपनी चुपके से मुस्कान और आँखों में सपनों की चमक लिए, और मैं, अनजान कि ये अनजानी सी लड़की एक दिन मेरी दुनिया का सूरज बन जाएगी। 🌌 जैसे कृष्ण जी को पहली बार राधा रानी दिखीं तो उन्होंने जाना कि ये वो प्रेम है जो जन्मों का है। तुम्हारे एक स्टेटस पर मेरा वो छोटा सा कमेंट हमारी ज़िंदगी का स्क्रिप्ट बदल देगा, यह राधा कृष्ण की लीला जैसा दिव्य था।",
-      isStrong: false
-    },
-    { 
-      text: "हमारा रिश्ता, अन्नु, राधा कृष्ण के प्रेम की तरह पवित्र और दिव्य है। जैसे राधा रानी कृष्ण की सोच समझ जाती थीं, वैसे ही तुम मेरे दिल की बात बिना कहे समझ जाती हो। 🌺 जो मुझे अच्छा लगता है—शाम की वो ठंडी हवा, किसी मुश्किल पहेली को सुलझाने का मज़ा, या हमारी अपनी छोटी-सी मज़ाकिया बातें—वो तुम्हें भी पसंद है। जैसे राधा रानी और कृष्ण एक ही आत्मा के दो रूप हैं, वैसे ही हम भी एक-दूसरे के पूरक हैं।",
-      isStrong: false
-    },
-    { 
-      text: "तुम्हारी हर याद मेरे दिल में एक रंगीन कैनवास की तरह है। वो देर रात की चैट्स, जब तुम्हारी हँसी मेरे कानों में मिश्री घोलती थी। वो पल, जब तुम अपने सपनों को मेरे साथ बाँटती हो, जैसे कोई चित्रकार अपनी सबसे कीमती पेंटिंग दिखाए। और वो छोटा सा सवाल, \"तुम्हारा दिन कैसा रहा?\"—जो मेरे दिन को रोशन कर देता है।",
-      isStrong: false
-    },
-    { 
-      text: "तुम्हारा अपने परिवार के लिए प्यार—मम्मी-पापा, आनंद भैया, और अमन भैया के लिए—एक तारा है जो मेरे लिए रास्ता दिखाता है। तुम्हारी उनके लिए सच्ची भक्ति मेरे दिल को छूती है। जैसे राधा रानी ने कृष्ण से कहा था कि \"धर्म और कर्तव्य से बड़ा कोई प्रेम नहीं\", वैसे ही तुम्हारी पारिवारिक भक्ति तुम्हारे चरित्र की सच्चाई दिखाती है। 🙏 हमारी कहानी उनके लिखे पन्नों को मिटाने की नहीं, बल्कि उस किताब में एक नया, दिव्य अध्याय जोड़ने की है - राधा कृष्ण के आशीर्वाद के साथ।",
-      isStrong: false
-    },
-    { 
-      text: "हम दोनों जानते हैं कि हमारे सपने बड़े हैं—पढ़ाई, करियर, वो भविष्य जो हम अपनी मेहनत से रंगेंगे। लेकिन हमारा प्यार वो चिंगारी बने जो हमें आसमान छूने की हिम्मत दे। \"You don't have to be great to start, but you have to start to be great,\" Zig Ziglar ने कहा था। तो चलो, अन्नु, हम साथ मिलकर शुरुआत करें।",
-      isStrong: false
-    },
-    { 
-      text: "हमारी कहानी का सबसे खूबसूरत हिस्सा हमारा रिश्ता है—जो समंदर से गहरा, बारिश की पहली बूंद से ज़्यादा पवित्र है। हमने अपने प्यार को चैट्स की चाँदनी, कॉल्स की गर्मजोशी, और सपनों की उड़ान से बुना है। अन्नु, हमें कभी जिस्मानी नज़दीकी की ज़रूरत नहीं पड़ी; हमारा प्यार तो हमारी हँसी में, हमारे ख्यालों में, और उन चुपके पलों में बसता है जब हम बस एक-दूसरे को महसूस करते हैं।",
-      isStrong: false
-    },
-    { 
-      text: "हमने अपनी दुनिया स्टेटस अपडेट्स के छोटे-छोटे जादू, चैट्स की चमक, और देर रात की कॉल्स के सुरों में बनाई है। लेकिन अब, मैं उस दुनिया में तुम्हारा hand थामना चाहता हूँ, स्क्रीन की सीमाओं को तोड़कर तुम्हारी हकीकत में कदम रखना चाहता हूँ। ❤️ जैसे राधा रानी कृष्ण के साथ वृंदावन में रास लीला करती थीं, वैसे ही मैं तुम्हारे साथ जीवन की हर खुशी को celebrate करना चाहता हूँ। राधे राधे! 🌸",
-      isStrong: false
-    },
-    { 
-      text: "\"राधे कृष्ण राधे कृष्ण कृष्ण कृष्ण राधे राधे\" - यह मंत्र तुम्हारे होठों पर कितना प्यारा लगता है। तुम्हारी भक्ति में वो शुद्धता है जो मुझे राधा रानी की याद दिलाती है। जब तुम राधा रानी की आरती करती हो, तो मैं समझ जाता हूँ कि तुम्हारा प्रेम कितना पवित्र और दिव्य है। 🕉️ तुम्हारे इस धार्मिक स्वभाव ने मुझे भी कृष्ण भक्ति के करीब लाया है।",
-      isStrong: false
+  const handleKeyDown = (event: ReactKeyboardEvent) => {
+    if (isNarrating || reveal.isComplete || event.target !== event.currentTarget) return;
+    if (event.key === ' ' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      reveal.next();
     }
-  ];
+  };
 
-  const toggleMusic = () => {
-    setIsPlaying(!isPlaying);
+  // In manual mode, scrolling down past the newest paragraph reveals another
+  const handleWheel = (event: ReactWheelEvent) => {
+    if (revealSettings.mode !== 'manual' || isNarrating || reveal.isComplete || event.deltaY <= 0) return;
+    const container = containerRef.current;
+    const newest = paragraphRefs.current[visibleParagraphs - 1];
+    if (container && newest && newest.getBoundingClientRect().bottom > container.getBoundingClientRect().bottom) return;
+    const now = Date.now();
+    if (now - lastWheelRef.current < 600) return;
+    lastWheelRef.current = now;
+    reveal.next();
   };
 
   return (
     <div className="fixed inset-0 z-30 flex items-center justify-center p-4 bg-black/20">
-      <BackgroundMusic isPlaying={isPlaying} onToggle={toggleMusic} />
-
-      <div className="love-letter-bg rounded-xl max-w-4xl w-full max-h-[90vh] overflow-y-scroll text-gray-800 relative romantic-shadow" style={{ scrollbarWidth: 'thin', scrollbarColor: '#ff69b4 rgba(255, 255, 255, 0.3)' }}>
-        <RadhaKrishnaBackground />
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        role="region"
+        aria-label={content.title}
+        data-autofocus
+        onClick={handleLetterClick}
+        onKeyDown={handleKeyDown}
+        onWheel={handleWheel}
+        className="love-letter-bg rounded-xl max-w-4xl w-full max-h-[90vh] overflow-y-scroll text-gray-800 relative romantic-shadow outline-none"
+        style={{ scrollbarWidth: 'thin', scrollbarColor: '#ff69b4 rgba(255, 255, 255, 0.3)' }}
+      >
+        <SceneBackground settings={experience.theme.background} />
         
         <div className="p-8 md:p-12 relative z-10 backdrop-blur-sm bg-white/10 rounded-lg border border-white/20 shadow-inner">
           <h1 className="font-playfair text-3xl md:text-4xl text-romantic text-center mb-8 animate-fadeIn">
-            A Letter to My Annu, My Heart's Eternal Home
+            {content.title}
           </h1>
+
+          <div className="sticky top-0 z-20 flex flex-wrap justify-center gap-2 mb-6 animate-fadeIn">
+            {content.narration !== false && narration.isSupported && (
+              <NarrationControls
+                state={narration.state}
+                onPlay={() => narration.play(0)}
+                onPause={narration.pause}
+                onResume={narration.resume}
+                onSkip={narration.skip}
+                onStop={narration.stop}
+              />
+            )}
+            {!isNarrating && !reveal.isComplete && (
+              <RevealControls
+                mode={revealSettings.mode}
+                paused={reveal.paused}
+                speed={reveal.speed}
+                canGoBack={visibleParagraphs > 1}
+                onPause={reveal.pause}
+                onResume={reveal.resume}
+                onBack={reveal.back}
+                onNext={reveal.next}
+                onSlower={reveal.slower}
+                onFaster={reveal.faster}
+              />
+            )}
+          </div>
           
+          <p className="sr-only" role="status">
+            {t('letter.progress', { count: visibleParagraphs, total: letterParagraphs.length })}
+          </p>
+
           <div className="space-y-6 leading-relaxed">
-            {letterParagraphs.map((paragraph, index) => (
-              <p
+            {letterParagraphs.map((blocks, index) => (
+              <div
                 key={index}
-                className={`font-lato text-lg transition-all duration-600 ${
+                ref={(element) => {
+                  paragraphRefs.current[index] = element;
+                }}
+                aria-hidden={index >= visibleParagraphs}
+                className={`font-lato text-lg space-y-2 ${reveal.reducedMotion ? '' : 'transition-all duration-600'} ${
                   index < visibleParagraphs
                     ? 'opacity-100 translate-y-0'
-                    : 'opacity-0 translate-y-8'
+                    : `opacity-0 ${reveal.reducedMotion ? '' : 'translate-y-8'}`
+                } ${
+                  index === narration.currentIndex
+                    ? 'bg-pink-100/60 rounded-lg px-3 -mx-3 ring-2 ring-pink-300/60'
+                    : ''
                 }`}
                 style={{
-                  transitionDelay: `${index * 100}ms`
+                  transitionDelay: revealSettings.mode === 'typewriter' || reveal.reducedMotion ? '0ms' : `${Math.min(index, 3) * 100}ms`
                 }}
               >
-                {paragraph.isStrong ? (
-                  <strong>{paragraph.text}</strong>
-                ) : (
-                  paragraph.text
+                <LetterMarkup
+                  blocks={reveal.typedCount !== null && index === visibleParagraphs - 1 ? truncateMarkup(blocks, reveal.typedCount, lang) : blocks}
+                  locale={lang}
+                />
+                {/* Mounted only once the paragraph is shown, so its photos load then */}
+                {index < visibleParagraphs && attachmentsByParagraph.has(index) && !(reveal.typedCount !== null && index === visibleParagraphs - 1) && (
+                  <div className="pt-2 animate-fadeIn">
+                    <Slideshow items={attachmentsByParagraph.get(index)!} kenBurns={false} compact />
+                  </div>
                 )}
-              </p>
+              </div>
             ))}
             
-            {visibleParagraphs >= letterParagraphs.length && (
+            {reveal.isComplete && (
               <div className="text-right mt-8 animate-fadeIn">
                 <p className="font-dancing text-2xl text-gray-600 mb-4">
-                  हमेशा तुम्हारा,<br />
-                  शैलेन्द्र पाठक (तुम्हारा डॉन बाबू)
+                  {content.signature.closing}<br />
+                  {content.signature.name}
+                  {content.signature.date && (
+                    <>
+                      <br />
+                      <time dateTime={content.signature.date} className="text-lg">{formatLetterDate(content.signature.date, lang)}</time>
+                    </>
+                  )}
                 </p>
                 
                 <div className="text-center mt-8">
                   <Button 
-                    onClick={onRevealProposal}
+                    onClick={() => onComplete()}
                     className="btn-romantic enhanced-button font-lato text-lg"
                   >
-                    हमारी कहानी का अगला पन्ना 📖
+                    {content.nextLabel}
                   </Button>
                 </div>
               </div>
@@ -769,25 +1512,430 @@ const LoveLetter = ({ onRevealProposal }: LoveLetterProps) => {
   );
 };
 
+// Gallery Screen Component
+const GalleryScreen = ({ content, experience, onComplete }: StageProps<GalleryContent>) => (
+  <div className="fixed inset-0 z-30 flex items-center justify-center p-4 bg-black/20">
+    <div
+      tabIndex={0}
+      role="region"
+      aria-label={content.title}
+      data-autofocus
+      className="love-letter-bg rounded-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto text-gray-800 relative romantic-shadow outline-none"
+    >
+      <SceneBackground settings={experience.theme.background} />
+
+      <div className="p-6 md:p-10 relative z-10">
+        <h1 className="font-playfair text-3xl md:text-4xl text-romantic text-center mb-6 animate-fadeIn">
+          {content.title}
+        </h1>
+        <Slideshow items={content.items} interval={content.interval} kenBurns={content.kenBurns ?? true} />
+        <div className="text-center mt-8">
+          <Button 
+            onClick={() => onComplete()}
+            className="btn-romantic enhanced-button font-lato text-lg"
+          >
+            {content.nextLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+// Mala Component
+// One bead per name around the guru bead at the top; beads still pending in
+// the phrase being chanted glow fainter until the recogniser settles on them.
+interface MalaProps {
+  beads: number;
+  counted: number;
+  pending: number;
+  label: string;
+}
+
+const Mala = ({ beads, counted, pending, label }: MalaProps) => {
+  const reducedMotion = useReducedMotion();
+  const radius = 84;
+  const beadRadius = Math.min(6, (Math.PI * radius) / beads - 0.6);
+  // A finished round shows as a full mala rather than an empty one
+  const lit = counted > 0 && counted % beads === 0 ? beads : counted % beads;
+  const glowing = Math.min(beads, lit + pending);
+
+  return (
+    <svg viewBox="0 0 200 220" className="w-64 h-72 md:w-80 md:h-[22rem] mx-auto" role="img" aria-label={label}>
+      <circle cx="100" cy="100" r={radius} fill="none" stroke="#fde68a" strokeOpacity="0.25" strokeWidth="1" />
+      {Array.from({ length: beads }, (_, index) => {
+        // Beads run clockwise from beside the guru bead
+        const angle = -Math.PI / 2 + ((index + 0.5) / beads) * Math.PI * 2;
+        const state = index < lit ? 'lit' : index < glowing ? 'pending' : 'dark';
+        return (
+          <circle
+            key={index}
+            cx={100 + radius * Math.cos(angle)}
+            cy={100 + radius * Math.sin(angle)}
+            r={beadRadius}
+            fill={state === 'lit' ? '#fbbf24' : state === 'pending' ? '#fde68a' : '#7c2d12'}
+            fillOpacity={state === 'pending' ? 0.6 : 1}
+            style={reducedMotion ? undefined : { transition: 'fill 300ms ease-out' }}
+          />
+        );
+      })}
+      {/* Guru bead and tassel */}
+      <circle cx="100" cy={100 - radius} r={beadRadius + 3} fill="#f59e0b" stroke="#fde68a" strokeWidth="1" />
+      <path d={`M100 ${100 - radius - beadRadius - 3} l-5 -10 l10 0 z`} fill="#dc2626" />
+    </svg>
+  );
+};
+
+// Jap Screen Component
+// Chanting is heard through continuous recognition, restarted whenever the
+// browser ends a session on its own; the tap button counts one name at a time
+// for anyone who cannot or would rather not speak. Every counted name goes
+// into today's total for the streak.
+const JapScreen = ({ content, experience, onComplete }: StageProps<JapContent>) => {
+  const { locale, t } = useI18n();
+  const particles = useParticles();
+  const memory = useStageMemory<{ count: number }>();
+  const target = content.target ?? DEFAULT_JAP_TARGET;
+  const beads = Math.min(target, MALA_BEADS);
+  const [counter] = useState(() =>
+    createJapCounter(content.names, typeof memory.saved?.count === 'number' ? memory.saved.count : 0));
+  const [count, setCount] = useState<JapCount>(counter.get);
+  const historyRef = useRef(loadJapHistory(experience.id));
+  const [history, setHistory] = useState(historyRef.current);
+  const complete = count.counted >= target;
+  const [status, setStatus] = useState<LockStatus>(complete ? { key: 'jap.complete' } : null);
+  const wantListeningRef = useRef(false);
+
+  const update = (step: (jap: JapCounter) => JapCount) => {
+    const before = counter.get().counted;
+    const next = step(counter);
+    const added = next.counted - before;
+    setCount(next);
+    if (added <= 0) return;
+    memory.save({ count: next.counted });
+    historyRef.current = addToJapHistory(historyRef.current, localDayKey(new Date()), added);
+    saveJapHistory(experience.id, historyRef.current);
+    setHistory(historyRef.current);
+    if (before < target && next.counted >= target) {
+      wantListeningRef.current = false;
+      stopListening();
+      particles?.burst({ x: 0.5, y: 0.4, count: 60 });
+      setStatus({ key: 'jap.complete' });
+    }
+  };
+
+  const { startListening, stopListening, isSupported, isListening } = useVoiceRecognition({
+    lang: LOCALES[locale].recognitionLang,
+    continuous: true,
+    maxAlternatives: 1,
+    onResult: (transcripts) => update((jap) => jap.final(transcripts[0])),
+    onInterim: (transcript) => update((jap) => jap.interim(transcript)),
+    onError: (kind) => {
+      // Silence is only a pause in the jap; the session restarts on its end
+      if (kind === 'no-speech') return;
+      wantListeningRef.current = false;
+      setStatus({ key: VOICE_ERROR_STATUS[kind] });
+    },
+    onStart: () => setStatus({ key: 'jap.listening' }),
+    onEnd: () => {
+      update((jap) => jap.discardPending());
+      if (wantListeningRef.current) startListening();
+      // An error or the finished jap stays on screen
+      else setStatus((current) => (current?.key === 'jap.listening' ? null : current));
+    },
+  });
+
+  const toggleListening = () => {
+    wantListeningRef.current = !isListening;
+    if (isListening) stopListening();
+    else startListening();
+  };
+
+  const today = history.days[localDayKey(new Date())] ?? 0;
+  const streak = japStreak(history, localDayKey(new Date()));
+  const total = count.counted + count.pending;
+  const rounds = Math.floor(count.counted / beads);
+
+  return (
+    <div className="gradient-bg min-h-screen flex items-center justify-center relative">
+      <div className="container mx-auto px-4 py-10 text-center relative z-10">
+        <h2 className="text-3xl md:text-4xl font-dancing text-golden glow-text mb-2">{content.title}</h2>
+        <p className="text-lg text-light font-lato mb-4">{content.prompt}</p>
+
+        <div className="relative">
+          <Mala
+            beads={beads}
+            counted={count.counted}
+            pending={count.pending}
+            label={t('jap.mala', { count: Math.min(count.counted, target), target })}
+          />
+          <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none" aria-hidden="true">
+            <span className="text-5xl font-playfair text-golden glow-text">{total}</span>
+            <span className="text-sm text-light">/ {target}</span>
+          </div>
+        </div>
+
+        <p role="status" className="text-lg text-light mt-4 min-h-[2rem]">
+          {status ? t(status.key, status.params) : !isSupported ? t('jap.noVoice') : ''}
+        </p>
+        <p className="text-sm text-golden font-lato mb-6">
+          {[
+            rounds > 0 && beads < target ? t('jap.rounds', { count: rounds }) : null,
+            t('jap.today', { count: today }),
+            streak > 0 ? t('jap.streak', { count: streak }) : null,
+          ].filter(Boolean).join(' · ')}
+        </p>
+
+        <div className="flex flex-wrap justify-center gap-4">
+          {isSupported && !complete && (
+            <Button onClick={toggleListening} aria-pressed={isListening} className="btn-golden enhanced-button font-lato text-lg">
+              {isListening ? t('jap.stop') : t('jap.listen')}
+            </Button>
+          )}
+          {!complete && (
+            <Button onClick={() => update((jap) => jap.tap())} data-autofocus className="btn-romantic enhanced-button font-lato text-lg">
+              {content.tapLabel}
+            </Button>
+          )}
+          {complete && (
+            <Button onClick={() => onComplete()} data-autofocus className="btn-romantic enhanced-button font-lato text-lg animate-fadeIn">
+              {content.nextLabel}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Ring Reveal Component
+// Turns and grows into place over the ring cue's duration
+const RingReveal = ({ duration }: { duration: number }) => {
+  const reducedMotion = useReducedMotion();
+  const [shown, setShown] = useState(reducedMotion);
+  const goldId = `gold-${useId().replace(/:/g, '')}`;
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setShown(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <svg
+      viewBox="0 0 120 120"
+      className="w-32 h-32 md:w-40 md:h-40 mx-auto"
+      aria-hidden="true"
+      style={{
+        transform: shown ? 'scale(1) rotate(0deg)' : 'scale(0.2) rotate(-120deg)',
+        opacity: shown ? 1 : 0,
+        transition: reducedMotion ? undefined : `transform ${duration}s cubic-bezier(0.2, 0.8, 0.2, 1), opacity ${duration / 2}s ease-out`,
+        filter: 'drop-shadow(0 0 12px rgba(251, 191, 36, 0.8))',
+      }}
+    >
+      <defs>
+        <linearGradient id={goldId} x1="0" y1="0" x2="1" y2="1">
+          <stop offset="0%" stopColor="#fde68a" />
+          <stop offset="50%" stopColor="#f59e0b" />
+          <stop offset="100%" stopColor="#b45309" />
+        </linearGradient>
+      </defs>
+      <circle cx="60" cy="74" r="32" fill="none" stroke={`url(#${goldId})`} strokeWidth="8" />
+      <path d="M50 44 L60 38 L70 44" fill="none" stroke={`url(#${goldId})`} strokeWidth="4" />
+      <polygon points="60,10 77,26 60,44 43,26" fill="#e0f2fe" stroke="#bae6fd" strokeWidth="2" />
+      <polyline points="43,26 77,26" fill="none" stroke="#7dd3fc" strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+// Celebration Component
+// Plays the script's timeline after "Yes" and ends on the screen to save the
+// moment; the skip button goes straight there, starting the last music cue if
+// it had not come yet. Coming back to an answered proposal shows that screen
+// without playing anything again.
+interface CelebrationProps {
+  content: CelebrationContent;
+  replay: boolean;
+  footer: string;
+  fileName: string;
+}
+
+const Celebration = ({ content, replay, footer, fileName }: CelebrationProps) => {
+  const { t } = useI18n();
+  const reducedMotion = useReducedMotion();
+  const director = useAudioDirector();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fireworksRef = useRef<Fireworks | null>(null);
+  const schedule = useMemo(() => scheduleCelebration(content.timeline ?? defaultCelebrationTimeline(content)), [content]);
+  const [started, setStarted] = useState<ScheduledCue[]>([]);
+  const [finished, setFinished] = useState(!replay);
+  const [saving, setSaving] = useState<'idle' | 'saving' | 'failed'>('idle');
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const fireworks = createFireworks(canvas, { reducedMotion });
+    fireworksRef.current = fireworks;
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      fireworks.resize(rect.width, rect.height, window.devicePixelRatio);
+    };
+    resize();
+    window.addEventListener('resize', resize);
+    return () => {
+      window.removeEventListener('resize', resize);
+      fireworks.dispose();
+      fireworksRef.current = null;
+    };
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    if (finished) {
+      fireworksRef.current?.stop();
+      return;
+    }
+    const timers = schedule.flatMap((scheduled) => {
+      const { cue, start, end } = scheduled;
+      const cueTimers = [setTimeout(() => {
+        setStarted((current) => [...current, scheduled]);
+        if (cue.kind === 'fireworks') fireworksRef.current?.start(cue.intensity);
+        if (cue.kind === 'music') director?.play({ ...cue.music, crossfade: cue.duration });
+      }, start * 1000)];
+      if (cue.kind === 'fireworks') cueTimers.push(setTimeout(() => fireworksRef.current?.stop(), end * 1000));
+      return cueTimers;
+    });
+    timers.push(setTimeout(() => setFinished(true), celebrationLength(schedule) * 1000));
+    return () => timers.forEach(clearTimeout);
+  }, [finished, schedule]);
+
+  const handleSkip = () => {
+    const music = schedule.filter(({ cue }) => cue.kind === 'music').pop();
+    if (music && music.cue.kind === 'music' && !started.includes(music)) director?.play(music.cue.music);
+    setFinished(true);
+  };
+
+  const handleSave = async () => {
+    setSaving('saving');
+    try {
+      const blob = await renderCelebrationStill({ title: content.title, lines: content.lines, mantra: content.mantra, footer });
+      await shareCelebrationStill(blob, fileName, content.title);
+      setSaving('idle');
+    } catch (error) {
+      console.error('Saving the moment failed:', error);
+      setSaving('failed');
+    }
+  };
+
+  const ring = started.find(({ cue }) => cue.kind === 'ring');
+  const messages = started.flatMap(({ cue }) => (cue.kind === 'message' ? [cue.text] : []));
+
+  return (
+    <div className="absolute inset-0">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true" />
+
+      <div className="absolute inset-0 flex items-center justify-center p-4">
+        {finished ? (
+          <div className="text-center animate-fadeIn">
+            <RingReveal duration={1} />
+            <div className={`font-dancing text-6xl text-light glow-text mt-4 ${reducedMotion ? '' : 'animate-heartbeat'}`}>
+              {content.title}
+            </div>
+            <div className="font-dancing text-3xl text-light glow-text mt-4">
+              {content.lines.map((line, index) => (
+                <span key={index}>{line}<br /></span>
+              ))}
+            </div>
+            <div className="text-lg mt-4 text-golden">
+              {content.mantra}
+            </div>
+            <Button
+              onClick={handleSave}
+              disabled={saving === 'saving'}
+              autoFocus
+              className="btn-golden enhanced-button font-lato text-lg mt-8"
+            >
+              {saving === 'saving' ? t('celebration.saving') : t('celebration.save')}
+            </Button>
+            {saving === 'failed' && <p className="text-sm text-light mt-3" role="alert">{t('celebration.saveFailed')}</p>}
+          </div>
+        ) : (
+          <div className="text-center">
+            {ring && <RingReveal duration={ring.cue.duration} />}
+            <div className="font-dancing text-3xl md:text-4xl text-light glow-text mt-6 space-y-2">
+              {messages.map((message, index) => (
+                <p key={index} className="animate-fadeIn">{message}</p>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!finished && (
+        <Button
+          onClick={handleSkip}
+          autoFocus
+          className="absolute bottom-8 right-8 btn-golden enhanced-button font-lato text-sm"
+        >
+          {t('celebration.skip')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
 // Proposal Screen Component
-const ProposalScreen = () => {
+const ProposalScreen = ({ content, experience, onComplete }: StageProps<ProposalContent>) => {
+  const memory = useStageMemory<{ revealed: boolean; answer?: 'yes' | 'no'; answeredAt?: number }>();
+  // Fixed when the screen opens, so the celebration plays only right after "Yes"
+  const [answeredYesBefore] = useState(memory.saved?.answer === 'yes');
+  const declinedBefore = memory.saved?.answer === 'no' && content.decline !== undefined;
+  const answered = memory.saved?.answer === 'yes' || declinedBefore;
+  const revealed = memory.saved?.revealed === true;
   const [showHint, setShowHint] = useState(false);
-  const [showProposal, setShowProposal] = useState(false);
-  const [showButtons, setShowButtons] = useState(false);
-  const [celebrationMode, setCelebrationMode] = useState(false);
-  const [buttonPosition, setButtonPosition] = useState({ x: 50, y: 80 });
+  const [showProposal, setShowProposal] = useState(revealed || answered);
+  const [showButtons, setShowButtons] = useState(revealed && !answered);
+  const [celebrationMode, setCelebrationMode] = useState(answeredYesBefore);
+  const [declined, setDeclined] = useState(declinedBefore);
+  // `position` is the No button's top-left in pixels once it has dodged
+  const [noButton, setNoButton] = useState<{ position: { x: number; y: number } | null; scale: number; becameYes: boolean }>({
+    position: null,
+    scale: 1,
+    becameYes: false,
+  });
+  const eventLog = useEventLog();
+  const dodgesRef = useRef(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const yesRef = useRef<HTMLButtonElement>(null);
+  const noRef = useRef<HTMLButtonElement>(null);
+  const { locale, t } = useI18n();
+  const reducedMotion = useReducedMotion();
+  const [noNotice, setNoNotice] = useState<string | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(noticeTimerRef.current), []);
+
+  // The constellation comes first, unless the proposal was already reached
+  const constellation = useMemo(() => {
+    const spec = content.constellation;
+    if (!spec || revealed || answered) return undefined;
+    const shape = spec.shape === 'heart' ? heartShape() : textShape(spec.text ?? experience.recipient.name);
+    return { taps: spec.taps, shape };
+  }, [content.constellation?.shape, content.constellation?.text, content.constellation?.taps]);
+  const [connected, setConnected] = useState(0);
+  const [constellationDone, setConstellationDone] = useState(!constellation);
 
   useEffect(() => {
+    if (revealed || answered || !constellationDone) return;
     const timer1 = setTimeout(() => {
       setShowHint(true);
-    }, 1000);
+    }, constellation ? 1500 : 1000);
 
     return () => clearTimeout(timer1);
-  }, []);
+  }, [constellationDone]);
 
   const handleRevealProposal = () => {
     setShowHint(false);
     setShowProposal(true);
+    memory.save({ revealed: true });
     
     const timer = setTimeout(() => {
       setShowButtons(true);
@@ -799,113 +1947,193 @@ const ProposalScreen = () => {
   const handleYes = () => {
     setCelebrationMode(true);
     setShowButtons(false);
-    
-    // Create celebration particles
-    for (let i = 0; i < 100; i++) {
-      setTimeout(() => {
-        const particle = document.createElement('div');
-        particle.textContent = ['💕', '💖', '💝', '🎉', '✨'][Math.floor(Math.random() * 5)];
-        particle.style.position = 'fixed';
-        particle.style.left = Math.random() * 100 + '%';
-        particle.style.top = Math.random() * 100 + '%';
-        particle.style.fontSize = Math.random() * 30 + 20 + 'px';
-        particle.style.animation = 'float 2s ease-out forwards';
-        particle.style.zIndex = '51';
-        particle.style.pointerEvents = 'none';
-        document.body.appendChild(particle);
-        
-        setTimeout(() => particle.remove(), 2000);
-      }, i * 10);
+    memory.save({ revealed: true, answer: 'yes', answeredAt: Date.now() });
+    eventLog?.record({ type: 'answer', answer: 'yes', dodges: dodgesRef.current });
+    onComplete('yes');
+  };
+
+  const showNotice = (notice: string, duration?: number) => {
+    clearTimeout(noticeTimerRef.current);
+    setNoNotice(notice);
+    if (duration !== undefined) {
+      noticeTimerRef.current = setTimeout(() => setNoNotice(null), duration);
     }
   };
 
-  const handleNo = () => {
-    setButtonPosition({
-      x: Math.random() * 80 + 10,
-      y: Math.random() * 80 + 10
+  const handleDecline = () => {
+    clearTimeout(noticeTimerRef.current);
+    setNoNotice(null);
+    setDeclined(true);
+    setShowButtons(false);
+    memory.save({ revealed: true, answer: 'no' });
+    eventLog?.record({ type: 'answer', answer: 'no', dodges: dodgesRef.current });
+    onComplete('declined');
+  };
+
+  const dodge = () => {
+    const root = rootRef.current?.getBoundingClientRect();
+    const button = noRef.current?.getBoundingClientRect();
+    const yes = yesRef.current?.getBoundingClientRect();
+    if (!root || !button) return;
+
+    const position = pickDodgePosition({
+      area: { width: root.width, height: root.height },
+      size: { width: button.width, height: button.height },
+      avoid: yes ? [{ x: yes.left - root.left, y: yes.top - root.top, width: yes.width, height: yes.height }] : [],
     });
-    
-    setTimeout(() => {
-      setButtonPosition({
-        x: Math.random() * 80 + 10,
-        y: Math.random() * 80 + 10
-      });
-    }, 1000);
+    setNoButton((previous) => ({ ...previous, position }));
+  };
+
+  const handleNo = (event: ReactMouseEvent) => {
+    dodgesRef.current += 1;
+    eventLog?.record({ type: 'no-dodge', count: dodgesRef.current });
+
+    const effect = pressNo(content.noButton, dodgesRef.current, content.decline !== undefined);
+    switch (effect.kind) {
+      case 'decline':
+        handleDecline();
+        return;
+      case 'become-yes':
+        setNoButton((previous) => ({ ...previous, becameYes: true }));
+        return;
+      case 'shrink':
+        setNoButton((previous) => ({ ...previous, scale: effect.scale }));
+        return;
+      case 'confirm':
+        showNotice(effect.prompt);
+        return;
+      case 'dodge':
+        // A click with no pointer behind it (keyboard, switch access) or a wish
+        // for less motion gets a gentle word instead of a button that runs away
+        if (event.detail === 0 || reducedMotion) {
+          showNotice(t('proposal.thinkAgain'), 3000);
+          return;
+        }
+        dodge();
+    }
   };
 
+  const noButtonElement = (
+    <Button 
+      ref={noRef}
+      onClick={noButton.becameYes ? handleYes : handleNo}
+      className={`${noButton.becameYes ? 'btn-success' : 'btn-romantic'} enhanced-button font-lato text-lg ${reducedMotion ? '' : 'transition-all duration-300'}`}
+      style={{
+        transform: `scale(${noButton.scale})`,
+        ...(noButton.position && { position: 'absolute', left: noButton.position.x, top: noButton.position.y }),
+      }}
+    >
+      {noButton.becameYes ? content.yesLabel : content.noLabel}
+    </Button>
+  );
+
   return (
-    <div className="fixed inset-0 z-40 proposal-bg">
-      <StarCanvas />
+    <div ref={rootRef} className="fixed inset-0 z-40 proposal-bg">
+      <StarCanvas
+        constellation={constellation}
+        label={constellation && !constellationDone ? t('constellation.tap') : undefined}
+        onConnect={setConnected}
+        onFormed={() => setConstellationDone(true)}
+      />
       
       <div className="absolute inset-0 opacity-30">
-        <img 
-          src="https://images.unsplash.com/photo-1419242902214-272b3f66ee7a?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=1920&h=1080" 
-          alt="Starry night sky" 
-          className="w-full h-full object-cover"
-        />
+        <NightSky />
       </div>
       
+      {content.constellation && !constellationDone && (
+        <div className="absolute top-16 left-1/2 transform -translate-x-1/2 w-90 text-center pointer-events-none animate-fadeIn" style={{ zIndex: 2 }}>
+          <div className="font-dancing text-2xl text-light glow-text">
+            {content.constellation.prompt}
+          </div>
+          <div className="text-golden text-lg mt-2" aria-hidden="true">
+            {'✦'.repeat(Math.min(connected, content.constellation.taps))}
+            <span className="opacity-40">{'✧'.repeat(Math.max(0, content.constellation.taps - connected))}</span>
+          </div>
+          <div className="text-light text-sm mt-1" role="status">
+            {t('constellation.progress', { count: connected })}
+          </div>
+        </div>
+      )}
+
       {showHint && !showProposal && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-90 text-center animate-fadeIn">
           <div className="font-dancing text-2xl text-light glow-text mb-4">
-            💫 कुछ जादुई होने वाला है... 💫
+            {content.teaser}
           </div>
           <div className="text-light text-lg mb-8">
-            स्क्रीन पर टैप करके तारों से भरी रात में अपना जादू बिखेरो ✨
+            {content.hint}
           </div>
           <Button 
             onClick={handleRevealProposal}
+            autoFocus
             className="btn-golden enhanced-button font-lato text-lg"
           >
-            जादू शुरू करो ✨
+            {content.revealLabel}
           </Button>
         </div>
       )}
       
-      {showProposal && !celebrationMode && (
+      {showProposal && !celebrationMode && !declined && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-90 text-center animate-fadeIn">
-          <div className="font-dancing text-4xl md:text-5xl text-light glow-text animate-heartbeat mb-8">
-            🌸 राधे राधे मेरी प्यारी अन्नु 🌸<br />
-            जैसे राधा रानी कृष्ण की अर्धांगिनी हैं...<br />
-            Will you be my राधा... मेरी जीवन संगिनी? 💍<br />
-            <span className="text-2xl text-golden">🕉️ राधे कृष्ण राधे कृष्ण कृष्ण कृष्ण राधे राधे 🕉️</span>
+          <div className={`font-dancing text-4xl md:text-5xl text-light glow-text mb-8 ${reducedMotion ? '' : 'animate-heartbeat'}`}>
+            {content.question.map((line, index) => (
+              <span key={index}>{line}<br /></span>
+            ))}
+            <span className="text-2xl text-golden">{content.mantra}</span>
           </div>
         </div>
       )}
       
+      {/* Read out as the proposal unfolds */}
+      <p className="sr-only" role="status">
+        {celebrationMode
+          ? [content.celebration.title, ...content.celebration.lines].join(' ')
+          : declined && content.decline
+            ? [content.decline.title, ...content.decline.lines].join(' ')
+            : noNotice ?? (showProposal ? content.question.join(' ') : '')}
+      </p>
+
+      {noNotice && showButtons && (
+        <div className="absolute bottom-36 left-1/2 transform -translate-x-1/2 w-90 text-center text-light text-xl font-dancing glow-text animate-fadeIn" aria-hidden="true">
+          {noNotice}
+        </div>
+      )}
+
       {showButtons && !celebrationMode && (
         <div className="absolute bottom-16 left-1/2 transform -translate-x-1/2 flex gap-8 animate-fadeIn">
           <Button 
+            ref={yesRef}
             onClick={handleYes}
             className="btn-success enhanced-button font-lato text-lg"
           >
-            हाँ! 💕 Yes!
-          </Button>
-          <Button 
-            onClick={handleNo}
-            className="btn-romantic enhanced-button font-lato text-lg transition-all duration-300"
-            style={{
-              position: 'absolute',
-              left: `${buttonPosition.x}%`,
-              top: `${buttonPosition.y}%`,
-              transform: 'translate(-50%, -50%)'
-            }}
-          >
-            No 💔
+            {content.yesLabel}
           </Button>
+          {!noButton.position && noButtonElement}
         </div>
       )}
+
+      {/* Once it has dodged, the No button is placed against the whole screen */}
+      {showButtons && !celebrationMode && noButton.position && noButtonElement}
       
       {celebrationMode && (
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="font-dancing text-6xl text-light glow-text animate-heartbeat text-center">
-            🎉 राधे राधे! हमेशा के लिए! 🎉<br />
-            <div className="text-3xl mt-4">
-              🌸 राधा कृष्ण का आशीर्वाद हमारे साथ 🌸<br />
-              जय श्री राधे कृष्ण! 💕
+        <Celebration
+          content={content.celebration}
+          replay={!answeredYesBefore}
+          footer={`${experience.recipient.name} · ${formatLetterDate(localDayKey(new Date(memory.saved?.answeredAt ?? Date.now())), LOCALES[locale].lang)}`}
+          fileName={`${experience.id}-yes.png`}
+        />
+      )}
+
+      {declined && content.decline && (
+        <div className="absolute inset-0 flex items-center justify-center p-4">
+          <div className="w-90 text-center animate-fadeIn">
+            <div className="font-dancing text-4xl text-light glow-text mb-6">
+              {content.decline.title}
             </div>
-            <div className="text-lg mt-4 text-golden">
-              🕉️ राधे कृष्ण राधे कृष्ण कृष्ण कृष्ण राधे राधे 🕉️
+            <div className="text-light text-lg">
+              {content.decline.lines.map((line, index) => (
+                <span key={index}>{line}<br /></span>
+              ))}
             </div>
           </div>
         </div>
@@ -914,28 +2142,292 @@ const ProposalScreen = () => {
   );
 };
 
-// Main Combined App Component
-type AppStage = 'lock' | 'letter' | 'proposal';
+// Script Error Screen Component
+interface ScriptErrorScreenProps {
+  error: ExperienceScriptError;
+}
+
+const ScriptErrorScreen = ({ error }: ScriptErrorScreenProps) => {
+  return (
+    <div className="gradient-bg min-h-screen flex items-center justify-center p-4">
+      <div className="bg-white/90 rounded-xl max-w-2xl w-full p-8 text-gray-800 romantic-shadow">
+        <h1 className="font-playfair text-2xl text-romantic mb-4">Experience script is invalid</h1>
+        <ul className="space-y-2 font-lato text-sm">
+          {error.issues.map((issue, index) => (
+            <li key={index}>
+              <code className="font-mono text-romantic">{issue.path}</code> {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
 
-const CombinedApp = () => {
-  const [currentStage, setCurrentStage] = useState<AppStage>('lock');
+// Stage Registry
+const stageRegistry = createStageRegistry([
+  defineStage({ type: 'lock', readContent: readLockContent, component: LockScreen }),
+  defineStage({ type: 'challenge', readContent: readChallengeContent, component: ChallengeScreen }),
+  defineStage({ type: 'letter', readContent: readLetterContent, component: LoveLetter }),
+  defineStage({ type: 'gallery', readContent: readGalleryContent, component: GalleryScreen }),
+  defineStage({ type: 'jap', readContent: readJapContent, component: JapScreen }),
+  defineStage({ type: 'proposal', readContent: readProposalContent, component: ProposalScreen }),
+]);
+
+// Resume Prompt Component
+interface ResumePromptProps {
+  onContinue: () => void;
+  onStartOver: () => void;
+}
 
-  const handleUnlock = () => {
-    setCurrentStage('letter');
+const ResumePrompt = ({ onContinue, onStartOver }: ResumePromptProps) => {
+  const { t } = useI18n();
+  const titleId = useId();
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center gradient-bg p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="bg-white/90 backdrop-blur-md rounded-3xl p-8 max-w-md w-full shadow-2xl text-center animate-fadeIn"
+      >
+        <div className="text-5xl mb-4" aria-hidden="true">🌸</div>
+        <h2 id={titleId} className="font-dancing text-3xl text-romantic mb-3">{t('resume.title')}</h2>
+        <p className="text-gray-700 mb-6">{t('resume.question')}</p>
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <Button onClick={onContinue} autoFocus className="btn-romantic enhanced-button font-lato">
+            {t('resume.continue')}
+          </Button>
+          <Button onClick={onStartOver} className="btn-golden enhanced-button font-lato">
+            {t('resume.startOver')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Language Picker Component
+const LanguagePicker = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 bg-white/80 hover:bg-white rounded-full pl-3 pr-1 py-1 shadow-lg text-sm font-lato text-romantic transition-all duration-300">
+      <span title={t('language.label')}>🌐</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent rounded-full py-1 pr-2 outline-none cursor-pointer"
+        aria-label={t('language.label')}
+      >
+        {LOCALE_CODES.map((code) => (
+          <option key={code} value={code}>{LOCALES[code].name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+// Motion Toggle Component
+// Stills the particles, the drifting decorations and the heartbeat text; with
+// the system asking for reduced motion it is already on and cannot be undone
+const MotionToggle = () => {
+  const { t } = useI18n();
+  const system = useSystemReducedMotion();
+  const reducedMotion = useReducedMotion();
+
+  return (
+    <button
+      type="button"
+      onClick={() => setReducedMotionPreference(!reducedMotion)}
+      disabled={system}
+      aria-pressed={reducedMotion}
+      aria-label={t('motion.reduce')}
+      title={t('motion.reduce')}
+      className={`rounded-full p-2 shadow-lg text-sm transition-all duration-300 disabled:cursor-default ${reducedMotion ? 'bg-romantic text-white' : 'bg-white/80 hover:bg-white'}`}
+    >
+      🍃
+    </button>
+  );
+};
+
+// Experience View Component
+// Progress is remembered per experience. When there is some, the recipient is
+// asked whether to continue before any stage mounts; a sealed experience always
+// starts at its lock, though its stages still remember how far they got.
+interface ExperienceViewProps {
+  experience: ExperienceScript;
+  canResume?: boolean;
+}
+
+const ExperienceView = ({ experience, canResume = true }: ExperienceViewProps) => {
+  const progress = useExperienceProgress(experience.id);
+  const i18n = useLocaleState(experience.locale.default);
+  const director = useAudioDirector();
+  const { endpoint } = experience.analytics;
+  const eventLog = useMemo(
+    () => createEventLog({ experienceId: experience.id, transport: endpoint ? createFetchTransport(endpoint) : undefined }),
+    [experience.id, endpoint]
+  );
+
+  // Send anything left over from an earlier visit, and whatever is pending
+  // when the page goes away
+  useEffect(() => {
+    void eventLog.flush();
+    const handlePageHide = () => void eventLog.flush();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [eventLog]);
+  useOfflineSupport(experience);
+
+  const [resume, setResume] = useState<'ask' | 'continue' | 'fresh'>(
+    canResume && progress.hasProgress ? 'ask' : 'fresh'
+  );
+
+  // Apply the saved music setting, then keep it up to date
+  useEffect(() => {
+    if (!director) return;
+    const music = progress.saved?.music;
+    if (music) {
+      director.setVolume(music.volume);
+      if (!music.enabled) void director.setEnabled(false);
+    }
+    let previous = director.getState();
+    return director.subscribe(() => {
+      const state = director.getState();
+      if (state.enabled === previous.enabled && state.volume === previous.volume) return;
+      previous = state;
+      progress.saveMusic({ enabled: state.enabled, volume: state.volume });
+    });
+  }, [director, progress]);
+
+  const handleHistoryChange = (stageIds: string[]) => {
+    progress.recordHistory(stageIds);
+    eventLog.record({ type: 'stage-enter', stageId: stageIds[stageIds.length - 1] });
   };
 
-  const handleRevealProposal = () => {
-    setCurrentStage('proposal');
+  const handleStartOver = () => {
+    progress.reset();
+    setResume('fresh');
   };
 
   return (
-    <div className="min-h-screen overflow-hidden relative">
-      <ParticleSystem />
-      
-      {currentStage === 'lock' && <LockScreen onUnlock={handleUnlock} />}
-      {currentStage === 'letter' && <LoveLetter onRevealProposal={handleRevealProposal} />}
-      {currentStage === 'proposal' && <ProposalScreen />}
-    </div>
+    <I18nContext.Provider value={i18n}>
+      <EventLogContext.Provider value={eventLog}>
+        <main className="min-h-screen overflow-hidden relative">
+          <ParticleSystem theme={experience.theme.particles} density={experience.theme.particleDensity}>
+            <BackgroundMusic />
+            <div className="fixed bottom-4 left-4 z-50 flex items-center gap-2">
+              {experience.locale.picker && <LanguagePicker />}
+              <MotionToggle />
+            </div>
+
+            {resume === 'ask' ? (
+              <ResumePrompt onContinue={() => setResume('continue')} onStartOver={handleStartOver} />
+            ) : (
+              <StagePipeline
+                experience={experience}
+                registry={stageRegistry}
+                initialHistory={resume === 'continue' ? progress.saved?.history : undefined}
+                memory={progress.memory}
+                onHistoryChange={handleHistoryChange}
+                onRestart={progress.reset}
+              />
+            )}
+          </ParticleSystem>
+        </main>
+      </EventLogContext.Provider>
+    </I18nContext.Provider>
+  );
+};
+
+// Sealed Experience Component
+// Only the lock exists until something heard decrypts the rest; the pipeline
+// then carries on into the real stages.
+interface SealedExperienceProps {
+  envelope: SealedEnvelope;
+  publicExperience: ExperienceScript;
+}
+
+const SealedExperience = ({ envelope, publicExperience }: SealedExperienceProps) => {
+  const [unsealed, setUnsealed] = useState<ExperienceScript | null>(null);
+
+  const unseal = async (heard: string[]) => {
+    const script = await openSealedExperience(envelope, heard);
+    if (script === null) return false;
+    try {
+      setUnsealed(loadExperienceScript(script, stageRegistry));
+      return true;
+    } catch (error) {
+      console.error('Unsealed experience is invalid:', error);
+      return false;
+    }
+  };
+
+  return (
+    <UnsealContext.Provider value={unseal}>
+      <ExperienceView experience={unsealed ?? publicExperience} canResume={false} />
+    </UnsealContext.Provider>
+  );
+};
+
+// Main Combined App Component
+
+interface CombinedAppProps {
+  // Parsed script object or raw JSON or YAML text; defaults to the bundled experience.
+  // A package in the link or the standalone file takes precedence.
+  script?: unknown;
+}
+
+const CombinedApp = ({ script = defaultScript }: CombinedAppProps) => {
+  const route = useHashRoute();
+  const shared = useExperiencePackage();
+  const sharedPackage = shared.status === 'ready' ? shared.package : null;
+  const source = sharedPackage
+    ? sharedPackage.kind === 'sealed' ? sharedPackage.envelope.public : sharedPackage.script
+    : script;
+
+  const loaded = useMemo((): { experience: ExperienceScript } | { error: ExperienceScriptError } => {
+    try {
+      return { experience: loadExperienceScript(source, stageRegistry) };
+    } catch (error) {
+      if (error instanceof ExperienceScriptError) return { error };
+      throw error;
+    }
+  }, [source]);
+
+  if (route === EDITOR_ROUTE) {
+    const editable = 'error' in loaded || sharedPackage?.kind === 'sealed' ? defaultScript : source;
+    return (
+      <AudioDirectorProvider>
+        <ExperienceEditor initialScript={editable} registry={stageRegistry} />
+      </AudioDirectorProvider>
+    );
+  }
+
+  if (shared.status === 'loading') {
+    return <div className="gradient-bg min-h-screen" />;
+  }
+
+  if (shared.status === 'error') {
+    return <ScriptErrorScreen error={new ExperienceScriptError([{ path: '(link)', message: shared.message }])} />;
+  }
+
+  if ('error' in loaded) {
+    return <ScriptErrorScreen error={loaded.error} />;
+  }
+
+  const { experience } = loaded;
+
+  return (
+    <AudioDirectorProvider>
+      {sharedPackage?.kind === 'sealed' ? (
+        <SealedExperience envelope={sharedPackage.envelope} publicExperience={experience} />
+      ) : (
+        <ExperienceView experience={experience} />
+      )}
+    </AudioDirectorProvider>
   );
 };
 
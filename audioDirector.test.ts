@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAudioDirector } from './audioDirector';
+
+// Just enough of Web Audio for the director's graph; time only moves when the
+// test says so
+const createFakeContext = () => {
+  const param = () => ({
+    value: 1,
+    cancelScheduledValues: vi.fn(),
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(function (this: { value: number }, value: number) {
+      this.value = value;
+    }),
+    exponentialRampToValueAtTime: vi.fn(),
+  });
+  const node = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+  const oscillators: unknown[] = [];
+  const context = {
+    currentTime: 0,
+    state: 'running',
+    destination: node(),
+    createGain: () => ({ ...node(), gain: param() }),
+    createDelay: () => ({ ...node(), delayTime: param() }),
+    createOscillator: () => {
+      const oscillator = { ...node(), type: 'sine', frequency: param(), start: vi.fn(), stop: vi.fn() };
+      oscillators.push(oscillator);
+      return oscillator;
+    },
+    createMediaElementSource: () => node(),
+    resume: vi.fn(async () => undefined),
+    close: vi.fn(async () => undefined),
+  };
+  return { context: context as unknown as AudioContext, oscillators };
+};
+
+class FakeAudio {
+  static last: FakeAudio;
+  crossOrigin = '';
+  loop = false;
+  preload = '';
+  private attributes = new Map<string, string>();
+  constructor() {
+    FakeAudio.last = this;
+  }
+  set src(value: string) {
+    this.attributes.set('src', value);
+  }
+  get src() {
+    return this.attributes.get('src') ?? '';
+  }
+  getAttribute(name: string) {
+    return this.attributes.get(name) ?? null;
+  }
+  removeAttribute(name: string) {
+    this.attributes.delete(name);
+  }
+  play = vi.fn(() => Promise.resolve());
+  pause = vi.fn();
+  load = vi.fn();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('Audio', FakeAudio);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('createAudioDirector', () => {
+  it('pauses a file once music is turned off and resumes it when turned on', async () => {
+    const director = createAudioDirector(createFakeContext().context);
+    director.play({ kind: 'file', src: 'song.mp3' });
+    await vi.advanceTimersByTimeAsync(0);
+    const audio = FakeAudio.last;
+    expect(audio.play).toHaveBeenCalledTimes(1);
+
+    await director.setEnabled(false);
+    expect(audio.pause).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(audio.pause).toHaveBeenCalledTimes(1);
+
+    await director.setEnabled(true);
+    expect(audio.play).toHaveBeenCalledTimes(2);
+    expect(audio.src).toBe('song.mp3');
+  });
+
+  it('does not pause when music comes back on during the fade', async () => {
+    const director = createAudioDirector(createFakeContext().context);
+    director.play({ kind: 'file', src: 'song.mp3' });
+    await director.setEnabled(false);
+    await director.setEnabled(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(FakeAudio.last.pause).not.toHaveBeenCalled();
+  });
+
+  it('stops scheduling synth notes while music is off', async () => {
+    const { context, oscillators } = createFakeContext();
+    const director = createAudioDirector(context);
+    director.play({ kind: 'synth', preset: 'yaman' });
+    expect(oscillators.length).toBeGreaterThan(0);
+
+    await director.setEnabled(false);
+    await vi.advanceTimersByTimeAsync(500);
+    const scheduled = oscillators.length;
+    // The context clock runs on, but no new voices are started
+    (context as { currentTime: number }).currentTime = 30;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(oscillators.length).toBe(scheduled);
+
+    await director.setEnabled(true);
+    expect(oscillators.length).toBeGreaterThan(scheduled);
+  });
+
+  it('holds back a track that arrives while music is off', async () => {
+    const director = createAudioDirector(createFakeContext().context);
+    await director.setEnabled(false);
+    director.play({ kind: 'file', src: 'song.mp3' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(FakeAudio.last.play).not.toHaveBeenCalled();
+    expect(director.getState().hasTrack).toBe(true);
+
+    await director.setEnabled(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(FakeAudio.last.play).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves storing the volume to the caller', () => {
+    localStorage.clear();
+    const director = createAudioDirector(createFakeContext().context, 0.4);
+    expect(director.getState().volume).toBe(0.4);
+    director.setVolume(2);
+    expect(director.getState().volume).toBe(1);
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,286 @@
+import { createContext, useContext, useEffect, useState, useSyncExternalStore, type ReactNode } from 'react';
+import { createMusicEngine } from './musicEngine';
+import { resolveMusicSequence, type MusicChoice } from './ragas';
+import { loadVoiceNote } from './voiceNotes';
+
+// Audio Sources
+// Anything a stage can play: the synthesised raga, a bundled file ("our song")
+// or a voice note recorded in-app. `silence` fades out whatever is playing.
+export type AudioSourceSpec =
+  | ({ kind: 'synth' } & MusicChoice & { crossfade?: number })
+  | { kind: 'file'; src: string; loop?: boolean; gain?: number; crossfade?: number }
+  | { kind: 'voice-note'; id?: string; src?: string; loop?: boolean; gain?: number; crossfade?: number }
+  | { kind: 'silence'; crossfade?: number };
+
+interface AudioSource {
+  start: () => Promise<void>;
+  pause: () => void;
+  resume: () => Promise<void>;
+  stop: () => void;
+}
+
+const DEFAULT_CROSSFADE_SECONDS = 2;
+const DEFAULT_FILE_GAIN = 0.5;
+
+const createElementSource = (
+  context: AudioContext,
+  destination: AudioNode,
+  resolveUrl: () => Promise<string>,
+  { loop = true, gain = DEFAULT_FILE_GAIN }: { loop?: boolean; gain?: number }
+): AudioSource => {
+  const element = new Audio();
+  element.crossOrigin = 'anonymous';
+  element.loop = loop;
+  element.preload = 'auto';
+  const level = context.createGain();
+  level.gain.value = gain;
+  context.createMediaElementSource(element).connect(level);
+  level.connect(destination);
+  let objectUrl: string | null = null;
+  // A pause that lands while the URL is still resolving holds the start back
+  let paused = false;
+
+  return {
+    start: async () => {
+      const url = await resolveUrl();
+      if (url.startsWith('blob:')) objectUrl = url;
+      element.src = url;
+      if (!paused) await element.play();
+    },
+    pause: () => {
+      paused = true;
+      element.pause();
+    },
+    resume: async () => {
+      paused = false;
+      if (element.getAttribute('src')) await element.play();
+    },
+    stop: () => {
+      element.pause();
+      element.removeAttribute('src');
+      element.load();
+      level.disconnect();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    },
+  };
+};
+
+const createAudioSource = (context: AudioContext, destination: AudioNode, spec: AudioSourceSpec): AudioSource => {
+  switch (spec.kind) {
+    case 'synth': {
+      const engine = createMusicEngine({ context, destination, sequence: resolveMusicSequence(spec), fadeSeconds: 0.5 });
+      return {
+        start: async () => engine.play(),
+        pause: () => engine.pause(),
+        resume: async () => engine.play(),
+        stop: () => {
+          engine.stop();
+          engine.output.disconnect();
+        },
+      };
+    }
+    case 'file':
+      return createElementSource(context, destination, async () => spec.src, spec);
+    case 'voice-note':
+      return createElementSource(context, destination, async () => {
+        if (spec.src) return spec.src;
+        const note = spec.id ? await loadVoiceNote(spec.id) : undefined;
+        if (!note) throw new Error(`Voice note "${spec.id}" is not on this device`);
+        return URL.createObjectURL(note.blob);
+      }, spec);
+    case 'silence':
+      return { start: async () => undefined, pause: () => undefined, resume: async () => undefined, stop: () => undefined };
+  }
+};
+
+// Two specs naming the same track keep it playing across stages
+const trackKey = (spec: AudioSourceSpec) => {
+  const { crossfade: _crossfade, ...rest } = spec;
+  return JSON.stringify(rest);
+};
+
+// Audio Director
+// Owns the AudioContext and the one track that is currently playing:
+//   channel (crossfade) → master (volume, on/off) → duck (narration) → out
+// Turning music off fades the master and then pauses the track, so the synth
+// stops scheduling notes and a file stops streaming; turning it on resumes it.
+// The volume is not stored here: the experience's progress record keeps it.
+export interface AudioDirectorState {
+  enabled: boolean;
+  volume: number;
+  hasTrack: boolean;
+}
+
+export interface AudioDirector {
+  play: (spec: AudioSourceSpec) => void;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setVolume: (volume: number) => void;
+  duck: (level?: number) => void;
+  unduck: () => void;
+  getState: () => AudioDirectorState;
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+}
+
+const MASTER_RAMP_SECONDS = 0.4;
+const DUCK_RAMP_SECONDS = 0.3;
+const DEFAULT_VOLUME = 0.7;
+
+export const createAudioDirector = (context: AudioContext, volume = DEFAULT_VOLUME): AudioDirector => {
+  const master = context.createGain();
+  const ducking = context.createGain();
+  master.connect(ducking);
+  ducking.connect(context.destination);
+
+  let state: AudioDirectorState = { enabled: true, volume, hasTrack: false };
+  let current: { key: string; source: AudioSource; channel: GainNode; started: boolean } | null = null;
+  let pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<() => void>();
+
+  const update = (next: Partial<AudioDirectorState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  const ramp = (param: AudioParam, target: number, seconds: number) => {
+    const now = context.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(target, now + seconds);
+  };
+
+  master.gain.value = state.volume;
+
+  const startCurrent = () => {
+    if (!current) return;
+    const playing = current.started ? current.source.resume() : current.source.start();
+    current.started = true;
+    playing.catch((error) => {
+      // Usually autoplay policy; the music toggle retries with a user gesture
+      console.error('Audio source failed to start:', error);
+    });
+  };
+
+  const clearPauseTimer = () => {
+    if (pauseTimer) {
+      clearTimeout(pauseTimer);
+      pauseTimer = null;
+    }
+  };
+
+  const play = (spec: AudioSourceSpec) => {
+    const key = trackKey(spec);
+    if (current?.key === key) return;
+
+    const crossfade = spec.crossfade ?? DEFAULT_CROSSFADE_SECONDS;
+    if (current) {
+      const previous = current;
+      ramp(previous.channel.gain, 0, crossfade);
+      setTimeout(() => {
+        previous.source.stop();
+        previous.channel.disconnect();
+      }, crossfade * 1000 + 100);
+      current = null;
+    }
+
+    if (spec.kind === 'silence') {
+      update({ hasTrack: false });
+      return;
+    }
+
+    const channel = context.createGain();
+    channel.gain.value = 0;
+    channel.connect(master);
+    const source = createAudioSource(context, channel, spec);
+    current = { key, source, channel, started: false };
+    ramp(channel.gain, 1, crossfade);
+    update({ hasTrack: true });
+
+    // With music off the track waits, silent and unscheduled, for setEnabled
+    if (!state.enabled) return;
+    startCurrent();
+    if (context.state === 'suspended') {
+      context.resume().catch(() => undefined);
+    }
+  };
+
+  const setEnabled = async (enabled: boolean) => {
+    update({ enabled });
+    clearPauseTimer();
+    if (enabled) {
+      if (context.state === 'suspended') {
+        await context.resume();
+      }
+      startCurrent();
+      ramp(master.gain, state.volume, MASTER_RAMP_SECONDS);
+    } else {
+      ramp(master.gain, 0, MASTER_RAMP_SECONDS);
+      const paused = current;
+      pauseTimer = setTimeout(() => {
+        pauseTimer = null;
+        if (paused?.started) paused.source.pause();
+      }, MASTER_RAMP_SECONDS * 1000);
+    }
+  };
+
+  const setVolume = (volume: number) => {
+    const clamped = Math.min(1, Math.max(0, volume));
+    update({ volume: clamped });
+    if (state.enabled) {
+      ramp(master.gain, clamped, 0.1);
+    }
+  };
+
+  return {
+    play,
+    setEnabled,
+    setVolume,
+    duck: (level = 0.25) => ramp(ducking.gain, level, DUCK_RAMP_SECONDS),
+    unduck: () => ramp(ducking.gain, 1, DUCK_RAMP_SECONDS),
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    dispose: () => {
+      clearPauseTimer();
+      current?.source.stop();
+      current = null;
+      listeners.clear();
+      context.close();
+    },
+  };
+};
+
+// Audio Director Provider
+const AudioDirectorContext = createContext<AudioDirector | null>(null);
+
+export const AudioDirectorProvider = ({ children }: { children: ReactNode }) => {
+  const [director, setDirector] = useState<AudioDirector | null>(null);
+
+  useEffect(() => {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    let created: AudioDirector;
+    try {
+      created = createAudioDirector(new AudioContextClass());
+    } catch (error) {
+      console.error('Audio context creation failed:', error);
+      return;
+    }
+    setDirector(created);
+    return () => created.dispose();
+  }, []);
+
+  return <AudioDirectorContext.Provider value={director}>{children}</AudioDirectorContext.Provider>;
+};
+
+// Null when the browser has no Web Audio; callers simply stay silent
+export const useAudioDirector = () => useContext(AudioDirectorContext);
+
+const SILENT_STATE: AudioDirectorState = { enabled: false, volume: 0, hasTrack: false };
+const noopSubscribe = () => () => undefined;
+
+export const useAudioDirectorState = (director: AudioDirector | null) =>
+  useSyncExternalStore(director?.subscribe ?? noopSubscribe, () => director?.getState() ?? SILENT_STATE);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BACKGROUND_SCENE_NAMES,
+  DEFAULT_BACKGROUND,
+  DEFAULT_MANDALA,
+  buildNightSky,
+  buildScene,
+  generateMandala,
+} from './backgrounds';
+
+const PATH_DATA = /^[MLQTVHZaz0-9 .-]+$/;
+
+describe('buildScene', () => {
+  it.each(BACKGROUND_SCENE_NAMES)('draws %s the same way every time', (scene) => {
+    const settings = { ...DEFAULT_BACKGROUND, scene };
+    const built = buildScene(settings);
+    expect(buildScene(settings)).toEqual(built);
+    expect(built.sky.length).toBeGreaterThan(0);
+    for (const layer of built.layers) {
+      expect(layer.depth).toBeGreaterThanOrEqual(0);
+      expect(layer.depth).toBeLessThanOrEqual(1);
+      layer.paths.forEach((path) => expect(path.d).toMatch(PATH_DATA));
+    }
+  });
+
+  it('draws a different scene from another seed', () => {
+    const other = { ...DEFAULT_BACKGROUND, mandala: { ...DEFAULT_MANDALA, seed: 7 } };
+    expect(buildScene(other)).not.toEqual(buildScene(DEFAULT_BACKGROUND));
+  });
+});
+
+describe('generateMandala', () => {
+  it('is a centre, then a ring of motifs and an outline per ring', () => {
+    const paths = generateMandala({ ...DEFAULT_MANDALA, rings: 4 });
+    expect(paths).toHaveLength(9);
+    expect(paths[0].fill).toBe(DEFAULT_MANDALA.colors[0]);
+  });
+
+  it('repeats each motif round the centre, at least three times', () => {
+    const motifs = (symmetry: number) => generateMandala({ ...DEFAULT_MANDALA, symmetry, rings: 1 })[1].d.split('M').length - 1;
+    expect(motifs(8)).toBe(8);
+    expect(motifs(1)).toBe(3);
+  });
+
+  it('falls back to the default palette', () => {
+    const paths = generateMandala({ ...DEFAULT_MANDALA, colors: [] });
+    paths.forEach((path) => expect(DEFAULT_MANDALA.colors).toContain(path.stroke ?? path.fill));
+  });
+});
+
+describe('buildNightSky', () => {
+  it('draws the same sky for a seed', () => {
+    expect(buildNightSky(3)).toEqual(buildNightSky(3));
+    expect(buildNightSky(3)).not.toEqual(buildNightSky(4));
+  });
+});
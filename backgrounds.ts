@@ -0,0 +1,277 @@
+// Backgrounds
+// The scene painted behind the letter, chosen per experience with
+// `"theme": { "background": { "scene": "..." } }`. Scenes are generated from a
+// seed rather than drawn by hand: every shape is an SVG path in an 800×600
+// box, grouped into layers whose depth sets how far they shift with the
+// parallax (0 stays put, 1 moves the most).
+
+export type BackgroundSceneName = 'lotus-pond' | 'yamuna-night' | 'temple-mandala';
+
+export const BACKGROUND_SCENES: Record<BackgroundSceneName, { name: string }> = {
+  'lotus-pond': { name: 'Vrindavan lotus pond' },
+  'yamuna-night': { name: 'Yamuna at night' },
+  'temple-mandala': { name: 'Temple mandala' },
+};
+
+export const BACKGROUND_SCENE_NAMES = Object.keys(BACKGROUND_SCENES) as BackgroundSceneName[];
+
+export interface MandalaOptions {
+  // How many times the pattern repeats around the centre
+  symmetry: number;
+  colors: string[];
+  seed: number;
+  rings?: number;
+}
+
+export interface BackgroundSettings {
+  scene: BackgroundSceneName;
+  parallax: boolean;
+  mandala: MandalaOptions;
+}
+
+export const DEFAULT_MANDALA: MandalaOptions = {
+  symmetry: 12,
+  colors: ['#ffd700', '#ff69b4', '#9370db', '#ff1493'],
+  seed: 108,
+};
+
+export const DEFAULT_BACKGROUND: BackgroundSettings = {
+  scene: 'lotus-pond',
+  parallax: true,
+  mandala: DEFAULT_MANDALA,
+};
+
+export interface ScenePath {
+  d: string;
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+export interface SceneLayer {
+  depth: number;
+  paths: ScenePath[];
+}
+
+export interface SceneDescription {
+  // Colour stops of the radial wash under everything, centre outwards
+  sky: string[];
+  layers: SceneLayer[];
+}
+
+// Mulberry32: small, fast and the same on every device for a given seed
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = () => number;
+
+const num = (value: number) => Number(value.toFixed(2));
+const polar = (cx: number, cy: number, r: number, angle: number) =>
+  `${num(cx + r * Math.cos(angle))} ${num(cy + r * Math.sin(angle))}`;
+const pick = <T>(random: Random, items: T[]) => items[Math.floor(random() * items.length)];
+
+const circle = (cx: number, cy: number, r: number) =>
+  `M${num(cx - r)} ${num(cy)}a${num(r)} ${num(r)} 0 1 0 ${num(2 * r)} 0a${num(r)} ${num(r)} 0 1 0 ${num(-2 * r)} 0Z`;
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${num(cx - rx)} ${num(cy)}a${num(rx)} ${num(ry)} 0 1 0 ${num(2 * rx)} 0a${num(rx)} ${num(ry)} 0 1 0 ${num(-2 * rx)} 0Z`;
+
+// Mandala
+// Rings of motifs (petals, spikes, arches, dots) repeated `symmetry` times,
+// each ring one path so the whole mandala is a handful of elements.
+type Motif = (cx: number, cy: number, inner: number, outer: number, angle: number, halfWidth: number) => string;
+
+const MOTIFS: Motif[] = [
+  // Petal
+  (cx, cy, inner, outer, angle, halfWidth) => {
+    const middle = (inner + outer) / 2;
+    return `M${polar(cx, cy, inner, angle)}Q${polar(cx, cy, middle, angle - halfWidth)} ${polar(cx, cy, outer, angle)}`
+      + `Q${polar(cx, cy, middle, angle + halfWidth)} ${polar(cx, cy, inner, angle)}Z`;
+  },
+  // Spike
+  (cx, cy, inner, outer, angle, halfWidth) =>
+    `M${polar(cx, cy, inner, angle - halfWidth)}L${polar(cx, cy, outer, angle)}L${polar(cx, cy, inner, angle + halfWidth)}Z`,
+  // Arch
+  (cx, cy, inner, outer, angle, halfWidth) =>
+    `M${polar(cx, cy, inner, angle - halfWidth)}Q${polar(cx, cy, outer * 1.1, angle)} ${polar(cx, cy, inner, angle + halfWidth)}Z`,
+  // Dot
+  (cx, cy, inner, outer, angle) => {
+    const middle = (inner + outer) / 2;
+    return circle(cx + middle * Math.cos(angle), cy + middle * Math.sin(angle), Math.max(1, (outer - inner) / 4));
+  },
+];
+
+export const generateMandala = (
+  { symmetry, colors, seed, rings = 5 }: MandalaOptions,
+  cx = 400,
+  cy = 300,
+  radius = 200
+): ScenePath[] => {
+  const random = seededRandom(seed);
+  const count = Math.max(3, Math.round(symmetry));
+  const palette = colors.length > 0 ? colors : DEFAULT_MANDALA.colors;
+  const paths: ScenePath[] = [{ d: circle(cx, cy, radius * 0.08), fill: palette[0], opacity: 0.8 }];
+
+  const step = (2 * Math.PI) / count;
+  for (let ring = 0; ring < rings; ring++) {
+    const inner = radius * (0.1 + (0.9 * ring) / rings);
+    const outer = radius * (0.1 + (0.9 * (ring + 1)) / rings);
+    const motif = pick(random, MOTIFS);
+    // Alternate rings sit between the previous ring's motifs
+    const offset = ring % 2 === 0 ? 0 : step / 2;
+    const halfWidth = step * (0.25 + random() * 0.2);
+    const d = Array.from({ length: count }, (_, index) =>
+      motif(cx, cy, inner, outer, offset + index * step - Math.PI / 2, halfWidth)).join('');
+    const color = pick(random, palette);
+    paths.push({ d, fill: color, opacity: 0.35 + random() * 0.3 });
+    paths.push({ d: circle(cx, cy, outer), fill: 'none', stroke: pick(random, palette), strokeWidth: 1, opacity: 0.3 });
+  }
+  return paths;
+};
+
+// Scenes
+const lotus = (random: Random, cx: number, cy: number, size: number): ScenePath[] => {
+  const petals = 8;
+  const d = Array.from({ length: petals }, (_, index) =>
+    MOTIFS[0](cx, cy, size * 0.15, size, (index / petals) * Math.PI * 2 + random() * 0.1, Math.PI / petals)).join('');
+  return [
+    { d: ellipse(cx, cy + size * 0.5, size * 1.4, size * 0.45), fill: '#32cd32', opacity: 0.35 },
+    { d, fill: '#ff69b4', opacity: 0.7 },
+    { d: circle(cx, cy, size * 0.25), fill: '#ffd700' },
+  ];
+};
+
+const scatter = (random: Random, count: number, make: (x: number, y: number, scale: number) => ScenePath[], area = { x: 0, y: 0, width: 800, height: 600 }) =>
+  Array.from({ length: count }, () => make(area.x + random() * area.width, area.y + random() * area.height, 0.5 + random()))
+    .flat();
+
+const SCENE_BUILDERS: Record<BackgroundSceneName, (random: Random, mandala: MandalaOptions) => SceneDescription> = {
+  'lotus-pond': (random, mandala) => ({
+    sky: ['#ffd700', '#ff69b4', '#9370db'],
+    layers: [
+      { depth: 0.1, paths: generateMandala({ ...mandala, rings: 3 }, 400, 220, 90) },
+      {
+        depth: 0.3,
+        paths: [
+          { d: 'M0 420Q200 400 400 420T800 420V600H0Z', fill: '#4169e1', opacity: 0.35 },
+          ...scatter(random, 6, (x, y, scale) => [
+            { d: ellipse(x, y, 40 * scale, 4 * scale), fill: 'none', stroke: '#ffffff', strokeWidth: 1, opacity: 0.4 },
+          ], { x: 0, y: 440, width: 800, height: 150 }),
+        ],
+      },
+      { depth: 0.6, paths: scatter(random, 5, (x, y, scale) => lotus(random, x, y, 22 * scale), { x: 40, y: 450, width: 720, height: 110 }) },
+      {
+        depth: 1,
+        paths: scatter(random, 10, (x, y, scale) => [
+          { d: ellipse(x, y, 7 * scale, 3.5 * scale), fill: '#ff69b4', opacity: 0.4 },
+        ]),
+      },
+    ],
+  }),
+  'yamuna-night': (random) => ({
+    sky: ['#1e3a8a', '#0f172a', '#020617'],
+    layers: [
+      {
+        depth: 0.1,
+        paths: [
+          { d: circle(620, 110, 70), fill: '#fff8dc', opacity: 0.15 },
+          { d: circle(620, 110, 42), fill: '#fff8dc', opacity: 0.9 },
+          ...scatter(random, 60, (x, y, scale) => [{ d: circle(x, y, 1.2 * scale), fill: '#ffffff', opacity: 0.4 + random() * 0.5 }], { x: 0, y: 0, width: 800, height: 340 }),
+        ],
+      },
+      {
+        depth: 0.4,
+        paths: [
+          { d: 'M0 360Q200 340 400 360T800 360V600H0Z', fill: '#1d4ed8', opacity: 0.45 },
+          ...Array.from({ length: 6 }, (_, index) => {
+            const y = 390 + index * 35;
+            return { d: `M0 ${y}Q100 ${y - 8} 200 ${y}T400 ${y}T600 ${y}T800 ${y}`, fill: 'none', stroke: '#93c5fd', strokeWidth: 1, opacity: 0.25 };
+          }),
+          // The moon's reflection
+          { d: ellipse(620, 430, 30, 90), fill: '#fff8dc', opacity: 0.12 },
+        ],
+      },
+      {
+        depth: 0.8,
+        // Floating diyas
+        paths: scatter(random, 7, (x, y, scale) => [
+          { d: circle(x, y - 6 * scale, 10 * scale), fill: '#ffd700', opacity: 0.25 },
+          { d: ellipse(x, y, 9 * scale, 4 * scale), fill: '#b45309' },
+          { d: ellipse(x, y - 7 * scale, 2.5 * scale, 5 * scale), fill: '#ff8c00' },
+        ], { x: 40, y: 400, width: 720, height: 170 }),
+      },
+    ],
+  }),
+  'temple-mandala': (random, mandala) => ({
+    sky: ['#fff8dc', '#ffd700', '#ff8c00'],
+    layers: [
+      {
+        depth: 0.1,
+        // A shikhara outline framing the mandala
+        paths: [{ d: 'M180 600V330Q400 60 620 330V600', fill: 'none', stroke: '#b45309', strokeWidth: 6, opacity: 0.35 }],
+      },
+      { depth: 0.3, paths: generateMandala(mandala, 400, 330, 190) },
+      {
+        depth: 0.7,
+        paths: [
+          ...generateMandala({ ...mandala, seed: mandala.seed + 1, rings: 2 }, 90, 90, 60),
+          ...generateMandala({ ...mandala, seed: mandala.seed + 2, rings: 2 }, 710, 510, 60),
+          ...scatter(random, 8, (x, y, scale) => [{ d: circle(x, y, 3 * scale), fill: pick(random, mandala.colors.length > 0 ? mandala.colors : DEFAULT_MANDALA.colors), opacity: 0.4 }]),
+        ],
+      },
+    ],
+  }),
+};
+
+// The same settings always give the same scene
+export const buildScene = ({ scene, mandala }: BackgroundSettings): SceneDescription =>
+  SCENE_BUILDERS[scene](seededRandom(mandala.seed * 31 + scene.length), mandala);
+
+// Night Sky
+// The starry backdrop behind the proposal, drawn rather than downloaded so it
+// is there with no signal: a milky way band running corner to corner, dense
+// with faint stars, under a sky of brighter scattered ones.
+const MILKY_WAY = { from: { x: -40, y: 620 }, to: { x: 840, y: 40 } };
+
+export const buildNightSky = (seed = 108): SceneDescription => {
+  const random = seededRandom(seed);
+  const { from, to } = MILKY_WAY;
+  const band = `M${from.x} ${from.y}L${to.x} ${to.y}`;
+  // Summing three draws bunches the band's stars towards its middle
+  const bandStar = (): ScenePath => {
+    const along = random();
+    const spread = (random() + random() + random() - 1.5) * 70;
+    const x = from.x + (to.x - from.x) * along + spread * 0.55;
+    const y = from.y + (to.y - from.y) * along + spread * 0.85;
+    return { d: circle(x, y, 0.4 + random() * 0.8), fill: '#ffffff', opacity: 0.2 + random() * 0.4 };
+  };
+
+  return {
+    sky: ['#1e1b4b', '#0f172a', '#020617'],
+    layers: [
+      {
+        depth: 0.1,
+        paths: [
+          { d: band, fill: 'none', stroke: '#c4b5fd', strokeWidth: 180, opacity: 0.06 },
+          { d: band, fill: 'none', stroke: '#e0e7ff', strokeWidth: 70, opacity: 0.08 },
+          ...Array.from({ length: 260 }, bandStar),
+        ],
+      },
+      {
+        depth: 0.3,
+        paths: scatter(random, 90, (x, y, scale) => [
+          { d: circle(x, y, 0.8 + 1.2 * scale), fill: pick(random, ['#ffffff', '#fff8dc', '#dbeafe']), opacity: 0.5 + random() * 0.5 },
+        ]),
+      },
+    ],
+  };
+};
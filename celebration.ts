@@ -0,0 +1,151 @@
+import type { AudioSourceSpec } from './audioDirector';
+import { seededRandom } from './backgrounds';
+import { FIREWORK_COLORS, drawStaticBurst } from './fireworks';
+
+// Celebration
+// What follows "Yes": a timeline of cues from the script (fireworks, a music
+// cue that swells in, the ring, messages one after another) and then a screen
+// to keep the moment as a picture. A cue without `at` starts when the one
+// before it ends, so a plain list plays in order; `at` lays cues over each
+// other. Times are in seconds from the answer.
+
+export type CelebrationCue =
+  | { kind: 'fireworks'; at?: number; duration: number; intensity?: number }
+  // Fades in over `duration`, then keeps playing
+  | { kind: 'music'; at?: number; duration: number; music: AudioSourceSpec }
+  | { kind: 'ring'; at?: number; duration: number }
+  // Shown for good once its turn comes, under the ones before it
+  | { kind: 'message'; at?: number; duration: number; text: string };
+
+export type CelebrationCueKind = CelebrationCue['kind'];
+
+export const CELEBRATION_CUES: Record<CelebrationCueKind, { name: string }> = {
+  fireworks: { name: '🎆 Fireworks' },
+  music: { name: '🎶 Music' },
+  ring: { name: '💍 Ring' },
+  message: { name: '💌 Message' },
+};
+
+export const CELEBRATION_CUE_KINDS = Object.keys(CELEBRATION_CUES) as CelebrationCueKind[];
+
+export interface ScheduledCue {
+  cue: CelebrationCue;
+  start: number;
+  end: number;
+}
+
+export const scheduleCelebration = (cues: CelebrationCue[]): ScheduledCue[] => {
+  let previousEnd = 0;
+  return cues.map((cue) => {
+    const start = cue.at ?? previousEnd;
+    // To the millisecond, so 1.2 + 1.2 + 1.2 reads as 3.6
+    previousEnd = Math.round((start + cue.duration) * 1000) / 1000;
+    return { cue, start, end: previousEnd };
+  });
+};
+
+// When the last cue is over and the save screen comes up
+export const celebrationLength = (schedule: ScheduledCue[]) => Math.max(0, ...schedule.map(({ end }) => end));
+
+// For scripts written before the celebration had a timeline
+export const defaultCelebrationTimeline = ({ title, lines }: { title: string; lines: string[] }): CelebrationCue[] => [
+  { kind: 'fireworks', at: 0, duration: 8 },
+  { kind: 'ring', at: 0.5, duration: 2.5 },
+  ...[title, ...lines].map((text): CelebrationCue => ({ kind: 'message', duration: 1.2, text })),
+];
+
+// Still
+// The picture saved from the last screen. The page itself cannot be captured,
+// so the frame is drawn again on a canvas of its own, sized for sharing.
+export const STILL_WIDTH = 1080;
+export const STILL_HEIGHT = 1350;
+
+export interface CelebrationStill {
+  title: string;
+  lines: string[];
+  mantra: string;
+  // Names and the date, along the bottom
+  footer: string;
+}
+
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) =>
+  text.split(/\s+/).reduce<string[]>((lines, word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && context.measureText(`${last} ${word}`).width <= maxWidth) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+    return lines;
+  }, []);
+
+const drawCentredText = (context: CanvasRenderingContext2D, text: string, y: number, font: string, color: string, lineHeight: number) => {
+  context.font = font;
+  context.fillStyle = color;
+  const wrapped = wrapText(context, text, STILL_WIDTH * 0.84);
+  wrapped.forEach((line, index) => context.fillText(line, STILL_WIDTH / 2, y + index * lineHeight));
+  return y + wrapped.length * lineHeight;
+};
+
+export const renderCelebrationStill = async (still: CelebrationStill): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = STILL_WIDTH;
+  canvas.height = STILL_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('this browser cannot draw the picture');
+  // The script faces have to be loaded before they can be drawn
+  await document.fonts?.ready;
+
+  const sky = context.createLinearGradient(0, 0, 0, STILL_HEIGHT);
+  sky.addColorStop(0, '#0f172a');
+  sky.addColorStop(0.55, '#4c1d95');
+  sky.addColorStop(1, '#831843');
+  context.fillStyle = sky;
+  context.fillRect(0, 0, STILL_WIDTH, STILL_HEIGHT);
+
+  const random = seededRandom(108);
+  context.fillStyle = '#ffffff';
+  for (let index = 0; index < 160; index++) {
+    context.globalAlpha = 0.3 + random() * 0.7;
+    context.fillRect(random() * STILL_WIDTH, random() * STILL_HEIGHT, 2, 2);
+  }
+  context.globalAlpha = 1;
+  [[0.2, 0.14], [0.8, 0.1], [0.5, 0.06]].forEach(([x, y], index) =>
+    drawStaticBurst(context, x * STILL_WIDTH, y * STILL_HEIGHT, 170, FIREWORK_COLORS[index], random));
+
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.font = '200px serif';
+  context.fillText('💍', STILL_WIDTH / 2, STILL_HEIGHT * 0.34);
+
+  let y = drawCentredText(context, still.title, STILL_HEIGHT * 0.5, 'bold 84px "Dancing Script", cursive', '#fde68a', 96);
+  y += 24;
+  still.lines.forEach((line) => {
+    y = drawCentredText(context, line, y, '48px "Dancing Script", cursive', '#ffffff', 60);
+  });
+  drawCentredText(context, still.mantra, y + 32, '36px Lato, sans-serif', '#fbbf24', 44);
+  drawCentredText(context, still.footer, STILL_HEIGHT - 70, '30px Lato, sans-serif', 'rgba(255, 255, 255, 0.75)', 36);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('the picture could not be saved'))), 'image/png'));
+};
+
+// Shared as a file where the browser can, downloaded otherwise
+export const shareCelebrationStill = async (blob: Blob, fileName: string, title: string) => {
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (error) {
+      // Closing the share sheet is not a failure
+      if ((error as Error).name === 'AbortError') return;
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
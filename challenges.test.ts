@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkQuizAnswer,
+  compareDates,
+  createMemoryDeck,
+  flipMemoryCard,
+  heartStroke,
+  isHeart,
+  isMemoryMatchSolved,
+  scoreHeart,
+  type Point,
+} from './challenges';
+
+const circle = (steps = 64): Point[] =>
+  Array.from({ length: steps + 1 }, (_, index) => {
+    const angle = (index / steps) * Math.PI * 2;
+    return { x: 100 + Math.cos(angle) * 80, y: 100 + Math.sin(angle) * 80 };
+  });
+
+const square: Point[] = [
+  ...[0, 1, 2, 3, 4].map((step) => ({ x: step * 40, y: 0 })),
+  ...[1, 2, 3, 4].map((step) => ({ x: 160, y: step * 40 })),
+  ...[3, 2, 1, 0].map((step) => ({ x: step * 40, y: 160 })),
+  ...[3, 2, 1, 0].map((step) => ({ x: 0, y: step * 40 })),
+];
+
+// What a pen moved in fixed steps in eight directions makes of a heart
+const penTrace = (target: Point[], start: Point, step: number) => {
+  const points = [start];
+  const moves = [-1, 0, 1].flatMap((x) => [-1, 0, 1].map((y) => ({ x, y }))).filter(({ x, y }) => x || y);
+  target.forEach((goal) => {
+    for (;;) {
+      const { x, y } = points[points.length - 1];
+      const next = moves
+        .map((move) => ({ x: x + move.x * step, y: y + move.y * step }))
+        .reduce((best, point) => (Math.hypot(point.x - goal.x, point.y - goal.y) < Math.hypot(best.x - goal.x, best.y - goal.y) ? point : best));
+      if (Math.hypot(next.x - goal.x, next.y - goal.y) >= Math.hypot(x - goal.x, y - goal.y)) break;
+      points.push(next);
+    }
+  });
+  return points;
+};
+
+describe('isHeart', () => {
+  it('accepts a heart at any size and place', () => {
+    expect(scoreHeart(heartStroke(0, 0, 200))).toBeGreaterThan(0.85);
+    expect(isHeart(heartStroke(50, 10, 60))).toBe(true);
+  });
+
+  it('accepts a heart drawn backwards', () => {
+    expect(isHeart(heartStroke(0, 0, 200).reverse())).toBe(true);
+  });
+
+  it('accepts a heart traced by a pen moving in steps', () => {
+    expect(isHeart(penTrace(heartStroke(42, 42, 196), { x: 140, y: 84 }, 14))).toBe(true);
+  });
+
+  it('rejects other shapes', () => {
+    expect(isHeart(circle())).toBe(false);
+    expect(isHeart(square)).toBe(false);
+    // An open stroke, however heart-like
+    expect(isHeart(heartStroke(0, 0, 200).slice(0, 40))).toBe(false);
+    expect(scoreHeart([{ x: 0, y: 0 }, { x: 1, y: 1 }])).toBe(0);
+  });
+});
+
+describe('quiz', () => {
+  it('matches typed answers loosely and choices exactly', () => {
+    expect(checkQuizAnswer({ question: 'Where?', answers: ['Vrindavan'] }, 'vrindaban')).toBe(true);
+    expect(checkQuizAnswer({ question: 'Where?', answers: ['Vrindavan'] }, 'Mathura')).toBe(false);
+    expect(checkQuizAnswer({ question: 'Where?', answers: ['Goa'], choices: ['Goa', 'Pune'] }, 'goa')).toBe(false);
+  });
+});
+
+describe('compareDates', () => {
+  it('compares to the day or to the month', () => {
+    expect(compareDates('2021-02-14', { date: '2021-02-14' })).toBe('same');
+    expect(compareDates('2021-02-13', { date: '2021-02-14' })).toBe('earlier');
+    expect(compareDates('2021-03-01', { date: '2021-02-14' })).toBe('later');
+    expect(compareDates('2021-02-01', { date: '2021-02-14', precision: 'month' })).toBe('same');
+  });
+});
+
+describe('memory match', () => {
+  it('matches pairs and turns a miss back on the next tap', () => {
+    // Without shuffling the deck is the pairs twice over
+    let state = createMemoryDeck(['🪷', '🦚'], () => 0.999);
+    expect(state.cards.map((card) => card.face)).toEqual(['🪷', '🦚', '🪷', '🦚']);
+
+    state = flipMemoryCard(state, 0).state;
+    const miss = flipMemoryCard(state, 1);
+    expect(miss.result).toBe('miss');
+    state = flipMemoryCard(miss.state, 2).state;
+    expect(state.open).toEqual([2]);
+
+    const match = flipMemoryCard(state, 0);
+    expect(match.result).toBe('match');
+    state = flipMemoryCard(flipMemoryCard(match.state, 1).state, 3).state;
+    expect(isMemoryMatchSolved(state)).toBe(true);
+  });
+});
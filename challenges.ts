@@ -0,0 +1,177 @@
+import { createPassphraseMatcher } from './passphraseMatcher';
+
+// Challenges
+// Small games that can stand before the letter instead of (or after) the
+// voice lock, each as its own `challenge` stage so several can be chained.
+// Every kind shares hints, an attempt limit and an optional skip; the rules
+// here do not depend on React.
+
+export interface QuizQuestion {
+  question: string;
+  // Any of these counts; typed answers are matched as loosely as passphrases
+  answers: string[];
+  // Offered as buttons instead of a text box
+  choices?: string[];
+}
+
+export type ChallengeSpec =
+  | { kind: 'quiz'; questions: QuizQuestion[] }
+  // Tap the lotuses to turn them over and find the pairs
+  | { kind: 'memory-match'; pairs: string[] }
+  | { kind: 'draw-heart'; threshold?: number }
+  // The day they first met, or only its month with `precision: "month"`
+  | { kind: 'date'; date: string; precision?: 'day' | 'month' };
+
+export type ChallengeKind = ChallengeSpec['kind'];
+
+export const CHALLENGES: Record<ChallengeKind, { name: string }> = {
+  quiz: { name: 'Memory quiz' },
+  'memory-match': { name: 'Lotus memory match' },
+  'draw-heart': { name: 'Draw a heart' },
+  date: { name: 'Day we met' },
+};
+
+export const CHALLENGE_KINDS = Object.keys(CHALLENGES) as ChallengeKind[];
+
+// Quiz
+export const checkQuizAnswer = (question: QuizQuestion, answer: string) => {
+  if (question.choices) return question.answers.includes(answer);
+  return createPassphraseMatcher({ passphrases: question.answers }).matchAny([answer]).matched;
+};
+
+// Date
+// Compared as text, so time zones never move the day
+export const compareDates = (guess: string, spec: { date: string; precision?: 'day' | 'month' }) => {
+  const length = spec.precision === 'month' ? 7 : 10;
+  const [a, b] = [guess.slice(0, length), spec.date.slice(0, length)];
+  return a === b ? 'same' : a < b ? 'earlier' : 'later';
+};
+
+// Memory match
+export interface MemoryCard {
+  face: string;
+  matched: boolean;
+}
+
+export interface MemoryMatchState {
+  cards: MemoryCard[];
+  // Indices turned over and not yet matched; at most two
+  open: number[];
+}
+
+export const createMemoryDeck = (pairs: string[], random = Math.random): MemoryMatchState => {
+  const cards = [...pairs, ...pairs].map((face) => ({ face, matched: false }));
+  // Fisher–Yates
+  for (let index = cards.length - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1));
+    [cards[index], cards[other]] = [cards[other], cards[index]];
+  }
+  return { cards, open: [] };
+};
+
+// A third tap while two unmatched cards are showing turns them back first.
+// `result` is set on the tap that completes a pair attempt.
+export const flipMemoryCard = (
+  state: MemoryMatchState,
+  index: number
+): { state: MemoryMatchState; result?: 'match' | 'miss' } => {
+  const card = state.cards[index];
+  if (!card || card.matched || state.open.includes(index)) return { state };
+
+  const open = state.open.length === 2 ? [index] : [...state.open, index];
+  if (open.length < 2) return { state: { ...state, open } };
+
+  const [first, second] = open;
+  if (state.cards[first].face !== state.cards[second].face) {
+    return { state: { ...state, open }, result: 'miss' };
+  }
+  const cards = state.cards.map((other, otherIndex) =>
+    otherIndex === first || otherIndex === second ? { ...other, matched: true } : other);
+  return { state: { cards, open: [] }, result: 'match' };
+};
+
+export const isMemoryMatchSolved = (state: MemoryMatchState) => state.cards.every((card) => card.matched);
+
+// Heart gesture
+// The stroke is scaled into a unit box and compared, point by point in both
+// directions, with a drawn heart; where it starts and which way it goes do not
+// matter. It must also end near where it began.
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_HEART_THRESHOLD = 0.5;
+const SAMPLES = 64;
+
+const heartTemplate: Point[] = Array.from({ length: SAMPLES }, (_, index) => {
+  const t = (index / SAMPLES) * Math.PI * 2;
+  return {
+    x: 16 * Math.sin(t) ** 3,
+    // Screen y grows downwards, so the point of the heart is at the bottom
+    y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)),
+  };
+});
+
+const pathLength = (points: Point[]) =>
+  points.slice(1).reduce((total, point, index) => total + Math.hypot(point.x - points[index].x, point.y - points[index].y), 0);
+
+// Evenly spaced along the stroke, so slow and fast parts weigh the same
+export const resampleStroke = (points: Point[], count = SAMPLES): Point[] => {
+  if (points.length < 2) return points;
+  const step = pathLength(points) / (count - 1);
+  if (step === 0) return [points[0]];
+  const resampled = [points[0]];
+  let carried = 0;
+  let previous = points[0];
+  for (let index = 1; index < points.length; index++) {
+    let point = points[index];
+    let distance = Math.hypot(point.x - previous.x, point.y - previous.y);
+    while (carried + distance >= step && resampled.length < count) {
+      const ratio = (step - carried) / distance;
+      const next = { x: previous.x + ratio * (point.x - previous.x), y: previous.y + ratio * (point.y - previous.y) };
+      resampled.push(next);
+      previous = next;
+      distance = Math.hypot(point.x - previous.x, point.y - previous.y);
+      carried = 0;
+      point = points[index];
+    }
+    carried += distance;
+    previous = point;
+  }
+  while (resampled.length < count) resampled.push(points[points.length - 1]);
+  return resampled;
+};
+
+// Into a unit box, keeping the proportions
+const normalize = (points: Point[]) => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const [minX, minY] = [Math.min(...xs), Math.min(...ys)];
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  return points.map((point) => ({ x: (point.x - minX) / size, y: (point.y - minY) / size }));
+};
+
+const meanNearest = (from: Point[], to: Point[]) =>
+  from.reduce((total, point) => total + Math.min(...to.map((other) => Math.hypot(point.x - other.x, point.y - other.y))), 0) / from.length;
+
+const normalizedTemplate = normalize(heartTemplate);
+
+// 1 for a perfect heart, towards 0 for anything else
+export const scoreHeart = (stroke: Point[]) => {
+  if (stroke.length < 8) return 0;
+  const points = normalize(resampleStroke(stroke));
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (Math.hypot(first.x - last.x, first.y - last.y) > 0.3) return 0;
+  const distance = (meanNearest(points, normalizedTemplate) + meanNearest(normalizedTemplate, points)) / 2;
+  // A careful heart is about 0.01 from the template, a hasty one 0.04; a circle
+  // or a square is 0.12 or more
+  return Math.max(0, 1 - distance / 0.12);
+};
+
+export const isHeart = (stroke: Point[], threshold = DEFAULT_HEART_THRESHOLD) => scoreHeart(stroke) >= threshold;
+
+// The template fitted into a square: a heart as a perfect stroke would draw it
+export const heartStroke = (x: number, y: number, size: number): Point[] =>
+  [...normalizedTemplate, normalizedTemplate[0]].map((point) => ({ x: x + point.x * size, y: y + point.y * size }));
@@ -0,0 +1,136 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEventLog, createFetchTransport, eventsToCsv, type EventStorage, type ExperienceEvent } from './eventLog';
+
+// A local analytics endpoint that keeps what it is sent and answers with
+// whatever status the test sets
+let server: Server;
+let endpoint: string;
+let status = 204;
+let received: { method?: string; contentType?: string; body: { events: ExperienceEvent[] } }[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      if (status < 300) {
+        received.push({ method: request.method, contentType: request.headers['content-type'], body: JSON.parse(body) });
+      }
+      response.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const createMemoryStorage = (): EventStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+const setup = (url = endpoint) =>
+  createEventLog({
+    experienceId: 'test',
+    transport: createFetchTransport(url),
+    storage: createMemoryStorage(),
+    // Flushed by hand
+    flushDelayMs: 60_000,
+    now: () => new Date('2024-02-14T10:00:00.000Z'),
+  });
+
+const sentTypes = () => received.flatMap(({ body }) => body.events.map((event) => event.type));
+
+beforeEach(() => {
+  status = 204;
+  received = [];
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('createFetchTransport', () => {
+  it('posts the pending events as JSON, each batch once', async () => {
+    const log = setup();
+    log.record({ type: 'stage-enter', stageId: 'lock' });
+    log.record({ type: 'unlock-attempt', method: 'voice', transcripts: ['radha'], success: true });
+    await log.flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ method: 'POST', contentType: 'application/json' });
+    expect(received[0].body.events[1]).toMatchObject({
+      type: 'unlock-attempt',
+      transcripts: ['radha'],
+      experienceId: 'test',
+      at: '2024-02-14T10:00:00.000Z',
+    });
+
+    await log.flush();
+    expect(received).toHaveLength(1);
+    log.record({ type: 'stage-enter', stageId: 'letter' });
+    await log.flush();
+    expect(sentTypes()).toEqual(['stage-enter', 'unlock-attempt', 'stage-enter']);
+  });
+
+  it('keeps the events when the endpoint fails and sends them on the next flush', async () => {
+    const log = setup();
+    log.record({ type: 'stage-enter', stageId: 'lock' });
+    status = 500;
+    await log.flush();
+    expect(received).toHaveLength(0);
+    expect(console.warn).toHaveBeenCalled();
+
+    status = 204;
+    log.record({ type: 'answer', answer: 'yes', dodges: 2 });
+    await log.flush();
+    expect(sentTypes()).toEqual(['stage-enter', 'answer']);
+  });
+
+  it('keeps the events when the endpoint cannot be reached', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const log = setup(`http://127.0.0.1:${port}/events`);
+    log.record({ type: 'stage-enter', stageId: 'lock' });
+    await log.flush();
+    expect(log.events()).toHaveLength(1);
+  });
+
+  it('sends a batch only once when flushes overlap', async () => {
+    const log = setup();
+    log.record({ type: 'stage-enter', stageId: 'lock' });
+    await Promise.all([log.flush(), log.flush()]);
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('eventsToCsv', () => {
+  it('quotes text and defuses spreadsheet formulas', () => {
+    const csv = eventsToCsv([{
+      type: 'unlock-attempt',
+      method: 'typed',
+      transcripts: ['=HYPERLINK("x")', 'radha, radha'],
+      success: false,
+      experienceId: 'test',
+      sessionId: 's',
+      at: '2024-02-14T10:00:00.000Z',
+    }]);
+    expect(csv.split('\r\n')[1]).toBe(`2024-02-14T10:00:00.000Z,s,test,unlock-attempt,,typed,,false,"'=HYPERLINK(""x"") | radha, radha",,,,,`);
+  });
+});
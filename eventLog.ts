@@ -0,0 +1,186 @@
+import { createContext, useContext } from 'react';
+
+// Event Log
+// What happened during an experience and when: each unlock attempt with what
+// was heard, each try at a challenge, how long every letter paragraph was the
+// newest one, each dodge of the "No" button and the final answer. Events are
+// kept in localStorage per experience so the author can export them as JSON or
+// CSV, and are posted to the script's analytics endpoint when it names one.
+
+export type ExperienceEventData =
+  | { type: 'stage-enter'; stageId: string }
+  | { type: 'unlock-attempt'; method: 'voice' | 'typed'; transcripts: string[]; success: boolean }
+  | { type: 'challenge-attempt'; challenge: string; success: boolean }
+  | { type: 'challenge-skip'; challenge: string }
+  | { type: 'paragraph-read'; index: number; durationMs: number }
+  | { type: 'no-dodge'; count: number }
+  | { type: 'answer'; answer: string; dodges: number };
+
+export type ExperienceEvent = ExperienceEventData & {
+  experienceId: string;
+  // One per page load, to tell visits apart
+  sessionId: string;
+  // ISO 8601
+  at: string;
+};
+
+// Delivers a batch of events; rejecting leaves them queued for the next flush.
+// Tests can pass their own (or point the fetch transport at a local mock server).
+export type EventTransport = (events: ExperienceEvent[]) => Promise<void>;
+
+export type EventStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export const createFetchTransport = (endpoint: string): EventTransport => async (events) => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ events }),
+    // Lets the last batch go out while the page is closing
+    keepalive: true,
+  });
+  if (!response.ok) {
+    throw new Error(`${endpoint} answered ${response.status}`);
+  }
+};
+
+// The oldest events are dropped past this many, so storage cannot fill up
+const MAX_EVENTS = 2000;
+const FLUSH_DELAY_MS = 2000;
+
+const storageKey = (experienceId: string) => `radha-radha:events:${experienceId}`;
+
+interface StoredLog {
+  events: ExperienceEvent[];
+  // How many of `events` the transport has already delivered
+  sent: number;
+}
+
+const createSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export interface EventLog {
+  record: (event: ExperienceEventData) => void;
+  events: () => ExperienceEvent[];
+  flush: () => Promise<void>;
+  clear: () => void;
+}
+
+interface EventLogOptions {
+  experienceId: string;
+  transport?: EventTransport;
+  storage?: EventStorage;
+  flushDelayMs?: number;
+  now?: () => Date;
+}
+
+export const createEventLog = ({
+  experienceId,
+  transport,
+  storage = localStorage,
+  flushDelayMs = FLUSH_DELAY_MS,
+  now = () => new Date(),
+}: EventLogOptions): EventLog => {
+  const sessionId = createSessionId();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+
+  const read = (): StoredLog => {
+    try {
+      const stored = JSON.parse(storage.getItem(storageKey(experienceId)) ?? 'null');
+      if (stored && Array.isArray(stored.events) && typeof stored.sent === 'number') return stored;
+    } catch {
+      // A corrupt log starts over
+    }
+    return { events: [], sent: 0 };
+  };
+
+  const write = (log: StoredLog) => {
+    try {
+      storage.setItem(storageKey(experienceId), JSON.stringify(log));
+    } catch {
+      // Private mode or full storage: the event is lost, the experience goes on
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (flushTimer !== null) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (!transport) return Promise.resolve();
+    if (flushing) return flushing;
+
+    const { events, sent } = read();
+    const pending = events.slice(sent);
+    if (pending.length === 0) return Promise.resolve();
+
+    flushing = transport(pending)
+      .then(() => {
+        // Re-read: events may have been recorded (and old ones dropped, which
+        // already moved `sent` back) while the batch was on its way
+        const latest = read();
+        write({ ...latest, sent: Math.min(latest.events.length, latest.sent + pending.length) });
+      })
+      .catch((error) => console.warn('Could not send experience events:', error))
+      .finally(() => {
+        flushing = null;
+      });
+    return flushing;
+  };
+
+  const record = (data: ExperienceEventData) => {
+    const log = read();
+    const events = [...log.events, { ...data, experienceId, sessionId, at: now().toISOString() }];
+    const dropped = Math.max(0, events.length - MAX_EVENTS);
+    write({ events: events.slice(dropped), sent: Math.max(0, log.sent - dropped) });
+
+    if (transport && flushTimer === null) {
+      flushTimer = setTimeout(() => void flush(), flushDelayMs);
+    }
+  };
+
+  return {
+    record,
+    events: () => read().events,
+    flush,
+    clear: () => {
+      try {
+        storage.removeItem(storageKey(experienceId));
+      } catch {
+        // Nothing stored to clear
+      }
+    },
+  };
+};
+
+// Export
+const CSV_COLUMNS = [
+  'at', 'sessionId', 'experienceId', 'type', 'stageId', 'method', 'challenge', 'success',
+  'transcripts', 'index', 'durationMs', 'count', 'answer', 'dodges',
+] as const;
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  let text = Array.isArray(value) ? value.join(' | ') : String(value);
+  // Spreadsheets run cells starting with these as formulas; heard speech is
+  // untrusted text.
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const eventsToCsv = (events: ExperienceEvent[]) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...events.map((event) => CSV_COLUMNS.map((column) => csvCell((event as Record<string, unknown>)[column])).join(',')),
+  ].join('\r\n');
+
+export const eventsToJson = (events: ExperienceEvent[]) => JSON.stringify(events, null, 2);
+
+// Event Log Context
+// Stages record through this; outside an experience (e.g. the editor preview)
+// there is no log and nothing is recorded.
+export const EventLogContext = createContext<EventLog | null>(null);
+
+export const useEventLog = () => useContext(EventLogContext);
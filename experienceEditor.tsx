@@ -0,0 +1,1518 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type ComponentType } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAudioDirector, type AudioSourceSpec } from './audioDirector';
+import { BACKGROUND_SCENES, BACKGROUND_SCENE_NAMES, DEFAULT_BACKGROUND, type BackgroundSettings } from './backgrounds';
+import {
+  CELEBRATION_CUES,
+  CELEBRATION_CUE_KINDS,
+  celebrationLength,
+  defaultCelebrationTimeline,
+  scheduleCelebration,
+  type CelebrationCue,
+  type CelebrationCueKind,
+} from './celebration';
+import {
+  CHALLENGES,
+  CHALLENGE_KINDS,
+  DEFAULT_HEART_THRESHOLD,
+  type ChallengeKind,
+  type ChallengeSpec,
+  type QuizQuestion,
+} from './challenges';
+import {
+  ExperienceScriptError,
+  loadExperienceScript,
+  localizeStageContent,
+  parseExperienceScriptText,
+  validateExperienceScript,
+  type ChallengeContent,
+  type ConstellationContent,
+  type ExperienceScript,
+  type ExperienceScriptIssue,
+  type GalleryContent,
+  type JapContent,
+  type LetterAttachment,
+  type LetterContent,
+  type LockContent,
+  type ProposalContent,
+  type StageDefinition,
+} from './experienceScript';
+import { createEventLog, eventsToCsv, eventsToJson, type ExperienceEvent } from './eventLog';
+import {
+  buildStandaloneHtml,
+  createShareLink,
+  encodePackage,
+  isSealingSupported,
+  sealExperience,
+} from './experiencePackage';
+import { DEFAULT_LOCALE, I18nContext, LOCALES, LOCALE_CODES, createI18n, type Locale } from './i18n';
+import { DEFAULT_JAP_NAMES, DEFAULT_JAP_TARGET, MALA_BEADS } from './japCounter';
+import { MAX_CLIP_SECONDS, importMediaFile, inlineMedia, useMediaSource, type MediaItem, type MediaKind } from './media';
+import {
+  DEFAULT_DODGE_TIMES,
+  DEFAULT_NO_BEHAVIOUR,
+  DEFAULT_SHRINK_TIMES,
+  NO_BEHAVIOURS,
+  NO_BEHAVIOUR_KINDS,
+  type NoBehaviour,
+  type NoBehaviourKind,
+} from './noButton';
+import { PARTICLE_THEMES, PARTICLE_THEME_NAMES, type ParticleThemeName } from './particleThemes';
+import { SEQUENCES } from './ragas';
+import { resolveNextStage, type StageRegistry } from './stagePipeline';
+import { blobToDataUrl, deleteVoiceNote, loadVoiceNote, useVoiceNoteRecorder } from './voiceNotes';
+
+// Experience Editor
+// Lives at #/editor so a new experience can be written without touching code:
+// the passphrase, letter, proposal, music and particle theme, with the stage
+// being edited previewed beside the form. Work in progress is kept as a local
+// draft, and the result is exported as the same JSON file the app loads.
+
+export const EDITOR_ROUTE = '#/editor';
+
+export const useHashRoute = () => {
+  const [hash, setHash] = useState(() => window.location.hash);
+
+  useEffect(() => {
+    const handleChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', handleChange);
+    return () => window.removeEventListener('hashchange', handleChange);
+  }, []);
+
+  return hash;
+};
+
+// Edit History
+interface EditHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const HISTORY_LIMIT = 100;
+const COALESCE_MS = 1000;
+
+export const useEditHistory = <T,>(initial: () => T) => {
+  const [history, setHistory] = useState<EditHistory<T>>(() => ({ past: [], present: initial(), future: [] }));
+  const lastEditRef = useRef<{ key: string; at: number } | null>(null);
+
+  // Keystrokes in the same field less than a second apart are one undo step
+  const change = (next: T, coalesceKey?: string) => {
+    const now = Date.now();
+    const last = lastEditRef.current;
+    const coalesce = coalesceKey !== undefined && last?.key === coalesceKey && now - last.at < COALESCE_MS;
+    lastEditRef.current = coalesceKey === undefined ? null : { key: coalesceKey, at: now };
+    setHistory((current) => ({
+      past: coalesce ? current.past : [...current.past, current.present].slice(-HISTORY_LIMIT),
+      present: next,
+      future: [],
+    }));
+  };
+
+  const undo = () => {
+    lastEditRef.current = null;
+    setHistory((current) => current.past.length === 0 ? current : {
+      past: current.past.slice(0, -1),
+      present: current.past[current.past.length - 1],
+      future: [current.present, ...current.future],
+    });
+  };
+
+  const redo = () => {
+    lastEditRef.current = null;
+    setHistory((current) => current.future.length === 0 ? current : {
+      past: [...current.past, current.present],
+      present: current.future[0],
+      future: current.future.slice(1),
+    });
+  };
+
+  return {
+    value: history.present,
+    change,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
+
+// Drafts and files
+const DRAFT_STORAGE_KEY = 'radha-radha:editor-draft';
+
+// A draft is saved on every edit, so it may be mid-edit and invalid; it only
+// has to have the shape the forms work on.
+const loadDraft = (): ExperienceScript | null => {
+  try {
+    const draft = JSON.parse(localStorage.getItem(DRAFT_STORAGE_KEY) ?? 'null');
+    // Drafts saved before analytics or languages existed get the defaults
+    return draft?.version === 2 && Array.isArray(draft.stages)
+      ? { analytics: {}, locale: { default: DEFAULT_LOCALE, picker: true }, ...draft }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveDraft = (script: ExperienceScript) => {
+  try {
+    localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(script));
+  } catch {
+    // Private mode or a draft full of inlined audio: the editor still works
+  }
+};
+
+const collectIssues = (run: () => void): ExperienceScriptIssue[] => {
+  try {
+    run();
+    return [];
+  } catch (error) {
+    if (error instanceof ExperienceScriptError) return error.issues;
+    throw error;
+  }
+};
+
+// Voice notes and imported photos live in this browser's IndexedDB; an
+// exported file carries them inline so it plays on the recipient's device.
+const inlineMusic = async (music: AudioSourceSpec, owner: string): Promise<AudioSourceSpec> => {
+  if (music.kind !== 'voice-note' || music.src || !music.id) return music;
+  const note = await loadVoiceNote(music.id);
+  if (!note) throw new Error(`the voice note for ${owner} is no longer in this browser`);
+  const { id: _id, ...rest } = music;
+  return { ...rest, src: await blobToDataUrl(note.blob) };
+};
+
+const inlineVoiceNote = async (stage: StageDefinition): Promise<StageDefinition> =>
+  stage.music ? { ...stage, music: await inlineMusic(stage.music, `stage "${stage.id}"`) } : stage;
+
+const inlineStageMedia = async (stage: StageDefinition): Promise<StageDefinition> => {
+  if (stage.type === 'gallery') {
+    const content = stage.content as GalleryContent;
+    return { ...stage, content: { ...content, items: await Promise.all(content.items.map(inlineMedia)) } };
+  }
+  if (stage.type === 'letter') {
+    const content = stage.content as LetterContent;
+    if (!content.attachments) return stage;
+    const attachments = await Promise.all(content.attachments.map(async (attachment) => ({ ...attachment, ...await inlineMedia(attachment) })));
+    return { ...stage, content: { ...content, attachments } };
+  }
+  if (stage.type === 'proposal') {
+    const content = stage.content as ProposalContent;
+    if (!content.celebration.timeline) return stage;
+    const timeline = await Promise.all(content.celebration.timeline.map(async (cue) =>
+      (cue.kind === 'music' ? { ...cue, music: await inlineMusic(cue.music, `the celebration of stage "${stage.id}"`) } : cue)));
+    return { ...stage, content: { ...content, celebration: { ...content.celebration, timeline } } };
+  }
+  return stage;
+};
+
+const inlineLocalFiles = async (script: ExperienceScript): Promise<ExperienceScript> => ({
+  ...script,
+  stages: await Promise.all(script.stages.map(async (stage) => inlineStageMedia(await inlineVoiceNote(stage)))),
+});
+
+const downloadFile = (name: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// One line per kind of event, for the responses panel
+const summarizeEvents = (events: ExperienceEvent[]) => {
+  const attempts = events.filter((event) => event.type === 'unlock-attempt');
+  const challengeTries = events.filter((event) => event.type === 'challenge-attempt').length;
+  const answer = [...events].reverse().find((event) => event.type === 'answer');
+  const visits = new Set(events.map((event) => event.sessionId)).size;
+  return [
+    `${visits} visit${visits === 1 ? '' : 's'}, ${events.length} event${events.length === 1 ? '' : 's'}`,
+    `${attempts.length} unlock attempt${attempts.length === 1 ? '' : 's'}, ${attempts.filter((event) => event.type === 'unlock-attempt' && event.success).length} successful`,
+    `${challengeTries} challenge tr${challengeTries === 1 ? 'y' : 'ies'}, ${events.filter((event) => event.type === 'challenge-skip').length} skipped`,
+    `${events.filter((event) => event.type === 'no-dodge').length} "No" dodges`,
+    answer?.type === 'answer' ? `Answered "${answer.answer}" on ${new Date(answer.at).toLocaleString()}` : 'No answer yet',
+  ];
+};
+
+// Links longer than this get cut off by some messaging apps
+const LONG_LINK_LENGTH = 32000;
+
+const updateStage = (script: ExperienceScript, index: number, patch: Partial<StageDefinition>): ExperienceScript => ({
+  ...script,
+  stages: script.stages.map((stage, stageIndex) => (stageIndex === index ? { ...stage, ...patch } : stage)),
+});
+
+// Editor Fields
+const labelClass = 'block text-sm font-lato text-pink-200 mb-1';
+const inputClass = 'bg-white/90 text-gray-900';
+const textAreaClass = 'w-full rounded-md bg-white/90 text-gray-900 p-2 text-sm font-lato min-h-[5rem]';
+
+interface FieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  hint?: string;
+  type?: string;
+}
+
+const Field = ({ label, value, onChange, multiline = false, hint, type = 'text' }: FieldProps) => (
+  <label className="block mb-4">
+    <span className={labelClass}>{label}</span>
+    {multiline ? (
+      <textarea value={value} onChange={(e) => onChange(e.target.value)} className={textAreaClass} />
+    ) : (
+      <Input type={type} value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+    )}
+    {hint && <span className="block text-xs text-gray-400 mt-1">{hint}</span>}
+  </label>
+);
+
+interface LinesFieldProps {
+  label: string;
+  lines: string[];
+  onChange: (lines: string[]) => void;
+  hint?: string;
+}
+
+// One entry per line
+const LinesField = ({ label, lines, onChange, hint }: LinesFieldProps) => (
+  <Field label={label} value={lines.join('\n')} onChange={(value) => onChange(value.split('\n'))} multiline hint={hint} />
+);
+
+// Media List Field
+// Imported photos are resized and kept in this browser until the experience
+// is exported; a URL works too.
+interface MediaThumbnailProps {
+  item: MediaItem;
+}
+
+const MediaThumbnail = ({ item }: MediaThumbnailProps) => {
+  const source = useMediaSource(item);
+  const className = 'w-16 h-16 shrink-0 rounded-md object-cover bg-white/10';
+  if (source === null || source === 'missing') {
+    return <div className={`${className} flex items-center justify-center text-xs text-gray-400`}>{source === 'missing' ? '?' : '…'}</div>;
+  }
+  return item.kind === 'photo'
+    ? <img src={source.src} alt="" className={className} />
+    : <video src={source.src} poster={source.poster} muted preload="metadata" className={className} />;
+};
+
+interface MediaListFieldProps {
+  label?: string;
+  items: MediaItem[];
+  onChange: (items: MediaItem[], field: string) => void;
+  hint?: string;
+}
+
+const MediaListField = ({ label, items, onChange, hint }: MediaListFieldProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const update = (index: number, patch: Partial<MediaItem>, field: string) =>
+    onChange(items.map((item, itemIndex) => (itemIndex === index ? { ...item, ...patch } : item)), `${index}.${field}`);
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next, 'order');
+  };
+
+  // One file at a time, so a dozen phone photos are never decoded at once
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    const imported: MediaItem[] = [];
+    const problems: string[] = [];
+    for (const [index, file] of files.entries()) {
+      setStatus(`Importing ${index + 1} of ${files.length}…`);
+      try {
+        imported.push(await importMediaFile(file));
+      } catch (error) {
+        problems.push((error as Error).message);
+      }
+    }
+    if (imported.length > 0) onChange([...items, ...imported], 'add');
+    setStatus(problems.length > 0 ? `Not imported: ${problems.join('; ')}` : null);
+  };
+
+  return (
+    <div className="mb-4">
+      {label && <span className={labelClass}>{label}</span>}
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-3 items-start mb-2 p-2 rounded-lg bg-white/5 border border-white/10">
+          <MediaThumbnail item={item} />
+          <div className="flex-1 space-y-2">
+            <Input
+              value={item.caption ?? ''}
+              onChange={(e) => update(index, { caption: e.target.value || undefined }, 'caption')}
+              placeholder="Caption"
+              className={inputClass}
+            />
+            {item.id === undefined && (
+              <div className="flex gap-2">
+                <select
+                  value={item.kind}
+                  onChange={(e) => update(index, { kind: e.target.value as MediaKind }, 'kind')}
+                  className="rounded-md bg-white/10 text-sm px-2"
+                  aria-label="Kind"
+                >
+                  <option value="photo" className="text-gray-900">Photo</option>
+                  <option value="clip" className="text-gray-900">Clip</option>
+                </select>
+                <Input
+                  value={item.src ?? ''}
+                  onChange={(e) => update(index, { src: e.target.value }, 'src')}
+                  placeholder="https://… or photos/first-chat.jpg"
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+          <span className="flex flex-col text-sm">
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="px-2 disabled:opacity-30" title="Move up">↑</button>
+            <button onClick={() => move(index, 1)} disabled={index === items.length - 1} className="px-2 disabled:opacity-30" title="Move down">↓</button>
+            <button onClick={() => onChange(items.filter((_, other) => other !== index), 'remove')} className="px-2" title="Remove">✕</button>
+          </span>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => fileInputRef.current?.click()}>📷 Import photos or clips</Button>
+        <Button onClick={() => onChange([...items, { kind: 'photo', src: '' }], 'add')}>+ By URL</Button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="image/*,video/*" multiple onChange={handleFiles} className="hidden" />
+      {status && <span className="block text-xs text-amber-300 mt-1">{status}</span>}
+      {hint && <span className="block text-xs text-gray-400 mt-1">{hint}</span>}
+    </div>
+  );
+};
+
+// Stage Forms
+interface StageFormProps<TContent> {
+  content: TContent;
+  onChange: (content: TContent, field: string) => void;
+}
+
+const contentSetter = <TContent,>({ content, onChange }: StageFormProps<TContent>) =>
+  <K extends keyof TContent & string>(key: K) => (value: TContent[K]) => onChange({ ...content, [key]: value }, key);
+
+// Recordings of the first passphrase become the lock's on-device spotter, for
+// browsers without speech recognition or network. They travel in the script as
+// data: URLs, so there is nothing to upload.
+const OfflinePassphraseField = ({ content, onChange }: StageFormProps<LockContent>) => {
+  const model = content.offlineModel;
+  const clips = model?.kind === 'templates' ? model.clips : [];
+  const keyword = content.keywords[0] ?? '';
+  const recorder = useVoiceNoteRecorder(async (note) => {
+    const clip = await blobToDataUrl(note.blob);
+    void deleteVoiceNote(note.id);
+    onChange({ ...content, offlineModel: { kind: 'templates', keyword, clips: [...clips, clip] } }, 'offlineModel');
+  });
+
+  // A compiled model is set in the JSON and left alone here
+  if (model?.kind === 'wasm' || !recorder.isSupported) return null;
+
+  return (
+    <div className="mb-4 p-4 rounded-lg bg-white/5 border border-white/10">
+      <span className={labelClass}>Offline passphrase</span>
+      <div className="flex items-center gap-3 mb-1 text-sm">
+        {recorder.state === 'recording' ? (
+          <Button onClick={recorder.stop}>⏹️ Stop ({Math.round(recorder.elapsedMs / 1000)}s)</Button>
+        ) : (
+          <Button onClick={recorder.start} disabled={!keyword || recorder.state === 'saving'}>🎙️ Record "{keyword}"</Button>
+        )}
+        {clips.length > 0 && (
+          <Button onClick={() => onChange({ ...content, offlineModel: undefined }, 'offlineModel')}>Clear</Button>
+        )}
+        <span className="text-gray-400">
+          {recorder.state === 'error' ? 'Recording failed' : `${clips.length} recording${clips.length === 1 ? '' : 's'}`}
+        </span>
+      </div>
+      <span className="block text-xs text-gray-400">
+        Say the first passphrase a few times, one recording each. Not kept in a sealed link.
+      </span>
+    </div>
+  );
+};
+
+const LockForm = (props: StageFormProps<LockContent>) => {
+  const { content } = props;
+  const set = contentSetter(props);
+
+  return (
+    <>
+      <LinesField
+        label="Passphrases"
+        lines={content.keywords}
+        onChange={set('keywords')}
+        hint="One per line. Saying or typing any of them unlocks the experience."
+      />
+      <OfflinePassphraseField {...props} />
+      <Field label="Greeting" value={content.greeting} onChange={set('greeting')} />
+      <Field label="Riddle" value={content.riddle} onChange={set('riddle')} multiline />
+      <Field label="Blessing" value={content.blessing} onChange={set('blessing')} />
+      <Field label="Microphone prompt" value={content.prompt} onChange={set('prompt')} />
+      <Field label="Typed answer placeholder" value={content.fallbackPlaceholder} onChange={set('fallbackPlaceholder')} />
+    </>
+  );
+};
+
+const LetterForm = (props: StageFormProps<LetterContent>) => {
+  const { content, onChange } = props;
+  const set = contentSetter(props);
+  const paragraphs = content.paragraphs;
+
+  const attachments = content.attachments ?? [];
+
+  // Attachments follow their paragraph when it moves and go when it does
+  const setParagraphs = (next: string[], field: string, remap?: (paragraph: number) => number | null) => {
+    const moved = remap
+      ? attachments.flatMap((attachment) => {
+        const paragraph = remap(attachment.paragraph);
+        return paragraph === null ? [] : [{ ...attachment, paragraph }];
+      })
+      : attachments;
+    onChange({ ...content, paragraphs: next, attachments: moved.length > 0 ? moved : undefined }, field);
+  };
+  const move = (index: number, offset: number) => {
+    const next = [...paragraphs];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setParagraphs(next, 'paragraphs.order', (paragraph) =>
+      paragraph === index ? index + offset : paragraph === index + offset ? index : paragraph);
+  };
+  const remove = (index: number) =>
+    setParagraphs(paragraphs.filter((_, other) => other !== index), 'paragraphs.remove', (paragraph) =>
+      paragraph === index ? null : paragraph > index ? paragraph - 1 : paragraph);
+  const setAttachments = (index: number, items: MediaItem[], field: string) => {
+    const next: LetterAttachment[] = [
+      ...attachments.filter((attachment) => attachment.paragraph !== index),
+      ...items.map((item) => ({ ...item, paragraph: index })),
+    ];
+    onChange({ ...content, attachments: next.length > 0 ? next : undefined }, `attachments.${index}.${field}`);
+  };
+
+  return (
+    <>
+      <Field label="Title" value={content.title} onChange={set('title')} />
+      <p className="text-xs text-gray-400 mb-3">
+        **bold**, *italic*, ==highlight==, &gt; quote, ![caption](photo.jpg), {'{date:2024-02-14}'}, -- signature line
+      </p>
+      {paragraphs.map((paragraph, index) => (
+        <div key={index} className="mb-4">
+          <div className="flex items-center justify-between mb-1">
+            <span className={labelClass}>Paragraph {index + 1}</span>
+            <span className="flex gap-1 text-sm">
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="px-2 disabled:opacity-30" title="Move up">↑</button>
+              <button onClick={() => move(index, 1)} disabled={index === paragraphs.length - 1} className="px-2 disabled:opacity-30" title="Move down">↓</button>
+              <button
+                onClick={() => remove(index)}
+                disabled={paragraphs.length === 1}
+                className="px-2 disabled:opacity-30"
+                title="Remove paragraph"
+              >
+                ✕
+              </button>
+            </span>
+          </div>
+          <textarea
+            value={paragraph}
+            onChange={(e) => setParagraphs(paragraphs.map((other, otherIndex) => (otherIndex === index ? e.target.value : other)), `paragraphs.${index}`)}
+            className={textAreaClass}
+          />
+          <details className="mt-1" open={attachments.some((attachment) => attachment.paragraph === index)}>
+            <summary className="text-xs text-pink-200 cursor-pointer">📎 Photos and clips under this paragraph</summary>
+            <MediaListField
+              items={attachments.filter((attachment) => attachment.paragraph === index)}
+              onChange={(items, field) => setAttachments(index, items, field)}
+            />
+          </details>
+        </div>
+      ))}
+      <Button onClick={() => setParagraphs([...paragraphs, ''], 'paragraphs.add')} className="mb-6">
+        + Add paragraph
+      </Button>
+      <Field
+        label="Closing"
+        value={content.signature.closing}
+        onChange={(closing) => onChange({ ...content, signature: { ...content.signature, closing } }, 'signature.closing')}
+      />
+      <Field
+        label="Signed"
+        value={content.signature.name}
+        onChange={(name) => onChange({ ...content, signature: { ...content.signature, name } }, 'signature.name')}
+      />
+      <Field
+        label="Date under the signature"
+        type="date"
+        value={content.signature.date ?? ''}
+        onChange={(date) => onChange({ ...content, signature: { ...content.signature, date: date || undefined } }, 'signature.date')}
+      />
+      <Field label="Next button" value={content.nextLabel} onChange={set('nextLabel')} />
+    </>
+  );
+};
+
+// Switching a cue's kind keeps when it plays
+const newCelebrationCue = (kind: CelebrationCueKind, from?: CelebrationCue): CelebrationCue => {
+  const timing = { at: from?.at, duration: from?.duration ?? 2 };
+  switch (kind) {
+    case 'fireworks':
+      return { kind, ...timing };
+    case 'music':
+      return { kind, ...timing, music: { kind: 'synth', preset: 'vrindavan' } };
+    case 'ring':
+      return { kind, ...timing };
+    case 'message':
+      return { kind, ...timing, text: 'राधे राधे 💕' };
+  }
+};
+
+const ProposalForm = (props: StageFormProps<ProposalContent>) => {
+  const { content, onChange } = props;
+  const set = contentSetter(props);
+  const setCelebration = <K extends keyof ProposalContent['celebration']>(key: K) =>
+    (value: ProposalContent['celebration'][K]) =>
+      onChange({ ...content, celebration: { ...content.celebration, [key]: value } }, `celebration.${key}`);
+  const constellation = content.constellation;
+  const setConstellation = (patch: Partial<ConstellationContent>, field: string) =>
+    constellation && onChange({ ...content, constellation: { ...constellation, ...patch } }, `constellation.${field}`);
+  // Drafts saved before the No button was configurable have none
+  const noButton = content.noButton ?? DEFAULT_NO_BEHAVIOUR;
+  const setNoButton = (next: NoBehaviour, field: string) => onChange({ ...content, noButton: next }, `noButton.${field}`);
+  const chooseNoBehaviour = (kind: NoBehaviourKind) => {
+    switch (kind) {
+      case 'dodge':
+      case 'shrink':
+      case 'become-yes':
+        return setNoButton({ kind }, 'kind');
+      case 'confirm':
+        return setNoButton({ kind, prompts: ['पक्का? 🥺', 'एक बार और सोच लो? 💭'] }, 'kind');
+    }
+  };
+  const decline = content.decline;
+  const timeline = content.celebration.timeline;
+  const schedule = scheduleCelebration(timeline ?? []);
+  const setTimeline = (cues: CelebrationCue[], field: string) =>
+    onChange({ ...content, celebration: { ...content.celebration, timeline: cues.length ? cues : undefined } }, `celebration.timeline.${field}`);
+
+  return (
+    <>
+      <label className="flex items-center gap-2 text-sm text-pink-200 mb-3">
+        <input
+          type="checkbox"
+          checked={constellation !== undefined}
+          onChange={(e) => onChange({
+            ...content,
+            constellation: e.target.checked ? { shape: 'heart', taps: 5, prompt: 'तारों को छूकर जोड़ो ✨' } : undefined,
+          }, 'constellation')}
+        />
+        ✨ Connect the stars before the teaser
+      </label>
+      {constellation && (
+        <div className="pl-4 mb-4 border-l border-white/10">
+          <span className={labelClass}>Shape</span>
+          <div className="flex gap-2 mb-3">
+            {(['heart', 'name'] as const).map((shape) => (
+              <button
+                key={shape}
+                onClick={() => setConstellation({ shape }, 'shape')}
+                className={`px-3 py-2 rounded-lg border text-sm ${constellation.shape === shape ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+              >
+                {shape === 'heart' ? '💖 Heart' : '✍️ Name'}
+              </button>
+            ))}
+          </div>
+          {constellation.shape === 'name' && (
+            <Field
+              label="Name to spell"
+              value={constellation.text ?? ''}
+              onChange={(text) => setConstellation({ text: text || undefined }, 'text')}
+              hint="Leave empty to spell the recipient's name."
+            />
+          )}
+          <Field
+            label="Stars to connect"
+            type="number"
+            value={String(constellation.taps)}
+            onChange={(taps) => setConstellation({ taps: Number(taps) }, 'taps')}
+          />
+          <Field label="Prompt" value={constellation.prompt} onChange={(prompt) => setConstellation({ prompt }, 'prompt')} />
+        </div>
+      )}
+      <Field label="Teaser" value={content.teaser} onChange={set('teaser')} />
+      <Field label="Hint" value={content.hint} onChange={set('hint')} />
+      <Field label="Reveal button" value={content.revealLabel} onChange={set('revealLabel')} />
+      <LinesField label="Question" lines={content.question} onChange={set('question')} hint="Each line is shown on its own line." />
+      <Field label="Mantra" value={content.mantra} onChange={set('mantra')} />
+      <Field label="Yes button" value={content.yesLabel} onChange={set('yesLabel')} />
+      <Field label="No button" value={content.noLabel} onChange={set('noLabel')} />
+      <span className={labelClass}>When "No" is pressed</span>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {NO_BEHAVIOUR_KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => chooseNoBehaviour(kind)}
+            className={`px-3 py-2 rounded-lg border text-sm ${noButton.kind === kind ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+          >
+            {NO_BEHAVIOURS[kind].name}
+          </button>
+        ))}
+      </div>
+      {(noButton.kind === 'dodge' || noButton.kind === 'shrink') && (
+        <Field
+          label="Presses before it gives up"
+          type="number"
+          value={String(noButton.times ?? (noButton.kind === 'dodge' ? DEFAULT_DODGE_TIMES : DEFAULT_SHRINK_TIMES))}
+          onChange={(times) => setNoButton({ kind: noButton.kind, times: Number(times) }, 'times')}
+          hint="Only counts when a decline message is set below."
+        />
+      )}
+      {noButton.kind === 'confirm' && (
+        <LinesField
+          label="Are-you-sure prompts"
+          lines={noButton.prompts}
+          onChange={(prompts) => setNoButton({ kind: 'confirm', prompts }, 'prompts')}
+          hint="One per press, in order."
+        />
+      )}
+      <label className="flex items-center gap-2 text-sm text-pink-200 mb-3">
+        <input
+          type="checkbox"
+          checked={decline !== undefined}
+          onChange={(e) => onChange({
+            ...content,
+            decline: e.target.checked ? { title: 'कोई बात नहीं 🙏', lines: ['तुम्हारा जवाब सर आँखों पर', 'राधे राधे'] } : undefined,
+          }, 'decline')}
+        />
+        🙏 Let "No" be a real answer
+      </label>
+      {decline && (
+        <div className="pl-4 mb-4 border-l border-white/10">
+          <Field
+            label="Decline title"
+            value={decline.title}
+            onChange={(title) => onChange({ ...content, decline: { ...decline, title } }, 'decline.title')}
+          />
+          <LinesField
+            label="Decline lines"
+            lines={decline.lines}
+            onChange={(lines) => onChange({ ...content, decline: { ...decline, lines } }, 'decline.lines')}
+            hint='The stage then completes with the outcome "declined".'
+          />
+        </div>
+      )}
+      <Field label="Celebration title" value={content.celebration.title} onChange={setCelebration('title')} />
+      <LinesField label="Celebration lines" lines={content.celebration.lines} onChange={setCelebration('lines')} />
+      <Field label="Celebration mantra" value={content.celebration.mantra} onChange={setCelebration('mantra')} />
+      <label className="flex items-center gap-2 text-sm text-pink-200 mb-3">
+        <input
+          type="checkbox"
+          checked={timeline !== undefined}
+          onChange={(e) => setCelebration('timeline')(e.target.checked ? defaultCelebrationTimeline(content.celebration) : undefined)}
+        />
+        🎆 Script the celebration
+      </label>
+      {timeline && (
+        <div className="pl-4 mb-4 border-l border-white/10">
+          {timeline.map((cue, index) => {
+            const { start, end } = schedule[index];
+            const setCue = (next: CelebrationCue) =>
+              onChange({ ...content, celebration: { ...content.celebration, timeline: timeline.map((other, otherIndex) => (otherIndex === index ? next : other)) } }, `celebration.timeline.${index}`);
+            return (
+              <details key={index} className="mb-3">
+                <summary className="cursor-pointer text-sm text-pink-200 mb-2">
+                  {CELEBRATION_CUES[cue.kind].name}{cue.kind === 'message' ? ` · ${cue.text}` : ''} · {start}–{end} s
+                </summary>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {CELEBRATION_CUE_KINDS.map((kind) => (
+                    <button
+                      key={kind}
+                      onClick={() => kind !== cue.kind && setCue(newCelebrationCue(kind, cue))}
+                      className={`px-3 py-2 rounded-lg border text-sm ${cue.kind === kind ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+                    >
+                      {CELEBRATION_CUES[kind].name}
+                    </button>
+                  ))}
+                </div>
+                <Field
+                  label="Starts at (seconds)"
+                  type="number"
+                  value={cue.at === undefined ? '' : String(cue.at)}
+                  onChange={(at) => setCue({ ...cue, at: at === '' ? undefined : Number(at) })}
+                  hint="Leave empty to start when the cue before ends."
+                />
+                <Field
+                  label={cue.kind === 'music' ? 'Swells in over (seconds)' : 'Duration (seconds)'}
+                  type="number"
+                  value={String(cue.duration)}
+                  onChange={(duration) => setCue({ ...cue, duration: Number(duration) })}
+                />
+                {cue.kind === 'message' && (
+                  <Field label="Message" value={cue.text} onChange={(text) => setCue({ ...cue, text })} />
+                )}
+                {cue.kind === 'fireworks' && (
+                  <Field
+                    label="Rockets per second"
+                    type="number"
+                    value={String(cue.intensity ?? 1.5)}
+                    onChange={(intensity) => setCue({ ...cue, intensity: Number(intensity) })}
+                  />
+                )}
+                {cue.kind === 'music' && (
+                  <MusicField label="Music" music={cue.music} onChange={(music) => music && setCue({ ...cue, music })} optional={false} />
+                )}
+                <button onClick={() => setTimeline(timeline.filter((_, otherIndex) => otherIndex !== index), String(index))} className="text-xs text-red-300 underline">
+                  Remove cue
+                </button>
+              </details>
+            );
+          })}
+          <button
+            onClick={() => setTimeline([...timeline, newCelebrationCue('message')], String(timeline.length))}
+            className="px-3 py-2 rounded-lg border border-dashed border-white/20 text-sm mb-3"
+          >
+            + Cue
+          </button>
+          <span className="block text-xs text-gray-400">
+            The save screen comes up after {celebrationLength(schedule)} s; the recipient can skip there at any time.
+          </span>
+        </div>
+      )}
+    </>
+  );
+};
+
+const GalleryForm = (props: StageFormProps<GalleryContent>) => {
+  const { content, onChange } = props;
+  const set = contentSetter(props);
+
+  return (
+    <>
+      <Field label="Title" value={content.title} onChange={set('title')} />
+      <MediaListField
+        label="Memories"
+        items={content.items}
+        onChange={(items, field) => onChange({ ...content, items }, `items.${field}`)}
+        hint={`Photos are shrunk to fit a shared link; clips can be up to ${MAX_CLIP_SECONDS} seconds.`}
+      />
+      <Field
+        label="Seconds per photo"
+        type="number"
+        value={String(content.interval ?? 6)}
+        onChange={(interval) => set('interval')(Number(interval))}
+      />
+      <label className="flex items-center gap-2 text-sm text-pink-200 mb-4">
+        <input type="checkbox" checked={content.kenBurns ?? true} onChange={(e) => set('kenBurns')(e.target.checked)} />
+        🎞️ Slowly pan and zoom across each photo
+      </label>
+      <Field label="Next button" value={content.nextLabel} onChange={set('nextLabel')} />
+    </>
+  );
+};
+
+// A fresh challenge of each kind, so switching kinds starts from an example
+const EXAMPLE_CHALLENGES: Record<ChallengeKind, ChallengeSpec> = {
+  quiz: { kind: 'quiz', questions: [{ question: 'हम पहली बार कहाँ मिले थे?', answers: ['वृंदावन'] }] },
+  'memory-match': { kind: 'memory-match', pairs: ['🦚', '🪈', '🌺', '🙏'] },
+  'draw-heart': { kind: 'draw-heart' },
+  date: { kind: 'date', date: '' },
+};
+
+const ChallengeForm = (props: StageFormProps<ChallengeContent>) => {
+  const { content, onChange } = props;
+  const set = contentSetter(props);
+  const challenge = content.challenge;
+  const setChallenge = (next: ChallengeSpec, field: string) => onChange({ ...content, challenge: next }, `challenge.${field}`);
+  const setQuestions = (questions: QuizQuestion[], field: string) => setChallenge({ kind: 'quiz', questions }, `questions.${field}`);
+
+  return (
+    <>
+      <Field label="Title" value={content.title} onChange={set('title')} />
+      <Field label="Prompt" value={content.prompt} onChange={set('prompt')} hint="Shown under the lock until the first try." />
+      <span className={labelClass}>Game</span>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {CHALLENGE_KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => kind !== challenge.kind && setChallenge(EXAMPLE_CHALLENGES[kind], 'kind')}
+            className={`px-3 py-2 rounded-lg border text-sm ${challenge.kind === kind ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+          >
+            {CHALLENGES[kind].name}
+          </button>
+        ))}
+      </div>
+      <div className="pl-4 mb-4 border-l border-white/10">
+        {challenge.kind === 'quiz' && (
+          <>
+            {challenge.questions.map((question, index) => {
+              const setQuestion = (patch: Partial<QuizQuestion>, field: string) =>
+                setQuestions(challenge.questions.map((other, otherIndex) => (otherIndex === index ? { ...other, ...patch } : other)), `${index}.${field}`);
+              return (
+                <details key={index} open={index === challenge.questions.length - 1} className="mb-3">
+                  <summary className="cursor-pointer text-sm text-pink-200 mb-2">
+                    Question {index + 1}{question.question ? ` · ${question.question}` : ''}
+                  </summary>
+                  <Field label="Question" value={question.question} onChange={(text) => setQuestion({ question: text }, 'question')} />
+                  <LinesField
+                    label="Right answers"
+                    lines={question.answers}
+                    onChange={(answers) => setQuestion({ answers }, 'answers')}
+                    hint="One per line; typed answers forgive spelling and accents like passphrases do."
+                  />
+                  <LinesField
+                    label="Choices"
+                    lines={question.choices ?? []}
+                    onChange={(choices) => setQuestion({ choices: choices.join('') ? choices : undefined }, 'choices')}
+                    hint="Leave empty for a text box; otherwise the right answers must be among them."
+                  />
+                  {challenge.questions.length > 1 && (
+                    <button
+                      onClick={() => setQuestions(challenge.questions.filter((_, otherIndex) => otherIndex !== index), String(index))}
+                      className="text-xs text-red-300 underline mb-2"
+                    >
+                      Remove question
+                    </button>
+                  )}
+                </details>
+              );
+            })}
+            <button
+              onClick={() => setQuestions([...challenge.questions, { question: '', answers: [''] }], String(challenge.questions.length))}
+              className="px-3 py-2 rounded-lg border border-dashed border-white/20 text-sm mb-3"
+            >
+              + Question
+            </button>
+          </>
+        )}
+        {challenge.kind === 'memory-match' && (
+          <LinesField
+            label="Pairs"
+            lines={challenge.pairs}
+            onChange={(pairs) => setChallenge({ kind: 'memory-match', pairs }, 'pairs')}
+            hint="One emoji or word per line, each shown on two cards; up to 8. A pair turned over that does not match counts as a try."
+          />
+        )}
+        {challenge.kind === 'draw-heart' && (
+          <Field
+            label="How close to a heart"
+            type="number"
+            value={String(challenge.threshold ?? DEFAULT_HEART_THRESHOLD)}
+            onChange={(threshold) => setChallenge({ kind: 'draw-heart', threshold: Number(threshold) }, 'threshold')}
+            hint="From 0.1 (any closed loop) to 0.95 (a careful heart)."
+          />
+        )}
+        {challenge.kind === 'date' && (
+          <>
+            <Field
+              label="The day"
+              type="date"
+              value={challenge.date}
+              onChange={(date) => setChallenge({ ...challenge, date }, 'date')}
+            />
+            <label className="flex items-center gap-2 text-sm text-pink-200 mb-3">
+              <input
+                type="checkbox"
+                checked={challenge.precision === 'month'}
+                onChange={(e) => setChallenge({ ...challenge, precision: e.target.checked ? 'month' : undefined }, 'precision')}
+              />
+              🗓️ Only ask for the month and year
+            </label>
+          </>
+        )}
+      </div>
+      <LinesField
+        label="Hints"
+        lines={content.hints ?? []}
+        onChange={(hints) => set('hints')(hints.join('') ? hints : undefined)}
+        hint="One more is shown after each wrong try."
+      />
+      <Field
+        label="Tries allowed"
+        type="number"
+        value={content.attempts === undefined ? '' : String(content.attempts)}
+        onChange={(attempts) => set('attempts')(attempts ? Number(attempts) : undefined)}
+        hint='Leave empty for no limit. Running out completes the stage with the outcome "failed".'
+      />
+      <Field
+        label="Skip button"
+        value={content.skipLabel ?? ''}
+        onChange={(skipLabel) => set('skipLabel')(skipLabel || undefined)}
+        hint='Leave empty to offer no skip; skipping completes the stage with the outcome "skipped".'
+      />
+    </>
+  );
+};
+
+const JapForm = (props: StageFormProps<JapContent>) => {
+  const { content } = props;
+  const set = contentSetter(props);
+
+  return (
+    <>
+      <Field label="Title" value={content.title} onChange={set('title')} />
+      <Field label="Prompt" value={content.prompt} onChange={set('prompt')} />
+      <Field
+        label="Names to count"
+        type="number"
+        value={String(content.target ?? DEFAULT_JAP_TARGET)}
+        onChange={(target) => set('target')(Number(target))}
+        hint={`${MALA_BEADS} is one full mala.`}
+      />
+      <LinesField
+        label="Names heard"
+        lines={content.names ?? DEFAULT_JAP_NAMES}
+        onChange={(names) => set('names')(names.join('') ? names : undefined)}
+        hint="One spelling per line; each one heard counts as a bead. Leave empty for Radha's name."
+      />
+      <Field label="Tap button" value={content.tapLabel} onChange={set('tapLabel')} hint="Counts one name per tap, for when voice is unavailable." />
+      <Field label="Next button" value={content.nextLabel} onChange={set('nextLabel')} hint="Shown once the count is reached." />
+    </>
+  );
+};
+
+// Stage types without a form of their own are edited as JSON
+const RawContentForm = ({ content, onChange }: StageFormProps<unknown>) => {
+  const [text, setText] = useState(() => JSON.stringify(content, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    try {
+      onChange(JSON.parse(text), 'content');
+      setError(null);
+    } catch (parseError) {
+      setError((parseError as Error).message);
+    }
+  };
+
+  return (
+    <label className="block mb-4">
+      <span className={labelClass}>Content (JSON)</span>
+      <textarea value={text} onChange={(e) => setText(e.target.value)} onBlur={commit} className={`${textAreaClass} font-mono min-h-[20rem]`} />
+      {error && <span className="block text-xs text-red-300 mt-1">{error}</span>}
+    </label>
+  );
+};
+
+const STAGE_FORMS: Record<string, ComponentType<StageFormProps<any>>> = {
+  lock: LockForm,
+  challenge: ChallengeForm,
+  letter: LetterForm,
+  gallery: GalleryForm,
+  jap: JapForm,
+  proposal: ProposalForm,
+};
+
+// Stages the editor can add. A new one goes after the selected stage; without
+// a "next" on that stage the flow reaches it on its own.
+const NEW_STAGES: { type: string; label: string; content: () => unknown }[] = [
+  {
+    type: 'challenge',
+    label: '+ Challenge',
+    content: (): ChallengeContent => ({
+      title: 'पहले एक छोटा सा खेल 🎲',
+      prompt: 'जीतो तो ताला खुलेगा',
+      challenge: EXAMPLE_CHALLENGES.quiz,
+    }),
+  },
+  {
+    type: 'gallery',
+    label: '+ Photo gallery',
+    content: (): GalleryContent => ({ title: 'हमारी यादें 📸', items: [], nextLabel: 'आगे चलें 💕' }),
+  },
+  {
+    type: 'jap',
+    label: '+ Naam jap',
+    content: (): JapContent => ({
+      title: 'राधा नाम जप 📿',
+      prompt: 'बोलो राधे राधे, हर नाम पर एक मनका',
+      target: DEFAULT_JAP_TARGET,
+      tapLabel: 'राधे 🙏',
+      nextLabel: 'आगे चलें 💕',
+    }),
+  },
+];
+
+const newStage = (script: ExperienceScript, type: string, content: unknown): StageDefinition => {
+  const taken = new Set(script.stages.map((stage) => stage.id));
+  let id = type;
+  for (let count = 2; taken.has(id); count++) id = `${type}-${count}`;
+  return { id, type, content };
+};
+
+// Music Field
+interface MusicFieldProps {
+  music?: AudioSourceSpec;
+  onChange: (music: AudioSourceSpec | undefined) => void;
+  label?: string;
+  // Whether "keep the previous stage's music" is offered
+  optional?: boolean;
+}
+
+const musicOption = (music?: AudioSourceSpec) => {
+  if (!music) return '';
+  return music.kind === 'synth' ? `synth:${music.preset ?? 'vrindavan'}` : music.kind;
+};
+
+const MusicField = ({ music, onChange, label = 'Music when this stage starts', optional = true }: MusicFieldProps) => {
+  const director = useAudioDirector();
+  const recorder = useVoiceNoteRecorder((note) => onChange({ kind: 'voice-note', id: note.id }));
+
+  const handleSelect = (event: ChangeEvent<HTMLSelectElement>) => {
+    const option = event.target.value;
+    if (option === '') onChange(undefined);
+    else if (option === 'silence') onChange({ kind: 'silence' });
+    else if (option === 'file') onChange({ kind: 'file', src: music?.kind === 'file' ? music.src : '' });
+    else if (option === 'voice-note') onChange({ kind: 'voice-note', id: music?.kind === 'voice-note' ? music.id : undefined });
+    else onChange({ kind: 'synth', preset: option.slice('synth:'.length) });
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-white/5 border border-white/10">
+      <label className="block mb-3">
+        <span className={labelClass}>{label}</span>
+        <select value={musicOption(music)} onChange={handleSelect} className="w-full rounded-md bg-white/90 text-gray-900 p-2 text-sm">
+          {optional && <option value="">Keep the previous stage's music</option>}
+          <option value="silence">Silence</option>
+          {Object.entries(SEQUENCES).map(([preset, sequence]) => (
+            <option key={preset} value={`synth:${preset}`}>Raga: {sequence.name}</option>
+          ))}
+          <option value="file">Audio file</option>
+          <option value="voice-note">Recorded voice note</option>
+        </select>
+      </label>
+
+      {music?.kind === 'file' && (
+        <Field label="Audio file URL" value={music.src} onChange={(src) => onChange({ ...music, src })} />
+      )}
+
+      {music?.kind === 'voice-note' && recorder.isSupported && (
+        <div className="flex items-center gap-3 mb-3 text-sm">
+          {recorder.state === 'recording' ? (
+            <Button onClick={recorder.stop}>⏹️ Stop ({Math.round(recorder.elapsedMs / 1000)}s)</Button>
+          ) : (
+            <Button onClick={recorder.start} disabled={recorder.state === 'saving'}>🎙️ {music.id || music.src ? 'Record again' : 'Record'}</Button>
+          )}
+          <span className="text-gray-400">
+            {recorder.state === 'error' ? 'Recording failed' : music.id || music.src ? 'Voice note ready' : 'Nothing recorded yet'}
+          </span>
+        </div>
+      )}
+
+      {music && music.kind !== 'silence' && director && (
+        <div className="flex gap-2">
+          <Button onClick={() => director.play(music)}>▶️ Listen</Button>
+          <Button onClick={() => director.play({ kind: 'silence', crossfade: 0.5 })}>⏹️</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Experience Editor Component
+// Undo and redo shortcuts drive the editor's history, except in a text field,
+// which keeps its own
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+interface ExperienceEditorProps {
+  // A valid script to start from when there is no draft
+  initialScript: unknown;
+  registry: StageRegistry;
+}
+
+export const ExperienceEditor = ({ initialScript, registry }: ExperienceEditorProps) => {
+  const history = useEditHistory(() => loadDraft() ?? validateExperienceScript(initialScript, registry));
+  const script = history.value;
+  const [selected, setSelected] = useState(0);
+  const [replay, setReplay] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [exportIssues, setExportIssues] = useState<ExperienceScriptIssue[]>([]);
+  const [showShare, setShowShare] = useState(false);
+  const [sealShare, setSealShare] = useState(isSealingSupported);
+  const [showResponses, setShowResponses] = useState(false);
+  const [responses, setResponses] = useState<ExperienceEvent[]>([]);
+  const [previewLocale, setPreviewLocale] = useState<Locale>(script.locale.default);
+  const previewI18n = useMemo(() => createI18n(previewLocale, setPreviewLocale), [previewLocale]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastPreviewRef = useRef<ExperienceScript | null>(null);
+
+  useEffect(() => saveDraft(script), [script]);
+
+  const issues = useMemo(() => collectIssues(() => validateExperienceScript(script, registry)), [script, registry]);
+
+  // The preview keeps showing the last version that loaded while a field is
+  // temporarily invalid (an emptied passphrase, a half-typed date).
+  const preview = useMemo(() => {
+    try {
+      lastPreviewRef.current = loadExperienceScript(script, registry);
+    } catch (error) {
+      if (!(error instanceof ExperienceScriptError)) throw error;
+    }
+    return lastPreviewRef.current;
+  }, [script, registry]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Drafts saved before backgrounds existed have none
+  const background = script.theme.background ?? DEFAULT_BACKGROUND;
+  const setBackground = (patch: Partial<BackgroundSettings>, field: string) =>
+    history.change({ ...script, theme: { ...script.theme, background: { ...background, ...patch } } }, `theme.background.${field}`);
+
+  const stageIndex = Math.min(selected, script.stages.length - 1);
+  const stage = script.stages[stageIndex];
+  const StageForm = STAGE_FORMS[stage.type] ?? RawContentForm;
+  const previewStage = preview?.stages.find((candidate) => candidate.id === stage.id);
+  const PreviewComponent = previewStage ? registry[previewStage.type]?.component : undefined;
+  const previewContent = useMemo(
+    () => previewStage && localizeStageContent(previewStage, previewLocale, registry),
+    [previewStage, previewLocale, registry]
+  );
+
+  // Exports and shares run only on a valid script, with voice notes inlined
+  const runExport = async (action: string, run: (prepared: ExperienceScript) => Promise<string>) => {
+    if (issues.length > 0) {
+      setExportIssues(issues);
+      setNotice(`Fix the problems below before you ${action}.`);
+      return;
+    }
+    try {
+      setNotice(await run(await inlineLocalFiles(script)));
+      setExportIssues([]);
+    } catch (error) {
+      setNotice(`Could not ${action}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = () => runExport('export', async (prepared) => {
+    downloadFile(`${prepared.id}.json`, JSON.stringify(prepared, null, 2), 'application/json');
+    return `Exported ${prepared.id}.json`;
+  });
+
+  const encodeForSharing = async (prepared: ExperienceScript) =>
+    encodePackage(sealShare ? await sealExperience(prepared) : prepared);
+
+  const handleCopyLink = () => runExport('share', async (prepared) => {
+    const link = createShareLink(await encodeForSharing(prepared));
+    await navigator.clipboard.writeText(link);
+    return link.length > LONG_LINK_LENGTH
+      ? `Link copied, but it is ${Math.round(link.length / 1000)}k characters long; the HTML file travels better.`
+      : 'Link copied';
+  });
+
+  const handleDownloadHtml = () => runExport('share', async (prepared) => {
+    downloadFile(`${prepared.id}.html`, await buildStandaloneHtml(await encodeForSharing(prepared)), 'text/html');
+    return `Saved ${prepared.id}.html; it opens offline in any browser`;
+  });
+
+  // Responses recorded in this browser for the experience being edited
+  const responseLog = useMemo(() => createEventLog({ experienceId: script.id }), [script.id]);
+  useEffect(() => {
+    if (showResponses) setResponses(responseLog.events());
+  }, [showResponses, responseLog]);
+
+  const handleDownloadResponses = (format: 'json' | 'csv') => {
+    const events = responseLog.events();
+    if (format === 'json') {
+      downloadFile(`${script.id}-responses.json`, eventsToJson(events), 'application/json');
+    } else {
+      downloadFile(`${script.id}-responses.csv`, eventsToCsv(events), 'text/csv');
+    }
+  };
+
+  const handleClearResponses = () => {
+    if (!window.confirm(`Delete all ${responses.length} recorded events for "${script.id}"?`)) return;
+    responseLog.clear();
+    setResponses([]);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = validateExperienceScript(parseExperienceScriptText(await file.text()), registry);
+      history.change(imported);
+      setSelected(0);
+      setExportIssues([]);
+      setNotice(`Imported ${file.name}`);
+    } catch (error) {
+      if (error instanceof ExperienceScriptError) {
+        setExportIssues(error.issues);
+        setNotice(`${file.name} is not a valid experience; nothing was imported.`);
+      } else {
+        setExportIssues([]);
+        setNotice(`${file.name} could not be read: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  const handlePreviewComplete = (outcome?: string) => {
+    const nextId = preview ? resolveNextStage(preview.stages, stage.id, outcome) : null;
+    const nextIndex = script.stages.findIndex((candidate) => candidate.id === nextId);
+    if (nextIndex >= 0) setSelected(nextIndex);
+    setNotice(`"${stage.id}" completed${outcome ? ` with "${outcome}"` : ''}`);
+  };
+
+  const stageIssueCount = (index: number) => issues.filter((issue) => issue.path.startsWith(`stages[${index}]`)).length;
+  const shownIssues = exportIssues.length > 0 ? exportIssues : issues;
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-100 font-lato">
+      <header className="sticky top-0 z-40 flex flex-wrap items-center gap-2 px-4 py-3 bg-gray-900/95 border-b border-white/10">
+        <h1 className="font-playfair text-xl text-pink-300 mr-4">Experience editor</h1>
+        <Button onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">↶ Undo</Button>
+        <Button onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">↷ Redo</Button>
+        <Button onClick={() => fileInputRef.current?.click()}>📂 Import</Button>
+        <Button onClick={handleExport}>💾 Export</Button>
+        <Button onClick={() => setShowShare((shown) => !shown)}>🔗 Share</Button>
+        <Button onClick={() => setShowResponses((shown) => !shown)}>📊 Responses</Button>
+        <Button onClick={() => history.change(validateExperienceScript(initialScript, registry))} title="Discard the draft and start from the bundled experience">
+          Reset
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json,.yaml,.yml" onChange={handleImport} className="hidden" />
+        <span className={`text-sm ${issues.length > 0 ? 'text-amber-300' : 'text-green-300'}`}>
+          {issues.length > 0 ? `⚠️ ${issues.length} problem${issues.length === 1 ? '' : 's'}` : '✓ Ready to export'}
+        </span>
+        {notice && <span className="text-sm text-gray-300">{notice}</span>}
+        <a href="#/" className="ml-auto text-sm text-pink-300 underline">Close editor</a>
+      </header>
+
+      {showShare && (
+        <div className="mx-4 mt-4 p-4 rounded-lg bg-white/5 border border-white/10 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={sealShare}
+              disabled={!isSealingSupported()}
+              onChange={(e) => setSealShare(e.target.checked)}
+            />
+            🔐 Seal with the passphrase
+          </label>
+          <span className="text-gray-400 basis-full">
+            {sealShare
+              ? 'Everything after the lock is encrypted; only saying or typing a passphrase opens it.'
+              : 'The whole experience is readable by anyone who has the link or file.'}
+          </span>
+          <Button onClick={handleCopyLink}>Copy link</Button>
+          <Button onClick={handleDownloadHtml}>Download HTML file</Button>
+        </div>
+      )}
+
+      {showResponses && (
+        <div className="mx-4 mt-4 p-4 rounded-lg bg-white/5 border border-white/10 flex flex-wrap items-center gap-3 text-sm">
+          <ul className="basis-full space-y-1">
+            {summarizeEvents(responses).map((line) => <li key={line}>{line}</li>)}
+          </ul>
+          <span className="text-gray-400 basis-full">
+            Recorded in this browser for "{script.id}".
+            {script.analytics.endpoint ? ` Also sent to ${script.analytics.endpoint}.` : ''}
+          </span>
+          <Button onClick={() => handleDownloadResponses('json')} disabled={responses.length === 0}>Download JSON</Button>
+          <Button onClick={() => handleDownloadResponses('csv')} disabled={responses.length === 0}>Download CSV</Button>
+          <Button onClick={handleClearResponses} disabled={responses.length === 0}>Clear</Button>
+        </div>
+      )}
+
+      {shownIssues.length > 0 && (
+        <ul className="mx-4 mt-4 p-3 rounded-lg bg-amber-900/40 border border-amber-500/30 text-sm space-y-1 max-h-40 overflow-y-auto">
+          {shownIssues.map((issue, index) => (
+            <li key={index}>
+              <code className="font-mono text-amber-200">{issue.path}</code> {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6 p-4">
+        <section>
+          <fieldset className="mb-6 p-4 rounded-lg bg-white/5 border border-white/10">
+            <legend className="px-2 text-pink-300">Experience</legend>
+            <Field label="Id" value={script.id} onChange={(id) => history.change({ ...script, id }, 'id')} hint="Lowercase letters, digits and dashes; also the exported file name." />
+            <Field label="Recipient" value={script.recipient.name} onChange={(name) => history.change({ ...script, recipient: { name } }, 'recipient')} />
+            <Field label="Author" value={script.author.name} onChange={(name) => history.change({ ...script, author: { ...script.author, name } }, 'author.name')} />
+            <Field
+              label="Author nickname"
+              value={script.author.nickname ?? ''}
+              onChange={(nickname) => history.change({ ...script, author: { ...script.author, nickname: nickname || undefined } }, 'author.nickname')}
+            />
+            <Field
+              label="Response endpoint"
+              value={script.analytics.endpoint ?? ''}
+              onChange={(endpoint) => history.change({ ...script, analytics: { endpoint: endpoint || undefined } }, 'analytics.endpoint')}
+              hint="Optional. The event log is POSTed here as JSON ({ events: [...] }); leave empty to keep it on the recipient's device."
+            />
+            <span className={labelClass}>Starting language</span>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {LOCALE_CODES.map((code) => (
+                <button
+                  key={code}
+                  onClick={() => history.change({ ...script, locale: { ...script.locale, default: code } }, 'locale.default')}
+                  className={`px-3 py-2 rounded-lg border text-sm ${script.locale.default === code ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+                >
+                  {LOCALES[code].name}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-pink-200 mb-1">
+              <input
+                type="checkbox"
+                checked={script.locale.picker}
+                onChange={(e) => history.change({ ...script, locale: { ...script.locale, picker: e.target.checked } }, 'locale.picker')}
+              />
+              Let the recipient switch language
+            </label>
+            <p className="text-xs text-gray-400 mb-4">
+              Text for other languages goes in a stage's "variants" in the exported file, e.g. {'{ "en": { "title": "..." } }'}.
+            </p>
+            <span className={labelClass}>Particle theme</span>
+            <div className="flex flex-wrap gap-2">
+              {PARTICLE_THEME_NAMES.map((name: ParticleThemeName) => (
+                <button
+                  key={name}
+                  onClick={() => history.change({ ...script, theme: { ...script.theme, particles: name } })}
+                  className={`px-3 py-2 rounded-lg border text-sm ${script.theme.particles === name ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+                >
+                  {PARTICLE_THEMES[name].emojis.join(' ')} {PARTICLE_THEMES[name].name}
+                </button>
+              ))}
+            </div>
+            <label className={`${labelClass} mt-3`}>
+              Particle density · {(script.theme.particleDensity ?? 1).toFixed(2)}×
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.25}
+                value={script.theme.particleDensity ?? 1}
+                onChange={(e) => history.change({ ...script, theme: { ...script.theme, particleDensity: Number(e.target.value) } }, 'theme.particleDensity')}
+                className="block w-full accent-pink-500"
+              />
+            </label>
+            <span className={`${labelClass} mt-3`}>Background</span>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {BACKGROUND_SCENE_NAMES.map((scene) => (
+                <button
+                  key={scene}
+                  onClick={() => setBackground({ scene }, 'scene')}
+                  className={`px-3 py-2 rounded-lg border text-sm ${background.scene === scene ? 'border-pink-400 bg-pink-500/20' : 'border-white/10 bg-white/5'}`}
+                >
+                  {BACKGROUND_SCENES[scene].name}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-pink-200 mb-3">
+              <input type="checkbox" checked={background.parallax} onChange={(e) => setBackground({ parallax: e.target.checked }, 'parallax')} />
+              Parallax with the pointer or phone tilt
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <Field
+                label="Mandala symmetry"
+                type="number"
+                value={String(background.mandala.symmetry)}
+                onChange={(symmetry) => setBackground({ mandala: { ...background.mandala, symmetry: Number(symmetry) } }, 'mandala.symmetry')}
+              />
+              <Field
+                label="Mandala seed"
+                type="number"
+                value={String(background.mandala.seed)}
+                onChange={(seed) => setBackground({ mandala: { ...background.mandala, seed: Number(seed) } }, 'mandala.seed')}
+                hint="Each seed draws a different mandala."
+              />
+            </div>
+            <LinesField
+              label="Mandala colours"
+              lines={background.mandala.colors}
+              onChange={(colors) => setBackground({ mandala: { ...background.mandala, colors } }, 'mandala.colors')}
+              hint="One CSS colour per line, e.g. #ffd700."
+            />
+          </fieldset>
+
+          <nav className="flex flex-wrap gap-2 mb-4">
+            {script.stages.map((candidate, index) => (
+              <button
+                key={candidate.id || index}
+                onClick={() => setSelected(index)}
+                className={`px-4 py-2 rounded-full text-sm ${index === stageIndex ? 'bg-pink-500 text-white' : 'bg-white/10'}`}
+              >
+                {candidate.id || `stage ${index + 1}`} · {candidate.type}
+                {stageIssueCount(index) > 0 && <span className="ml-2 text-amber-300">⚠️ {stageIssueCount(index)}</span>}
+              </button>
+            ))}
+            {NEW_STAGES.map(({ type, label, content }) => (
+              <button
+                key={type}
+                onClick={() => {
+                  const stages = [...script.stages];
+                  stages.splice(stageIndex + 1, 0, newStage(script, type, content()));
+                  history.change({ ...script, stages });
+                  setSelected(stageIndex + 1);
+                }}
+                className="px-4 py-2 rounded-full text-sm border border-dashed border-white/20"
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
+
+          <MusicField music={stage.music} onChange={(music) => history.change(updateStage(script, stageIndex, { music }))} />
+          <StageForm
+            key={`${stageIndex}-${stage.type}`}
+            content={stage.content}
+            onChange={(content: unknown, field: string) =>
+              history.change(updateStage(script, stageIndex, { content }), `stages.${stageIndex}.${field}`)}
+          />
+        </section>
+
+        <section className="lg:sticky lg:top-20 self-start">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-gray-400">Preview · {stage.id}</span>
+            <div className="flex items-center gap-2">
+              <select
+                value={previewLocale}
+                onChange={(e) => setPreviewLocale(e.target.value as Locale)}
+                className="rounded-md bg-white/10 text-sm px-2 py-2"
+                aria-label="Preview language"
+              >
+                {LOCALE_CODES.map((code) => (
+                  <option key={code} value={code} className="text-gray-900">{LOCALES[code].name}</option>
+                ))}
+              </select>
+              <Button onClick={() => setReplay((count) => count + 1)}>↻ Replay</Button>
+            </div>
+          </div>
+          {/* The transform makes the stages' fixed-position layers fill this frame instead of the window */}
+          <div className="relative h-[75vh] rounded-xl overflow-hidden gradient-bg border border-white/20" style={{ transform: 'translateZ(0)' }}>
+            {preview && previewStage && PreviewComponent ? (
+              <I18nContext.Provider value={previewI18n}>
+                <PreviewComponent
+                  key={`${previewStage.id}-${replay}`}
+                  content={previewContent}
+                  experience={preview}
+                  onComplete={handlePreviewComplete}
+                />
+              </I18nContext.Provider>
+            ) : (
+              <p className="p-8 text-center text-white/80">Fix the problems above to see a preview.</p>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildStandaloneHtml, decodePackage, encodePackage, openSealedExperience, sealExperience, unsealCandidates } from './experiencePackage';
+import { loadExperienceScript, readLetterContent, readLockContent } from './experienceScript';
+import { phoneticKey } from './passphraseMatcher';
+
+const schemas = {
+  lock: { readContent: readLockContent },
+  letter: { readContent: readLetterContent },
+};
+
+const lockText = {
+  greeting: 'Hello',
+  riddle: 'The letter is locked',
+  blessing: 'With love',
+  prompt: 'Say the word',
+  fallbackPlaceholder: 'Type the word',
+};
+
+// Passphrases that appear nowhere else in the script, so any trace of them in
+// the public part is a leak
+const script = loadExperienceScript({
+  version: 2,
+  id: 'sealed-test',
+  recipient: { name: 'Asha' },
+  author: { name: 'Ravi' },
+  stages: [
+    {
+      id: 'lock',
+      type: 'lock',
+      content: {
+        ...lockText,
+        keywords: ['open sesame', 'खुल जा सिम सिम'],
+        matchThreshold: 0.9,
+        offlineModel: { kind: 'wasm', url: '/models/open-sesame.wasm', keywords: ['open sesame'] },
+      },
+      variants: {
+        en: { prompt: 'Say it', keywords: ['sesame street'], offlineModel: { kind: 'templates', keyword: 'sesame street', clips: ['/sesame.wav'] } },
+        hinglish: { prompt: 'Bolo' },
+      },
+    },
+    {
+      id: 'letter',
+      type: 'letter',
+      content: { title: 'Secret letter', paragraphs: ['Only for you'], signature: { closing: 'Yours', name: 'Ravi' }, nextLabel: 'Next' },
+    },
+  ],
+}, schemas);
+
+const ITERATIONS = 1000;
+
+describe('sealExperience', () => {
+  it('keeps every passphrase out of the public part', async () => {
+    const envelope = await sealExperience(script, ITERATIONS);
+    const publicPart = JSON.stringify(envelope.public).toLowerCase();
+    for (const secret of ['sesame', 'सिम', 'open-sesame.wasm', 'secret letter', 'only for you']) {
+      expect(publicPart).not.toContain(secret);
+    }
+    const [lock] = envelope.public.stages;
+    expect(envelope.public.stages).toHaveLength(1);
+    expect(lock.content).toMatchObject({ ...lockText, keywords: [], sealed: true });
+    expect(lock.variants).toEqual({ en: { prompt: 'Say it' }, hinglish: { prompt: 'Bolo' } });
+  });
+
+  it('still loads as a script with a sealed lock', async () => {
+    const envelope = await sealExperience(script, ITERATIONS);
+    const reloaded = loadExperienceScript(JSON.parse(JSON.stringify(envelope.public)), schemas);
+    expect(reloaded.stages[0].content).toMatchObject({ sealed: true });
+  });
+
+  it('opens with a passphrase in any spelling and stays shut otherwise', async () => {
+    const envelope = await sealExperience(script, ITERATIONS);
+    expect(await openSealedExperience(envelope, ['well OPEN Sesame'])).toEqual(script);
+    expect(await openSealedExperience(envelope, ['खुल जा सिम सिम'])).toEqual(script);
+    expect(await openSealedExperience(envelope, ['open sesam street', 'close sesame'])).toBeNull();
+  });
+
+  it('derives a key only for what hashes like a passphrase, however long the transcript', async () => {
+    const envelope = await sealExperience(script, ITERATIONS);
+    const heard = `${Array.from({ length: 60 }, (_, index) => `word${index}`).join(' ')} open sesame`;
+    const deriveKey = vi.spyOn(crypto.subtle, 'deriveKey');
+    expect(await openSealedExperience(envelope, [heard])).toEqual(script);
+    // 120 runs of words were heard; a stray one passes the check one time in 128
+    expect(deriveKey.mock.calls.length).toBeLessThan(8);
+    deriveKey.mockRestore();
+  });
+
+  it('refuses a script that does not start with a lock', async () => {
+    await expect(sealExperience({ ...script, stages: script.stages.slice(1) }, ITERATIONS)).rejects.toThrow(/lock stage/);
+  });
+});
+
+describe('unsealCandidates', () => {
+  it('tries every run of words with a passphrase length', () => {
+    expect(unsealCandidates(['one two three'], [2])).toEqual([phoneticKey('one two'), phoneticKey('two three')]);
+  });
+});
+
+describe('buildStandaloneHtml', () => {
+  const served = new Map<string, string>();
+
+  // A page with the given stylesheets and module scripts, served from memory
+  const page = ({ styles = [] as string[], scripts = [] as string[], preloads = [] as string[] }) => {
+    const elements: Record<string, object[]> = {
+      'link[rel="stylesheet"]': styles.map((href) => ({ href })),
+      'link[rel="modulepreload"]': preloads.map((href) => ({ href })),
+      style: [],
+      'script[type="module"][src]': scripts.map((src) => ({ src })),
+    };
+    vi.stubGlobal('document', {
+      title: 'Radha',
+      documentElement: { lang: 'hi' },
+      body: { firstElementChild: { id: 'app' } },
+      querySelectorAll: (selector: string) => elements[selector],
+      querySelector: (selector: string) => elements[selector][0] ?? null,
+    });
+    vi.stubGlobal('fetch', async (url: string) =>
+      new Response(served.get(url) ?? '', { status: served.has(url) ? 200 : 404 }));
+  };
+
+  afterEach(() => {
+    served.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('inlines a single-bundle build with the package', async () => {
+    served.set('/app.css', 'body { color: red }');
+    served.set('/app.js', 'console.log("</script>", import.meta.url)');
+    page({ styles: ['/app.css'], scripts: ['/app.js'] });
+
+    const html = await buildStandaloneHtml('zPACKAGE');
+    expect(html).toContain('<style>body { color: red }</style>');
+    expect(html).toContain('<div id="app"></div>');
+    expect(html).toContain('window.__EXPERIENCE_PACKAGE__ = "zPACKAGE"');
+    expect(html).toContain('<script type="module">console.log("<\\/script>", import.meta.url)</script>');
+  });
+
+  it.each([
+    ['a lazy chunk', 'const editor = () => import("./editor-1a2b.js")'],
+    ['a shared chunk', 'import{r as React}from"./vendor-3c4d.js";React()'],
+  ])('refuses a build that loads %s', async (_, source) => {
+    served.set('/app.js', source);
+    page({ scripts: ['/app.js'] });
+    await expect(buildStandaloneHtml('zPACKAGE')).rejects.toThrow(/single bundle/);
+  });
+
+  it('refuses a build with preloaded chunks', async () => {
+    served.set('/app.js', 'console.log(1)');
+    page({ scripts: ['/app.js'], preloads: ['/vendor.js'] });
+    await expect(buildStandaloneHtml('zPACKAGE')).rejects.toThrow(/single bundle/);
+  });
+});
+
+describe('packages', () => {
+  it('round-trips through the link encoding', async () => {
+    const envelope = await sealExperience(script, ITERATIONS);
+    expect(await decodePackage(await encodePackage(envelope))).toEqual({ kind: 'sealed', envelope });
+    expect(await decodePackage(await encodePackage(script))).toEqual({ kind: 'plain', script });
+  });
+
+  it('reports a damaged link', async () => {
+    await expect(decodePackage('z!!!')).rejects.toThrow(/damaged/);
+  });
+});
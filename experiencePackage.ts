@@ -0,0 +1,332 @@
+import { createContext, useEffect, useState } from 'react';
+import type { ExperienceScript, LockContent } from './experienceScript';
+import { phoneticKey } from './passphraseMatcher';
+
+// Experience Packages
+// An experience travels as a package: the script JSON, deflated when the
+// browser can, base64url-encoded into a `#x=` link or embedded in a standalone
+// HTML file. A sealed package encrypts everything after the lock with a key
+// derived from the passphrase, so the letter cannot be read from the link or
+// the file until the lock is actually opened.
+//
+// Sealing: a random AES-GCM data key encrypts the script. For every passphrase,
+// PBKDF2 (SHA-256) turns its phonetic key into a key-encryption key that wraps
+// the data key. Each wrapped key also carries one byte of a salted SHA-256 of
+// its passphrase: unlocking hashes every run of words heard, cheaply, and only
+// derives a key for the few whose byte matches, so a long transcript costs one
+// PBKDF2 rather than one per run of words. The byte narrows an offline guess
+// by no more than a factor of 256. Because the phonetic key is used, "radha", "Raadha" and "राधा" all open it,
+// but the lock's fuzzy similarity threshold cannot apply to a sealed script.
+
+export const PACKAGE_FRAGMENT_PREFIX = '#x=';
+const PBKDF2_ITERATIONS = 250000;
+
+export interface SealedEnvelope {
+  sealed: 1;
+  // The script with only its lock stage, passphrases withheld
+  public: ExperienceScript;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  // Word counts of the passphrases, so only phrases of those lengths are tried
+  wordCounts: number[];
+  keys: { iv: string; data: string; check: number }[];
+  // Ciphertext does not compress, so the script is deflated before encryption
+  compressed: boolean;
+  iv: string;
+  data: string;
+}
+
+export type ExperiencePackage =
+  | { kind: 'plain'; script: unknown }
+  | { kind: 'sealed'; envelope: SealedEnvelope };
+
+export class ExperiencePackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExperiencePackageError';
+  }
+}
+
+// Encoding
+const bufferOf = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bufferOf(bytes)]).stream().pipeThrough(transform)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== 'undefined';
+
+// "z" marks a deflated payload, "j" plain JSON for browsers without streams
+export const encodePackage = async (contents: ExperienceScript | SealedEnvelope) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(contents));
+  return canCompress()
+    ? `z${toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')))}`
+    : `j${toBase64Url(bytes)}`;
+};
+
+export const decodePackage = async (encoded: string): Promise<ExperiencePackage> => {
+  let contents: unknown;
+  try {
+    const bytes = fromBase64Url(encoded.slice(1));
+    if (encoded[0] === 'z') {
+      if (typeof DecompressionStream === 'undefined') {
+        throw new ExperiencePackageError('this browser cannot open compressed experience links');
+      }
+      contents = JSON.parse(new TextDecoder().decode(await pipeThrough(bytes, new DecompressionStream('deflate-raw'))));
+    } else if (encoded[0] === 'j') {
+      contents = JSON.parse(new TextDecoder().decode(bytes));
+    } else {
+      throw new ExperiencePackageError('unknown package format');
+    }
+  } catch (error) {
+    if (error instanceof ExperiencePackageError) throw error;
+    throw new ExperiencePackageError('the link is damaged or incomplete');
+  }
+
+  const envelope = contents as Partial<SealedEnvelope>;
+  return envelope?.sealed === 1 ? { kind: 'sealed', envelope: envelope as SealedEnvelope } : { kind: 'plain', script: contents };
+};
+
+// Where a package can come from: a standalone HTML file embeds it in a global,
+// a link carries it in the fragment.
+declare global {
+  interface Window {
+    __EXPERIENCE_PACKAGE__?: string;
+  }
+}
+
+export const readEmbeddedPackage = () => {
+  if (window.__EXPERIENCE_PACKAGE__) return window.__EXPERIENCE_PACKAGE__;
+  const { hash } = window.location;
+  return hash.startsWith(PACKAGE_FRAGMENT_PREFIX) ? hash.slice(PACKAGE_FRAGMENT_PREFIX.length) : null;
+};
+
+export const createShareLink = (encoded: string) => {
+  const url = new URL(window.location.href);
+  url.hash = `${PACKAGE_FRAGMENT_PREFIX.slice(1)}${encoded}`;
+  return url.toString();
+};
+
+// Standalone HTML
+// Inlines the running app's stylesheets and module scripts next to the
+// package, so the file opens from disk with no network. Images referenced by
+// URL in the script still need to be reachable (or inlined as data: URLs).
+// Only a single-bundle build can be inlined: a module that imports another
+// file, statically or with import(), would look for it beside the HTML file.
+const IMPORTS_ANOTHER_FILE = /\bimport\s*\(|\bimport\s*(?:[\w$*{][^;'"]*\bfrom\s*)?["']/;
+
+const escapeInlineScript = (source: string) => source.replace(/<\/script/gi, '<\\/script');
+
+export const buildStandaloneHtml = async (encoded: string) => {
+  const fetchText = async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new ExperiencePackageError(`could not read ${url} (${response.status})`);
+    return response.text();
+  };
+
+  const styles = await Promise.all(
+    Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'), (link) => fetchText(link.href))
+  );
+  const inlineStyles = Array.from(document.querySelectorAll('style'), (style) => style.textContent ?? '');
+  const scripts = await Promise.all(
+    Array.from(document.querySelectorAll<HTMLScriptElement>('script[type="module"][src]'), (script) => fetchText(script.src))
+  );
+  if (document.querySelector('link[rel="modulepreload"]') || scripts.some((script) => IMPORTS_ANOTHER_FILE.test(script))) {
+    throw new ExperiencePackageError('this build is split into chunks, so it cannot be saved as one file; build it as a single bundle');
+  }
+  const rootId = document.body.firstElementChild?.id || 'root';
+
+  return [
+    '<!doctype html>',
+    `<html lang="${document.documentElement.lang || 'hi'}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${document.title.replace(/</g, '&lt;')}</title>`,
+    `<style>${[...styles, ...inlineStyles].join('\n').replace(/<\/style/gi, '<\\/style')}</style>`,
+    '</head>',
+    '<body>',
+    `<div id="${rootId}"></div>`,
+    `<script>window.__EXPERIENCE_PACKAGE__ = ${JSON.stringify(encoded)};</script>`,
+    ...scripts.map((script) => `<script type="module">${escapeInlineScript(script)}</script>`),
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+// Sealing
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveKeyEncryptionKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: bufferOf(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const keyCheck = async (passphrase: string, salt: Uint8Array) => {
+  const bytes = new Uint8Array([...salt, ...new TextEncoder().encode(passphrase)]);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bufferOf(bytes)))[0];
+};
+
+const encrypt = async (key: CryptoKey, plaintext: Uint8Array) => {
+  const iv = randomBytes(12);
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: bufferOf(iv) }, key, bufferOf(plaintext)));
+  return { iv: toBase64Url(iv), data: toBase64Url(data) };
+};
+
+const decrypt = async (key: CryptoKey, sealed: { iv: string; data: string }) =>
+  new Uint8Array(await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bufferOf(fromBase64Url(sealed.iv)) },
+    key,
+    bufferOf(fromBase64Url(sealed.data))
+  ));
+
+const wordCount = (phrase: string) => phrase.split(' ').filter(Boolean).length;
+
+// The passphrases, and the offline keyword model that names them, are left out
+// of the public lock in every language
+const SECRET_LOCK_FIELDS = ['keywords', 'offlineModel', 'matchMode', 'matchThreshold'];
+
+const withoutSecrets = (content: unknown) =>
+  typeof content === 'object' && content !== null && !Array.isArray(content)
+    ? Object.fromEntries(Object.entries(content).filter(([key]) => !SECRET_LOCK_FIELDS.includes(key)))
+    : content;
+
+export const isSealingSupported = () => typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+
+export const sealExperience = async (script: ExperienceScript, iterations = PBKDF2_ITERATIONS): Promise<SealedEnvelope> => {
+  const [lock] = script.stages;
+  if (lock?.type !== 'lock') {
+    throw new ExperiencePackageError('only an experience that starts with a lock stage can be sealed');
+  }
+  const { keywords } = lock.content as LockContent;
+  const secrets = [...new Set(keywords.map(phoneticKey).filter(Boolean))];
+  if (secrets.length === 0) {
+    throw new ExperiencePackageError('the lock needs a passphrase to seal the experience with');
+  }
+
+  const salt = randomBytes(16);
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const rawDataKey = new Uint8Array(await crypto.subtle.exportKey('raw', dataKey));
+  const keys = await Promise.all(secrets.map(async (secret) => ({
+    ...await encrypt(await deriveKeyEncryptionKey(secret, salt, iterations), rawDataKey),
+    check: await keyCheck(secret, salt),
+  })));
+  const compressed = canCompress();
+  const plaintext = new TextEncoder().encode(JSON.stringify(script));
+  const payload = await encrypt(dataKey, compressed ? await pipeThrough(plaintext, new CompressionStream('deflate-raw')) : plaintext);
+
+  const variants = lock.variants && Object.fromEntries(
+    Object.entries(lock.variants).map(([locale, variant]) => [locale, withoutSecrets(variant)])
+  );
+  const publicScript: ExperienceScript = {
+    ...script,
+    stages: [{ ...lock, next: undefined, content: { ...(withoutSecrets(lock.content) as object), keywords: [], sealed: true }, variants }],
+  };
+
+  return {
+    sealed: 1,
+    public: publicScript,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: toBase64Url(salt) },
+    wordCounts: [...new Set(secrets.map(wordCount))],
+    keys,
+    compressed,
+    ...payload,
+  };
+};
+
+// Every run of words in what was heard with a passphrase's length, in the
+// order heard
+export const unsealCandidates = (heard: string[], wordCounts: number[]) => {
+  const candidates = new Set<string>();
+  heard.forEach((text) => {
+    const words = text.split(/\s+/).filter(Boolean);
+    wordCounts.forEach((count) => {
+      for (let start = 0; start + count <= words.length; start++) {
+        const key = phoneticKey(words.slice(start, start + count).join(' '));
+        if (key) candidates.add(key);
+      }
+    });
+  });
+  return [...candidates];
+};
+
+// The script if something heard is a passphrase, otherwise null
+export const openSealedExperience = async (envelope: SealedEnvelope, heard: string[]): Promise<unknown | null> => {
+  const salt = fromBase64Url(envelope.kdf.salt);
+
+  for (const candidate of unsealCandidates(heard, envelope.wordCounts)) {
+    const check = await keyCheck(candidate, salt);
+    const matching = envelope.keys.filter((wrapped) => wrapped.check === check);
+    if (matching.length === 0) continue;
+    const keyEncryptionKey = await deriveKeyEncryptionKey(candidate, salt, envelope.kdf.iterations);
+    for (const wrapped of matching) {
+      let rawDataKey: Uint8Array;
+      try {
+        rawDataKey = await decrypt(keyEncryptionKey, wrapped);
+      } catch {
+        // Wrong passphrase for this entry: AES-GCM authentication failed
+        continue;
+      }
+      const dataKey = await crypto.subtle.importKey('raw', bufferOf(rawDataKey), 'AES-GCM', false, ['decrypt']);
+      const plaintext = await decrypt(dataKey, envelope);
+      return JSON.parse(new TextDecoder().decode(
+        envelope.compressed ? await pipeThrough(plaintext, new DecompressionStream('deflate-raw')) : plaintext
+      ));
+    }
+  }
+  return null;
+};
+
+// Unseal Context
+// Provided around a sealed experience; a sealed lock hands it what it heard
+// and unlocks when it resolves true.
+export const UnsealContext = createContext<((heard: string[]) => Promise<boolean>) | null>(null);
+
+// Package Hook
+export type ExperiencePackageState =
+  | { status: 'none' }
+  | { status: 'loading' }
+  | { status: 'ready'; package: ExperiencePackage }
+  | { status: 'error'; message: string };
+
+export const useExperiencePackage = () => {
+  const [state, setState] = useState<ExperiencePackageState>(() =>
+    readEmbeddedPackage() ? { status: 'loading' } : { status: 'none' }
+  );
+
+  useEffect(() => {
+    const encoded = readEmbeddedPackage();
+    if (!encoded) return;
+    let cancelled = false;
+    decodePackage(encoded).then(
+      (decoded) => {
+        if (!cancelled) setState({ status: 'ready', package: decoded });
+      },
+      (error: Error) => {
+        if (!cancelled) setState({ status: 'error', message: error.message });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return state;
+};
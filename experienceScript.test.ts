@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { loadExperienceScript, readLetterContent, readLockContent } from './experienceScript';
+
+const schemas = {
+  lock: { readContent: readLockContent },
+  letter: { readContent: readLetterContent },
+};
+
+describe('loadExperienceScript', () => {
+  it('fills names into the text shown and nowhere else', () => {
+    const script = loadExperienceScript({
+      version: 2,
+      id: 'names',
+      recipient: { name: 'Asha' },
+      author: { name: 'Ravi', nickname: 'Ravi ji' },
+      stages: [
+        {
+          id: 'lock',
+          type: 'lock',
+          content: {
+            greeting: 'Radhe Radhe, {recipient}',
+            riddle: 'Who is {nickname}?',
+            blessing: 'Blessings',
+            prompt: 'Speak',
+            fallbackPlaceholder: 'Type it',
+            keywords: ['{recipient}'],
+            offlineModel: { kind: 'wasm', url: '/models/{recipient}.wasm', keywords: ['{recipient}'] },
+          },
+          variants: { en: { prompt: 'Say it, {recipient}', keywords: ['{author}'] } },
+        },
+        {
+          id: 'letter',
+          type: 'letter',
+          content: {
+            title: 'For {recipient}',
+            paragraphs: ['Dear {recipient}'],
+            signature: { closing: 'Yours', name: '{author}' },
+            nextLabel: 'Next',
+            attachments: [{ kind: 'photo', src: 'photos/{recipient}.jpg', caption: '{recipient} and {author}', paragraph: 0 }],
+          },
+        },
+      ],
+    }, schemas);
+
+    const [lock, letter] = script.stages;
+    expect(lock.content).toMatchObject({
+      greeting: 'Radhe Radhe, Asha',
+      riddle: 'Who is Ravi ji?',
+      keywords: ['{recipient}'],
+      offlineModel: { url: '/models/{recipient}.wasm', keywords: ['{recipient}'] },
+    });
+    expect(lock.variants).toEqual({ en: { prompt: 'Say it, Asha', keywords: ['{author}'] } });
+    expect(letter.content).toMatchObject({
+      title: 'For Asha',
+      paragraphs: ['Dear Asha'],
+      signature: { name: 'Ravi' },
+      attachments: [{ src: 'photos/{recipient}.jpg', caption: 'Asha and Ravi' }],
+    });
+  });
+});
@@ -0,0 +1,869 @@
+import type { OfflineModelSource } from './keywordSpotter';
+import type { NarrationSpec } from './narration';
+import type { PassphraseMatchMode } from './passphraseMatcher';
+import type { RevealSettings } from './revealController';
+import type { AudioSourceSpec } from './audioDirector';
+import { CELEBRATION_CUE_KINDS, type CelebrationCue } from './celebration';
+import { CHALLENGE_KINDS, type ChallengeSpec, type QuizQuestion } from './challenges';
+import { BACKGROUND_SCENE_NAMES, DEFAULT_BACKGROUND, DEFAULT_MANDALA, type BackgroundSettings } from './backgrounds';
+import { DEFAULT_LOCALE, LOCALE_CODES, type Locale } from './i18n';
+import { isSafeImageSource, isValidIsoDate, parseLetterMarkup } from './letterMarkup';
+import { isSafeClipSource, type MediaItem } from './media';
+import { DEFAULT_NO_BEHAVIOUR, NO_BEHAVIOUR_KINDS, type NoBehaviour } from './noButton';
+import { PARTICLE_THEME_NAMES, type ParticleThemeName } from './particleThemes';
+import { NotationError, SEQUENCES, parseNotation, type MusicChoice } from './ragas';
+import { parseYaml } from './yaml';
+
+// Experience Script
+// Everything personal about an experience (names, letter, proposal text, unlock
+// keywords) lives in a script file so a new client does not mean a new fork.
+
+export interface LetterSignature {
+  closing: string;
+  name: string;
+  // YYYY-MM-DD, written out under the name
+  date?: string;
+}
+
+export interface LockContent {
+  greeting: string;
+  riddle: string;
+  blessing: string;
+  prompt: string;
+  fallbackPlaceholder: string;
+  keywords: string[];
+  matchMode?: PassphraseMatchMode;
+  matchThreshold?: number;
+  // On-device keyword spotting for browsers without speech recognition
+  offlineModel?: OfflineModelSource;
+  // Set in a sealed package: the keywords are withheld and what is heard
+  // decrypts the rest of the experience instead (see experiencePackage.ts)
+  sealed?: boolean;
+}
+
+export interface LetterContent {
+  title: string;
+  // Letter markup, see letterMarkup.ts
+  paragraphs: string[];
+  signature: LetterSignature;
+  nextLabel: string;
+  // Read-aloud mode; speech synthesis is offered by default, `false` hides it
+  narration?: NarrationSpec | false;
+  // How paragraphs appear; paced to reading speed by default
+  reveal?: RevealSettings;
+  // Photos and clips shown under a paragraph once it is revealed
+  attachments?: LetterAttachment[];
+}
+
+// `paragraph` is the index of the paragraph it sits under
+export interface LetterAttachment extends MediaItem {
+  paragraph: number;
+}
+
+// A game before the next stage. It completes with "solved", with "skipped"
+// (offered only with a `skipLabel`) or with "failed" once `attempts` wrong
+// tries are used up; `next` can branch on these, e.g. to send a failed
+// attempt back to the lock, and otherwise the flow moves on.
+export interface ChallengeContent {
+  title: string;
+  prompt: string;
+  challenge: ChallengeSpec;
+  // One more is shown after each wrong try
+  hints?: string[];
+  attempts?: number;
+  skipLabel?: string;
+}
+
+// Naam jap: names chanted aloud (or tapped) are counted along a mala until
+// `target` is reached, when `nextLabel` moves on. `names` are the words that
+// count, Radha's name in Devanagari and Latin spellings unless given.
+export interface JapContent {
+  title: string;
+  prompt: string;
+  target?: number;
+  names?: string[];
+  tapLabel: string;
+  nextLabel: string;
+}
+
+// A slideshow of memories, each photo slowly panned and zoomed
+export interface GalleryContent {
+  title: string;
+  items: MediaItem[];
+  // Seconds each photo stays; a clip stays until it ends
+  interval?: number;
+  kenBurns?: boolean;
+  nextLabel: string;
+}
+
+// The title, lines and mantra stay on the final screen and in the saved
+// picture; without a `timeline` they are also its messages
+export interface CelebrationContent {
+  title: string;
+  lines: string[];
+  mantra: string;
+  timeline?: CelebrationCue[];
+}
+
+// Shown when the recipient says no and means it
+export interface DeclineContent {
+  title: string;
+  lines: string[];
+}
+
+// Before the teaser, the recipient links stars until they form a heart or
+// spell a name (the recipient's, unless `text` is given)
+export interface ConstellationContent {
+  shape: 'heart' | 'name';
+  text?: string;
+  taps: number;
+  prompt: string;
+}
+
+export interface ProposalContent {
+  constellation?: ConstellationContent;
+  teaser: string;
+  hint: string;
+  revealLabel: string;
+  question: string[];
+  mantra: string;
+  yesLabel: string;
+  noLabel: string;
+  noButton: NoBehaviour;
+  celebration: CelebrationContent;
+  // Without one, "No" can never be the final answer; with one, the stage
+  // completes with "declined" once the No button's behaviour has played out
+  decline?: DeclineContent;
+}
+
+// A stage either always continues to one stage id, or branches on the outcome
+// it completes with ("yes"/"declined" for the proposal). "default" catches the rest.
+export type StageNext = string | Record<string, string>;
+
+export interface StageDefinition<TContent = unknown> {
+  id: string;
+  type: string;
+  next?: StageNext;
+  // Track to crossfade to when the stage starts; without one the previous
+  // stage's track keeps playing
+  music?: AudioSourceSpec;
+  content: TContent;
+  // Per-language overrides of `content`, as written: objects are merged into
+  // it and anything else (a string, the paragraph list) replaces it
+  variants?: Partial<Record<Locale, unknown>>;
+}
+
+export interface ExperienceScript {
+  version: 2;
+  id: string;
+  recipient: { name: string };
+  author: { name: string; nickname?: string };
+  navigation: { back: boolean; restart: boolean };
+  // The language a first visit starts in; `picker` lets the recipient switch
+  locale: { default: Locale; picker: boolean };
+  // particleDensity scales how many particles float and burst; 1 is normal
+  theme: { particles: ParticleThemeName; particleDensity: number; background: BackgroundSettings };
+  // Where the event log is posted as it grows; without one it stays on the device
+  analytics: { endpoint?: string };
+  stages: StageDefinition[];
+}
+
+// Each registered stage type validates its own content block
+export interface StageContentSchema {
+  readContent: (content: FieldReader) => unknown;
+}
+
+export type StageContentSchemas = Record<string, StageContentSchema>;
+
+export interface ExperienceScriptIssue {
+  path: string;
+  message: string;
+}
+
+export class ExperienceScriptError extends Error {
+  issues: ExperienceScriptIssue[];
+
+  constructor(issues: ExperienceScriptIssue[]) {
+    super(issues.map((issue) => `${issue.path}: ${issue.message}`).join('\n'));
+    this.name = 'ExperienceScriptError';
+    this.issues = issues;
+  }
+}
+
+// Field reader
+// Reads typed values out of untrusted JSON, recording an issue with the exact
+// path of every field that is missing or has the wrong type.
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface FieldReader {
+  path: string;
+  has: (key: string) => boolean;
+  value: (key: string) => unknown;
+  string: (key: string) => string;
+  optionalString: (key: string) => string | undefined;
+  optionalBoolean: (key: string) => boolean | undefined;
+  optionalNumber: (key: string, range?: { min?: number; max?: number }) => number | undefined;
+  literal: <T extends string | number>(key: string, allowed: readonly T[]) => T;
+  optionalLiteral: <T extends string | number>(key: string, allowed: readonly T[]) => T | undefined;
+  stringArray: (key: string, options?: { nonEmpty?: boolean }) => string[];
+  object: (key: string) => FieldReader;
+  array: <T>(key: string, readItem: (item: FieldReader) => T, options?: { nonEmpty?: boolean }) => T[];
+  issue: (key: string, message: string) => void;
+}
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+export const createFieldReader = (
+  value: unknown,
+  path: string,
+  issues: ExperienceScriptIssue[]
+): FieldReader => {
+  const source = isRecord(value) ? value : {};
+  if (!isRecord(value)) {
+    issues.push({ path: path || '(root)', message: `expected an object, got ${describe(value)}` });
+  }
+
+  const issue = (key: string, message: string) => {
+    issues.push({ path: joinPath(path, key), message });
+  };
+
+  const string = (key: string) => {
+    const field = source[key];
+    if (typeof field !== 'string') {
+      issue(key, field === undefined ? 'is required' : `expected a string, got ${describe(field)}`);
+      return '';
+    }
+    if (!field.trim()) {
+      issue(key, 'must not be empty');
+    }
+    return field;
+  };
+
+  const optionalString = (key: string) => (source[key] === undefined ? undefined : string(key));
+
+  const optionalBoolean = (key: string) => {
+    const field = source[key];
+    if (field === undefined) return undefined;
+    if (typeof field !== 'boolean') {
+      issue(key, `expected a boolean, got ${describe(field)}`);
+      return undefined;
+    }
+    return field;
+  };
+
+  const optionalNumber = (key: string, range: { min?: number; max?: number } = {}) => {
+    const field = source[key];
+    if (field === undefined) return undefined;
+    if (typeof field !== 'number' || Number.isNaN(field)) {
+      issue(key, `expected a number, got ${describe(field)}`);
+      return undefined;
+    }
+    if ((range.min !== undefined && field < range.min) || (range.max !== undefined && field > range.max)) {
+      issue(key, `must be between ${range.min ?? '-∞'} and ${range.max ?? '∞'}, got ${field}`);
+      return undefined;
+    }
+    return field;
+  };
+
+  const literal = <T extends string | number>(key: string, allowed: readonly T[]) => {
+    const field = source[key];
+    if (!allowed.includes(field as T)) {
+      issue(key, `expected one of ${allowed.map((option) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(field) ?? 'nothing'}`);
+      return allowed[0];
+    }
+    return field as T;
+  };
+
+  const optionalLiteral = <T extends string | number>(key: string, allowed: readonly T[]) =>
+    source[key] === undefined ? undefined : literal(key, allowed);
+
+  const array = <T>(key: string, readItem: (item: FieldReader) => T, options: { nonEmpty?: boolean } = {}) => {
+    const field = source[key];
+    if (!Array.isArray(field)) {
+      issue(key, field === undefined ? 'is required' : `expected an array, got ${describe(field)}`);
+      return [];
+    }
+    if (options.nonEmpty && field.length === 0) {
+      issue(key, 'must contain at least one entry');
+    }
+    return field.map((item, index) => readItem(createFieldReader(item, `${joinPath(path, key)}[${index}]`, issues)));
+  };
+
+  const stringArray = (key: string, options: { nonEmpty?: boolean } = {}) => {
+    const field = source[key];
+    if (!Array.isArray(field)) {
+      issue(key, field === undefined ? 'is required' : `expected an array, got ${describe(field)}`);
+      return [];
+    }
+    if (options.nonEmpty && field.length === 0) {
+      issue(key, 'must contain at least one entry');
+    }
+    return field.map((item, index) => {
+      if (typeof item !== 'string' || !item.trim()) {
+        issues.push({ path: `${joinPath(path, key)}[${index}]`, message: `expected a non-empty string, got ${describe(item)}` });
+        return '';
+      }
+      return item;
+    });
+  };
+
+  const object = (key: string) => {
+    const field = source[key];
+    if (field === undefined) {
+      issue(key, 'is required');
+      return createFieldReader({}, joinPath(path, key), []);
+    }
+    return createFieldReader(field, joinPath(path, key), issues);
+  };
+
+  return {
+    path,
+    has: (key) => source[key] !== undefined,
+    value: (key) => source[key],
+    string,
+    optionalString,
+    optionalBoolean,
+    optionalNumber,
+    literal,
+    optionalLiteral,
+    stringArray,
+    object,
+    array,
+    issue,
+  };
+};
+
+// Stage content schemas
+const readOfflineModel = (model: FieldReader): OfflineModelSource => {
+  const kind = model.literal('kind', ['templates', 'wasm'] as const);
+  if (kind === 'wasm') {
+    return { kind, url: model.string('url'), keywords: model.stringArray('keywords', { nonEmpty: true }) };
+  }
+  return {
+    kind,
+    keyword: model.string('keyword'),
+    clips: model.stringArray('clips', { nonEmpty: true }),
+    maxDistance: model.optionalNumber('maxDistance', { min: 0 }),
+  };
+};
+
+const readMusicChoice = (music: FieldReader): MusicChoice => {
+  const choice: MusicChoice = {
+    preset: music.has('preset') ? music.literal('preset', Object.keys(SEQUENCES)) : undefined,
+    notes: music.optionalString('notes'),
+    tonic: music.optionalNumber('tonic', { min: 20, max: 2000 }),
+    tempo: music.optionalNumber('tempo', { min: 10, max: 300 }),
+    drone: music.optionalBoolean('drone'),
+  };
+  if (choice.notes) {
+    try {
+      parseNotation(choice.notes, 1);
+    } catch (error) {
+      if (!(error instanceof NotationError)) throw error;
+      music.issue('notes', error.message);
+    }
+  }
+  return choice;
+};
+
+export const readAudioSourceSpec = (music: FieldReader): AudioSourceSpec => {
+  const kind = music.literal('kind', ['synth', 'file', 'voice-note', 'silence'] as const);
+  const crossfade = music.optionalNumber('crossfade', { min: 0, max: 30 });
+  switch (kind) {
+    case 'synth':
+      return { kind, crossfade, ...readMusicChoice(music) };
+    case 'file':
+      return {
+        kind,
+        crossfade,
+        src: music.string('src'),
+        loop: music.optionalBoolean('loop'),
+        gain: music.optionalNumber('gain', { min: 0, max: 1 }),
+      };
+    case 'voice-note':
+      if (!music.has('id') && !music.has('src')) {
+        music.issue('id', 'a voice note needs an "id" or a "src"');
+      }
+      return {
+        kind,
+        crossfade,
+        id: music.optionalString('id'),
+        src: music.optionalString('src'),
+        loop: music.optionalBoolean('loop'),
+        gain: music.optionalNumber('gain', { min: 0, max: 1 }),
+      };
+    case 'silence':
+      return { kind, crossfade };
+  }
+};
+
+const readNarration = (narration: FieldReader): NarrationSpec => {
+  const mode = narration.literal('mode', ['speech', 'clips'] as const);
+  if (mode === 'clips') {
+    return { mode, clips: narration.stringArray('clips', { nonEmpty: true }) };
+  }
+  return {
+    mode,
+    lang: narration.optionalString('lang'),
+    voice: narration.optionalString('voice'),
+    rate: narration.optionalNumber('rate', { min: 0.1, max: 3 }),
+    pitch: narration.optionalNumber('pitch', { min: 0, max: 2 }),
+  };
+};
+
+const readReveal = (reveal: FieldReader): RevealSettings => ({
+  mode: reveal.literal('mode', ['reading', 'typewriter', 'manual'] as const),
+  wordsPerMinute: reveal.optionalNumber('wordsPerMinute', { min: 40, max: 1000 }),
+  charactersPerSecond: reveal.optionalNumber('charactersPerSecond', { min: 1, max: 200 }),
+  autoScroll: reveal.optionalBoolean('autoScroll'),
+});
+
+export const readLockContent = (lock: FieldReader): LockContent => {
+  const sealed = lock.optionalBoolean('sealed');
+  return {
+    greeting: lock.string('greeting'),
+    riddle: lock.string('riddle'),
+    blessing: lock.string('blessing'),
+    prompt: lock.string('prompt'),
+    fallbackPlaceholder: lock.string('fallbackPlaceholder'),
+    keywords: sealed ? [] : lock.stringArray('keywords', { nonEmpty: true }),
+    matchMode: lock.optionalLiteral('matchMode', ['contains', 'exact'] as const),
+    matchThreshold: lock.optionalNumber('matchThreshold', { min: 0, max: 1 }),
+    offlineModel: lock.has('offlineModel') ? readOfflineModel(lock.object('offlineModel')) : undefined,
+    sealed,
+  };
+};
+
+// Markup that would be shown as typed (a javascript: image, a misspelt date)
+// is reported rather than silently rendered.
+const readMarkup = (reader: FieldReader, key: string, markup: string) => {
+  parseLetterMarkup(markup).problems.forEach((problem) => reader.issue(key, problem));
+  return markup;
+};
+
+// Paragraphs are markup strings; `{ text, isStrong }` objects from older
+// scripts are still accepted and converted.
+const readParagraphs = (letter: FieldReader) => {
+  const paragraphs = letter.value('paragraphs');
+  if (!Array.isArray(paragraphs) || paragraphs.length === 0) {
+    letter.issue('paragraphs', 'must be an array with at least one paragraph');
+    return [];
+  }
+  return paragraphs.map((paragraph: unknown, index) => {
+    const key = `paragraphs[${index}]`;
+    if (typeof paragraph === 'string') {
+      if (!paragraph.trim()) letter.issue(key, 'must not be empty');
+      return readMarkup(letter, key, paragraph);
+    }
+    const legacy = letter.object(key);
+    const text = legacy.string('text').replace(/\\|\*|==|!\[|\{date:|^>|^-- /gm, (syntax) => `\\${syntax}`);
+    return legacy.optionalBoolean('isStrong') ? `**${text}**` : text;
+  });
+};
+
+// `signature` is an object; older scripts had `closing` and a signature string
+const readSignature = (letter: FieldReader): LetterSignature => {
+  if (typeof letter.value('signature') === 'string') {
+    return { closing: letter.string('closing'), name: letter.string('signature') };
+  }
+  const signature = letter.object('signature');
+  const date = signature.optionalString('date');
+  if (date !== undefined && !isValidIsoDate(date)) {
+    signature.issue('date', `expected a YYYY-MM-DD date, got "${date}"`);
+  }
+  return { closing: signature.string('closing'), name: signature.string('name'), date };
+};
+
+export const readMediaItem = (media: FieldReader): MediaItem => {
+  const kind = media.literal('kind', ['photo', 'clip'] as const);
+  if (!media.has('src') && !media.has('id')) {
+    media.issue('src', `a ${kind} needs a "src" or the "id" of an imported file`);
+  }
+  const src = media.optionalString('src');
+  if (src && !(kind === 'photo' ? isSafeImageSource(src) : isSafeClipSource(src))) {
+    media.issue('src', `"${src.slice(0, 40)}" is not an allowed ${kind} source`);
+  }
+  const poster = media.optionalString('poster');
+  if (poster && !isSafeImageSource(poster)) {
+    media.issue('poster', `"${poster.slice(0, 40)}" is not an allowed image source`);
+  }
+  return { kind, src, id: media.optionalString('id'), caption: media.optionalString('caption'), poster };
+};
+
+// An attachment names the paragraph it sits under by its index
+const readAttachment = (paragraphCount: number) => (attachment: FieldReader): LetterAttachment => {
+  const paragraph = attachment.value('paragraph');
+  if (typeof paragraph !== 'number' || !Number.isInteger(paragraph) || paragraph < 0 || paragraph >= paragraphCount) {
+    attachment.issue('paragraph', `expected a paragraph index from 0 to ${paragraphCount - 1}, got ${JSON.stringify(paragraph) ?? 'nothing'}`);
+  }
+  return { ...readMediaItem(attachment), paragraph: typeof paragraph === 'number' ? paragraph : 0 };
+};
+
+export const readLetterContent = (letter: FieldReader): LetterContent => {
+  const paragraphs = readParagraphs(letter);
+  return {
+    title: letter.string('title'),
+    paragraphs,
+    signature: readSignature(letter),
+    nextLabel: letter.string('nextLabel'),
+    narration: letter.value('narration') === false
+      ? false
+      : letter.has('narration') ? readNarration(letter.object('narration')) : undefined,
+    reveal: letter.has('reveal') ? readReveal(letter.object('reveal')) : undefined,
+    attachments: letter.has('attachments')
+      ? letter.array('attachments', readAttachment(paragraphs.length))
+      : undefined,
+  };
+};
+
+const readQuizQuestion = (question: FieldReader): QuizQuestion => {
+  const answers = question.stringArray('answers', { nonEmpty: true });
+  const choices = question.has('choices') ? question.stringArray('choices', { nonEmpty: true }) : undefined;
+  if (choices && !answers.some((answer) => choices.includes(answer))) {
+    question.issue('answers', 'must include at least one of the choices');
+  }
+  return { question: question.string('question'), answers, choices };
+};
+
+// Each pair is two cards, so eight make a 4×4 grid
+const MAX_MEMORY_PAIRS = 8;
+
+const readChallengeSpec = (challenge: FieldReader): ChallengeSpec => {
+  const kind = challenge.literal('kind', CHALLENGE_KINDS);
+  switch (kind) {
+    case 'quiz':
+      return { kind, questions: challenge.array('questions', readQuizQuestion, { nonEmpty: true }) };
+    case 'memory-match': {
+      const pairs = challenge.stringArray('pairs', { nonEmpty: true });
+      if (pairs.length > MAX_MEMORY_PAIRS) challenge.issue('pairs', `can have at most ${MAX_MEMORY_PAIRS} entries`);
+      if (new Set(pairs).size !== pairs.length) challenge.issue('pairs', 'must all be different');
+      return { kind, pairs };
+    }
+    case 'draw-heart':
+      return { kind, threshold: challenge.optionalNumber('threshold', { min: 0.1, max: 0.95 }) };
+    case 'date': {
+      const date = challenge.string('date');
+      if (date && !isValidIsoDate(date)) challenge.issue('date', `expected a YYYY-MM-DD date, got "${date}"`);
+      return { kind, date, precision: challenge.optionalLiteral('precision', ['day', 'month'] as const) };
+    }
+  }
+};
+
+export const readChallengeContent = (challenge: FieldReader): ChallengeContent => ({
+  title: challenge.string('title'),
+  prompt: challenge.string('prompt'),
+  challenge: readChallengeSpec(challenge.object('challenge')),
+  hints: challenge.has('hints') ? challenge.stringArray('hints') : undefined,
+  attempts: challenge.optionalNumber('attempts', { min: 1, max: 50 }),
+  skipLabel: challenge.optionalString('skipLabel'),
+});
+
+export const readJapContent = (jap: FieldReader): JapContent => ({
+  title: jap.string('title'),
+  prompt: jap.string('prompt'),
+  target: jap.optionalNumber('target', { min: 1, max: 108000 }),
+  names: jap.has('names') ? jap.stringArray('names', { nonEmpty: true }) : undefined,
+  tapLabel: jap.string('tapLabel'),
+  nextLabel: jap.string('nextLabel'),
+});
+
+export const readGalleryContent = (gallery: FieldReader): GalleryContent => ({
+  title: gallery.string('title'),
+  items: gallery.array('items', readMediaItem, { nonEmpty: true }),
+  interval: gallery.optionalNumber('interval', { min: 2, max: 30 }),
+  kenBurns: gallery.optionalBoolean('kenBurns'),
+  nextLabel: gallery.string('nextLabel'),
+});
+
+const readNoBehaviour = (noButton: FieldReader): NoBehaviour => {
+  const kind = noButton.literal('kind', NO_BEHAVIOUR_KINDS);
+  switch (kind) {
+    case 'dodge':
+    case 'shrink':
+      return { kind, times: noButton.optionalNumber('times', { min: 1, max: 20 }) };
+    case 'become-yes':
+      return { kind };
+    case 'confirm':
+      return { kind, prompts: noButton.stringArray('prompts', { nonEmpty: true }) };
+  }
+};
+
+// A celebration longer than this is a mistake in the script, not a plan
+const MAX_CELEBRATION_SECONDS = 120;
+
+const readCelebrationCue = (cue: FieldReader): CelebrationCue => {
+  const kind = cue.literal('kind', CELEBRATION_CUE_KINDS);
+  const at = cue.optionalNumber('at', { min: 0, max: MAX_CELEBRATION_SECONDS });
+  const duration = cue.optionalNumber('duration', { min: 0.1, max: MAX_CELEBRATION_SECONDS }) ?? 1;
+  if (!cue.has('duration')) cue.issue('duration', 'is required');
+  switch (kind) {
+    case 'fireworks':
+      return { kind, at, duration, intensity: cue.optionalNumber('intensity', { min: 0.1, max: 10 }) };
+    case 'music':
+      return { kind, at, duration, music: readAudioSourceSpec(cue.object('music')) };
+    case 'ring':
+      return { kind, at, duration };
+    case 'message':
+      return { kind, at, duration, text: cue.string('text') };
+  }
+};
+
+export const readProposalContent = (proposal: FieldReader): ProposalContent => {
+  const celebration = proposal.object('celebration');
+  const constellation = proposal.has('constellation') ? proposal.object('constellation') : undefined;
+  const decline = proposal.has('decline') ? proposal.object('decline') : undefined;
+  return {
+    constellation: constellation && {
+      shape: constellation.optionalLiteral('shape', ['heart', 'name'] as const) ?? 'heart',
+      text: constellation.optionalString('text'),
+      taps: constellation.optionalNumber('taps', { min: 1, max: 20 }) ?? 5,
+      prompt: constellation.string('prompt'),
+    },
+    teaser: proposal.string('teaser'),
+    hint: proposal.string('hint'),
+    revealLabel: proposal.string('revealLabel'),
+    question: proposal.stringArray('question', { nonEmpty: true }),
+    mantra: proposal.string('mantra'),
+    yesLabel: proposal.string('yesLabel'),
+    noLabel: proposal.string('noLabel'),
+    noButton: proposal.has('noButton') ? readNoBehaviour(proposal.object('noButton')) : DEFAULT_NO_BEHAVIOUR,
+    celebration: {
+      title: celebration.string('title'),
+      lines: celebration.stringArray('lines'),
+      mantra: celebration.string('mantra'),
+      timeline: celebration.has('timeline') ? celebration.array('timeline', readCelebrationCue, { nonEmpty: true }) : undefined,
+    },
+    decline: decline && {
+      title: decline.string('title'),
+      lines: decline.stringArray('lines'),
+    },
+  };
+};
+
+const readBackground = (theme?: FieldReader): BackgroundSettings => {
+  const background = theme?.has('background') ? theme.object('background') : undefined;
+  const mandala = background?.has('mandala') ? background.object('mandala') : undefined;
+  return {
+    scene: background?.optionalLiteral('scene', BACKGROUND_SCENE_NAMES) ?? DEFAULT_BACKGROUND.scene,
+    parallax: background?.optionalBoolean('parallax') ?? DEFAULT_BACKGROUND.parallax,
+    mandala: {
+      symmetry: mandala?.optionalNumber('symmetry', { min: 3, max: 48 }) ?? DEFAULT_MANDALA.symmetry,
+      colors: mandala?.has('colors') ? mandala.stringArray('colors', { nonEmpty: true }) : DEFAULT_MANDALA.colors,
+      seed: mandala?.optionalNumber('seed') ?? DEFAULT_MANDALA.seed,
+      rings: mandala?.optionalNumber('rings', { min: 1, max: 12 }),
+    },
+  };
+};
+
+// Variants
+const mergeVariant = (base: unknown, override: unknown): unknown => {
+  if (!isRecord(base) || !isRecord(override)) return override;
+  const merged: Record<string, unknown> = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    merged[key] = mergeVariant(base[key], value);
+  });
+  return merged;
+};
+
+// Each variant is checked merged over the content, as it will be shown
+const readVariants = (stage: FieldReader, schema: StageContentSchema | undefined, issues: ExperienceScriptIssue[]) => {
+  const variants = stage.object('variants');
+  const source = stage.value('variants');
+  if (!isRecord(source)) return undefined;
+  return Object.fromEntries(Object.entries(source).flatMap(([locale, override]) => {
+    if (!LOCALE_CODES.includes(locale as Locale)) {
+      variants.issue(locale, `unknown language, expected one of ${LOCALE_CODES.join(', ')}`);
+      return [];
+    }
+    if (!isRecord(override)) {
+      variants.issue(locale, `expected an object, got ${describe(override)}`);
+      return [];
+    }
+    schema?.readContent(createFieldReader(mergeVariant(stage.value('content'), override), joinPath(variants.path, locale), issues));
+    return [[locale, override]];
+  })) as Partial<Record<Locale, unknown>>;
+};
+
+// The stage's content in `locale`, or its own content without a variant
+export const localizeStageContent = (stage: StageDefinition, locale: Locale, schemas: StageContentSchemas) => {
+  const override = stage.variants?.[locale];
+  const schema = Object.prototype.hasOwnProperty.call(schemas, stage.type) ? schemas[stage.type] : undefined;
+  if (override === undefined || !schema) return stage.content;
+  return schema.readContent(createFieldReader(mergeVariant(stage.content, override), '', []));
+};
+
+// Schema
+const readNext = (stage: FieldReader): StageNext | undefined => {
+  const next = stage.value('next');
+  if (next === undefined || typeof next === 'string') {
+    return next;
+  }
+  if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+    stage.issue('next', `expected a stage id or an outcome map, got ${describe(next)}`);
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(next).map(([outcome, target]) => {
+    if (typeof target !== 'string') {
+      stage.issue(`next.${outcome}`, `expected a stage id, got ${describe(target)}`);
+    }
+    return [outcome, String(target)];
+  }));
+};
+
+const nextTargets = (next: StageNext | undefined) =>
+  next === undefined ? [] : typeof next === 'string' ? [next] : Object.values(next);
+
+// Version 1 scripts had fixed lock/letter/proposal sections; they map onto the
+// equivalent three-stage flow.
+const upgradeScript = (input: unknown): unknown => {
+  if (!isRecord(input) || input.version !== 1) {
+    return input;
+  }
+  const { lock, letter, proposal, ...rest } = input;
+  return {
+    ...rest,
+    version: 2,
+    stages: [
+      { id: 'lock', type: 'lock', content: lock },
+      { id: 'letter', type: 'letter', content: letter },
+      { id: 'proposal', type: 'proposal', content: proposal },
+    ],
+  };
+};
+
+export const validateExperienceScript = (input: unknown, schemas: StageContentSchemas): ExperienceScript => {
+  const issues: ExperienceScriptIssue[] = [];
+  const root = createFieldReader(upgradeScript(input), '', issues);
+  const recipient = root.object('recipient');
+  const author = root.object('author');
+  const navigation = root.has('navigation') ? root.object('navigation') : undefined;
+  const locale = root.has('locale') ? root.object('locale') : undefined;
+  const theme = root.has('theme') ? root.object('theme') : undefined;
+  const analytics = root.has('analytics') ? root.object('analytics') : undefined;
+
+  const script: ExperienceScript = {
+    version: root.literal('version', [2] as const),
+    id: root.string('id'),
+    recipient: { name: recipient.string('name') },
+    author: { name: author.string('name'), nickname: author.optionalString('nickname') },
+    navigation: {
+      back: navigation?.optionalBoolean('back') ?? true,
+      restart: navigation?.optionalBoolean('restart') ?? true,
+    },
+    locale: {
+      default: locale?.optionalLiteral('default', LOCALE_CODES) ?? DEFAULT_LOCALE,
+      picker: locale?.optionalBoolean('picker') ?? true,
+    },
+    theme: {
+      particles: theme?.optionalLiteral('particles', PARTICLE_THEME_NAMES) ?? 'vrindavan',
+      particleDensity: theme?.optionalNumber('particleDensity', { min: 0, max: 3 }) ?? 1,
+      background: readBackground(theme),
+    },
+    analytics: {
+      endpoint: analytics?.optionalString('endpoint'),
+    },
+    stages: root.array('stages', (stage) => {
+      const type = stage.string('type');
+      const schema = Object.prototype.hasOwnProperty.call(schemas, type) ? schemas[type] : undefined;
+      if (type && !schema) {
+        stage.issue('type', `unknown stage type "${type}", expected one of ${Object.keys(schemas).join(', ')}`);
+      }
+      return {
+        id: stage.string('id'),
+        type,
+        next: readNext(stage),
+        music: stage.has('music') ? readAudioSourceSpec(stage.object('music')) : undefined,
+        content: schema ? schema.readContent(stage.object('content')) : undefined,
+        variants: stage.has('variants') ? readVariants(stage, schema, issues) : undefined,
+      };
+    }, { nonEmpty: true }),
+  };
+
+  if (script.id && !/^[a-z0-9][a-z0-9-]*$/.test(script.id)) {
+    root.issue('id', 'must contain only lowercase letters, digits and dashes');
+  }
+  if (analytics && script.analytics.endpoint !== undefined && !/^https?:\/\/\S+$/.test(script.analytics.endpoint)) {
+    analytics.issue('endpoint', 'must be an http(s) URL');
+  }
+
+  const stageIds = new Set<string>();
+  script.stages.forEach((stage, index) => {
+    if (stageIds.has(stage.id)) {
+      issues.push({ path: `stages[${index}].id`, message: `duplicate stage id "${stage.id}"` });
+    }
+    stageIds.add(stage.id);
+  });
+  script.stages.forEach((stage, index) => {
+    nextTargets(stage.next).forEach((target) => {
+      if (!stageIds.has(target)) {
+        issues.push({ path: `stages[${index}].next`, message: `unknown stage id "${target}"` });
+      }
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new ExperienceScriptError(issues);
+  }
+  return script;
+};
+
+// Names
+// Script text may use {recipient}, {author} and {nickname}; they are filled in
+// once at load time, variants included, so stages only ever see final strings.
+// Only fields shown to the recipient are filled: keywords, answers, URLs, ids
+// and settings stay exactly as written.
+const DISPLAY_TEXT_FIELDS = new Set([
+  'greeting', 'riddle', 'blessing', 'prompt', 'fallbackPlaceholder', 'title', 'paragraphs', 'closing', 'name',
+  'nextLabel', 'skipLabel', 'tapLabel', 'hints', 'question', 'choices', 'pairs', 'caption', 'lines', 'mantra',
+  'text', 'teaser', 'hint', 'revealLabel', 'yesLabel', 'noLabel', 'prompts',
+]);
+
+const fillNames = (text: string, names: Record<string, string>) =>
+  text.replace(/\{(recipient|author|nickname)\}/g, (match, key: string) => names[key] ?? match);
+
+// `isText` says whether strings here belong to a display-text field
+const fillDisplayText = <T>(value: T, names: Record<string, string>, isText = false): T => {
+  if (typeof value === 'string') return (isText ? fillNames(value, names) : value) as T;
+  if (Array.isArray(value)) return value.map((item) => fillDisplayText(item, names, isText)) as T;
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, fillDisplayText(item, names, DISPLAY_TEXT_FIELDS.has(key))]
+    )) as T;
+  }
+  return value;
+};
+
+// Script text is JSON or YAML; a JSON script is an object, so it opens with a brace
+export const parseExperienceScriptText = (text: string): unknown => {
+  const format = /^\s*\{/.test(text) ? 'JSON' : 'YAML';
+  try {
+    return format === 'JSON' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ExperienceScriptError([{ path: '(root)', message: `invalid ${format}: ${(error as Error).message}` }]);
+  }
+};
+
+export const loadExperienceScript = (source: unknown, schemas: StageContentSchemas): ExperienceScript => {
+  const input = typeof source === 'string' ? parseExperienceScriptText(source) : source;
+  const script = validateExperienceScript(input, schemas);
+  const names = {
+    recipient: script.recipient.name,
+    author: script.author.name,
+    nickname: script.author.nickname ?? script.author.name,
+  };
+  return {
+    ...script,
+    stages: script.stages.map((stage) => ({
+      ...stage,
+      content: fillDisplayText(stage.content, names),
+      variants: stage.variants && fillDisplayText(stage.variants, names),
+    })),
+  };
+};
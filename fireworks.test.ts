@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFireworks } from './fireworks';
+
+// A 2D context that counts the sparks (arcs) each frame draws
+const createCanvas = () => {
+  const drawn = { sparks: 0, cleared: 0 };
+  const context = {
+    setTransform: vi.fn(),
+    fillRect: () => {
+      drawn.sparks = 0;
+    },
+    clearRect: () => {
+      drawn.cleared++;
+    },
+    save: vi.fn(),
+    restore: vi.fn(),
+    beginPath: vi.fn(),
+    arc: () => {
+      drawn.sparks++;
+    },
+    fill: vi.fn(),
+  };
+  const canvas = { width: 0, height: 0, getContext: () => context } as unknown as HTMLCanvasElement;
+  return { canvas, drawn };
+};
+
+let frames = new Map<number, FrameRequestCallback>();
+let lastFrame = 0;
+let now = 0;
+const runFrames = (count: number, intervalMs = 16) => {
+  for (let i = 0; i < count; i++) {
+    const pending = [...frames.values()];
+    frames = new Map();
+    now += intervalMs;
+    pending.forEach((callback) => callback(now));
+  }
+};
+
+beforeEach(() => {
+  frames = new Map();
+  now = 0;
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frames.set(++lastFrame, callback);
+    return lastFrame;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (frame: number) => frames.delete(frame));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createFireworks', () => {
+  it('lets what is in the air burn out after a stop, then stops its loop', () => {
+    const { canvas, drawn } = createCanvas();
+    const fireworks = createFireworks(canvas);
+    fireworks.resize(400, 600);
+    fireworks.start();
+    runFrames(120);
+    expect(drawn.sparks).toBeGreaterThan(0);
+
+    fireworks.stop();
+    runFrames(1);
+    expect(frames.size).toBe(1);
+    runFrames(300);
+    expect(frames.size).toBe(0);
+    expect(drawn.cleared).toBe(1);
+  });
+
+  it('keeps the number of sparks bounded however fast rockets launch', () => {
+    const { canvas, drawn } = createCanvas();
+    const fireworks = createFireworks(canvas);
+    fireworks.resize(400, 600);
+    fireworks.start(1000);
+    let most = 0;
+    for (let i = 0; i < 200; i++) {
+      runFrames(1);
+      most = Math.max(most, drawn.sparks);
+    }
+    expect(most).toBeGreaterThan(1000);
+    expect(most).toBeLessThanOrEqual(1200);
+  });
+
+  it('cancels its frame when disposed mid-show', () => {
+    const { canvas } = createCanvas();
+    const fireworks = createFireworks(canvas);
+    fireworks.resize(400, 600);
+    fireworks.start();
+    runFrames(30);
+    fireworks.dispose();
+    expect(frames.size).toBe(0);
+  });
+
+  it('draws still bursts once with reduced motion', () => {
+    const { canvas, drawn } = createCanvas();
+    const fireworks = createFireworks(canvas, { reducedMotion: true });
+    fireworks.resize(400, 600, 2);
+    expect([canvas.width, canvas.height]).toEqual([800, 1200]);
+    fireworks.start();
+    expect(frames.size).toBe(0);
+    // Three bursts of seventy sparks, four dots along each
+    expect(drawn.sparks).toBe(3 * 70 * 4);
+    expect(drawn.cleared).toBe(1);
+  });
+});
@@ -0,0 +1,217 @@
+// Fireworks
+// Rockets rise from the bottom edge and burst into sparks that fall and fade,
+// leaving short trails. The canvas stays transparent so the sky behind it shows
+// through. `stop` only ends the launches; what is in the air burns out, and
+// the loop stops when the sky is empty. With reduced motion nothing moves: a
+// few bursts are drawn once, the way they look in the saved picture.
+
+interface Spark {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  color: string;
+  age: number;
+  life: number;
+}
+
+interface Rocket {
+  x: number;
+  y: number;
+  vy: number;
+  burstAt: number;
+  color: string;
+}
+
+export interface FireworksOptions {
+  reducedMotion?: boolean;
+}
+
+export interface Fireworks {
+  // `intensity` is roughly rockets per second
+  start: (intensity?: number) => void;
+  stop: () => void;
+  resize: (width: number, height: number, pixelRatio?: number) => void;
+  dispose: () => void;
+}
+
+export const FIREWORK_COLORS = ['#fbbf24', '#f472b6', '#fb7185', '#fde68a', '#c084fc', '#f97316'];
+const GRAVITY = 160;
+const SPARKS_PER_BURST = 70;
+const MAX_SPARKS = 1200;
+// Frames longer than this are a hidden tab, not a slow device
+const MAX_STEP_SECONDS = 0.1;
+
+const between = (min: number, max: number, random = Math.random) => min + random() * (max - min);
+
+// One burst as a still: rings of dots thinning out towards the edge
+export const drawStaticBurst = (
+  context: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  color: string,
+  random = Math.random
+) => {
+  context.save();
+  context.fillStyle = color;
+  context.shadowColor = color;
+  context.shadowBlur = radius / 12;
+  for (let index = 0; index < SPARKS_PER_BURST; index++) {
+    const angle = (index / SPARKS_PER_BURST) * Math.PI * 2 + random() * 0.1;
+    const reach = radius * between(0.6, 1, random);
+    for (let step = 1; step <= 4; step++) {
+      const distance = (reach * step) / 4;
+      context.globalAlpha = 1 - step / 5;
+      context.beginPath();
+      // The sparks droop a little, as they do in the air
+      context.arc(x + Math.cos(angle) * distance, y + Math.sin(angle) * distance + (distance / radius) ** 2 * radius * 0.15, radius / 90 + 1, 0, Math.PI * 2);
+      context.fill();
+    }
+  }
+  context.restore();
+};
+
+export const createFireworks = (canvas: HTMLCanvasElement, options: FireworksOptions = {}): Fireworks => {
+  const context = canvas.getContext('2d');
+  const reducedMotion = options.reducedMotion ?? false;
+  let width = 0;
+  let height = 0;
+  let pixelRatio = 1;
+  let rockets: Rocket[] = [];
+  let sparks: Spark[] = [];
+  let intensity = 0;
+  let untilLaunch = 0;
+  let frame: number | null = null;
+  let lastTime: number | null = null;
+
+  const launch = () => {
+    rockets.push({
+      x: between(0.15, 0.85) * width,
+      y: height,
+      vy: -between(0.9, 1.2) * height,
+      burstAt: between(0.15, 0.45) * height,
+      color: FIREWORK_COLORS[Math.floor(Math.random() * FIREWORK_COLORS.length)],
+    });
+  };
+
+  const burst = (rocket: Rocket) => {
+    const speed = Math.min(width, height) * between(0.25, 0.4);
+    for (let index = 0; index < SPARKS_PER_BURST && sparks.length < MAX_SPARKS; index++) {
+      const angle = (index / SPARKS_PER_BURST) * Math.PI * 2;
+      const velocity = speed * between(0.5, 1);
+      sparks.push({
+        x: rocket.x,
+        y: rocket.y,
+        vx: Math.cos(angle) * velocity,
+        vy: Math.sin(angle) * velocity,
+        color: Math.random() < 0.8 ? rocket.color : '#ffffff',
+        age: 0,
+        life: between(1, 1.8),
+      });
+    }
+  };
+
+  const step = (seconds: number) => {
+    if (intensity > 0) {
+      untilLaunch -= seconds;
+      if (untilLaunch <= 0) {
+        launch();
+        untilLaunch = between(0.5, 1.5) / intensity;
+      }
+    }
+
+    rockets = rockets.filter((rocket) => {
+      rocket.y += rocket.vy * seconds;
+      rocket.vy += GRAVITY * 0.5 * seconds;
+      if (rocket.y > rocket.burstAt && rocket.vy < 0) return true;
+      burst(rocket);
+      return false;
+    });
+
+    sparks = sparks.filter((spark) => {
+      spark.age += seconds;
+      spark.vx *= 1 - 1.2 * seconds;
+      spark.vy = spark.vy * (1 - 1.2 * seconds) + GRAVITY * seconds;
+      spark.x += spark.vx * seconds;
+      spark.y += spark.vy * seconds;
+      return spark.age < spark.life;
+    });
+  };
+
+  const draw = () => {
+    if (!context) return;
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    // Fading what is there, rather than clearing it, draws the trails
+    context.globalCompositeOperation = 'destination-out';
+    context.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    context.fillRect(0, 0, width, height);
+    context.globalCompositeOperation = 'lighter';
+
+    rockets.forEach((rocket) => {
+      context.globalAlpha = 1;
+      context.fillStyle = rocket.color;
+      context.fillRect(rocket.x - 1.5, rocket.y - 4, 3, 8);
+    });
+    sparks.forEach((spark) => {
+      context.globalAlpha = Math.max(0, 1 - spark.age / spark.life);
+      context.fillStyle = spark.color;
+      context.beginPath();
+      context.arc(spark.x, spark.y, 2, 0, Math.PI * 2);
+      context.fill();
+    });
+    context.globalAlpha = 1;
+    context.globalCompositeOperation = 'source-over';
+  };
+
+  const tick = (time: number) => {
+    const seconds = lastTime === null ? 0 : Math.min(MAX_STEP_SECONDS, (time - lastTime) / 1000);
+    lastTime = time;
+    step(seconds);
+    draw();
+    if (intensity > 0 || rockets.length > 0 || sparks.length > 0) {
+      frame = requestAnimationFrame(tick);
+    } else {
+      context?.clearRect(0, 0, canvas.width, canvas.height);
+      frame = null;
+      lastTime = null;
+    }
+  };
+
+  const drawStill = () => {
+    if (!context) return;
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    [[0.25, 0.25], [0.72, 0.2], [0.5, 0.38]].forEach(([x, y], index) =>
+      drawStaticBurst(context, x * width, y * height, Math.min(width, height) * 0.18, FIREWORK_COLORS[index]));
+  };
+
+  return {
+    start: (next = 1.5) => {
+      intensity = next;
+      untilLaunch = 0;
+      if (reducedMotion) {
+        drawStill();
+        return;
+      }
+      if (frame === null) frame = requestAnimationFrame(tick);
+    },
+    stop: () => {
+      intensity = 0;
+    },
+    resize: (nextWidth, nextHeight, nextPixelRatio = 1) => {
+      width = nextWidth;
+      height = nextHeight;
+      pixelRatio = nextPixelRatio;
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+    },
+    dispose: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      intensity = 0;
+      rockets = [];
+      sparks = [];
+    },
+  };
+};
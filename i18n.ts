@@ -0,0 +1,344 @@
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+
+// Internationalization
+// The words the app itself says (lock statuses, control labels, prompts) in
+// Hindi, English and Hinglish. Messages take `{name}` placeholders, and a
+// message that depends on a count gives one form per plural category. What
+// the author wrote lives in the script instead, with per-language variants
+// (see `variants` in experienceScript.ts).
+
+export type Locale = 'hi' | 'en' | 'hinglish';
+
+export interface LocaleInfo {
+  name: string;
+  // For dates, plural rules and the page's lang attribute
+  lang: string;
+  // Hinglish is spoken Hindi written in Latin letters, so it is heard as Hindi
+  // but read aloud by an Indian English voice
+  recognitionLang: string;
+  voiceLang: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  hi: { name: 'हिन्दी', lang: 'hi-IN', recognitionLang: 'hi-IN', voiceLang: 'hi-IN' },
+  en: { name: 'English', lang: 'en-IN', recognitionLang: 'en-IN', voiceLang: 'en-IN' },
+  hinglish: { name: 'Hinglish', lang: 'en-IN', recognitionLang: 'hi-IN', voiceLang: 'en-IN' },
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'hi';
+
+// Catalogs
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+type Message = string | PluralMessage;
+
+const hi = {
+  'lock.notAllowed': 'माइक की इजाज़त नहीं मिली 🎙️ ब्राउज़र में माइक की अनुमति दो, या नीचे नाम लिखो।',
+  'lock.noSpeech': 'कुछ सुनाई नहीं दिया... ताले पर टैप करके थोड़ा ज़ोर से बोलो 🤫',
+  'lock.network': 'इंटरनेट में रुकावट है 📶 फिर से कोशिश करो, या नीचे नाम लिखो।',
+  'lock.audioCapture': 'माइक नहीं मिला 🎙️ कोई माइक जोड़ो, या नीचे नाम लिखो।',
+  'lock.noMatch': 'आवाज़ तो आई, पर वो नाम नहीं... फिर से ताले पर टैप करके बोलो 😉',
+  'lock.timeout': 'मैंने बहुत देर इंतज़ार किया... फिर से ताले पर टैप करो ⏳',
+  'lock.unknown': 'कुछ गड़बड़ हुई, फिर से कोशिश करें।',
+  'lock.checkingSeal': 'ताले की चाबी जाँच रहा हूँ... 🔐',
+  'lock.heardWrong': 'ऊप्स! मैंने सुना: "{heard}"... फिर से कोशिश करो 😉',
+  'lock.offline': 'इंटरनेट नहीं है, कोई बात नहीं 🎙️ फिर से ताले पर टैप करो, मैं बिना इंटरनेट के सुनूँगा।',
+  'lock.listening': 'मैं ध्यान से सुन रहा हूँ... 🤫',
+  'lock.unsupported': 'माफ़ करना, आपका ब्राउज़र यह जादू नहीं चला सकता। नीचे दिए बॉक्स में राधा रानी का नाम टाइप करें।',
+  'lock.unlocked': 'ताला खुल गया! 🔓🎉',
+  'lock.wrongWord': 'ऊप्स! गलत शब्द... फिर से कोशिश करो 😉',
+  'lock.submit': 'भेजो',
+  'lock.listenLabel': 'ताला — दबाकर बोलो',
+  'lock.stopLabel': 'सुनना बंद करो',
+  'narration.listen': '🔈 सुनो',
+  'narration.play': 'ख़त पढ़कर सुनाओ',
+  'narration.pause': 'सुनाना रोको',
+  'narration.resume': 'सुनाना जारी रखो',
+  'narration.skip': 'अगले पैराग्राफ़ पर जाओ',
+  'narration.stop': 'सुनाना बंद करो',
+  'reveal.previous': 'पिछला पैराग्राफ़',
+  'reveal.next': 'अगला पैराग्राफ़',
+  'reveal.pause': 'ख़त को रोको',
+  'reveal.resume': 'आगे दिखाते रहो',
+  'reveal.slower': 'धीरे',
+  'reveal.faster': 'तेज़',
+  'letter.progress': 'पैराग्राफ़ {count} / {total}',
+  'gallery.previous': 'पिछली याद',
+  'gallery.next': 'अगली याद',
+  'gallery.pause': 'यहीं रुको',
+  'gallery.play': 'आगे चलाओ',
+  'gallery.slide': 'याद {index} / {total}',
+  'gallery.unavailable': 'यह याद इस फ़ोन पर नहीं है',
+  'music.volume': 'संगीत की आवाज़',
+  'music.pause': 'संगीत रोको',
+  'music.play': 'संगीत चलाओ',
+  'nav.back': 'पीछे जाओ',
+  'nav.restart': 'शुरू से',
+  'resume.title': 'फिर से स्वागत है!',
+  'resume.question': 'पिछली बार जहाँ छोड़ा था, वहीं से आगे बढ़ें?',
+  'resume.continue': 'हाँ, आगे बढ़ें ➡️',
+  'resume.startOver': 'शुरू से 🔄',
+  'constellation.progress': { one: '{count} तारा जुड़ा', other: '{count} तारे जुड़े' },
+  'constellation.tap': 'तारा जोड़ो',
+  'challenge.wrong': 'नहीं, यह नहीं 🙈',
+  'challenge.hint': 'संकेत: {hint}',
+  'challenge.attemptsLeft': { one: 'बस {count} कोशिश बाकी', other: '{count} कोशिशें बाकी' },
+  'challenge.outOfAttempts': 'कोशिशें ख़त्म, फिर भी आगे चलते हैं 💕',
+  'quiz.progress': 'सवाल {index} / {total}',
+  'memory.card': 'कमल {index}',
+  'memory.progress': { one: '{count} जोड़ी मिली', other: '{count} जोड़ियाँ मिलीं' },
+  'heart.canvas': 'यहाँ उँगली से दिल बनाओ; या तीर वाली कुंजियों से बनाकर Enter दबाओ',
+  'heart.clear': 'मिटाओ',
+  'date.label': 'हम किस दिन मिले थे?',
+  'date.earlier': 'उससे पहले… ⏪',
+  'date.later': 'उसके बाद… ⏩',
+  'jap.listen': 'बोलकर जप करो 🎙️',
+  'jap.stop': 'सुनना बंद करो',
+  'jap.listening': 'सुन रहे हैं… नाम लेते रहो',
+  'jap.noVoice': 'यहाँ आवाज़ से गिनती नहीं हो सकती; हर नाम पर टैप करो',
+  'jap.mala': 'माला: {target} में से {count}',
+  'jap.rounds': { one: '{count} माला पूरी', other: '{count} मालाएँ पूरी' },
+  'jap.today': 'आज {count} नाम',
+  'jap.streak': { one: 'लगातार {count} दिन 🔥', other: 'लगातार {count} दिन 🔥' },
+  'jap.complete': 'जप पूरा हुआ 🙏 राधे राधे',
+  'celebration.skip': 'सीधे आख़िर तक ⏭',
+  'celebration.save': 'यह पल सहेजो 📸',
+  'celebration.saving': 'तस्वीर बन रही है…',
+  'celebration.saveFailed': 'तस्वीर नहीं बन पाई, फिर से कोशिश करो',
+  'proposal.thinkAgain': 'सच में? 🥺 एक बार फिर सोचो...',
+  'language.label': 'भाषा',
+  'motion.reduce': 'कम हलचल',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof hi;
+type Catalog = Record<MessageKey, Message>;
+
+const en: Catalog = {
+  'lock.notAllowed': "The microphone wasn't allowed 🎙️ Allow it in the browser, or type the name below.",
+  'lock.noSpeech': "I didn't hear anything... tap the lock and speak a little louder 🤫",
+  'lock.network': 'The internet dropped 📶 Try again, or type the name below.',
+  'lock.audioCapture': 'No microphone found 🎙️ Connect one, or type the name below.',
+  'lock.noMatch': "I heard you, but that wasn't the name... tap the lock and say it again 😉",
+  'lock.timeout': 'I waited a long time... tap the lock again ⏳',
+  'lock.unknown': 'Something went wrong, please try again.',
+  'lock.checkingSeal': 'Trying the key in the lock... 🔐',
+  'lock.heardWrong': 'Oops! I heard: "{heard}"... try again 😉',
+  'lock.offline': "No internet, no problem 🎙️ Tap the lock again and I'll listen without it.",
+  'lock.listening': "I'm listening carefully... 🤫",
+  'lock.unsupported': "Sorry, your browser can't do this magic. Type Radha Rani's name in the box below.",
+  'lock.unlocked': 'The lock is open! 🔓🎉',
+  'lock.wrongWord': 'Oops! Wrong word... try again 😉',
+  'lock.submit': 'Submit',
+  'lock.listenLabel': 'Lock — press and speak',
+  'lock.stopLabel': 'Stop listening',
+  'narration.listen': '🔈 Listen',
+  'narration.play': 'Read the letter aloud',
+  'narration.pause': 'Pause narration',
+  'narration.resume': 'Resume narration',
+  'narration.skip': 'Skip to the next paragraph',
+  'narration.stop': 'Stop narration',
+  'reveal.previous': 'Previous paragraph',
+  'reveal.next': 'Next paragraph',
+  'reveal.pause': 'Pause the letter',
+  'reveal.resume': 'Continue revealing',
+  'reveal.slower': 'Slower',
+  'reveal.faster': 'Faster',
+  'letter.progress': 'Paragraph {count} of {total}',
+  'gallery.previous': 'Previous memory',
+  'gallery.next': 'Next memory',
+  'gallery.pause': 'Stay on this one',
+  'gallery.play': 'Play the memories',
+  'gallery.slide': 'Memory {index} of {total}',
+  'gallery.unavailable': 'This memory is not on this device',
+  'music.volume': 'Music volume',
+  'music.pause': 'Pause music',
+  'music.play': 'Play music',
+  'nav.back': 'Go back',
+  'nav.restart': 'Start over',
+  'resume.title': 'Welcome back!',
+  'resume.question': 'Pick up where you left off last time?',
+  'resume.continue': 'Yes, continue ➡️',
+  'resume.startOver': 'Start over 🔄',
+  'constellation.progress': { one: '{count} star linked', other: '{count} stars linked' },
+  'constellation.tap': 'Link a star',
+  'challenge.wrong': 'Not quite 🙈',
+  'challenge.hint': 'Hint: {hint}',
+  'challenge.attemptsLeft': { one: 'Just {count} try left', other: '{count} tries left' },
+  'challenge.outOfAttempts': "That's all the tries, but let's carry on 💕",
+  'quiz.progress': 'Question {index} of {total}',
+  'memory.card': 'Lotus {index}',
+  'memory.progress': { one: '{count} pair found', other: '{count} pairs found' },
+  'heart.canvas': 'Draw a heart here with your finger, or with the arrow keys and then press Enter',
+  'heart.clear': 'Clear',
+  'date.label': 'Which day did we meet?',
+  'date.earlier': 'Earlier than that… ⏪',
+  'date.later': 'Later than that… ⏩',
+  'jap.listen': 'Chant aloud 🎙️',
+  'jap.stop': 'Stop listening',
+  'jap.listening': 'Listening… keep chanting',
+  'jap.noVoice': "Voice counting isn't available here; tap for each name",
+  'jap.mala': 'Mala: {count} of {target}',
+  'jap.rounds': { one: '{count} mala complete', other: '{count} malas complete' },
+  'jap.today': '{count} names today',
+  'jap.streak': { one: '{count}-day streak 🔥', other: '{count}-day streak 🔥' },
+  'jap.complete': 'Jap complete 🙏 Radhe Radhe',
+  'celebration.skip': 'Skip to the end ⏭',
+  'celebration.save': 'Save this moment 📸',
+  'celebration.saving': 'Making the picture…',
+  'celebration.saveFailed': "The picture couldn't be made; try again",
+  'proposal.thinkAgain': 'Really? 🥺 Think about it once more...',
+  'language.label': 'Language',
+  'motion.reduce': 'Reduce motion',
+};
+
+const hinglish: Catalog = {
+  'lock.notAllowed': 'Mic ki permission nahi mili 🎙️ Browser mein mic allow karo, ya neeche naam likho.',
+  'lock.noSpeech': 'Kuch sunai nahi diya... taale pe tap karke thoda zor se bolo 🤫',
+  'lock.network': 'Internet mein rukawat hai 📶 Phir se try karo, ya neeche naam likho.',
+  'lock.audioCapture': 'Mic nahi mila 🎙️ Koi mic lagao, ya neeche naam likho.',
+  'lock.noMatch': 'Awaaz toh aayi, par woh naam nahi... phir se taale pe tap karke bolo 😉',
+  'lock.timeout': 'Maine bahut der intezaar kiya... phir se taale pe tap karo ⏳',
+  'lock.unknown': 'Kuch gadbad hui, phir se try karo.',
+  'lock.checkingSeal': 'Taale ki chaabi check kar raha hoon... 🔐',
+  'lock.heardWrong': 'Oops! Maine suna: "{heard}"... phir se try karo 😉',
+  'lock.offline': 'Internet nahi hai, koi baat nahi 🎙️ Phir se taale pe tap karo, main bina internet ke sunoonga.',
+  'lock.listening': 'Main dhyaan se sun raha hoon... 🤫',
+  'lock.unsupported': 'Sorry, tumhara browser yeh jaadu nahi chala sakta. Neeche box mein Radha Rani ka naam type karo.',
+  'lock.unlocked': 'Taala khul gaya! 🔓🎉',
+  'lock.wrongWord': 'Oops! Galat shabd... phir se try karo 😉',
+  'lock.submit': 'Bhejo',
+  'lock.listenLabel': 'Taala — dabakar bolo',
+  'lock.stopLabel': 'Sunna band karo',
+  'narration.listen': '🔈 Suno',
+  'narration.play': 'Letter padh ke sunao',
+  'narration.pause': 'Sunana roko',
+  'narration.resume': 'Sunana chalu rakho',
+  'narration.skip': 'Agle paragraph pe jao',
+  'narration.stop': 'Sunana band karo',
+  'reveal.previous': 'Pichhla paragraph',
+  'reveal.next': 'Agla paragraph',
+  'reveal.pause': 'Letter roko',
+  'reveal.resume': 'Aage dikhate raho',
+  'reveal.slower': 'Dheere',
+  'reveal.faster': 'Tez',
+  'letter.progress': 'Paragraph {count} / {total}',
+  'gallery.previous': 'Pichhli yaad',
+  'gallery.next': 'Agli yaad',
+  'gallery.pause': 'Yahin ruko',
+  'gallery.play': 'Aage chalao',
+  'gallery.slide': 'Yaad {index} / {total}',
+  'gallery.unavailable': 'Yeh yaad is phone par nahi hai',
+  'music.volume': 'Music ki awaaz',
+  'music.pause': 'Music roko',
+  'music.play': 'Music chalao',
+  'nav.back': 'Peeche jao',
+  'nav.restart': 'Shuru se',
+  'resume.title': 'Phir se swagat hai!',
+  'resume.question': 'Pichhli baar jahan chhoda tha, wahin se aage badhein?',
+  'resume.continue': 'Haan, aage badhein ➡️',
+  'resume.startOver': 'Shuru se 🔄',
+  'constellation.progress': { one: '{count} taara juda', other: '{count} taare jude' },
+  'constellation.tap': 'Taara jodo',
+  'challenge.wrong': 'Nahi, yeh nahi 🙈',
+  'challenge.hint': 'Hint: {hint}',
+  'challenge.attemptsLeft': { one: 'Bas {count} try baaki', other: '{count} tries baaki' },
+  'challenge.outOfAttempts': 'Tries khatam, phir bhi aage chalte hain 💕',
+  'quiz.progress': 'Sawaal {index} / {total}',
+  'memory.card': 'Kamal {index}',
+  'memory.progress': { one: '{count} jodi mili', other: '{count} jodiyaan mili' },
+  'heart.canvas': 'Yahan ungli se dil banao, ya arrow keys se banakar Enter dabao',
+  'heart.clear': 'Mitao',
+  'date.label': 'Hum kis din mile the?',
+  'date.earlier': 'Usse pehle… ⏪',
+  'date.later': 'Uske baad… ⏩',
+  'jap.listen': 'Bolkar jap karo 🎙️',
+  'jap.stop': 'Sunna band karo',
+  'jap.listening': 'Sun rahe hain… naam lete raho',
+  'jap.noVoice': 'Yahan awaaz se ginti nahi ho sakti; har naam par tap karo',
+  'jap.mala': 'Mala: {target} mein se {count}',
+  'jap.rounds': { one: '{count} mala poori', other: '{count} malayein poori' },
+  'jap.today': 'Aaj {count} naam',
+  'jap.streak': { one: 'Lagatar {count} din 🔥', other: 'Lagatar {count} din 🔥' },
+  'jap.complete': 'Jap poora hua 🙏 Radhe Radhe',
+  'celebration.skip': 'Seedha aakhir tak ⏭',
+  'celebration.save': 'Yeh pal sahejo 📸',
+  'celebration.saving': 'Tasveer ban rahi hai…',
+  'celebration.saveFailed': 'Tasveer nahi ban payi, phir se koshish karo',
+  'proposal.thinkAgain': 'Sach mein? 🥺 Ek baar phir socho...',
+  'language.label': 'Bhasha',
+  'motion.reduce': 'Kam motion',
+};
+
+const CATALOGS: Record<Locale, Catalog> = { hi, en, hinglish };
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+const pluralCategory = (locale: Locale, count: number) => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALES[locale].lang);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+};
+
+// A placeholder without a value is left as written, so a missing parameter
+// shows up on screen instead of vanishing
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}) => {
+  const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  const text = typeof message === 'string'
+    ? message
+    : message[pluralCategory(locale, Number(params.count ?? 0))] ?? message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (params[name] === undefined ? match : String(params[name])));
+};
+
+// Locale Context
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+export const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+});
+
+// Outside an experience (e.g. the editor preview) messages are in the default
+// language unless a provider says otherwise
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}));
+
+export const useI18n = () => useContext(I18nContext);
+
+// The recipient's choice is kept for every experience on the device
+const LOCALE_STORAGE_KEY = 'radha-radha:locale';
+
+const loadSavedLocale = (): Locale | null => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return LOCALE_CODES.includes(saved as Locale) ? (saved as Locale) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const useLocaleState = (defaultLocale: Locale = DEFAULT_LOCALE): I18n => {
+  const [locale, setLocaleState] = useState<Locale>(() => loadSavedLocale() ?? defaultLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALES[locale].lang;
+  }, [locale]);
+
+  return useMemo(() => createI18n(locale, (next) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    } catch {
+      // Private browsing: the choice lasts for this visit only
+    }
+  }), [locale]);
+};
@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addToJapHistory,
+  createJapCounter,
+  createNameCounter,
+  japStreak,
+  loadJapHistory,
+  localDayKey,
+  saveJapHistory,
+  type JapHistory,
+} from './japCounter';
+
+describe('createNameCounter', () => {
+  const countNames = createNameCounter();
+
+  it.each([
+    ['राधा', 1],
+    ['radhe radhe', 2],
+    ['Radhey Radhey Radhey', 3],
+    ['राधे राधे श्याम', 2],
+    ['राधेराधेराधे', 3],
+    ['radharadha', 2],
+    ['', 0],
+    ['बाधा', 0],
+    ['राधिका', 0],
+    ['krishna', 0],
+    ['raja raja', 0],
+  ])('counts "%s" as %i', (transcript, count) => {
+    expect(countNames(transcript)).toBe(count);
+  });
+
+  it('counts the names the experience asks for', () => {
+    const countShyam = createNameCounter(['श्याम']);
+    expect(countShyam('shyam shyam radhe')).toBe(2);
+  });
+});
+
+describe('createJapCounter', () => {
+  it('shows interim names as pending until the phrase is final', () => {
+    const jap = createJapCounter(undefined, 10);
+    expect(jap.interim('radhe')).toEqual({ counted: 10, pending: 1 });
+    // Each interim guess replaces the last
+    expect(jap.interim('radhe radhe radhe')).toEqual({ counted: 10, pending: 3 });
+    expect(jap.total()).toBe(13);
+    expect(jap.final('radhe radhe')).toEqual({ counted: 12, pending: 0 });
+  });
+
+  it('counts taps and drops what was never made final', () => {
+    const jap = createJapCounter();
+    jap.tap();
+    jap.interim('radhe radhe');
+    expect(jap.discardPending()).toEqual({ counted: 1, pending: 0 });
+  });
+});
+
+describe('localDayKey', () => {
+  it('uses the local calendar day', () => {
+    expect(localDayKey(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05');
+    expect(localDayKey(new Date(2024, 0, 6, 0, 0))).toBe('2024-01-06');
+  });
+});
+
+describe('japStreak', () => {
+  const history = (...days: string[]): JapHistory => ({ version: 1, days: Object.fromEntries(days.map((day) => [day, 108])) });
+
+  it('counts the days in a row ending today', () => {
+    expect(japStreak(history('2024-05-08', '2024-05-09', '2024-05-10'), '2024-05-10')).toBe(3);
+    expect(japStreak(history('2024-05-07', '2024-05-09', '2024-05-10'), '2024-05-10')).toBe(2);
+  });
+
+  it('keeps a streak that ended yesterday until today is over', () => {
+    expect(japStreak(history('2024-05-08', '2024-05-09'), '2024-05-10')).toBe(2);
+    expect(japStreak(history('2024-05-08'), '2024-05-10')).toBe(0);
+    expect(japStreak(history(), '2024-05-10')).toBe(0);
+  });
+
+  it('runs on across the ends of months and years', () => {
+    expect(japStreak(history('2023-12-30', '2023-12-31', '2024-01-01'), '2024-01-01')).toBe(3);
+    expect(japStreak(history('2024-02-28', '2024-02-29', '2024-03-01'), '2024-03-01')).toBe(3);
+    expect(japStreak(history('2023-02-28', '2023-03-01'), '2023-03-01')).toBe(2);
+  });
+});
+
+describe('jap history', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('adds names to the day they were said in, starting a new day at midnight', () => {
+    const beforeMidnight = localDayKey(new Date(2024, 4, 9, 23, 59, 30));
+    const afterMidnight = localDayKey(new Date(2024, 4, 10, 0, 0, 30));
+    let history = loadJapHistory('test');
+    history = addToJapHistory(history, beforeMidnight, 100);
+    history = addToJapHistory(history, beforeMidnight, 8);
+    history = addToJapHistory(history, afterMidnight, 3);
+    history = addToJapHistory(history, afterMidnight, 0);
+    expect(history.days).toEqual({ '2024-05-09': 108, '2024-05-10': 3 });
+    expect(japStreak(history, afterMidnight)).toBe(2);
+
+    saveJapHistory('test', history);
+    expect(loadJapHistory('test')).toEqual(history);
+  });
+
+  it('ignores a record it cannot read', () => {
+    localStorage.setItem('radha-radha:jap:test', '{"version":2}');
+    expect(loadJapHistory('test')).toEqual({ version: 1, days: {} });
+  });
+});
@@ -0,0 +1,137 @@
+import { phoneticKey, similarity } from './passphraseMatcher';
+
+// Naam Jap
+// Counts the names heard in a stream of continuous speech recognition. The
+// recogniser sends interim guesses for the phrase being spoken, each replacing
+// the last, and then a final transcript for it; names in the interim guess are
+// shown straight away as pending and become counted once the phrase is final,
+// so a mala keeps moving while someone chants without pausing. Daily totals are
+// kept in localStorage for the streak.
+
+export const DEFAULT_JAP_NAMES = ['राधा', 'राधे', 'radha', 'radhe'];
+export const DEFAULT_JAP_TARGET = 108;
+// Beads on the mala, not counting the guru bead
+export const MALA_BEADS = 108;
+
+const NAME_THRESHOLD = 0.8;
+// A piece of a longer word must be closer still, or the "radi" of "राधिका" counts
+const PIECE_THRESHOLD = 0.9;
+
+// Transcript counting
+// Recognisers often run a repeated name together ("राधेराधे"), so a word
+// longer than a name is split into name-sized pieces where it can be.
+export const createNameCounter = (names: string[] = DEFAULT_JAP_NAMES) => {
+  const keys = [...new Set(names.map((name) => phoneticKey(name).replace(/ /g, '')).filter(Boolean))];
+
+  const matchesName = (text: string, threshold = NAME_THRESHOLD) => keys.some((key) => similarity(text, key) >= threshold);
+
+  const countInWord = (word: string): number => {
+    if (matchesName(word)) return 1;
+    let count = 0;
+    let start = 0;
+    while (start < word.length) {
+      const length = keys
+        .flatMap((key) => [key.length, key.length - 1, key.length + 1])
+        .find((size) => size > 1 && start + size <= word.length && matchesName(word.slice(start, start + size), PIECE_THRESHOLD));
+      if (length === undefined) {
+        start++;
+      } else {
+        count++;
+        start += length;
+      }
+    }
+    return count;
+  };
+
+  return (transcript: string) =>
+    phoneticKey(transcript).split(' ').filter(Boolean).reduce((total, word) => total + countInWord(word), 0);
+};
+
+export interface JapCount {
+  // From final transcripts
+  counted: number;
+  // In the phrase still being spoken; may change or vanish
+  pending: number;
+}
+
+export const createJapCounter = (names?: string[], initial = 0) => {
+  const countNames = createNameCounter(names);
+  let state: JapCount = { counted: initial, pending: 0 };
+
+  return {
+    get: () => state,
+    total: () => state.counted + state.pending,
+    interim: (transcript: string) => {
+      state = { ...state, pending: countNames(transcript) };
+      return state;
+    },
+    final: (transcript: string) => {
+      state = { counted: state.counted + countNames(transcript), pending: 0 };
+      return state;
+    },
+    // A tap on the fallback button
+    tap: () => {
+      state = { ...state, counted: state.counted + 1 };
+      return state;
+    },
+    // Recognition stopped mid-phrase; what was not made final is dropped
+    discardPending: () => {
+      state = { ...state, pending: 0 };
+      return state;
+    },
+  };
+};
+
+export type JapCounter = ReturnType<typeof createJapCounter>;
+
+// Daily history
+export interface JapHistory {
+  version: 1;
+  // Names counted per local day, keyed YYYY-MM-DD
+  days: Record<string, number>;
+}
+
+const storageKey = (experienceId: string) => `radha-radha:jap:${experienceId}`;
+
+const emptyHistory = (): JapHistory => ({ version: 1, days: {} });
+
+export const localDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const previousDayKey = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return localDayKey(new Date(year, month - 1, date - 1));
+};
+
+export const loadJapHistory = (experienceId: string): JapHistory => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(experienceId)) ?? 'null');
+    if (stored?.version !== 1 || typeof stored.days !== 'object' || stored.days === null) return emptyHistory();
+    return stored as JapHistory;
+  } catch {
+    return emptyHistory();
+  }
+};
+
+export const saveJapHistory = (experienceId: string, history: JapHistory) => {
+  try {
+    localStorage.setItem(storageKey(experienceId), JSON.stringify(history));
+  } catch {
+    // Private mode or full storage: the streak is not kept
+  }
+};
+
+export const addToJapHistory = (history: JapHistory, day: string, count: number): JapHistory =>
+  count <= 0 ? history : { ...history, days: { ...history.days, [day]: (history.days[day] ?? 0) + count } };
+
+// Days in a row with some jap, ending today; a streak that ended yesterday
+// still stands until today is over
+export const japStreak = (history: JapHistory, today: string) => {
+  let day = (history.days[today] ?? 0) > 0 ? today : previousDayKey(today);
+  let streak = 0;
+  while ((history.days[day] ?? 0) > 0) {
+    streak++;
+    day = previousDayKey(day);
+  }
+  return streak;
+};
@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  KeywordModelError,
+  computeMfcc,
+  createKeywordSpotterBackend,
+  createTemplateSpotter,
+  loadTemplateSpotter,
+  loadWasmSpotter,
+} from './keywordSpotter';
+
+// A second of a gliding tone, standing in for a spoken word
+const glide = (from: number, to: number, seconds = 0.6) =>
+  Float32Array.from({ length: 16000 * seconds }, (_, i) => {
+    const t = i / 16000;
+    const frequency = from + ((to - from) * t) / seconds;
+    return 0.5 * Math.sin(2 * Math.PI * frequency * t) + 0.2 * Math.sin(4 * Math.PI * frequency * t);
+  });
+
+const missing = () => vi.fn(async () => new Response('Not found', { status: 404 }));
+
+class FakeAudioContext {
+  sampleRate = 16000;
+  close = vi.fn(async () => undefined);
+  decodeAudioData = vi.fn(async () => {
+    throw new Error('decodeAudioData should not see a failed response');
+  });
+}
+
+beforeEach(() => {
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createTemplateSpotter', () => {
+  it('spots an utterance like a template and ignores an unlike one', () => {
+    const spotter = createTemplateSpotter({ keyword: 'radha', templates: [computeMfcc(glide(300, 600))] });
+    expect(spotter.spot(computeMfcc(glide(310, 620)))).toMatchObject({ keyword: 'radha' });
+    expect(spotter.spot(computeMfcc(glide(900, 200)))).toBeNull();
+  });
+});
+
+describe('loading a model', () => {
+  it('reports a clip that did not download instead of decoding it', async () => {
+    vi.stubGlobal('fetch', missing());
+    await expect(loadTemplateSpotter(['/clips/radha-1.wav'], { keyword: 'radha' })).rejects.toThrow(KeywordModelError);
+  });
+
+  it('reports a WASM model that did not download', async () => {
+    vi.stubGlobal('fetch', missing());
+    await expect(loadWasmSpotter('/models/radha.wasm', ['radha'])).rejects.toThrow(/radha\.wasm.*404/);
+  });
+
+  it('makes the recognizer give up with a network error', async () => {
+    vi.stubGlobal('fetch', missing());
+    const getUserMedia = vi.fn();
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+    const backend = createKeywordSpotterBackend({ kind: 'templates', keyword: 'radha', clips: ['/clips/radha-1.wav'] });
+    expect(backend.isSupported()).toBe(true);
+
+    const recognizer = backend.create({ lang: 'hi-IN', continuous: false, interimResults: false, maxAlternatives: 1 });
+    const ended = new Promise<void>((resolve) => {
+      recognizer.onend = resolve;
+    });
+    recognizer.onerror = vi.fn();
+    recognizer.start();
+    await ended;
+    expect(recognizer.onerror).toHaveBeenCalledWith('network');
+    // The microphone is not asked for a model that is not there
+    expect(getUserMedia).not.toHaveBeenCalled();
+  });
+
+  it('refuses a second start while the model is still loading', async () => {
+    vi.stubGlobal('fetch', missing());
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: vi.fn() } });
+    const backend = createKeywordSpotterBackend({ kind: 'templates', keyword: 'radha', clips: ['/clips/radha-1.wav'] });
+    const recognizer = backend.create({ lang: 'hi-IN', continuous: false, interimResults: false, maxAlternatives: 1 });
+    const ended = new Promise<void>((resolve) => {
+      recognizer.onend = resolve;
+    });
+    recognizer.onerror = vi.fn();
+    recognizer.start();
+    expect(() => recognizer.start()).toThrow(expect.objectContaining({ name: 'InvalidStateError' }));
+    await ended;
+    // The first start still reports how it ended, and only once
+    expect(recognizer.onerror).toHaveBeenCalledTimes(1);
+    expect(recognizer.onerror).toHaveBeenCalledWith('network');
+  });
+});
@@ -0,0 +1,476 @@
+import type {
+  RecognitionResult,
+  SpeechRecognizer,
+  SpeechRecognizerBackend,
+  SpeechRecognizerOptions,
+} from './useVoiceRecognition';
+
+// Offline Keyword Spotter
+// A second recognizer backend for browsers without SpeechRecognition (Firefox,
+// most in-app browsers) or without a network. It captures the mic with
+// getUserMedia, cuts utterances out with an energy VAD, turns them into MFCC
+// frames and asks an on-device spotter whether the passphrase was said.
+//
+// No model ships with the bundle. The backend is only used when a script sets
+// `offlineModel` on its lock (clips recorded in the editor, or a compiled WASM
+// model it hosts); without one, such browsers still fall back to typing.
+
+const SAMPLE_RATE = 16000;
+const FRAME_LENGTH = 400; // 25 ms
+const FRAME_HOP = 160; // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const MFCC_COEFFICIENTS = 13;
+
+export interface KeywordSpot {
+  keyword: string;
+  confidence: number;
+}
+
+export interface KeywordSpotter {
+  // `features` holds one MFCC vector per 10 ms frame of a single utterance
+  spot: (features: Float32Array[]) => KeywordSpot | null;
+}
+
+// Feature extraction
+const resample = (samples: Float32Array, fromRate: number, toRate: number) => {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    output[i] = samples[index] * (1 - fraction) + (samples[index + 1] ?? samples[index]) * fraction;
+  }
+  return output;
+};
+
+const fft = (real: Float32Array, imag: Float32Array) => {
+  const size = real.length;
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + length / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+const createMelFilterbank = () => {
+  const low = hzToMel(300);
+  const high = hzToMel(SAMPLE_RATE / 2);
+  const points = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * melToHz(low + ((high - low) * i) / (MEL_BANDS + 1))) / SAMPLE_RATE)
+  );
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const filter = new Float32Array(FFT_SIZE / 2 + 1);
+    const [left, center, right] = [points[band], points[band + 1], points[band + 2]];
+    for (let bin = left; bin < center; bin++) filter[bin] = (bin - left) / Math.max(1, center - left);
+    for (let bin = center; bin < right; bin++) filter[bin] = (right - bin) / Math.max(1, right - center);
+    return filter;
+  });
+};
+
+const melFilterbank = createMelFilterbank();
+const hammingWindow = Float32Array.from({ length: FRAME_LENGTH }, (_, i) =>
+  0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_LENGTH - 1))
+);
+
+// MFCCs without c0 and with per-utterance mean removed, which takes out most of
+// the difference between microphones and rooms.
+export const computeMfcc = (samples: Float32Array): Float32Array[] => {
+  const frames: Float32Array[] = [];
+  const real = new Float32Array(FFT_SIZE);
+  const imag = new Float32Array(FFT_SIZE);
+  const energies = new Float32Array(MEL_BANDS);
+
+  for (let start = 0; start + FRAME_LENGTH <= samples.length; start += FRAME_HOP) {
+    real.fill(0);
+    imag.fill(0);
+    for (let i = 0; i < FRAME_LENGTH; i++) {
+      const previous = start + i > 0 ? samples[start + i - 1] : 0;
+      real[i] = (samples[start + i] - 0.97 * previous) * hammingWindow[i];
+    }
+    fft(real, imag);
+
+    melFilterbank.forEach((filter, band) => {
+      let energy = 0;
+      for (let bin = 0; bin < filter.length; bin++) {
+        if (filter[bin]) energy += filter[bin] * (real[bin] * real[bin] + imag[bin] * imag[bin]);
+      }
+      energies[band] = Math.log(energy + 1e-10);
+    });
+
+    const coefficients = new Float32Array(MFCC_COEFFICIENTS - 1);
+    for (let k = 1; k < MFCC_COEFFICIENTS; k++) {
+      let sum = 0;
+      for (let band = 0; band < MEL_BANDS; band++) {
+        sum += energies[band] * Math.cos((Math.PI * k * (band + 0.5)) / MEL_BANDS);
+      }
+      coefficients[k - 1] = sum;
+    }
+    frames.push(coefficients);
+  }
+
+  if (frames.length > 0) {
+    const mean = new Float32Array(MFCC_COEFFICIENTS - 1);
+    frames.forEach((frame) => frame.forEach((value, i) => { mean[i] += value / frames.length; }));
+    frames.forEach((frame) => frame.forEach((_, i) => { frame[i] -= mean[i]; }));
+  }
+  return frames;
+};
+
+// Template spotter
+// Subsequence DTW: each recorded example of the passphrase may match anywhere
+// inside the utterance, so "राधा राधा" or "जी, राधा" still finds "राधा".
+const frameDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const difference = a[i] - b[i];
+    sum += difference * difference;
+  }
+  return Math.sqrt(sum);
+};
+
+export const subsequenceDtw = (template: Float32Array[], utterance: Float32Array[]) => {
+  if (template.length === 0 || utterance.length === 0) return Infinity;
+  let previous = new Float64Array(utterance.length);
+  for (let j = 0; j < utterance.length; j++) {
+    previous[j] = frameDistance(template[0], utterance[j]);
+  }
+  for (let i = 1; i < template.length; i++) {
+    const current = new Float64Array(utterance.length);
+    current[0] = previous[0] + frameDistance(template[i], utterance[0]);
+    for (let j = 1; j < utterance.length; j++) {
+      current[j] = frameDistance(template[i], utterance[j]) + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    previous = current;
+  }
+  return Math.min(...previous) / template.length;
+};
+
+export interface TemplateSpotterOptions {
+  keyword: string;
+  templates: Float32Array[][];
+  // Average per-frame DTW distance at or below which the keyword counts as said
+  maxDistance?: number;
+}
+
+export const createTemplateSpotter = ({ keyword, templates, maxDistance = 28 }: TemplateSpotterOptions): KeywordSpotter => ({
+  spot: (features) => {
+    const distance = Math.min(...templates.map((template) => subsequenceDtw(template, features)));
+    if (!(distance <= maxDistance)) return null;
+    return { keyword, confidence: Math.max(0, 1 - distance / (2 * maxDistance)) };
+  },
+});
+
+// Older Safari only has the prefixed constructor
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+const getAudioContextClass = (): typeof AudioContext | undefined =>
+  typeof window === 'undefined' ? undefined : window.AudioContext || window.webkitAudioContext;
+
+export class KeywordModelError extends Error {
+  constructor(url: string, status: number) {
+    super(`Keyword model file "${url}" could not be loaded (HTTP ${status})`);
+    this.name = 'KeywordModelError';
+  }
+}
+
+// A missing clip or model must fail loudly: decoding a 404 page as audio or
+// WASM only gives a confusing error further on
+const fetchModelFile = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new KeywordModelError(url, response.status);
+  return response.arrayBuffer();
+};
+
+// Templates come from short recordings of the passphrase bundled with the
+// experience, decoded and featurised on the device.
+export const loadTemplateSpotter = async (
+  clipUrls: string[],
+  options: Omit<TemplateSpotterOptions, 'templates'>
+): Promise<KeywordSpotter> => {
+  const AudioContextClass = getAudioContextClass()!;
+  const context = new AudioContextClass();
+  try {
+    const templates = await Promise.all(clipUrls.map(async (url) => {
+      const buffer = await context.decodeAudioData(await fetchModelFile(url));
+      return computeMfcc(resample(buffer.getChannelData(0), buffer.sampleRate, SAMPLE_RATE));
+    }));
+    return createTemplateSpotter({ ...options, templates });
+  } finally {
+    context.close();
+  }
+};
+
+// WASM spotter
+// A compiled keyword model shipped as a bundle asset. Expected exports:
+//   memory                                  WebAssembly.Memory
+//   kws_alloc(bytes: i32) -> i32            scratch buffer for the features
+//   kws_spot(ptr: i32, frames: i32, coefficients: i32) -> i32
+//                                           index into `keywords`, or -1
+//   kws_confidence() -> f32                 confidence of the last spot
+interface KeywordSpotterExports {
+  memory: WebAssembly.Memory;
+  kws_alloc: (bytes: number) => number;
+  kws_spot: (pointer: number, frames: number, coefficients: number) => number;
+  kws_confidence: () => number;
+}
+
+export const loadWasmSpotter = async (url: string, keywords: string[]): Promise<KeywordSpotter> => {
+  const { instance } = await WebAssembly.instantiate(await fetchModelFile(url), {});
+  const exports = instance.exports as unknown as KeywordSpotterExports;
+
+  return {
+    spot: (features) => {
+      if (features.length === 0) return null;
+      const coefficients = features[0].length;
+      const pointer = exports.kws_alloc(features.length * coefficients * Float32Array.BYTES_PER_ELEMENT);
+      const view = new Float32Array(exports.memory.buffer, pointer, features.length * coefficients);
+      features.forEach((frame, index) => view.set(frame, index * coefficients));
+
+      const index = exports.kws_spot(pointer, features.length, coefficients);
+      if (index < 0 || index >= keywords.length) return null;
+      return { keyword: keywords[index], confidence: exports.kws_confidence() };
+    },
+  };
+};
+
+// Utterance detection
+const VAD_FRAME = 160;
+const SPEECH_START_FRAMES = 3;
+const SPEECH_END_FRAMES = 45;
+const PRE_ROLL_FRAMES = 20;
+const MAX_UTTERANCE_FRAMES = 500;
+
+const createUtteranceDetector = (onUtterance: (samples: Float32Array) => void) => {
+  let pending = new Float32Array(0);
+  let frames: Float32Array[] = [];
+  let noiseFloor = 0.005;
+  let speechFrames = 0;
+  let silentFrames = 0;
+  let inSpeech = false;
+
+  const flush = () => {
+    const utterance = new Float32Array(frames.length * VAD_FRAME);
+    frames.forEach((frame, index) => utterance.set(frame, index * VAD_FRAME));
+    frames = [];
+    inSpeech = false;
+    speechFrames = 0;
+    silentFrames = 0;
+    onUtterance(utterance);
+  };
+
+  const push = (samples: Float32Array) => {
+    const joined = new Float32Array(pending.length + samples.length);
+    joined.set(pending);
+    joined.set(samples, pending.length);
+
+    let offset = 0;
+    for (; offset + VAD_FRAME <= joined.length; offset += VAD_FRAME) {
+      const frame = joined.slice(offset, offset + VAD_FRAME);
+      const rms = Math.sqrt(frame.reduce((sum, value) => sum + value * value, 0) / VAD_FRAME);
+      const isSpeech = rms > Math.max(noiseFloor * 3, 0.01);
+      if (!isSpeech) {
+        noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+      }
+
+      frames.push(frame);
+      if (!inSpeech) {
+        speechFrames = isSpeech ? speechFrames + 1 : 0;
+        if (speechFrames >= SPEECH_START_FRAMES) {
+          inSpeech = true;
+        } else if (frames.length > PRE_ROLL_FRAMES) {
+          frames.shift();
+        }
+        continue;
+      }
+
+      silentFrames = isSpeech ? 0 : silentFrames + 1;
+      if (silentFrames >= SPEECH_END_FRAMES || frames.length >= MAX_UTTERANCE_FRAMES) {
+        flush();
+      }
+    }
+    pending = joined.slice(offset);
+  };
+
+  return {
+    push,
+    // Whatever was being said when stop() is called still gets spotted
+    finish: () => {
+      if (inSpeech) flush();
+    },
+  };
+};
+
+// Recognizer
+const toCaptureError = (error: unknown) => {
+  // The model did not download; like a browser engine without network
+  if (error instanceof KeywordModelError) return 'network';
+  const name = error instanceof Error || error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'not-allowed';
+  if (name === 'NotFoundError' || name === 'NotReadableError' || name === 'OverconstrainedError') return 'audio-capture';
+  return 'unknown';
+};
+
+const createKeywordRecognizer = (
+  loadSpotter: () => Promise<KeywordSpotter>,
+  options: SpeechRecognizerOptions
+): SpeechRecognizer => {
+  let session: { stream: MediaStream; context: AudioContext; finish: () => void } | null = null;
+  let starting = false;
+  let abortedWhileStarting = false;
+
+  const release = () => {
+    if (!session) return;
+    session.stream.getTracks().forEach((track) => track.stop());
+    session.context.close();
+    session = null;
+    recognizer.onend?.();
+  };
+
+  const handleUtterance = (spotter: KeywordSpotter, samples: Float32Array) => {
+    const spot = spotter.spot(computeMfcc(samples));
+    if (spot) {
+      const result: RecognitionResult = {
+        alternatives: [{ transcript: spot.keyword, confidence: spot.confidence }],
+        isFinal: true,
+      };
+      recognizer.onresult?.([result]);
+    } else {
+      recognizer.onerror?.('no-match');
+    }
+    if (!options.continuous) {
+      release();
+    }
+  };
+
+  // Failures while loading or asking for the mic end up in onerror, never in a
+  // rejected promise nobody holds
+  const capture = async () => {
+    try {
+      const spotter = await loadSpotter();
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+      });
+      if (abortedWhileStarting) {
+        stream.getTracks().forEach((track) => track.stop());
+        recognizer.onend?.();
+        return;
+      }
+      const AudioContextClass = getAudioContextClass()!;
+      const context = new AudioContextClass();
+      const source = context.createMediaStreamSource(stream);
+      const processor = context.createScriptProcessor(4096, 1, 1);
+      const detector = createUtteranceDetector((samples) => handleUtterance(spotter, samples));
+
+      processor.onaudioprocess = (event) => {
+        detector.push(resample(event.inputBuffer.getChannelData(0), context.sampleRate, SAMPLE_RATE));
+      };
+      source.connect(processor);
+      // Chrome only fires onaudioprocess for processors that reach the output
+      processor.connect(context.destination);
+
+      session = {
+        stream,
+        context,
+        finish: () => {
+          processor.onaudioprocess = null;
+          detector.finish();
+        },
+      };
+      recognizer.onstart?.();
+    } catch (error) {
+      recognizer.onerror?.(toCaptureError(error));
+      recognizer.onend?.();
+    } finally {
+      starting = false;
+    }
+  };
+
+  const recognizer: SpeechRecognizer = {
+    // Like the browser's recognizer, a second start throws straight away
+    start: () => {
+      if (session || starting) {
+        throw new DOMException('Keyword recognizer already started', 'InvalidStateError');
+      }
+      starting = true;
+      abortedWhileStarting = false;
+      void capture();
+    },
+    stop: () => {
+      session?.finish();
+      release();
+    },
+    abort: () => {
+      if (starting) {
+        abortedWhileStarting = true;
+        return;
+      }
+      if (!session) return;
+      recognizer.onerror?.('aborted');
+      release();
+    },
+    onstart: null,
+    onresult: null,
+    onerror: null,
+    onend: null,
+  };
+
+  return recognizer;
+};
+
+// Backend
+export type OfflineModelSource =
+  | { kind: 'templates'; keyword: string; clips: string[]; maxDistance?: number }
+  | { kind: 'wasm'; url: string; keywords: string[] };
+
+export const createKeywordSpotterBackend = (model: OfflineModelSource): SpeechRecognizerBackend => {
+  // Loaded on first use and shared by every recognizer the backend creates
+  let spotter: Promise<KeywordSpotter> | null = null;
+  const loadSpotter = () => {
+    spotter ??= model.kind === 'wasm'
+      ? loadWasmSpotter(model.url, model.keywords)
+      : loadTemplateSpotter(model.clips, { keyword: model.keyword, maxDistance: model.maxDistance });
+    spotter.catch(() => {
+      spotter = null;
+    });
+    return spotter;
+  };
+
+  return {
+    isSupported: () =>
+      typeof navigator !== 'undefined' &&
+      Boolean(navigator.mediaDevices?.getUserMedia) &&
+      Boolean(getAudioContextClass()),
+    create: (options) => createKeywordRecognizer(loadSpotter, options),
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeImageSource, markupToPlainText, parseLetterMarkup, truncateMarkup } from './letterMarkup';
+
+const text = (value: string) => ({ kind: 'text', text: value });
+
+describe('isSafeImageSource', () => {
+  it.each([
+    'photos/first-day.jpg',
+    'https://example.com/a.jpg',
+    'blob:https://example.com/1234',
+    'data:image/jpeg;base64,AAAA',
+  ])('allows %s', (src) => {
+    expect(isSafeImageSource(src)).toBe(true);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'DATA:text/html;base64,PHNjcmlwdD4=',
+    'file:///etc/passwd',
+    'vbscript:msgbox',
+  ])('refuses %s', (src) => {
+    expect(isSafeImageSource(src)).toBe(false);
+  });
+});
+
+describe('parseLetterMarkup', () => {
+  it('keeps an unsafe image as text and reports it', () => {
+    const { blocks, problems } = parseLetterMarkup('Look ![me](javascript:alert(1))\n![x](data:text/html,hi)');
+    expect(blocks).toEqual([{
+      kind: 'text',
+      children: [text('Look ![me](javascript:alert(1))'), { kind: 'break' }, text('![x](data:text/html,hi)')],
+    }]);
+    expect(problems).toEqual([
+      expect.stringContaining('javascript:alert(1'),
+      expect.stringContaining('data:text/html,hi'),
+    ]);
+  });
+
+  it('nests spans inside one another', () => {
+    expect(parseLetterMarkup('**मेरी *प्यारी* ==राधा==**').blocks).toEqual([{
+      kind: 'text',
+      children: [{
+        kind: 'strong',
+        children: [
+          text('मेरी '),
+          { kind: 'emphasis', children: [text('प्यारी')] },
+          text(' '),
+          { kind: 'highlight', children: [text('राधा')] },
+        ],
+      }],
+    }]);
+  });
+
+  it('leaves an unclosed marker as plain text', () => {
+    expect(parseLetterMarkup('**never closed ==and this').blocks).toEqual([
+      { kind: 'text', children: [text('**never closed ==and this')] },
+    ]);
+  });
+
+  it('keeps angle brackets and escaped markers as text, never as markup', () => {
+    const { blocks } = parseLetterMarkup('<b onclick="x">hi</b> \\*not emphasis\\* \\<i\\>');
+    expect(blocks).toEqual([{ kind: 'text', children: [text('<b onclick="x">hi</b> *not emphasis* <i>')] }]);
+  });
+
+  it('splits blocks on blank lines, quotes, signatures and figures', () => {
+    const { blocks } = parseLetterMarkup('one\ntwo\n\n> राधे राधे\n![us](us.jpg)\n-- Ravi');
+    expect(blocks.map((block) => block.kind)).toEqual(['text', 'quote', 'figure', 'signature']);
+    expect(blocks[0]).toEqual({ kind: 'text', children: [text('one'), { kind: 'break' }, text('two')] });
+  });
+});
+
+describe('truncateMarkup', () => {
+  it('cuts inside a span without leaving it open', () => {
+    const { blocks } = parseLetterMarkup('ab **cdef** gh');
+    expect(truncateMarkup(blocks, 5)).toEqual([{
+      kind: 'text',
+      children: [text('ab '), { kind: 'strong', children: [text('cd')] }],
+    }]);
+  });
+
+  it('never splits a surrogate pair or a conjunct', () => {
+    const { blocks } = parseLetterMarkup('🙏🏽💖क्ष');
+    const cuts = [1, 2, 3].map((graphemes) => markupToPlainText(truncateMarkup(blocks, graphemes)));
+    expect(cuts).toEqual(['🙏🏽', '🙏🏽💖', '🙏🏽💖क्ष']);
+  });
+
+  it('counts a line break and the gap between blocks as one character each', () => {
+    const { blocks } = parseLetterMarkup('ab\ncd\n\nef');
+    expect(markupToPlainText(truncateMarkup(blocks, 4))).toBe('ab\nc');
+    expect(markupToPlainText(truncateMarkup(blocks, 6))).toBe('ab\ncd');
+    expect(markupToPlainText(truncateMarkup(blocks, 7))).toBe('ab\ncd\ne');
+  });
+
+  it('writes a date out before cutting it', () => {
+    const { blocks } = parseLetterMarkup('{date:2024-02-14}');
+    expect(truncateMarkup(blocks, 100, 'en-IN')).toEqual(blocks);
+    expect(markupToPlainText(truncateMarkup(blocks, 2, 'en-IN'), 'en-IN')).toBe('14');
+  });
+});
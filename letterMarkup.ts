@@ -0,0 +1,256 @@
+// Letter Markup
+// A small Markdown-like format for letter paragraphs. It is parsed into nodes that
+// the letter renders as React elements, so script text can never inject HTML.
+//
+//   **strong**   *emphasis*   ==highlight==   \* (literal character)
+//   ![alt](photo.jpg)       inline image, or a full-width photo on its own line
+//   {date:2024-02-14}       written out as a date in the letter's language
+//   > line                  highlighted quote, e.g. a mantra
+//   -- line                 signature line
+//
+// Lines of a paragraph are kept as line breaks; a blank line starts a new block.
+
+export type MarkupInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong' | 'emphasis' | 'highlight'; children: MarkupInline[] }
+  | { kind: 'image'; src: string; alt: string }
+  | { kind: 'date'; iso: string }
+  | { kind: 'break' };
+
+export type MarkupBlock =
+  | { kind: 'text' | 'quote' | 'signature'; children: MarkupInline[] }
+  | { kind: 'figure'; src: string; alt: string };
+
+export interface ParsedMarkup {
+  blocks: MarkupBlock[];
+  problems: string[];
+}
+
+type GraphemeSegmenter = new (locale: undefined, options: { granularity: 'grapheme' }) => {
+  segment: (text: string) => Iterable<{ segment: string }>;
+};
+
+// User-perceived characters, so "क्ष" or "🙏🏽" is typed as one keystroke
+export const splitGraphemes = (text: string): string[] => {
+  const Segmenter = (Intl as { Segmenter?: GraphemeSegmenter }).Segmenter;
+  if (Segmenter) {
+    return Array.from(new Segmenter(undefined, { granularity: 'grapheme' }).segment(text), (part) => part.segment);
+  }
+  // Older browsers: at least keep matras and other combining marks on their letter
+  return text.match(/\P{M}\p{M}*/gu) ?? [];
+};
+
+const SPANS = [
+  { marker: '**', kind: 'strong' },
+  { marker: '==', kind: 'highlight' },
+  { marker: '*', kind: 'emphasis' },
+] as const;
+
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\(([^)\s]+)\)/;
+const DATE_PATTERN = /^\{date:([^}]*)\}/;
+const FIGURE_LINE = /^!\[([^\]]*)\]\(([^)\s]+)\)$/;
+
+// Photos may be relative paths or http(s), data: and blob: URLs; any other
+// scheme (javascript:, file:) is refused.
+export const isSafeImageSource = (src: string) => {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(src)?.[1]?.toLowerCase();
+  return scheme === undefined || scheme === 'http' || scheme === 'https' || scheme === 'blob' || /^data:image\//i.test(src);
+};
+
+export const isValidIsoDate = (iso: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === iso;
+};
+
+export const formatLetterDate = (iso: string, locale = 'hi-IN') =>
+  new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(`${iso}T00:00:00Z`));
+
+// Index of the closing marker, skipping escaped characters
+const findClosing = (text: string, marker: string, from: number) => {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (text.startsWith(marker, index) && !(marker === '*' && text.startsWith('**', index))) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+const parseInline = (text: string, problems: string[]): MarkupInline[] => {
+  const nodes: MarkupInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ kind: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+
+    if (rest[0] === '\\' && rest.length > 1) {
+      buffer += rest[1];
+      index += 2;
+      continue;
+    }
+
+    const image = IMAGE_PATTERN.exec(rest);
+    if (image) {
+      if (isSafeImageSource(image[2])) {
+        flush();
+        nodes.push({ kind: 'image', alt: image[1], src: image[2] });
+      } else {
+        problems.push(`image "${image[2]}" must be a relative path or an http(s), data: or blob: URL`);
+        buffer += image[0];
+      }
+      index += image[0].length;
+      continue;
+    }
+
+    const date = DATE_PATTERN.exec(rest);
+    if (date) {
+      if (isValidIsoDate(date[1])) {
+        flush();
+        nodes.push({ kind: 'date', iso: date[1] });
+      } else {
+        problems.push(`date "${date[1]}" is not a valid YYYY-MM-DD date`);
+        buffer += date[0];
+      }
+      index += date[0].length;
+      continue;
+    }
+
+    const span = SPANS.find(({ marker }) => rest.startsWith(marker));
+    if (span) {
+      const closing = findClosing(text, span.marker, index + span.marker.length);
+      // An unmatched marker is just a character, as in Markdown
+      if (closing > index + span.marker.length) {
+        flush();
+        nodes.push({ kind: span.kind, children: parseInline(text.slice(index + span.marker.length, closing), problems) });
+        index = closing + span.marker.length;
+        continue;
+      }
+    }
+
+    buffer += rest[0];
+    index++;
+  }
+
+  flush();
+  return nodes;
+};
+
+const joinLines = (lines: string[], problems: string[]) =>
+  lines.flatMap((line, index) => [
+    ...(index > 0 ? [{ kind: 'break' } as const] : []),
+    ...parseInline(line, problems),
+  ]);
+
+export const parseLetterMarkup = (source: string): ParsedMarkup => {
+  const blocks: MarkupBlock[] = [];
+  const problems: string[] = [];
+  let pending: { kind: 'text' | 'quote'; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (pending) blocks.push({ kind: pending.kind, children: joinLines(pending.lines, problems) });
+    pending = null;
+  };
+
+  const addLine = (kind: 'text' | 'quote', line: string) => {
+    if (pending?.kind !== kind) flush();
+    pending = pending ?? { kind, lines: [] };
+    pending.lines.push(line);
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const figure = FIGURE_LINE.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (line.startsWith('>')) {
+      addLine('quote', line.slice(1).trim());
+    } else if (line.startsWith('-- ')) {
+      flush();
+      blocks.push({ kind: 'signature', children: parseInline(line.slice(3).trim(), problems) });
+    } else if (figure && isSafeImageSource(figure[2])) {
+      flush();
+      blocks.push({ kind: 'figure', alt: figure[1], src: figure[2] });
+    } else {
+      addLine('text', line);
+    }
+  }
+  flush();
+
+  return { blocks, problems };
+};
+
+// Plain text, for narration and reading-time estimates. Its graphemes are what
+// the typewriter counts, so truncateMarkup must charge the same for each node.
+const inlineText = (nodes: MarkupInline[], locale: string): string =>
+  nodes.map((node) => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return '\n';
+      case 'image':
+        return '';
+      case 'date':
+        return formatLetterDate(node.iso, locale);
+      default:
+        return inlineText(node.children, locale);
+    }
+  }).join('');
+
+export const markupToPlainText = (blocks: MarkupBlock[], locale = 'hi-IN') =>
+  blocks.map((block) => (block.kind === 'figure' ? '' : inlineText(block.children, locale))).join('\n');
+
+// The first `graphemes` characters of a paragraph, for the typewriter reveal
+export const truncateMarkup = (blocks: MarkupBlock[], graphemes: number, locale = 'hi-IN'): MarkupBlock[] => {
+  let remaining = graphemes;
+
+  const take = (text: string) => {
+    const parts = splitGraphemes(text);
+    const taken = parts.slice(0, remaining).join('');
+    remaining = Math.max(0, remaining - parts.length);
+    return taken;
+  };
+
+  const truncateInlines = (nodes: MarkupInline[]): MarkupInline[] => {
+    const result: MarkupInline[] = [];
+    for (const node of nodes) {
+      if (remaining <= 0) break;
+      if (node.kind === 'text') {
+        result.push({ kind: 'text', text: take(node.text) });
+      } else if (node.kind === 'date') {
+        const formatted = formatLetterDate(node.iso, locale);
+        const taken = take(formatted);
+        result.push(taken === formatted ? node : { kind: 'text', text: taken });
+      } else if (node.kind === 'break') {
+        remaining--;
+        result.push(node);
+      } else if (node.kind === 'image') {
+        result.push(node);
+      } else {
+        result.push({ kind: node.kind, children: truncateInlines(node.children) });
+      }
+    }
+    return result;
+  };
+
+  const result: MarkupBlock[] = [];
+  for (const [index, block] of blocks.entries()) {
+    if (index > 0) remaining--;
+    if (remaining < 0 || (remaining === 0 && block.kind !== 'figure')) break;
+    result.push(block.kind === 'figure' ? block : { kind: block.kind, children: truncateInlines(block.children) });
+  }
+  return result;
+};
@@ -0,0 +1,41 @@
+// Local Database
+// Recordings and imported photos stay in the author's browser, in one
+// IndexedDB database with a store each. Version 2 added the media store.
+
+const DB_NAME = 'radha-radha';
+const DB_VERSION = 2;
+
+export type StoreName = 'voice-notes' | 'media';
+const STORE_NAMES: StoreName[] = ['voice-notes', 'media'];
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORE_NAMES
+        .filter((name) => !request.result.objectStoreNames.contains(name))
+        .forEach((name) => request.result.createObjectStore(name, { keyPath: 'id' }));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T,>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+export const createLocalId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withStore } from './localDatabase';
+import {
+  MediaImportError,
+  compressPhoto,
+  importMediaFile,
+  inlineMedia,
+  isSafeClipSource,
+  kenBurnsMotion,
+  useMediaSource,
+  type StoredMedia,
+} from './media';
+
+// The browser's database holds these files
+const stored = new Map<string, StoredMedia>();
+vi.mock('./localDatabase', () => ({
+  createLocalId: (prefix: string) => `${prefix}-1`,
+  withStore: vi.fn(async (_store: string, _mode: string, run: (store: unknown) => { result: unknown }) =>
+    run({ get: (id: string) => ({ result: stored.get(id) }), put: () => ({ result: undefined }) }).result),
+}));
+
+const photo = (id: string): StoredMedia => ({ id, kind: 'photo', blob: new Blob(['jpeg'], { type: 'image/jpeg' }), createdAt: 0 });
+
+let objectUrls: Set<string>;
+
+beforeEach(() => {
+  stored.clear();
+  objectUrls = new Set();
+  let next = 0;
+  URL.createObjectURL = vi.fn(() => {
+    const url = `blob:test/${++next}`;
+    objectUrls.add(url);
+    return url;
+  });
+  URL.revokeObjectURL = vi.fn((url: string) => objectUrls.delete(url));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe('isSafeClipSource', () => {
+  it.each(['clips/dance.mp4', 'https://example.com/a.mp4', 'blob:https://example.com/1', 'data:video/mp4;base64,AAAA'])(
+    'allows %s',
+    (src) => expect(isSafeClipSource(src)).toBe(true)
+  );
+
+  it.each(['javascript:alert(1)', 'data:text/html,<script>', 'file:///home/clip.mp4'])(
+    'refuses %s',
+    (src) => expect(isSafeClipSource(src)).toBe(false)
+  );
+});
+
+describe('importing', () => {
+  it('refuses a file that is neither a photo nor a video', async () => {
+    await expect(importMediaFile(new File(['hi'], 'notes.txt', { type: 'text/plain' }))).rejects.toThrow(MediaImportError);
+  });
+
+  it('refuses a clip that is too large before reading it', async () => {
+    const clip = new File(['x'], 'wedding.mp4', { type: 'video/mp4' });
+    Object.defineProperty(clip, 'size', { value: 9 * 1024 * 1024 });
+    await expect(importMediaFile(clip)).rejects.toThrow(/over 8 MB/);
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it('reports a photo the browser cannot read', async () => {
+    vi.stubGlobal('createImageBitmap', () => Promise.reject(new DOMException('bad image')));
+    await expect(compressPhoto(new Blob(['not a jpeg']))).rejects.toThrow('the photo could not be read');
+  });
+});
+
+describe('inlineMedia', () => {
+  it('writes an imported file out as a data URL', async () => {
+    stored.set('photo-1', photo('photo-1'));
+    expect(await inlineMedia({ kind: 'photo', id: 'photo-1', caption: 'Us' })).toEqual({
+      kind: 'photo',
+      src: 'data:image/jpeg;base64,anBlZw==',
+      caption: 'Us',
+      poster: undefined,
+    });
+  });
+
+  it('leaves a URL alone and names a file that is gone', async () => {
+    const linked = { kind: 'clip' as const, src: 'clips/dance.mp4' };
+    expect(await inlineMedia(linked)).toBe(linked);
+    await expect(inlineMedia({ kind: 'photo', id: 'photo-2' })).rejects.toThrow(/"photo-2" is no longer in this browser/);
+  });
+});
+
+describe('useMediaSource', () => {
+  it('shows a URL as it is', () => {
+    const { result } = renderHook(() => useMediaSource({ kind: 'photo', src: 'photos/us.jpg' }));
+    expect(result.current).toEqual({ src: 'photos/us.jpg', poster: undefined });
+  });
+
+  it('shows an imported file through an object URL for as long as it is mounted', async () => {
+    stored.set('photo-1', photo('photo-1'));
+    const { result, unmount } = renderHook(() => useMediaSource({ kind: 'photo', id: 'photo-1' }));
+    expect(result.current).toBeNull();
+    await waitFor(() => expect(result.current).toEqual({ src: 'blob:test/1', poster: undefined }));
+    unmount();
+    expect(objectUrls.size).toBe(0);
+  });
+
+  it('falls back to missing when the file is gone or cannot be read', async () => {
+    const gone = renderHook(() => useMediaSource({ kind: 'photo', id: 'photo-3' }));
+    await waitFor(() => expect(gone.result.current).toBe('missing'));
+
+    vi.mocked(withStore).mockRejectedValueOnce(new DOMException('blocked', 'SecurityError'));
+    const broken = renderHook(() => useMediaSource({ kind: 'photo', id: 'photo-1' }));
+    await waitFor(() => expect(broken.result.current).toBe('missing'));
+
+    const empty = renderHook(() => useMediaSource({ kind: 'clip' }));
+    expect(empty.result.current).toBe('missing');
+  });
+});
+
+describe('kenBurnsMotion', () => {
+  it('pans no further than the zoom leaves room for, the same way each visit', () => {
+    for (let index = 0; index < 20; index++) {
+      const motion = kenBurnsMotion(index);
+      expect(kenBurnsMotion(index)).toEqual(motion);
+      for (const { scale, x, y } of [motion.from, motion.to]) {
+        const room = ((scale - 1) / scale / 2) * 100;
+        expect(Math.abs(x)).toBeLessThanOrEqual(room);
+        expect(Math.abs(y)).toBeLessThanOrEqual(room);
+      }
+    }
+  });
+});
@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { seededRandom } from './backgrounds';
+import { createLocalId, withStore } from './localDatabase';
+import { blobToDataUrl } from './voiceNotes';
+
+// Media
+// Photos and short clips shown in a gallery stage or under a letter
+// paragraph. Like voice notes, files imported in the editor are kept in
+// IndexedDB and referenced as `{ "kind": "photo", "id": "..." }`; exporting
+// inlines them as data: URLs. Photos are resized and recompressed on import so
+// a handful of them still fit in a shared link or HTML file.
+
+export type MediaKind = 'photo' | 'clip';
+
+export interface MediaItem {
+  kind: MediaKind;
+  // A URL, or the id of a file imported into this browser
+  src?: string;
+  id?: string;
+  caption?: string;
+  // Still shown before a clip plays
+  poster?: string;
+}
+
+export interface StoredMedia {
+  id: string;
+  kind: MediaKind;
+  blob: Blob;
+  poster?: Blob;
+  createdAt: number;
+}
+
+export class MediaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaImportError';
+  }
+}
+
+// Longest side of an imported photo, in pixels
+export const MAX_PHOTO_DIMENSION = 1600;
+export const PHOTO_QUALITY = 0.82;
+export const MAX_CLIP_SECONDS = 30;
+export const MAX_CLIP_BYTES = 8 * 1024 * 1024;
+
+// Clip sources may be relative paths or http(s), blob: and data:video/ URLs
+export const isSafeClipSource = (src: string) => {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(src)?.[1]?.toLowerCase();
+  return scheme === undefined || scheme === 'http' || scheme === 'https' || scheme === 'blob' || /^data:video\//i.test(src);
+};
+
+// Storage
+export const saveMedia = async (kind: MediaKind, blob: Blob, poster?: Blob) => {
+  const media: StoredMedia = { id: createLocalId(kind), kind, blob, poster, createdAt: Date.now() };
+  await withStore('media', 'readwrite', (store) => store.put(media));
+  return media;
+};
+
+export const loadMedia = (id: string) =>
+  withStore<StoredMedia | undefined>('media', 'readonly', (store) => store.get(id));
+
+export const deleteMedia = (id: string) =>
+  withStore('media', 'readwrite', (store) => store.delete(id));
+
+// Compression
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+// WebP where the browser can write it (older Safari quietly writes PNG
+// instead), JPEG otherwise
+const encodeCanvas = async (canvas: HTMLCanvasElement, quality = PHOTO_QUALITY) => {
+  const webp = await canvasToBlob(canvas, 'image/webp', quality);
+  if (webp?.type === 'image/webp') return webp;
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) throw new MediaImportError('this browser could not compress the photo');
+  return jpeg;
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const compressPhoto = async (file: Blob, maxDimension = MAX_PHOTO_DIMENSION) => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new MediaImportError('the photo could not be read');
+  }
+  try {
+    return await encodeCanvas(drawScaled(bitmap, bitmap.width, bitmap.height, maxDimension));
+  } finally {
+    bitmap.close();
+  }
+};
+
+// A clip is kept as recorded, since browsers cannot re-encode video cheaply;
+// only its length and size are checked, and its first frame becomes the poster
+const readClip = (file: Blob) =>
+  new Promise<{ duration: number; poster: Blob }>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    const finish = () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    video.onloadeddata = () => {
+      video.currentTime = Math.min(0.1, video.duration / 2);
+    };
+    video.onseeked = () => {
+      const duration = video.duration;
+      encodeCanvas(drawScaled(video, video.videoWidth, video.videoHeight, MAX_PHOTO_DIMENSION / 2))
+        .then((poster) => resolve({ duration, poster }), reject)
+        .finally(finish);
+    };
+    video.onerror = () => {
+      finish();
+      reject(new MediaImportError('the clip could not be played in this browser'));
+    };
+    video.src = url;
+  });
+
+export const importMediaFile = async (file: File): Promise<MediaItem> => {
+  if (file.type.startsWith('image/')) {
+    const stored = await saveMedia('photo', await compressPhoto(file));
+    return { kind: 'photo', id: stored.id };
+  }
+  if (file.type.startsWith('video/')) {
+    if (file.size > MAX_CLIP_BYTES) {
+      throw new MediaImportError(`${file.name} is over ${MAX_CLIP_BYTES / 1024 / 1024} MB; trim it first`);
+    }
+    const { duration, poster } = await readClip(file);
+    if (duration > MAX_CLIP_SECONDS) {
+      throw new MediaImportError(`${file.name} is ${Math.round(duration)} s long; clips can be up to ${MAX_CLIP_SECONDS} s`);
+    }
+    const stored = await saveMedia('clip', file, poster);
+    return { kind: 'clip', id: stored.id };
+  }
+  throw new MediaImportError(`${file.name} is not a photo or a video`);
+};
+
+// For an experience that has to travel to another device
+export const inlineMedia = async (item: MediaItem): Promise<MediaItem> => {
+  if (item.src || !item.id) return item;
+  const stored = await loadMedia(item.id);
+  if (!stored) throw new Error(`the ${item.kind} "${item.id}" is no longer in this browser`);
+  const { id: _id, ...rest } = item;
+  return {
+    ...rest,
+    src: await blobToDataUrl(stored.blob),
+    poster: item.poster ?? (stored.poster && await blobToDataUrl(stored.poster)),
+  };
+};
+
+// Ken Burns
+// A slow pan and zoom across each photo, different per slide but the same on
+// every visit. Offsets are percentages of the photo's size.
+export interface KenBurnsFrame {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const kenBurnsMotion = (index: number): { from: KenBurnsFrame; to: KenBurnsFrame } => {
+  const random = seededRandom(index * 7919 + 1);
+  const frame = (scale: number): KenBurnsFrame => {
+    // Panning further than the zoom leaves room for would show the edges
+    const room = ((scale - 1) / scale / 2) * 100;
+    return { scale, x: (random() * 2 - 1) * room, y: (random() * 2 - 1) * room };
+  };
+  const zoomIn = random() < 0.5;
+  const [near, far] = [frame(1.05), frame(1.2 + random() * 0.1)];
+  return zoomIn ? { from: near, to: far } : { from: far, to: near };
+};
+
+export const kenBurnsTransform = ({ scale, x, y }: KenBurnsFrame) =>
+  `scale(${scale.toFixed(3)}) translate(${x.toFixed(2)}%, ${y.toFixed(2)}%)`;
+
+// Media Source Hook
+// Resolves an item to something an <img> or <video> can show: its URL, or an
+// object URL for an imported file while the component is mounted. `null`
+// while loading, `missing` when the file is not in this browser.
+export type MediaSource = { src: string; poster?: string } | 'missing' | null;
+
+export const useMediaSource = (item: MediaItem): MediaSource => {
+  const [source, setSource] = useState<MediaSource>(item.src ? { src: item.src, poster: item.poster } : null);
+
+  useEffect(() => {
+    if (item.src) {
+      setSource({ src: item.src, poster: item.poster });
+      return;
+    }
+    if (!item.id) {
+      setSource('missing');
+      return;
+    }
+    let cancelled = false;
+    const urls: string[] = [];
+    setSource(null);
+    loadMedia(item.id)
+      .then((stored) => {
+        if (cancelled) return;
+        if (!stored) {
+          setSource('missing');
+          return;
+        }
+        urls.push(URL.createObjectURL(stored.blob));
+        if (stored.poster) urls.push(URL.createObjectURL(stored.poster));
+        setSource({ src: urls[0], poster: item.poster ?? urls[1] });
+      })
+      .catch(() => {
+        if (!cancelled) setSource('missing');
+      });
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [item.src, item.id, item.poster]);
+
+  return source;
+};
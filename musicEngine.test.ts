@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMusicEngine } from './musicEngine';
+import type { MusicSequence } from './ragas';
+
+// Records what the engine asks of Web Audio; the clock is set by the test
+interface FakeOscillator {
+  frequency: { value: number };
+  startedAt?: number;
+  stoppedAt: number[];
+}
+
+const createFakeContext = () => {
+  const oscillators: FakeOscillator[] = [];
+  const param = () => ({
+    value: 0,
+    cancelScheduledValues: vi.fn(),
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    exponentialRampToValueAtTime: vi.fn(),
+  });
+  const node = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+  const context = {
+    currentTime: 0,
+    destination: node(),
+    createGain: () => ({ ...node(), gain: param() }),
+    createDelay: () => ({ ...node(), delayTime: param() }),
+    createOscillator: () => {
+      const oscillator: FakeOscillator & Record<string, unknown> = {
+        ...node(),
+        type: 'sine',
+        frequency: { value: 0 },
+        stoppedAt: [],
+        start: (time: number) => {
+          oscillator.startedAt = time;
+        },
+        stop: (time: number) => {
+          oscillator.stoppedAt.push(time);
+        },
+      };
+      oscillators.push(oscillator);
+      return oscillator;
+    },
+  };
+  return { context, oscillators, audio: context as unknown as BaseAudioContext };
+};
+
+// Sa = 200 Hz at one beat a second, so times and pitches are easy to read
+const scale: MusicSequence = { name: 'Test', tonic: 200, tempo: 60, notes: 'S R:2 G' };
+
+const setup = (sequence = scale) => {
+  const fake = createFakeContext();
+  const engine = createMusicEngine({ context: fake.audio, sequence, fadeSeconds: 0.5, autoSchedule: false });
+  const notes = () => fake.oscillators.map(({ frequency, startedAt }) => [frequency.value, startedAt]);
+  return { ...fake, engine, notes };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMusicEngine', () => {
+  it('schedules nothing until it plays', () => {
+    const { engine, oscillators } = setup();
+    engine.scheduleUntil(10);
+    expect(oscillators).toHaveLength(0);
+    expect(engine.state).toBe('stopped');
+  });
+
+  it('schedules the melody on the context clock and loops it', () => {
+    const { engine, notes } = setup();
+    engine.play();
+    engine.scheduleUntil(5);
+    expect(notes()).toEqual([
+      [200, 0.05],
+      [225, 1.05],
+      [250, 3.05],
+      // Round again from Sa
+      [200, 4.05],
+    ]);
+  });
+
+  it('cuts every scheduled voice at the end of the fade on stop', () => {
+    const { context, engine, oscillators } = setup();
+    engine.play();
+    engine.scheduleUntil(5);
+    context.currentTime = 1.5;
+    engine.stop();
+    expect(engine.state).toBe('stopped');
+    oscillators.forEach((oscillator) => expect(oscillator.stoppedAt).toContain(2));
+
+    const scheduled = oscillators.length;
+    engine.scheduleUntil(20);
+    expect(oscillators).toHaveLength(scheduled);
+  });
+
+  it('resumes from the next note after a pause instead of starting over', () => {
+    const { context, engine, notes } = setup();
+    engine.play();
+    engine.scheduleUntil(1.1);
+    context.currentTime = 1.2;
+    engine.pause();
+    expect(engine.state).toBe('paused');
+
+    context.currentTime = 10;
+    engine.play();
+    engine.scheduleUntil(12);
+    // Ga was next; the Re cut short by the fade is not replayed
+    expect(notes().slice(2)).toEqual([[250, 10.05], [200, 11.05]]);
+  });
+
+  it('layers the fifth and octave on the notes the harmony asks for', () => {
+    const { engine, notes } = setup({ ...scale, notes: 'S R', harmony: { fifthEvery: 2, octaveEvery: 3 } });
+    engine.play();
+    engine.scheduleUntil(1);
+    expect(notes().map(([frequency]) => frequency)).toEqual([200, 300, 400]);
+    // The octave comes in a little after the note
+    expect(notes()[2][1]).toBeCloseTo(0.15);
+  });
+
+  it('plucks the drone with its overtones, an octave below Sa', () => {
+    const { engine, oscillators } = setup({ ...scale, notes: 'S:8', drone: { pattern: 'S P', cycle: 2, volume: 1 } });
+    engine.play();
+    engine.scheduleUntil(2);
+    const drone = oscillators.slice(1).map(({ frequency }) => frequency.value);
+    expect(drone).toEqual([100, 200, 300, 400, 150, 300, 450, 600]);
+  });
+
+  it('keeps the volume between silent and full', () => {
+    const { engine } = setup();
+    engine.setVolume(3);
+    const ramp = engine.output.gain.linearRampToValueAtTime as ReturnType<typeof vi.fn>;
+    expect(ramp).toHaveBeenLastCalledWith(0.08, 0.1);
+    engine.setVolume(-1);
+    expect(ramp).toHaveBeenLastCalledWith(0, 0.1);
+  });
+
+  it('switches to a new sequence from its first note', () => {
+    const { engine, notes } = setup();
+    engine.play();
+    engine.scheduleUntil(1);
+    engine.setSequence({ ...scale, notes: 'P' });
+    engine.scheduleUntil(3);
+    expect(notes()).toEqual([[200, 0.05], [300, 1.05], [300, 2.05]]);
+  });
+
+  it('schedules ahead on a timer while playing and stops the timer on stop', () => {
+    vi.useFakeTimers();
+    const fake = createFakeContext();
+    const engine = createMusicEngine({ context: fake.audio, sequence: scale });
+    engine.play();
+    const first = fake.oscillators.length;
+    fake.context.currentTime = 5;
+    vi.advanceTimersByTime(50);
+    expect(fake.oscillators.length).toBeGreaterThan(first);
+
+    engine.stop();
+    const stopped = fake.oscillators.length;
+    fake.context.currentTime = 50;
+    vi.advanceTimersByTime(1000);
+    expect(fake.oscillators).toHaveLength(stopped);
+  });
+});
@@ -0,0 +1,251 @@
+import { parseNotation, type DroneSpec, type MusicSequence, type ParsedNote } from './ragas';
+
+// Music Engine
+// Notes are scheduled on the AudioContext clock a little ahead of time by a
+// lookahead timer, so timing stays exact even when the main thread is busy and
+// stopping really stops: every scheduled voice is tracked and cut on stop().
+
+const LOOKAHEAD_SECONDS = 0.2;
+const TICK_MS = 50;
+const MASTER_LEVEL = 0.08;
+
+export type MusicEngineState = 'stopped' | 'playing' | 'paused';
+
+export interface MusicEngineOptions {
+  context: BaseAudioContext;
+  sequence: MusicSequence;
+  // Where the engine's output goes; defaults to the context destination
+  destination?: AudioNode;
+  volume?: number;
+  fadeSeconds?: number;
+  // Tests drive scheduleUntil() themselves instead of running the timer
+  autoSchedule?: boolean;
+}
+
+export interface MusicEngine {
+  readonly state: MusicEngineState;
+  readonly output: GainNode;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  setVolume: (volume: number) => void;
+  setSequence: (sequence: MusicSequence) => void;
+  scheduleUntil: (time: number) => void;
+}
+
+interface Voice {
+  oscillators: OscillatorNode[];
+  end: number;
+}
+
+export const createMusicEngine = ({
+  context,
+  sequence: initialSequence,
+  destination = context.destination,
+  volume: initialVolume = 1,
+  fadeSeconds = 1.5,
+  autoSchedule = true,
+}: MusicEngineOptions): MusicEngine => {
+  let sequence = initialSequence;
+  let notes: ParsedNote[] = parseNotation(sequence.notes, sequence.tonic);
+  let drone: ParsedNote[] = sequence.drone ? parseNotation(sequence.drone.pattern, sequence.tonic / 2) : [];
+  let volume = initialVolume;
+  let state: MusicEngineState = 'stopped';
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let voices: Voice[] = [];
+
+  // Playback position: the next melody note and drone pluck, and when they fall
+  let noteIndex = 0;
+  let nextNoteTime = 0;
+  let droneIndex = 0;
+  let nextDroneTime = 0;
+
+  // fade (play/pause/stop envelopes) → output (user volume) → echo + destination
+  const fade = context.createGain();
+  const output = context.createGain();
+  fade.gain.value = 0;
+  output.gain.value = volume * MASTER_LEVEL;
+  fade.connect(output);
+
+  const delay = context.createDelay();
+  const feedback = context.createGain();
+  delay.delayTime.value = 0.3;
+  feedback.gain.value = 0.2;
+  output.connect(delay);
+  delay.connect(feedback);
+  feedback.connect(delay);
+  feedback.connect(destination);
+  output.connect(destination);
+
+  const startVoice = (
+    frequency: number,
+    startTime: number,
+    duration: number,
+    level: number,
+    partials: number[] = [1]
+  ) => {
+    const noteGain = context.createGain();
+    const peak = 0.4 * level;
+    noteGain.gain.setValueAtTime(0, startTime);
+    noteGain.gain.linearRampToValueAtTime(peak, startTime + Math.min(0.2, duration / 4));
+    noteGain.gain.exponentialRampToValueAtTime(peak * 0.5, startTime + Math.max(duration - 0.2, duration * 0.75));
+    noteGain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
+    noteGain.connect(fade);
+
+    const oscillators = partials.map((partial, index) => {
+      const oscillator = context.createOscillator();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency * partial;
+      if (index > 0) {
+        // Upper partials are quieter, the way a string's overtones are
+        const partialGain = context.createGain();
+        partialGain.gain.value = 1 / (index + 1.5);
+        oscillator.connect(partialGain);
+        partialGain.connect(noteGain);
+      } else {
+        oscillator.connect(noteGain);
+      }
+      oscillator.start(startTime);
+      oscillator.stop(startTime + duration);
+      return oscillator;
+    });
+    voices.push({ oscillators, end: startTime + duration });
+  };
+
+  const scheduleMelody = (until: number) => {
+    const secondsPerBeat = 60 / sequence.tempo;
+    if (notes.length === 0) return;
+    while (nextNoteTime < until) {
+      const note = notes[noteIndex];
+      const duration = note.beats * secondsPerBeat;
+      startVoice(note.frequency, nextNoteTime, duration, 1);
+
+      if (sequence.harmony) {
+        if (noteIndex % sequence.harmony.fifthEvery === 0) {
+          startVoice(note.frequency * 1.5, nextNoteTime, duration, 0.3);
+        }
+        if (noteIndex % sequence.harmony.octaveEvery === 0) {
+          startVoice(note.frequency * 2, nextNoteTime + 0.1, duration * 0.8, 0.2);
+        }
+      }
+
+      nextNoteTime += duration;
+      noteIndex = (noteIndex + 1) % notes.length;
+    }
+  };
+
+  const scheduleDrone = (until: number, spec: DroneSpec) => {
+    const pluckSpacing = spec.cycle / drone.length;
+    while (nextDroneTime < until) {
+      // Each pluck rings on under the next, like a real tanpura's jawari
+      startVoice(drone[droneIndex].frequency, nextDroneTime, pluckSpacing * 2.5, 0.35 * spec.volume, [1, 2, 3, 4]);
+      nextDroneTime += pluckSpacing;
+      droneIndex = (droneIndex + 1) % drone.length;
+    }
+  };
+
+  const scheduleUntil = (time: number) => {
+    if (state !== 'playing') return;
+    scheduleMelody(time);
+    if (sequence.drone && drone.length > 0) {
+      scheduleDrone(time, sequence.drone);
+    }
+    voices = voices.filter((voice) => voice.end > context.currentTime);
+  };
+
+  const tick = () => scheduleUntil(context.currentTime + LOOKAHEAD_SECONDS);
+
+  const rampFade = (target: number) => {
+    const now = context.currentTime;
+    fade.gain.cancelScheduledValues(now);
+    fade.gain.setValueAtTime(fade.gain.value, now);
+    fade.gain.linearRampToValueAtTime(target, now + fadeSeconds);
+  };
+
+  const stopTimer = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const silenceVoices = (at: number) => {
+    voices.forEach((voice) => voice.oscillators.forEach((oscillator) => {
+      try {
+        oscillator.stop(at);
+      } catch {
+        // Already stopped
+      }
+    }));
+    voices = [];
+  };
+
+  const play = () => {
+    if (state === 'playing') return;
+    if (state === 'stopped') {
+      const start = context.currentTime + 0.05;
+      noteIndex = 0;
+      droneIndex = 0;
+      nextNoteTime = start;
+      nextDroneTime = start;
+    } else {
+      // Resuming: pick up from the next unplayed note rather than replaying
+      // everything that was scheduled before the pause.
+      nextNoteTime = Math.max(nextNoteTime, context.currentTime + 0.05);
+      nextDroneTime = Math.max(nextDroneTime, context.currentTime + 0.05);
+    }
+    state = 'playing';
+    rampFade(1);
+    tick();
+    if (autoSchedule) {
+      stopTimer();
+      timer = setInterval(tick, TICK_MS);
+    }
+  };
+
+  const halt = (nextState: MusicEngineState) => {
+    if (state !== 'playing') {
+      state = nextState === 'stopped' ? 'stopped' : state;
+      return;
+    }
+    state = nextState;
+    stopTimer();
+    rampFade(0);
+    const silentAt = context.currentTime + fadeSeconds;
+    silenceVoices(silentAt);
+    if (nextState === 'paused') {
+      // Notes cut by the fade are replayed from the next note on resume
+      nextNoteTime = silentAt;
+      nextDroneTime = silentAt;
+    }
+  };
+
+  const setVolume = (value: number) => {
+    volume = Math.min(1, Math.max(0, value));
+    const now = context.currentTime;
+    output.gain.cancelScheduledValues(now);
+    output.gain.setValueAtTime(output.gain.value, now);
+    output.gain.linearRampToValueAtTime(volume * MASTER_LEVEL, now + 0.1);
+  };
+
+  const setSequence = (next: MusicSequence) => {
+    sequence = next;
+    notes = parseNotation(next.notes, next.tonic);
+    drone = next.drone ? parseNotation(next.drone.pattern, next.tonic / 2) : [];
+    noteIndex = 0;
+    droneIndex = 0;
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    output,
+    play,
+    pause: () => halt('paused'),
+    stop: () => halt('stopped'),
+    setVolume,
+    setSequence,
+    scheduleUntil,
+  };
+};
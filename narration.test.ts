@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useNarration } from './narration';
+
+// Stands in for the <audio> element; the test plays the media events
+class FakeAudio {
+  static last: FakeAudio;
+  src = '';
+  preload = '';
+  onplaying: (() => void) | null = null;
+  onended: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  error = null;
+  constructor() {
+    FakeAudio.last = this;
+  }
+  play = vi.fn(() => Promise.resolve());
+  pause = vi.fn();
+  removeAttribute(name: string) {
+    if (name === 'src') this.src = '';
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('Audio', FakeAudio);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('useNarration with clips', () => {
+  const paragraphs = ['one', 'two'];
+
+  const setup = () => {
+    const onParagraphStart = vi.fn();
+    const { result } = renderHook(() =>
+      useNarration({ paragraphs, spec: { mode: 'clips', clips: ['a.mp3', 'b.mp3'] }, onParagraphStart })
+    );
+    return { result, onParagraphStart, audio: () => FakeAudio.last };
+  };
+
+  it('reveals each paragraph as its clip starts and finishes after the last', () => {
+    const { result, onParagraphStart, audio } = setup();
+    act(() => result.current.play());
+    expect(audio().src).toBe('a.mp3');
+    act(() => audio().onplaying?.());
+    expect(onParagraphStart).toHaveBeenLastCalledWith(0);
+
+    act(() => audio().onended?.());
+    expect(audio().src).toBe('b.mp3');
+    act(() => audio().onplaying?.());
+    expect(onParagraphStart).toHaveBeenLastCalledWith(1);
+    expect(result.current.currentIndex).toBe(1);
+
+    act(() => audio().onended?.());
+    expect(result.current.state).toBe('finished');
+  });
+
+  it('plays again after a stop', () => {
+    const { result, onParagraphStart, audio } = setup();
+    act(() => result.current.play());
+    const stale = audio().onended;
+    act(() => result.current.stop());
+    expect(result.current.state).toBe('idle');
+
+    // The clip that was cut off still reports its end; it must not advance
+    act(() => stale?.());
+    expect(audio().src).toBe('');
+
+    act(() => result.current.play());
+    act(() => audio().onplaying?.());
+    expect(onParagraphStart).toHaveBeenLastCalledWith(0);
+    act(() => audio().onended?.());
+    expect(audio().src).toBe('b.mp3');
+    act(() => audio().onplaying?.());
+    expect(onParagraphStart).toHaveBeenLastCalledWith(1);
+    act(() => audio().onended?.());
+    expect(result.current.state).toBe('finished');
+  });
+
+  it('skips to the next clip', () => {
+    const { result, audio } = setup();
+    act(() => result.current.play());
+    act(() => result.current.skip());
+    expect(audio().src).toBe('b.mp3');
+  });
+});
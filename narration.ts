@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Letter Narration
+// Reads the letter aloud one paragraph at a time, either with the browser's
+// speech synthesis or with a recorded clip per paragraph. The reveal follows
+// the narrator's own start events, so a long paragraph simply takes longer.
+
+export type NarrationSpec =
+  | { mode: 'speech'; lang?: string; voice?: string; rate?: number; pitch?: number }
+  | { mode: 'clips'; clips: string[] };
+
+export interface NarratorCallbacks {
+  onParagraphStart: (index: number) => void;
+  onFinished: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface Narrator {
+  play: (fromIndex: number) => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void;
+  stop: () => void;
+}
+
+// Emoji and decorative symbols are read out as their names ("sparkles")
+const speakableText = (text: string) =>
+  text.replace(/[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu, '').replace(/\s+/g, ' ').trim();
+
+export const isSpeechNarrationSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Voices load asynchronously in Chrome; wait briefly for the list
+const loadVoices = () =>
+  new Promise<SpeechSynthesisVoice[]>((resolve) => {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+    const timeout = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 1000);
+    window.speechSynthesis.addEventListener('voiceschanged', () => {
+      clearTimeout(timeout);
+      resolve(window.speechSynthesis.getVoices());
+    }, { once: true });
+  });
+
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: string, name?: string) => {
+  const language = lang.toLowerCase();
+  const base = language.split('-')[0];
+  return (
+    (name && voices.find((voice) => voice.name === name)) ||
+    voices.find((voice) => voice.lang.toLowerCase().replace('_', '-') === language) ||
+    voices.find((voice) => voice.lang.toLowerCase().startsWith(base)) ||
+    null
+  );
+};
+
+const createSpeechNarrator = (
+  paragraphs: string[],
+  spec: Extract<NarrationSpec, { mode: 'speech' }>,
+  callbacks: NarratorCallbacks
+): Narrator => {
+  const synth = window.speechSynthesis;
+  const lang = spec.lang ?? 'hi-IN';
+  // Bumped on every play/skip/stop so events from cancelled utterances are ignored
+  let generation = 0;
+  let index = 0;
+
+  const speak = async (paragraphIndex: number, token: number) => {
+    const voices = await loadVoices();
+    if (token !== generation) return;
+    if (paragraphIndex >= paragraphs.length) {
+      callbacks.onFinished();
+      return;
+    }
+
+    index = paragraphIndex;
+    const utterance = new SpeechSynthesisUtterance(speakableText(paragraphs[paragraphIndex]));
+    utterance.lang = lang;
+    utterance.voice = pickVoice(voices, lang, spec.voice);
+    utterance.rate = spec.rate ?? 0.95;
+    utterance.pitch = spec.pitch ?? 1;
+    utterance.onstart = () => {
+      if (token === generation) callbacks.onParagraphStart(paragraphIndex);
+    };
+    utterance.onend = () => {
+      if (token === generation) speak(paragraphIndex + 1, token);
+    };
+    utterance.onerror = (event) => {
+      if (token !== generation || event.error === 'interrupted' || event.error === 'canceled') return;
+      callbacks.onError(event.error);
+    };
+    synth.speak(utterance);
+  };
+
+  const restartAt = (paragraphIndex: number) => {
+    generation++;
+    synth.cancel();
+    speak(paragraphIndex, generation);
+  };
+
+  return {
+    play: restartAt,
+    pause: () => synth.pause(),
+    resume: () => synth.resume(),
+    skip: () => restartAt(index + 1),
+    stop: () => {
+      generation++;
+      synth.cancel();
+    },
+  };
+};
+
+const createClipNarrator = (
+  paragraphs: string[],
+  clips: string[],
+  callbacks: NarratorCallbacks
+): Narrator => {
+  const audio = new Audio();
+  audio.preload = 'auto';
+  // Bumped on every play/skip/stop so events from a clip that was cut off are
+  // ignored; the narrator can be played again after a stop
+  let generation = 0;
+  let index = 0;
+
+  const startClip = (token: number) => {
+    audio.play().catch((error) => {
+      if (token === generation) callbacks.onError(error);
+    });
+  };
+
+  const playAt = (paragraphIndex: number, token: number) => {
+    // Paragraphs without a clip of their own are revealed and passed over
+    while (paragraphIndex < paragraphs.length && !clips[paragraphIndex]) {
+      callbacks.onParagraphStart(paragraphIndex);
+      paragraphIndex++;
+    }
+    if (paragraphIndex >= paragraphs.length) {
+      audio.pause();
+      callbacks.onFinished();
+      return;
+    }
+    index = paragraphIndex;
+    audio.onplaying = () => {
+      if (token === generation) callbacks.onParagraphStart(paragraphIndex);
+    };
+    audio.onended = () => {
+      if (token === generation) playAt(paragraphIndex + 1, token);
+    };
+    audio.onerror = () => {
+      if (token === generation) callbacks.onError(audio.error);
+    };
+    audio.src = clips[paragraphIndex];
+    startClip(token);
+  };
+
+  const restartAt = (paragraphIndex: number) => {
+    generation++;
+    playAt(paragraphIndex, generation);
+  };
+
+  return {
+    play: restartAt,
+    pause: () => audio.pause(),
+    resume: () => startClip(generation),
+    skip: () => restartAt(index + 1),
+    stop: () => {
+      generation++;
+      audio.pause();
+      audio.removeAttribute('src');
+    },
+  };
+};
+
+// Narration Hook
+export type NarrationState = 'idle' | 'playing' | 'paused' | 'finished';
+
+interface NarrationOptions {
+  paragraphs: string[];
+  spec?: NarrationSpec;
+  // Voice language when the spec does not name one
+  lang?: string;
+  onParagraphStart: (index: number) => void;
+  // Fired when speech starts and stops so background music can duck under it
+  onSpeakingChange?: (speaking: boolean) => void;
+}
+
+export const useNarration = ({ paragraphs, spec, lang, onParagraphStart, onSpeakingChange }: NarrationOptions) => {
+  const [state, setState] = useState<NarrationState>('idle');
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+  const narratorRef = useRef<Narrator | null>(null);
+  const callbacksRef = useRef({ onParagraphStart, onSpeakingChange });
+  callbacksRef.current = { onParagraphStart, onSpeakingChange };
+
+  const resolvedSpec: NarrationSpec | undefined = spec?.mode === 'speech'
+    ? { ...spec, lang: spec.lang ?? lang }
+    : spec ?? (isSpeechNarrationSupported() ? { mode: 'speech', lang } : undefined);
+  const isSupported = resolvedSpec?.mode === 'clips' || (resolvedSpec !== undefined && isSpeechNarrationSupported());
+
+  useEffect(() => {
+    if (!resolvedSpec || !isSupported) return;
+
+    const callbacks: NarratorCallbacks = {
+      onParagraphStart: (index) => {
+        setCurrentIndex(index);
+        callbacksRef.current.onParagraphStart(index);
+      },
+      onFinished: () => {
+        setState('finished');
+        setCurrentIndex(null);
+        callbacksRef.current.onSpeakingChange?.(false);
+      },
+      onError: (error) => {
+        console.error('Narration failed:', error);
+        setState('idle');
+        setCurrentIndex(null);
+        callbacksRef.current.onSpeakingChange?.(false);
+      },
+    };
+
+    const narrator = resolvedSpec.mode === 'clips'
+      ? createClipNarrator(paragraphs, resolvedSpec.clips, callbacks)
+      : createSpeechNarrator(paragraphs, resolvedSpec, callbacks);
+    narratorRef.current = narrator;
+
+    return () => {
+      narrator.stop();
+      narratorRef.current = null;
+      callbacksRef.current.onSpeakingChange?.(false);
+    };
+  }, [paragraphs, JSON.stringify(resolvedSpec), isSupported]);
+
+  const play = (fromIndex = 0) => {
+    narratorRef.current?.play(fromIndex);
+    setState('playing');
+    callbacksRef.current.onSpeakingChange?.(true);
+  };
+
+  const pause = () => {
+    narratorRef.current?.pause();
+    setState('paused');
+    callbacksRef.current.onSpeakingChange?.(false);
+  };
+
+  const resume = () => {
+    narratorRef.current?.resume();
+    setState('playing');
+    callbacksRef.current.onSpeakingChange?.(true);
+  };
+
+  const skip = () => {
+    narratorRef.current?.skip();
+    if (state === 'paused') {
+      setState('playing');
+      callbacksRef.current.onSpeakingChange?.(true);
+    }
+  };
+
+  const stop = () => {
+    narratorRef.current?.stop();
+    setState('idle');
+    setCurrentIndex(null);
+    callbacksRef.current.onSpeakingChange?.(false);
+  };
+
+  return { state, currentIndex, isSupported, play, pause, resume, skip, stop };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_NO_SCALE, pickDodgePosition, pressNo, type NoBehaviour } from './noButton';
+
+describe('pressNo', () => {
+  it('dodges for the given presses, then declines', () => {
+    const behaviour: NoBehaviour = { kind: 'dodge', times: 2 };
+    expect(pressNo(behaviour, 1, true)).toEqual({ kind: 'dodge' });
+    expect(pressNo(behaviour, 2, true)).toEqual({ kind: 'dodge' });
+    expect(pressNo(behaviour, 3, true)).toEqual({ kind: 'decline' });
+  });
+
+  it('never declines without a decline message', () => {
+    expect(pressNo({ kind: 'dodge', times: 2 }, 10, false)).toEqual({ kind: 'dodge' });
+    expect(pressNo({ kind: 'confirm', prompts: ['Sure?', 'Really?'] }, 3, false)).toEqual({ kind: 'confirm', prompt: 'Sure?' });
+  });
+
+  it('shrinks down to the smallest size', () => {
+    const behaviour: NoBehaviour = { kind: 'shrink', times: 4 };
+    const scales = [1, 2, 3, 4].map((presses) => pressNo(behaviour, presses, false));
+    expect(scales.map((effect) => (effect.kind === 'shrink' ? effect.scale : null))).toEqual(
+      [1, 2, 3, 4].map((presses) => expect.closeTo(1 - ((1 - MIN_NO_SCALE) * presses) / 4))
+    );
+    expect(pressNo(behaviour, 9, false)).toEqual({ kind: 'shrink', scale: expect.closeTo(MIN_NO_SCALE) });
+    expect(pressNo(behaviour, 5, true)).toEqual({ kind: 'decline' });
+  });
+
+  it('turns into "Yes" on the first press', () => {
+    expect(pressNo({ kind: 'become-yes' }, 1, true)).toEqual({ kind: 'become-yes' });
+  });
+
+  it('asks each prompt once before declining', () => {
+    const behaviour: NoBehaviour = { kind: 'confirm', prompts: ['Sure?', 'Really?'] };
+    expect(pressNo(behaviour, 1, true)).toEqual({ kind: 'confirm', prompt: 'Sure?' });
+    expect(pressNo(behaviour, 2, true)).toEqual({ kind: 'confirm', prompt: 'Really?' });
+    expect(pressNo(behaviour, 3, true)).toEqual({ kind: 'decline' });
+  });
+});
+
+describe('pickDodgePosition', () => {
+  const area = { width: 400, height: 300 };
+  const size = { width: 80, height: 40 };
+
+  it('stays inside the area', () => {
+    for (const value of [0, 0.5, 0.999]) {
+      const { x, y } = pickDodgePosition({ area, size, avoid: [], random: () => value });
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(x + size.width).toBeLessThanOrEqual(area.width);
+      expect(y + size.height).toBeLessThanOrEqual(area.height);
+    }
+  });
+
+  it('keeps clear of the rectangles to avoid', () => {
+    const yes = { x: 100, y: 100, width: 120, height: 60 };
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const { x, y } = pickDodgePosition({ area, size, avoid: [yes], margin: 16, random });
+      const clear = x + size.width + 16 <= yes.x || yes.x + yes.width <= x - 16
+        || y + size.height + 16 <= yes.y || yes.y + yes.height <= y - 16;
+      expect(clear).toBe(true);
+    }
+  });
+
+  it('centres the button in an area smaller than itself', () => {
+    expect(pickDodgePosition({ area: { width: 60, height: 30 }, size, avoid: [] })).toEqual({ x: -10, y: -5 });
+  });
+});
@@ -0,0 +1,129 @@
+// No Button
+// What the proposal's "No" button does when pressed, chosen per experience
+// with `"noButton": { "kind": "..." }`. Each behaviour plays for a number of
+// presses; after that the proposal declines if the script allows it (it has a
+// `decline` message), and otherwise the behaviour simply carries on. Nothing
+// here depends on React, so the rules can be checked on their own.
+
+export type NoBehaviour =
+  // Runs away from the pointer, inside the screen and clear of "Yes"
+  | { kind: 'dodge'; times?: number }
+  // Gets smaller with every press
+  | { kind: 'shrink'; times?: number }
+  // Turns into a second "Yes" on the first press
+  | { kind: 'become-yes' }
+  // Asks "are you sure?" once per prompt
+  | { kind: 'confirm'; prompts: string[] };
+
+export type NoBehaviourKind = NoBehaviour['kind'];
+
+export const NO_BEHAVIOURS: Record<NoBehaviourKind, { name: string }> = {
+  dodge: { name: 'Dodge' },
+  shrink: { name: 'Shrink' },
+  'become-yes': { name: 'Turn into "Yes"' },
+  confirm: { name: 'Ask "are you sure?"' },
+};
+
+export const NO_BEHAVIOUR_KINDS = Object.keys(NO_BEHAVIOURS) as NoBehaviourKind[];
+
+export const DEFAULT_NO_BEHAVIOUR: NoBehaviour = { kind: 'dodge' };
+
+export const DEFAULT_DODGE_TIMES = 3;
+export const DEFAULT_SHRINK_TIMES = 4;
+// The smallest the button gets, as a fraction of its size
+export const MIN_NO_SCALE = 0.3;
+
+export type NoButtonEffect =
+  | { kind: 'dodge' }
+  | { kind: 'shrink'; scale: number }
+  | { kind: 'become-yes' }
+  | { kind: 'confirm'; prompt: string }
+  | { kind: 'decline' };
+
+// `presses` counts this press too, so the first press is 1
+export const pressNo = (behaviour: NoBehaviour, presses: number, canDecline: boolean): NoButtonEffect => {
+  switch (behaviour.kind) {
+    case 'dodge':
+      return canDecline && presses > (behaviour.times ?? DEFAULT_DODGE_TIMES) ? { kind: 'decline' } : { kind: 'dodge' };
+    case 'shrink': {
+      const times = behaviour.times ?? DEFAULT_SHRINK_TIMES;
+      if (canDecline && presses > times) return { kind: 'decline' };
+      return { kind: 'shrink', scale: 1 - ((1 - MIN_NO_SCALE) * Math.min(presses, times)) / times };
+    }
+    case 'become-yes':
+      return { kind: 'become-yes' };
+    case 'confirm': {
+      // Without a decline the prompts go round again
+      const { prompts } = behaviour;
+      if (canDecline && presses > prompts.length) return { kind: 'decline' };
+      return { kind: 'confirm', prompt: prompts[(presses - 1) % prompts.length] };
+    }
+  }
+};
+
+// Dodging
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DodgeOptions {
+  // The area the button must stay inside, and the button's own size
+  area: { width: number; height: number };
+  size: { width: number; height: number };
+  // Rectangles the button must not land on or near (the "Yes" button)
+  avoid: Rect[];
+  margin?: number;
+  attempts?: number;
+  random?: () => number;
+}
+
+const overlaps = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const distanceToRect = (x: number, y: number, rect: Rect) => {
+  const dx = Math.max(rect.x - x, 0, x - (rect.x + rect.width));
+  const dy = Math.max(rect.y - y, 0, y - (rect.y + rect.height));
+  return Math.hypot(dx, dy);
+};
+
+// The top-left corner for the button. Random spots are tried until one keeps
+// `margin` clear of everything to avoid; if none does, the one furthest away
+// wins. An area smaller than the button centres it.
+export const pickDodgePosition = ({
+  area,
+  size,
+  avoid,
+  margin = 16,
+  attempts = 24,
+  random = Math.random,
+}: DodgeOptions) => {
+  const rangeX = Math.max(0, area.width - size.width - margin * 2);
+  const rangeY = Math.max(0, area.height - size.height - margin * 2);
+  const offsetX = rangeX > 0 ? margin : (area.width - size.width) / 2;
+  const offsetY = rangeY > 0 ? margin : (area.height - size.height) / 2;
+
+  let best = { x: offsetX + rangeX / 2, y: offsetY + rangeY / 2 };
+  let bestDistance = -Infinity;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const candidate = { x: offsetX + random() * rangeX, y: offsetY + random() * rangeY };
+    const padded = {
+      x: candidate.x - margin,
+      y: candidate.y - margin,
+      width: size.width + margin * 2,
+      height: size.height + margin * 2,
+    };
+    if (!avoid.some((rect) => overlaps(padded, rect))) return candidate;
+
+    const centreX = candidate.x + size.width / 2;
+    const centreY = candidate.y + size.height / 2;
+    const distance = Math.min(...avoid.map((rect) => distanceToRect(centreX, centreY, rect)));
+    if (distance > bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
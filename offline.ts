@@ -0,0 +1,122 @@
+import { useEffect } from 'react';
+import type { AudioSourceSpec } from './audioDirector';
+import type { ExperienceScript, GalleryContent, LetterContent, LockContent, ProposalContent } from './experienceScript';
+import type { MediaItem } from './media';
+
+// Offline
+// The experience is opened on trains and in temples, so after the first visit
+// it has to work with no signal at all. serviceWorker.ts keeps the app shell
+// and everything the script points at (tracks, narration clips, letter photos,
+// the offline lock model) in the Cache API; this side tells it what to keep.
+// serviceWorker.ts is served from the site root as /sw.js, next to
+// manifest.webmanifest and icon.svg, so it controls every page of the app.
+
+export const SERVICE_WORKER_URL = '/sw.js';
+export const MANIFEST_URL = '/manifest.webmanifest';
+export const ICON_URL = '/icon.svg';
+export const THEME_COLOR = '#0f172a';
+
+export type PrecacheMessage = { type: 'precache'; urls: string[] };
+
+// Assets
+const IMAGE_PATTERN = /!\[[^\]]*\]\(([^)\s]+)\)/g;
+
+const audioSources = (music?: AudioSourceSpec) => (music && 'src' in music && music.src ? [music.src] : []);
+
+// Files imported in the editor are inlined before an experience is shared
+const mediaSources = (items: unknown) =>
+  Array.isArray(items) ? (items as MediaItem[]).flatMap((item) => [item?.src, item?.poster].filter((url): url is string => typeof url === 'string')) : [];
+
+// Works on variants too, which hold only the fields they override. Letter
+// markup only keeps images written as ![caption](src).
+const letterAssets = (content: unknown) => {
+  if (!content || typeof content !== 'object') return [];
+  const { paragraphs, narration, attachments } = content as Partial<LetterContent>;
+  const images = Array.isArray(paragraphs)
+    ? paragraphs.flatMap((paragraph) => (typeof paragraph === 'string' ? Array.from(paragraph.matchAll(IMAGE_PATTERN), (match) => match[1]) : []))
+    : [];
+  const clips = narration && narration.mode === 'clips' && Array.isArray(narration.clips) ? narration.clips : [];
+  return [...images, ...clips, ...mediaSources(attachments)];
+};
+
+// Music cues in the celebration after "Yes"
+const celebrationAssets = (content: unknown) => {
+  const timeline = (content as Partial<ProposalContent> | undefined)?.celebration?.timeline;
+  return Array.isArray(timeline) ? timeline.flatMap((cue) => (cue?.kind === 'music' ? audioSources(cue.music) : [])) : [];
+};
+
+// Every URL a stage can fetch, in every language
+export const collectExperienceAssets = (experience: ExperienceScript) => {
+  const urls = experience.stages.flatMap((stage) => {
+    const assets = audioSources(stage.music);
+    if (stage.type === 'lock') {
+      const model = (stage.content as LockContent).offlineModel;
+      if (model) assets.push(...(model.kind === 'wasm' ? [model.url] : model.clips));
+    }
+    if (stage.type === 'letter') {
+      assets.push(...letterAssets(stage.content), ...Object.values(stage.variants ?? {}).flatMap(letterAssets));
+    }
+    if (stage.type === 'proposal') {
+      assets.push(...celebrationAssets(stage.content), ...Object.values(stage.variants ?? {}).flatMap(celebrationAssets));
+    }
+    if (stage.type === 'gallery') {
+      [stage.content, ...Object.values(stage.variants ?? {})].forEach((content) => {
+        assets.push(...mediaSources((content as Partial<GalleryContent> | undefined)?.items));
+      });
+    }
+    return assets;
+  });
+  // data: and blob: URLs are already on the device
+  return [...new Set(urls)].filter((url) => !/^(data|blob):/i.test(url));
+};
+
+// The running app's own stylesheets (web fonts included) and module scripts,
+// found the same way the standalone HTML export finds them
+export const collectPageAssets = () => [
+  '/',
+  MANIFEST_URL,
+  ICON_URL,
+  ...Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"], link[rel="preload"]'), (link) => link.href),
+  ...Array.from(document.querySelectorAll<HTMLScriptElement>('script[src]'), (script) => script.src),
+];
+
+// Install
+const ensureHeadElement = (selector: string, create: () => HTMLElement) => {
+  if (!document.head.querySelector(selector)) document.head.appendChild(create());
+};
+
+// Hosts that already link a manifest keep theirs
+export const linkManifest = () => {
+  ensureHeadElement('link[rel="manifest"]', () => Object.assign(document.createElement('link'), { rel: 'manifest', href: MANIFEST_URL }));
+  ensureHeadElement('link[rel="icon"]', () => Object.assign(document.createElement('link'), { rel: 'icon', href: ICON_URL, type: 'image/svg+xml' }));
+  ensureHeadElement('link[rel="apple-touch-icon"]', () => Object.assign(document.createElement('link'), { rel: 'apple-touch-icon', href: ICON_URL }));
+  ensureHeadElement('meta[name="theme-color"]', () => Object.assign(document.createElement('meta'), { name: 'theme-color', content: THEME_COLOR }));
+};
+
+export const isOfflineSupported = () =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator && window.isSecureContext;
+
+// Resolves once the worker is active and has been sent the URLs; caching
+// carries on in the worker after that
+export const precacheExperience = async (experience: ExperienceScript) => {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+  const ready = await navigator.serviceWorker.ready;
+  const message: PrecacheMessage = {
+    type: 'precache',
+    urls: [...new Set([...collectPageAssets(), ...collectExperienceAssets(experience)])],
+  };
+  (ready.active ?? registration.active)?.postMessage(message);
+};
+
+// Offline Support Hook
+// Runs again when the experience changes, e.g. once a sealed one is opened
+// and its letter's assets become known
+export const useOfflineSupport = (experience: ExperienceScript) => {
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+    linkManifest();
+    precacheExperience(experience).catch((error) => {
+      console.warn('Offline support is unavailable:', error);
+    });
+  }, [experience]);
+};
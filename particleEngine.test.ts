@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createParticleEngine } from './particleEngine';
+import { PARTICLE_THEMES } from './particleThemes';
+
+// A canvas whose 2D context counts what was drawn since it was last cleared
+const createCanvas = () => {
+  const drawn = { count: 0 };
+  const context = {
+    setTransform: vi.fn(),
+    clearRect: () => {
+      drawn.count = 0;
+    },
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    fillText: vi.fn(),
+    drawImage: () => {
+      drawn.count++;
+    },
+    fillRect: () => {
+      drawn.count++;
+    },
+  };
+  const canvas = { width: 0, height: 0, getContext: () => context } as unknown as HTMLCanvasElement;
+  return { canvas, drawn };
+};
+
+// Frames run only when the test asks
+let frames = new Map<number, FrameRequestCallback>();
+let lastFrame = 0;
+let now = 0;
+const runFrames = (count: number, intervalMs = 100) => {
+  for (let i = 0; i < count; i++) {
+    const pending = [...frames.values()];
+    frames = new Map();
+    now += intervalMs;
+    pending.forEach((callback) => callback(now));
+  }
+};
+
+beforeEach(() => {
+  frames = new Map();
+  now = 0;
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frames.set(++lastFrame, callback);
+    return lastFrame;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (frame: number) => frames.delete(frame));
+  // Emoji sprites are drawn on canvases of their own
+  vi.stubGlobal('document', { createElement: () => createCanvas().canvas });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const setup = (options: { reducedMotion?: boolean; density?: number } = {}) => {
+  const ambient = createCanvas();
+  const overlay = createCanvas();
+  const engine = createParticleEngine(ambient.canvas, { theme: PARTICLE_THEMES.vrindavan, overlay: overlay.canvas, ...options });
+  return { engine, ambient: ambient.drawn, overlay: overlay.drawn, canvas: ambient.canvas };
+};
+
+describe('createParticleEngine', () => {
+  it('scales the ambient particles with the screen, within bounds', () => {
+    const { engine, ambient, canvas } = setup();
+    engine.resize(900, 500, 2);
+    expect([canvas.width, canvas.height]).toEqual([1800, 1000]);
+    expect(ambient.count).toBe(10);
+
+    engine.resize(400, 300);
+    expect(ambient.count).toBe(8);
+    engine.resize(3000, 2000);
+    expect(ambient.count).toBe(40);
+
+    engine.setDensity(0.5);
+    runFrames(1);
+    expect(ambient.count).toBe(20);
+  });
+
+  it('never holds more than its pool of particles, and lets bursts burn out', () => {
+    const { engine, ambient, overlay } = setup();
+    engine.resize(900, 500);
+    engine.burst({ count: 5000 });
+    engine.burst({ count: 5000 });
+    runFrames(1);
+    expect(ambient.count + overlay.count).toBe(600);
+
+    runFrames(40);
+    expect(overlay.count).toBe(0);
+  });
+
+  it('thins itself out when frames run over budget, and recovers', () => {
+    const { engine, ambient } = setup();
+    engine.resize(900, 500);
+    // Ten frames a second for a second and a half
+    runFrames(15, 100);
+    expect(engine.quality()).toBe(0.75);
+    expect(ambient.count).toBe(8);
+
+    runFrames(1000, 10);
+    expect(engine.quality()).toBe(1);
+    expect(ambient.count).toBe(10);
+  });
+
+  it('draws still ambient particles and no bursts with reduced motion', () => {
+    const { engine, ambient, overlay } = setup({ reducedMotion: true });
+    engine.resize(900, 500);
+    expect(ambient.count).toBe(5);
+    engine.burst();
+    expect(overlay.count).toBe(0);
+    expect(frames.size).toBe(0);
+
+    engine.setReducedMotion(false);
+    engine.burst();
+    runFrames(1);
+    expect(overlay.count).toBe(80);
+
+    // Turning motion down mid-burst clears it at once
+    engine.setReducedMotion(true);
+    expect(overlay.count).toBe(0);
+    expect(frames.size).toBe(0);
+  });
+
+  it('stops animating once disposed', () => {
+    const { engine, ambient, overlay } = setup();
+    engine.resize(900, 500);
+    engine.burst();
+    runFrames(1);
+    engine.dispose();
+    expect(frames.size).toBe(0);
+
+    // Nor does a late burst start it again
+    engine.burst();
+    expect(frames.size).toBe(0);
+    overlay.count = -1;
+    runFrames(5);
+    expect(overlay.count).toBe(-1);
+  });
+});
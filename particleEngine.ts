@@ -0,0 +1,347 @@
+import { createContext, useContext } from 'react';
+import type { ParticleTheme } from './particleThemes';
+
+// Particle Engine
+// One canvas for everything that floats: the ambient drift behind the stages
+// and the bursts thrown in a celebration. Particles are theme emoji or small
+// confetti pieces moved by gravity and wind. When frames take longer than the
+// budget the engine lowers its density, and raises it again once there is
+// headroom. Bursts can go on a second canvas layered above the stages, so a
+// celebration shows over the screen it celebrates. With reduced motion the ambient particles are drawn once and stay
+// still, and bursts are skipped.
+
+interface Particle {
+  glyph: string | null;
+  color: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  rotation: number;
+  spin: number;
+  // How strongly gravity pulls, and how quickly air slows the particle
+  // towards falling at weight * gravity / drag with the wind
+  weight: number;
+  drag: number;
+  phase: number;
+  age: number;
+  // Seconds; Infinity for ambient particles, which are recycled instead
+  life: number;
+  opacity: number;
+}
+
+export interface BurstOptions {
+  // Fractions of the canvas; the centre by default
+  x?: number;
+  y?: number;
+  count?: number;
+  emojis?: string[];
+}
+
+export interface ParticleEngineOptions {
+  theme: ParticleTheme;
+  // Canvas for bursts; without one they share the ambient canvas
+  overlay?: HTMLCanvasElement;
+  // Multiplies the ambient count and burst sizes; 1 is the default density
+  density?: number;
+  frameBudgetMs?: number;
+  reducedMotion?: boolean;
+}
+
+export interface ParticleEngine {
+  setTheme: (theme: ParticleTheme) => void;
+  setDensity: (density: number) => void;
+  setReducedMotion: (reducedMotion: boolean) => void;
+  burst: (options?: BurstOptions) => void;
+  resize: (width: number, height: number, pixelRatio?: number) => void;
+  // Current fraction of the requested density the frame budget allows
+  quality: () => number;
+  dispose: () => void;
+}
+
+// One ambient particle per this many square CSS pixels, within the bounds
+const AREA_PER_AMBIENT = 45000;
+const MIN_AMBIENT = 8;
+const MAX_AMBIENT = 40;
+const DEFAULT_BURST = 80;
+const MAX_PARTICLES = 600;
+// About 45 fps
+const DEFAULT_FRAME_BUDGET_MS = 22;
+const MIN_QUALITY = 0.25;
+// Frames longer than this are a hidden tab or a debugger pause, not load
+const MAX_STEP_SECONDS = 0.1;
+// Ambient particles settle at about 30 px/s: they drift, they do not fall
+const AMBIENT_WEIGHT = 0.04;
+const AMBIENT_DRAG = 0.5;
+
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+const between = (min: number, max: number) => min + Math.random() * (max - min);
+
+export const createParticleEngine = (canvas: HTMLCanvasElement, options: ParticleEngineOptions): ParticleEngine => {
+  const canvases = options.overlay ? [canvas, options.overlay] : [canvas];
+  const ambientContext = canvas.getContext('2d');
+  const burstContext = options.overlay ? options.overlay.getContext('2d') : ambientContext;
+  let theme = options.theme;
+  let density = options.density ?? 1;
+  let reducedMotion = options.reducedMotion ?? false;
+  const frameBudgetMs = options.frameBudgetMs ?? DEFAULT_FRAME_BUDGET_MS;
+
+  let width = 0;
+  let height = 0;
+  let pixelRatio = 1;
+  let ambient: Particle[] = [];
+  let bursts: Particle[] = [];
+  let quality = 1;
+  let averageFrameMs = 1000 / 60;
+  let overBudgetSeconds = 0;
+  let underBudgetSeconds = 0;
+  let frame: number | null = null;
+  let lastTime: number | null = null;
+  let disposed = false;
+
+  // Emoji are rasterised once per glyph and size; drawing text every frame is
+  // what makes canvas emoji slow.
+  const sprites = new Map<string, HTMLCanvasElement>();
+  const sprite = (glyph: string, size: number) => {
+    const bucket = Math.max(8, Math.round(size / 4) * 4);
+    const key = `${glyph}:${bucket}:${pixelRatio}`;
+    let image = sprites.get(key);
+    if (!image) {
+      image = document.createElement('canvas');
+      const side = Math.ceil(bucket * 1.4 * pixelRatio);
+      image.width = side;
+      image.height = side;
+      const spriteContext = image.getContext('2d');
+      if (spriteContext) {
+        spriteContext.font = `${bucket * pixelRatio}px serif`;
+        spriteContext.textAlign = 'center';
+        spriteContext.textBaseline = 'middle';
+        spriteContext.fillText(glyph, side / 2, side / 2);
+      }
+      sprites.set(key, image);
+    }
+    return image;
+  };
+
+  const ambientTarget = () => {
+    const byArea = Math.min(MAX_AMBIENT, Math.max(MIN_AMBIENT, (width * height) / AREA_PER_AMBIENT));
+    return Math.round(byArea * density * (reducedMotion ? 0.5 : quality));
+  };
+
+  const createAmbient = (anywhere: boolean): Particle => {
+    const rising = theme.gravity < 0;
+    const size = between(10, 40);
+    return {
+      glyph: pick(theme.emojis),
+      color: pick(theme.colors),
+      x: Math.random() * width,
+      y: anywhere ? Math.random() * height : rising ? height + size : -size,
+      vx: between(-8, 8),
+      vy: between(10, 30) * (rising ? -1 : 1),
+      size,
+      rotation: 0,
+      spin: 0,
+      weight: AMBIENT_WEIGHT,
+      drag: AMBIENT_DRAG,
+      phase: Math.random() * Math.PI * 2,
+      age: 0,
+      life: Infinity,
+      opacity: 0.6,
+    };
+  };
+
+  const fillAmbient = () => {
+    const target = ambientTarget();
+    if (ambient.length > target) ambient = ambient.slice(0, target);
+    while (ambient.length < target) ambient.push(createAmbient(true));
+  };
+
+  const drawLayer = (context: CanvasRenderingContext2D | null, particles: Particle[], clear: boolean) => {
+    if (!context) return;
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    if (clear) context.clearRect(0, 0, width, height);
+    for (const particle of particles) {
+      const fade = particle.life === Infinity ? 1 : Math.min(1, (particle.life - particle.age) / (particle.life * 0.3));
+      context.globalAlpha = particle.opacity * fade;
+      context.save();
+      context.translate(particle.x, particle.y);
+      context.rotate(particle.rotation);
+      if (particle.glyph) {
+        const image = sprite(particle.glyph, particle.size);
+        const side = image.width / pixelRatio;
+        context.drawImage(image, -side / 2, -side / 2, side, side);
+      } else {
+        context.fillStyle = particle.color;
+        context.fillRect(-particle.size / 2, -particle.size / 4, particle.size, particle.size / 2);
+      }
+      context.restore();
+    }
+    context.globalAlpha = 1;
+  };
+
+  const draw = () => {
+    drawLayer(ambientContext, ambient, true);
+    drawLayer(burstContext, bursts, burstContext !== ambientContext);
+  };
+
+  const step = (particle: Particle, seconds: number) => {
+    particle.vy += (theme.gravity * particle.weight - particle.vy * particle.drag) * seconds;
+    particle.vx += (theme.wind - particle.vx) * particle.drag * seconds;
+    particle.x += (particle.vx + Math.sin(particle.phase + particle.age * 1.5) * 12) * seconds;
+    particle.y += particle.vy * seconds;
+    particle.rotation += particle.spin * seconds;
+    particle.age += seconds;
+  };
+
+  const isOffscreen = (particle: Particle) =>
+    particle.y > height + particle.size * 2 || particle.y < -particle.size * 2
+    || particle.x > width + particle.size * 2 || particle.x < -particle.size * 2;
+
+  // Density follows the frame budget: a second over it drops a quarter of the
+  // particles, three seconds well under it brings a tenth back.
+  const adaptQuality = (frameMs: number, seconds: number) => {
+    averageFrameMs += (frameMs - averageFrameMs) * 0.1;
+    if (averageFrameMs > frameBudgetMs) {
+      overBudgetSeconds += seconds;
+      underBudgetSeconds = 0;
+      if (overBudgetSeconds >= 1 && quality > MIN_QUALITY) {
+        quality = Math.max(MIN_QUALITY, quality * 0.75);
+        overBudgetSeconds = 0;
+        fillAmbient();
+      }
+    } else {
+      overBudgetSeconds = 0;
+      underBudgetSeconds += averageFrameMs < frameBudgetMs * 0.6 ? seconds : 0;
+      if (underBudgetSeconds >= 3 && quality < 1) {
+        quality = Math.min(1, quality + 0.1);
+        underBudgetSeconds = 0;
+        fillAmbient();
+      }
+    }
+  };
+
+  const tick = (time: number) => {
+    frame = null;
+    const frameMs = lastTime === null ? 1000 / 60 : time - lastTime;
+    lastTime = time;
+    const seconds = Math.min(MAX_STEP_SECONDS, frameMs / 1000);
+    if (frameMs / 1000 <= MAX_STEP_SECONDS) adaptQuality(frameMs, seconds);
+
+    ambient = ambient.map((particle) => {
+      step(particle, seconds);
+      return isOffscreen(particle) ? createAmbient(false) : particle;
+    });
+    bursts = bursts.filter((particle) => {
+      step(particle, seconds);
+      return particle.age < particle.life && particle.y < height + particle.size * 2;
+    });
+
+    draw();
+    schedule();
+  };
+
+  const schedule = () => {
+    if (frame !== null || reducedMotion || disposed) return;
+    frame = requestAnimationFrame(tick);
+  };
+
+  const cancel = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    lastTime = null;
+  };
+
+  const restart = () => {
+    cancel();
+    if (reducedMotion) {
+      bursts = [];
+      fillAmbient();
+      draw();
+    } else {
+      schedule();
+    }
+  };
+
+  const burst = ({ x = 0.5, y = 0.5, count = DEFAULT_BURST, emojis = theme.burst }: BurstOptions = {}) => {
+    if (reducedMotion || width === 0) return;
+    const room = MAX_PARTICLES - ambient.length - bursts.length;
+    const total = Math.min(room, Math.round(count * density * quality));
+    for (let i = 0; i < total; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const speed = between(150, 550);
+      const isEmoji = Math.random() < 0.5;
+      bursts.push({
+        glyph: isEmoji ? pick(emojis) : null,
+        color: pick(theme.colors),
+        x: x * width,
+        y: y * height,
+        vx: Math.cos(angle) * speed,
+        // Thrown upwards a little more than down, like a fountain
+        vy: Math.sin(angle) * speed - 250,
+        size: isEmoji ? between(20, 46) : between(6, 12),
+        rotation: Math.random() * Math.PI * 2,
+        spin: between(-6, 6),
+        weight: isEmoji ? 0.6 : 1,
+        // Confetti flutters down; emoji keep their momentum
+        drag: isEmoji ? 0.3 : 1.2,
+        phase: Math.random() * Math.PI * 2,
+        age: 0,
+        life: between(1.8, 3.2),
+        opacity: 1,
+      });
+    }
+    schedule();
+  };
+
+  return {
+    setTheme: (next) => {
+      if (next === theme) return;
+      theme = next;
+      ambient = [];
+      sprites.clear();
+      restart();
+      fillAmbient();
+    },
+    setDensity: (next) => {
+      if (next === density) return;
+      density = Math.max(0, next);
+      fillAmbient();
+      if (reducedMotion) draw();
+    },
+    setReducedMotion: (next) => {
+      if (next === reducedMotion) return;
+      reducedMotion = next;
+      restart();
+    },
+    burst,
+    resize: (nextWidth, nextHeight, nextPixelRatio = 1) => {
+      width = nextWidth;
+      height = nextHeight;
+      pixelRatio = Math.min(2, nextPixelRatio);
+      canvases.forEach((layer) => {
+        layer.width = Math.round(width * pixelRatio);
+        layer.height = Math.round(height * pixelRatio);
+      });
+      sprites.clear();
+      fillAmbient();
+      draw();
+      schedule();
+    },
+    quality: () => quality,
+    dispose: () => {
+      disposed = true;
+      cancel();
+      ambient = [];
+      bursts = [];
+      sprites.clear();
+    },
+  };
+};
+
+// Particle Context
+// Lets a stage throw a burst on the shared canvas; null outside an experience
+// (e.g. the editor preview), where celebrations simply have no particles.
+export const ParticleContext = createContext<ParticleEngine | null>(null);
+
+export const useParticles = () => useContext(ParticleContext);
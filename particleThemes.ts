@@ -0,0 +1,55 @@
+// Particle Themes
+// What drifts across the screen behind every stage and what bursts out in a
+// celebration, chosen per experience with `"theme": { "particles": "..." }`.
+
+export type ParticleThemeName = 'vrindavan' | 'wedding' | 'diwali' | 'holi';
+
+export interface ParticleTheme {
+  name: string;
+  emojis: string[];
+  // Emoji thrown by celebration bursts, mixed with confetti in `colors`
+  burst: string[];
+  colors: string[];
+  // Pixels per second squared, downward; negative rises
+  gravity: number;
+  // Pixels per second, rightward
+  wind: number;
+}
+
+export const PARTICLE_THEMES: Record<ParticleThemeName, ParticleTheme> = {
+  // The original mix
+  vrindavan: {
+    name: 'Vrindavan',
+    emojis: ['💕', '⭐', '🌸', '🕉️', '🦚'],
+    burst: ['💕', '💖', '💝', '🎉', '✨'],
+    colors: ['#ff69b4', '#ff1493', '#ffd700', '#9370db'],
+    gravity: 380,
+    wind: 12,
+  },
+  wedding: {
+    name: 'Wedding',
+    emojis: ['💍', '💐', '💕', '🌹', '✨'],
+    burst: ['🌹', '💍', '💖', '✨'],
+    colors: ['#b22222', '#ffd700', '#fff5ee', '#ff69b4'],
+    gravity: 300,
+    wind: 8,
+  },
+  diwali: {
+    name: 'Diwali',
+    emojis: ['🪔', '✨', '🎆', '🌼', '⭐'],
+    burst: ['🎆', '🎇', '✨', '🪔'],
+    colors: ['#ff8c00', '#ffd700', '#ff4500', '#fff8dc'],
+    gravity: 460,
+    wind: 0,
+  },
+  holi: {
+    name: 'Holi',
+    emojis: ['🎨', '🌈', '💧', '🌸', '💛'],
+    burst: ['🎨', '💦', '🌈', '💜'],
+    colors: ['#ff1493', '#00bfff', '#32cd32', '#ffd700', '#8a2be2'],
+    gravity: 340,
+    wind: 30,
+  },
+};
+
+export const PARTICLE_THEME_NAMES = Object.keys(PARTICLE_THEMES) as ParticleThemeName[];
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { createPassphraseMatcher, levenshtein, phoneticKey, similarity, transliterate } from './passphraseMatcher';
+
+// Transcripts as Chrome (hi-IN and en-IN), Safari and the on-device spotter
+// returned them when people said "Radha" at the lock, and things they said
+// that must not open it
+const HEARD_RADHA = [
+  'radha',
+  'Radha',
+  'RADHA',
+  'राधा',
+  'राधा राधा',
+  'radha radha',
+  'Radha Radha',
+  'raadha',
+  'Radhaa',
+  'rada',
+  'Rada',
+  'रादा',
+  'राधे',
+  'radhe',
+  'Radhe Radhe',
+  'राधे राधे',
+  'radhey',
+  'Radhey Radhey',
+  'राधा रानी',
+  'Radha Rani',
+  'radha rani ki jai',
+  'जय श्री राधा',
+  'jai shri radha',
+  'बोलो राधा',
+  'my Radha',
+  'radha.',
+  'Radha!',
+];
+
+const NOT_RADHA = [
+  'raja',
+  'Raja',
+  'राजा',
+  'Rajah',
+  'gadha',
+  'गधा',
+  'बाधा',
+  'badha',
+  'rama',
+  'राम',
+  'radio',
+  'ready',
+  'rather',
+  'Rahul',
+  'rasha',
+  'Sadhna',
+  'radhika',
+  'राधिका',
+  'krishna',
+  'कृष्णा',
+  'hello',
+  'hello there',
+  'रात',
+  'ok google',
+  'open the lock',
+  '',
+];
+
+describe('transliterate', () => {
+  it('writes Devanagari in Latin letters, dropping the silent final a', () => {
+    expect(transliterate('राधा')).toBe('raadhaa');
+    expect(transliterate('राम')).toBe('raam');
+    expect(transliterate('शैलेन्द्र')).toBe('shailendra');
+    expect(transliterate('ज़िंदगी')).toBe('zindagii');
+  });
+});
+
+describe('phoneticKey', () => {
+  it('gives the spellings of a name one key', () => {
+    expect(new Set(['radha', 'Raadha', 'RADHA', 'राधा', 'rada'].map(phoneticKey))).toEqual(new Set(['rada']));
+    expect(phoneticKey('Krishna')).toBe(phoneticKey('कृष्ण'));
+  });
+});
+
+describe('similarity', () => {
+  it('counts a vowel heard as another vowel as half a mistake', () => {
+    expect(levenshtein('rada', 'rade')).toBe(0.5);
+    expect(levenshtein('rada', 'raja')).toBe(1);
+    expect(similarity('rada', 'rade')).toBeGreaterThan(similarity('rada', 'raja'));
+  });
+});
+
+describe('createPassphraseMatcher', () => {
+  const matcher = createPassphraseMatcher({ passphrases: ['radha', 'राधा'] });
+
+  it.each(HEARD_RADHA)('opens for "%s"', (heard) => {
+    expect(matcher.match(heard).matched).toBe(true);
+  });
+
+  it.each(NOT_RADHA)('stays shut for "%s"', (heard) => {
+    expect(matcher.match(heard).matched).toBe(false);
+  });
+
+  it('takes the best of the alternatives', () => {
+    const result = matcher.matchAny(['raja', 'ready', 'radhe']);
+    expect(result).toMatchObject({ matched: true, heard: 'radhe' });
+    expect(matcher.matchAny([]).matched).toBe(false);
+  });
+
+  it('in exact mode wants the passphrase and nothing else', () => {
+    const exact = createPassphraseMatcher({ passphrases: ['radha radha'], mode: 'exact' });
+    expect(exact.match('radha radha').matched).toBe(true);
+    expect(exact.match('राधा राधा').matched).toBe(true);
+    expect(exact.match('radharadha').matched).toBe(true);
+    expect(exact.match('radha').matched).toBe(false);
+    expect(exact.match('radha radha please open').matched).toBe(false);
+  });
+
+  it('finds a passphrase of several words inside a sentence', () => {
+    const names = createPassphraseMatcher({ passphrases: ['shailendra pathak'] });
+    expect(names.match('it is शैलेन्द्र पाठक of course').matched).toBe(true);
+    expect(names.match('shailendra').matched).toBe(false);
+  });
+
+  it('lets the experience ask for a closer match', () => {
+    const strict = createPassphraseMatcher({ passphrases: ['radha'], threshold: 1 });
+    expect(strict.match('राधा').matched).toBe(true);
+    expect(strict.match('radhe').matched).toBe(false);
+  });
+});
@@ -0,0 +1,260 @@
+// Passphrase Matcher
+// Speech recognisers hear "राधा" as "radha", "Rada", "राधे" or "raadha" depending
+// on the engine and the speaker, so both sides are transliterated to Latin and
+// reduced to a phonetic key before they are compared with an edit distance.
+// A vowel heard as another vowel is a small mistake; a consonant heard wrong
+// ("राजा", "गधा") usually means another word.
+
+export type PassphraseMatchMode = 'exact' | 'contains';
+
+export interface PassphraseMatcherOptions {
+  passphrases: string[];
+  mode?: PassphraseMatchMode;
+  // Minimum similarity (0–1) between the phonetic keys for a match
+  threshold?: number;
+}
+
+export interface PassphraseMatch {
+  matched: boolean;
+  confidence: number;
+  passphrase: string | null;
+  heard: string;
+}
+
+export interface PassphraseMatcher {
+  match: (text: string) => PassphraseMatch;
+  matchAny: (texts: string[]) => PassphraseMatch;
+}
+
+// Tuned on the transcripts in passphraseMatcher.test.ts: one wrong consonant in
+// a short name stays under it, a wrong vowel does not
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+// Devanagari → Latin
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ऍ': 'e',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e',
+};
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y',
+};
+
+const NUKTA_FORMS: Record<string, string> = {
+  'क': 'क़', 'ख': 'ख़', 'ग': 'ग़', 'ज': 'ज़', 'ड': 'ड़', 'ढ': 'ढ़', 'फ': 'फ़', 'य': 'य़',
+};
+
+const SIGNS: Record<string, string> = {
+  'ं': 'n', 'ँ': 'n', 'ः': 'h', 'ॐ': 'om', '।': ' ', '॥': ' ',
+};
+
+const VIRAMA = '्';
+const NUKTA = '़';
+
+export const transliterate = (text: string): string => {
+  const chars = Array.from(text.normalize('NFD'));
+  let output = '';
+  let syllables = 0;
+  let afterVirama = false;
+  // Index in `output` of a word-final inherent "a" that may still be silent
+  let pendingSchwa = -1;
+
+  // The final inherent vowel of a multi-syllable word is silent ("राम" is
+  // "raam"), unless it closes a conjunct ("शैलेन्द्र" keeps its "a").
+  const endWord = () => {
+    if (pendingSchwa >= 0 && syllables > 1) {
+      output = output.slice(0, pendingSchwa) + output.slice(pendingSchwa + 1);
+    }
+    pendingSchwa = -1;
+    syllables = 0;
+    afterVirama = false;
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    let char = chars[i];
+    if (chars[i + 1] === NUKTA && NUKTA_FORMS[char]) {
+      char = NUKTA_FORMS[char];
+      i++;
+    }
+
+    const consonant = CONSONANTS[char];
+    if (consonant !== undefined) {
+      const next = chars[i + 1];
+      output += consonant;
+      pendingSchwa = -1;
+      if (next === VIRAMA) {
+        i++;
+        afterVirama = true;
+        continue;
+      }
+      if (next !== undefined && VOWEL_SIGNS[next] !== undefined) {
+        output += VOWEL_SIGNS[next];
+        i++;
+      } else {
+        if (!afterVirama) pendingSchwa = output.length;
+        output += 'a';
+      }
+      syllables++;
+      afterVirama = false;
+      continue;
+    }
+
+    const vowel = INDEPENDENT_VOWELS[char];
+    if (vowel !== undefined) {
+      output += vowel;
+      pendingSchwa = -1;
+      syllables++;
+      continue;
+    }
+
+    const sign = SIGNS[char];
+    if (sign !== undefined && sign !== ' ') {
+      output += sign;
+      pendingSchwa = -1;
+      continue;
+    }
+
+    if (char >= '०' && char <= '९') {
+      endWord();
+      output += String(char.charCodeAt(0) - '०'.charCodeAt(0));
+      continue;
+    }
+
+    endWord();
+    output += sign ?? char;
+  }
+
+  endWord();
+  return output;
+};
+
+// Phonetic key
+// Folds the spellings people and recognisers use interchangeably: aspirated
+// consonants, long vowels, doubled letters, w/v, z/j and so on.
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/c(?!h)/g, 'k'],
+  [/chh?/g, 'c'],
+  [/sh/g, 's'],
+  [/ph/g, 'f'],
+  [/([kgjtdbr])h/g, '$1'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/q/g, 'k'],
+  [/x/g, 'ks'],
+  [/(ee|ii)/g, 'i'],
+  [/(oo|uu)/g, 'u'],
+  [/(ai|ei|ay)/g, 'e'],
+  [/ey\b/g, 'e'],
+  [/(au|ou)/g, 'o'],
+  [/(.)\1+/g, '$1'],
+];
+
+export const phoneticKey = (text: string): string => {
+  let key = transliterate(text.toLowerCase())
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  for (const [pattern, replacement] of PHONETIC_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+  return key;
+};
+
+const isVowel = (char: string) => 'aeiou'.includes(char);
+
+const substitutionCost = (a: string, b: string) => (a === b ? 0 : isVowel(a) && isVowel(b) ? 0.5 : 1);
+
+// Edit distance in which swapping one vowel for another costs half
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = substitutionCost(a[i - 1], b[j - 1]);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const similarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+};
+
+// In contains mode the passphrase is compared against every run of words of
+// about its own length, with and without the spaces recognisers like to drop.
+const bestWindowSimilarity = (heardKey: string, passphraseKey: string) => {
+  const words = heardKey.split(' ').filter(Boolean);
+  const size = passphraseKey.split(' ').length;
+  const compact = passphraseKey.replace(/ /g, '');
+  let best = 0;
+
+  for (let length = Math.max(1, size - 1); length <= size + 1; length++) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const window = words.slice(start, start + length);
+      best = Math.max(
+        best,
+        similarity(window.join(' '), passphraseKey),
+        similarity(window.join(''), compact)
+      );
+    }
+  }
+  return best;
+};
+
+export const createPassphraseMatcher = ({
+  passphrases,
+  mode = 'contains',
+  threshold = DEFAULT_MATCH_THRESHOLD,
+}: PassphraseMatcherOptions): PassphraseMatcher => {
+  const keyed = passphrases
+    .map((passphrase) => ({ passphrase, key: phoneticKey(passphrase) }))
+    .filter(({ key }) => key.length > 0);
+
+  const match = (text: string): PassphraseMatch => {
+    const heardKey = phoneticKey(text);
+    let best: PassphraseMatch = { matched: false, confidence: 0, passphrase: null, heard: text };
+
+    for (const { passphrase, key } of keyed) {
+      const confidence = mode === 'exact'
+        ? Math.max(similarity(heardKey, key), similarity(heardKey.replace(/ /g, ''), key.replace(/ /g, '')))
+        : bestWindowSimilarity(heardKey, key);
+      if (confidence > best.confidence) {
+        best = { matched: confidence >= threshold, confidence, passphrase, heard: text };
+      }
+    }
+    return best;
+  };
+
+  const matchAny = (texts: string[]): PassphraseMatch => {
+    const results = texts.map(match);
+    return results.reduce(
+      (best, result) => (result.confidence > best.confidence ? result : best),
+      { matched: false, confidence: 0, passphrase: null, heard: texts[0] ?? '' }
+    );
+  };
+
+  return { match, matchAny };
+};
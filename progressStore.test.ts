@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { loadProgress, migrateProgress, useExperienceProgress } from './progressStore';
+
+describe('migrateProgress', () => {
+  it('reads a current record as it is', () => {
+    const record = { version: 1, history: ['lock', 'letter'], stages: { 'letter@1': { revealed: 3 } }, updatedAt: 1 };
+    expect(migrateProgress(record)).toEqual(record);
+  });
+
+  it('ignores a record from another build or of the wrong shape', () => {
+    expect(migrateProgress({ version: 2, history: [], stages: {} })).toBeNull();
+    expect(migrateProgress({ version: 0, history: [], stages: {} })).toBeNull();
+    expect(migrateProgress({ version: 1, history: 'lock', stages: {} })).toBeNull();
+    expect(migrateProgress('nonsense')).toBeNull();
+  });
+});
+
+describe('useExperienceProgress', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('stores stage memory and drops what a stage clears', () => {
+    const { result } = renderHook(() => useExperienceProgress('test'));
+    result.current.memory.save('letter@1', { revealed: 2 });
+    result.current.memory.save('proposal@2', { answer: 'yes' });
+    result.current.memory.save('proposal@2', undefined);
+    expect(loadProgress('test')?.stages).toEqual({ 'letter@1': { revealed: 2 } });
+    expect(result.current.memory.load('letter@1')).toEqual({ revealed: 2 });
+  });
+
+  it('follows a change of experience', () => {
+    const { result, rerender } = renderHook(({ id }) => useExperienceProgress(id), { initialProps: { id: 'first' } });
+    result.current.recordHistory(['lock', 'letter']);
+    result.current.memory.save('letter@1', { revealed: 2 });
+
+    rerender({ id: 'second' });
+    expect(result.current.saved).toBeNull();
+    expect(result.current.memory.load('letter@1')).toBeUndefined();
+    result.current.recordHistory(['lock']);
+    expect(loadProgress('first')?.history).toEqual(['lock', 'letter']);
+    expect(loadProgress('second')?.history).toEqual(['lock']);
+
+    rerender({ id: 'first' });
+    expect(result.current.hasProgress).toBe(true);
+    expect(result.current.memory.load('letter@1')).toEqual({ revealed: 2 });
+  });
+});
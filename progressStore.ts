@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import type { StageMemory } from './stagePipeline';
+
+// Experience Progress
+// Where the recipient is in an experience (stages visited, each stage's own
+// state such as how much of the letter is revealed or the answer given, and
+// the music setting), kept in localStorage per experience id so a reload does
+// not send them back to the lock.
+//
+// Records carry a schema version. A record from an older build is upgraded one
+// version at a time through MIGRATIONS; one from a newer build is ignored
+// rather than misread.
+
+export interface MusicPreference {
+  enabled: boolean;
+  volume: number;
+}
+
+export interface ExperienceProgress {
+  version: 1;
+  // Stage ids in the order they were visited; the last one is on screen
+  history: string[];
+  // Per-visit state, owned by each stage component through useStageMemory and
+  // keyed by stageMemoryKey
+  stages: Record<string, unknown>;
+  music?: MusicPreference;
+  updatedAt: number;
+}
+
+export const PROGRESS_VERSION = 1;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// MIGRATIONS[n] turns a version n record into a version n + 1 record. When the
+// shape of ExperienceProgress changes, bump PROGRESS_VERSION and add the step
+// from the previous version here.
+type ProgressMigration = (record: Record<string, unknown>) => Record<string, unknown>;
+const MIGRATIONS: Record<number, ProgressMigration> = {};
+
+const storageKey = (experienceId: string) => `radha-radha:progress:${experienceId}`;
+
+export const migrateProgress = (stored: unknown): ExperienceProgress | null => {
+  let record = stored;
+  while (isRecord(record) && typeof record.version === 'number' && record.version < PROGRESS_VERSION) {
+    const migrate = MIGRATIONS[record.version];
+    if (!migrate) return null;
+    record = migrate(record);
+  }
+  if (!isRecord(record) || record.version !== PROGRESS_VERSION) return null;
+  if (!Array.isArray(record.history) || !record.history.every((id) => typeof id === 'string') || !isRecord(record.stages)) {
+    return null;
+  }
+  return record as unknown as ExperienceProgress;
+};
+
+export const loadProgress = (experienceId: string) => {
+  try {
+    const stored = localStorage.getItem(storageKey(experienceId));
+    return stored === null ? null : migrateProgress(JSON.parse(stored));
+  } catch {
+    return null;
+  }
+};
+
+const saveProgress = (experienceId: string, progress: ExperienceProgress) => {
+  try {
+    localStorage.setItem(storageKey(experienceId), JSON.stringify(progress));
+  } catch {
+    // Private mode or full storage: this visit simply is not remembered
+  }
+};
+
+const emptyProgress = (music?: MusicPreference): ExperienceProgress => ({
+  version: PROGRESS_VERSION,
+  history: [],
+  stages: {},
+  music,
+  updatedAt: Date.now(),
+});
+
+// Progress Hook
+// Opening another experience id reads that experience's record afresh
+export const useExperienceProgress = (experienceId: string) =>
+  useMemo(() => {
+    // What was stored when the experience opened, for the resume prompt
+    const saved = loadProgress(experienceId);
+    let progress = saved ?? emptyProgress();
+
+    const write = (update: Partial<ExperienceProgress>) => {
+      progress = { ...progress, ...update, updatedAt: Date.now() };
+      saveProgress(experienceId, progress);
+    };
+
+    const memory: StageMemory = {
+      load: (key) => progress.stages[key],
+      save: (key, state) => {
+        const { [key]: _previous, ...stages } = progress.stages;
+        write({ stages: state === undefined ? stages : { ...stages, [key]: state } });
+      },
+    };
+
+    return {
+      saved,
+      hasProgress: saved !== null && (saved.history.length > 1 || Object.keys(saved.stages).length > 0),
+      memory,
+      recordHistory: (history: string[]) => write({ history }),
+      saveMusic: (music: MusicPreference) => write({ music }),
+      // Starting over forgets the stages but keeps the music setting
+      reset: () => {
+        progress = emptyProgress(progress.music);
+        saveProgress(experienceId, progress);
+      },
+    };
+  }, [experienceId]);
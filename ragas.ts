@@ -0,0 +1,133 @@
+// Raga Sequences
+// Melodies are written in sargam: S R G m P D N with lowercase r g d n for
+// komal swaras and M for tivra Ma. A leading "." drops an octave, a trailing
+// "'" raises one, and ":<beats>" sets the length (default 1 beat).
+//   "S R:2 G m P:1.5 S':2 .N"
+
+export interface DroneSpec {
+  // Tanpura plucks per cycle, in sargam ("P S' S' S" is the usual Pa tuning)
+  pattern: string;
+  // Seconds for one pass through the pattern
+  cycle: number;
+  volume: number;
+}
+
+export interface MusicSequence {
+  name: string;
+  // Frequency of Sa in Hz
+  tonic: number;
+  // Beats per minute
+  tempo: number;
+  notes: string;
+  drone?: DroneSpec;
+  // Relative loudness of the fifth and octave layered on some notes
+  harmony?: { fifthEvery: number; octaveEvery: number };
+}
+
+export const DEFAULT_DRONE: DroneSpec = { pattern: ".P S S .S", cycle: 4, volume: 0.5 };
+
+export const SEQUENCES: Record<string, MusicSequence> = {
+  // The original BackgroundMusic melody
+  vrindavan: {
+    name: 'Vrindavan',
+    tonic: 261.63,
+    tempo: 60,
+    notes: 'S R G:1.2 P:1.5 m G:1.8 D:1.2 P:1.5 m G:2',
+    harmony: { fifthEvery: 3, octaveEvery: 4 },
+  },
+  yaman: {
+    name: 'Raag Yaman',
+    tonic: 261.63,
+    tempo: 56,
+    notes: ".N R G:2 M D N:2 S':3 N D P:2 M G R:2 .N R S:3",
+    drone: DEFAULT_DRONE,
+  },
+  bhupali: {
+    name: 'Raag Bhupali',
+    tonic: 246.94,
+    tempo: 64,
+    notes: "S R G:2 P D S':3 D P G:2 R S .D:2 S:3",
+    drone: DEFAULT_DRONE,
+  },
+  khamaj: {
+    name: 'Raag Khamaj',
+    tonic: 261.63,
+    tempo: 60,
+    notes: "G m P:2 D n D P:2 m G:2 R S:3 G m D:2 N S':3",
+    drone: DEFAULT_DRONE,
+  },
+  bhimpalasi: {
+    name: 'Raag Bhimpalasi',
+    tonic: 233.08,
+    tempo: 52,
+    notes: ".n S g:2 m P:2 n D P:2 m g:2 R S:3",
+    drone: { pattern: '.m S S .S', cycle: 4.5, volume: 0.5 },
+  },
+};
+
+// Just-intonation ratios of each swara to Sa
+const SWARA_RATIOS: Record<string, number> = {
+  S: 1,
+  r: 16 / 15,
+  R: 9 / 8,
+  g: 6 / 5,
+  G: 5 / 4,
+  m: 4 / 3,
+  M: 45 / 32,
+  P: 3 / 2,
+  d: 8 / 5,
+  D: 5 / 3,
+  n: 9 / 5,
+  N: 15 / 8,
+};
+
+export interface ParsedNote {
+  frequency: number;
+  beats: number;
+}
+
+export class NotationError extends Error {
+  constructor(token: string) {
+    super(`Unknown swara "${token}"`);
+    this.name = 'NotationError';
+  }
+}
+
+// What a script asks for: a preset by name, optionally retuned, or its own
+// notation.
+export interface MusicChoice {
+  preset?: string;
+  notes?: string;
+  tonic?: number;
+  tempo?: number;
+  drone?: boolean;
+}
+
+export const resolveMusicSequence = (choice: MusicChoice = {}): MusicSequence => {
+  const base = SEQUENCES[choice.preset ?? 'vrindavan'] ?? SEQUENCES.vrindavan;
+  const drone = choice.drone === undefined ? base.drone : choice.drone ? base.drone ?? DEFAULT_DRONE : undefined;
+  return {
+    ...base,
+    name: choice.notes ? 'Custom' : base.name,
+    notes: choice.notes ?? base.notes,
+    tonic: choice.tonic ?? base.tonic,
+    tempo: choice.tempo ?? base.tempo,
+    drone,
+    harmony: choice.notes ? undefined : base.harmony,
+  };
+};
+
+export const parseNotation = (notes: string, tonic: number): ParsedNote[] =>
+  notes.trim().split(/\s+/).filter(Boolean).map((token) => {
+    const [pitch, beats = '1'] = token.split(':');
+    const match = /^(\.*)([SrRgGmMPdDnN])('*)$/.exec(pitch);
+    const length = Number(beats);
+    if (!match || !(length > 0)) {
+      throw new NotationError(token);
+    }
+    const [, lower, swara, upper] = match;
+    return {
+      frequency: tonic * SWARA_RATIOS[swara] * 2 ** (upper.length - lower.length),
+      beats: length,
+    };
+  });
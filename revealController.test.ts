@@ -0,0 +1,161 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readingTimeMs, useRevealController, type RevealSettings } from './revealController';
+import { setReducedMotionPreference } from './useReducedMotion';
+
+const words = (word: string, count: number) => Array.from({ length: count }, () => word).join(' ');
+
+describe('readingTimeMs', () => {
+  it('paces Latin text by words per minute', () => {
+    expect(readingTimeMs(words('radha', 200))).toBe(60000);
+    expect(readingTimeMs(words('radha', 200), 400)).toBe(30000);
+  });
+
+  it('gives Devanagari more time, in proportion to how much of it there is', () => {
+    expect(readingTimeMs(words('राधा', 200))).toBeCloseTo(81000);
+    expect(readingTimeMs(`${words('राधा', 100)} ${words('abcd', 100)}`)).toBeCloseTo(70500);
+  });
+
+  it('never shows a short paragraph for less than a moment', () => {
+    expect(readingTimeMs('राधे')).toBe(1200);
+    expect(readingTimeMs('')).toBe(1200);
+  });
+});
+
+const paragraphs = [words('one', 10), words('two', 10), 'ab'];
+
+const setup = (settings: RevealSettings, options: { externallyDriven?: boolean; initialCount?: number } = {}) => {
+  // A container showing its first 500 pixels, with the paragraphs stacked in it
+  const container = document.createElement('div');
+  container.getBoundingClientRect = () => ({ top: 0, bottom: 500 }) as DOMRect;
+  const elements = paragraphs.map((_, index) => {
+    const element = document.createElement('p');
+    element.getBoundingClientRect = () => ({ top: index * 100, bottom: index * 100 + 100 }) as DOMRect;
+    element.scrollIntoView = vi.fn();
+    return element;
+  });
+  const hook = renderHook((props: { externallyDriven?: boolean }) =>
+    useRevealController({
+      paragraphs,
+      settings,
+      containerRef: { current: container },
+      paragraphRefs: { current: elements },
+      ...options,
+      ...props,
+    }), { initialProps: {} });
+  return { ...hook, elements };
+};
+
+const wait = (ms: number) => act(() => vi.advanceTimersByTime(ms));
+// Each step is only scheduled once React has rendered the last
+const steps = (count: number, ms: number) => {
+  for (let step = 0; step < count; step++) wait(ms);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  act(() => setReducedMotionPreference(false));
+});
+
+describe('useRevealController', () => {
+  it('shows each paragraph once the one before has had time to be read', () => {
+    const { result } = setup({ mode: 'reading', wordsPerMinute: 100 });
+    expect(result.current.visibleCount).toBe(0);
+    wait(600);
+    expect(result.current.visibleCount).toBe(1);
+    // Ten words at 100 a minute
+    wait(5999);
+    expect(result.current.visibleCount).toBe(1);
+    wait(1);
+    expect(result.current.visibleCount).toBe(2);
+  });
+
+  it('reads faster at a higher speed', () => {
+    const { result } = setup({ mode: 'reading', wordsPerMinute: 100 });
+    act(() => result.current.faster());
+    act(() => result.current.faster());
+    expect(result.current.speed).toBe(1.5);
+    wait(600);
+    wait(4000);
+    expect(result.current.visibleCount).toBe(2);
+  });
+
+  it('types a paragraph out grapheme by grapheme, then pauses before the next', () => {
+    const { result } = setup({ mode: 'typewriter', charactersPerSecond: 10 });
+    wait(300);
+    expect([result.current.visibleCount, result.current.typedCount]).toEqual([1, 0]);
+    wait(100);
+    expect(result.current.typedCount).toBe(1);
+    // "one one …" is 39 graphemes
+    steps(37, 100);
+    expect(result.current.typedCount).toBe(38);
+    wait(100);
+    expect(result.current.typedCount).toBeNull();
+    wait(699);
+    expect(result.current.visibleCount).toBe(1);
+    wait(1);
+    expect([result.current.visibleCount, result.current.typedCount]).toEqual([2, 0]);
+  });
+
+  it('finishes the paragraph being typed on a tap, and shows the next on another', () => {
+    const { result } = setup({ mode: 'typewriter' });
+    wait(300);
+    act(() => result.current.next());
+    expect([result.current.visibleCount, result.current.typedCount]).toEqual([1, null]);
+    act(() => result.current.next());
+    expect(result.current.visibleCount).toBe(2);
+  });
+
+  it('waits for the reader in manual mode', () => {
+    const { result } = setup({ mode: 'manual' });
+    wait(60000);
+    expect(result.current.visibleCount).toBe(0);
+    act(() => result.current.next());
+    act(() => result.current.next());
+    act(() => result.current.next());
+    act(() => result.current.next());
+    expect([result.current.visibleCount, result.current.isComplete]).toEqual([3, true]);
+  });
+
+  it('shows whole paragraphs instead of typing them with reduced motion', () => {
+    act(() => setReducedMotionPreference(true));
+    const { result } = setup({ mode: 'typewriter' });
+    wait(600);
+    expect([result.current.visibleCount, result.current.typedCount]).toEqual([1, null]);
+  });
+
+  it('holds still while paused or driven by narration', () => {
+    const { result, rerender } = setup({ mode: 'reading' }, { initialCount: 1 });
+    act(() => result.current.pause());
+    wait(60000);
+    expect(result.current.visibleCount).toBe(1);
+    act(() => result.current.resume());
+    rerender({ externallyDriven: true });
+    wait(60000);
+    expect(result.current.visibleCount).toBe(1);
+  });
+
+  it('scrolls the newest paragraph into view, gently unless motion is reduced', () => {
+    const { result, elements } = setup({ mode: 'manual' });
+    act(() => result.current.next());
+    expect(elements[0].scrollIntoView).toHaveBeenCalledWith({ block: 'nearest', behavior: 'smooth' });
+
+    act(() => setReducedMotionPreference(true));
+    act(() => result.current.revealUpTo(1));
+    expect(elements[1].scrollIntoView).toHaveBeenCalledWith({ block: 'nearest', behavior: 'auto' });
+  });
+
+  it('leaves a reader who scrolled back up where they are', () => {
+    const { result, elements } = setup({ mode: 'manual' });
+    act(() => result.current.next());
+    // The first paragraph is now above the container
+    elements[0].getBoundingClientRect = () => ({ top: -500, bottom: -400 }) as DOMRect;
+    act(() => result.current.next());
+    expect(elements[1].scrollIntoView).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+import { splitGraphemes } from './letterMarkup';
+import { useReducedMotion } from './useReducedMotion';
+
+// Reveal Controller
+// Decides when each letter paragraph appears: paced to how long it takes to
+// read, typed out character by character, or advanced by the reader. It also
+// keeps the newest paragraph in view inside the letter's scroll container.
+
+export type RevealMode = 'reading' | 'typewriter' | 'manual';
+
+export interface RevealSettings {
+  mode: RevealMode;
+  // Reading speed for Latin-script text; Devanagari is read more slowly
+  wordsPerMinute?: number;
+  charactersPerSecond?: number;
+  autoScroll?: boolean;
+}
+
+const DEFAULT_WPM = 200;
+const DEFAULT_CPS = 28;
+const MIN_PARAGRAPH_MS = 1200;
+const TYPEWRITER_PARAGRAPH_GAP_MS = 700;
+// How much longer a fully Devanagari paragraph takes than the same number of
+// Latin words: conjuncts and matras make each word denser to read.
+const DEVANAGARI_SLOWDOWN = 1.35;
+
+export const SPEED_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const readingTimeMs = (text: string, wordsPerMinute = DEFAULT_WPM) => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const letters = text.replace(/[^\p{L}\p{M}]/gu, '');
+  const devanagariShare = letters.length === 0
+    ? 0
+    : letters.replace(/[^\u0900-\u097F]/g, '').length / letters.length;
+  const slowdown = 1 + (DEVANAGARI_SLOWDOWN - 1) * devanagariShare;
+  return Math.max(MIN_PARAGRAPH_MS, (words / wordsPerMinute) * 60000 * slowdown);
+};
+
+interface RevealControllerOptions {
+  paragraphs: string[];
+  settings: RevealSettings;
+  containerRef: RefObject<HTMLElement>;
+  paragraphRefs: RefObject<(HTMLElement | null)[]>;
+  // Narration (or anything else) driving the reveal suspends the timers
+  externallyDriven?: boolean;
+  // Paragraphs already shown, e.g. when resuming a letter read earlier
+  initialCount?: number;
+}
+
+export const useRevealController = ({
+  paragraphs,
+  settings,
+  containerRef,
+  paragraphRefs,
+  externallyDriven = false,
+  initialCount = 0,
+}: RevealControllerOptions) => {
+  const reducedMotion = useReducedMotion();
+  const [visibleCount, setVisibleCount] = useState(() => Math.min(paragraphs.length, Math.max(0, initialCount)));
+  // Graphemes typed so far of paragraph `visibleCount - 1` in typewriter mode;
+  // paragraphs are plain text, so callers map the count back onto their markup
+  const [typedCount, setTypedCount] = useState<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const { mode, autoScroll = true } = settings;
+  const wordsPerMinute = (settings.wordsPerMinute ?? DEFAULT_WPM) * speed;
+  const charactersPerSecond = (settings.charactersPerSecond ?? DEFAULT_CPS) * speed;
+  const graphemes = useMemo(() => paragraphs.map(splitGraphemes), [paragraphs]);
+  const isComplete = visibleCount >= paragraphs.length && typedCount === null;
+  const isRunning = !paused && !externallyDriven && mode !== 'manual' && !isComplete;
+
+  // Timed modes
+  useEffect(() => {
+    if (!isRunning) return;
+
+    if (mode === 'typewriter' && !reducedMotion) {
+      if (typedCount === null) {
+        // Gap before starting the next paragraph (none before the first)
+        const timer = setTimeout(() => {
+          setVisibleCount((count) => count + 1);
+          setTypedCount(0);
+        }, visibleCount === 0 ? 300 : TYPEWRITER_PARAGRAPH_GAP_MS);
+        return () => clearTimeout(timer);
+      }
+      const total = graphemes[visibleCount - 1]?.length ?? 0;
+      if (typedCount >= total) {
+        setTypedCount(null);
+        return;
+      }
+      const timer = setTimeout(() => setTypedCount((count) => (count ?? 0) + 1), 1000 / charactersPerSecond);
+      return () => clearTimeout(timer);
+    }
+
+    // Reading pace: the next paragraph appears once the previous one has had
+    // time to be read.
+    const previous = paragraphs[visibleCount - 1];
+    const delay = previous === undefined ? 600 : readingTimeMs(previous, wordsPerMinute);
+    const timer = setTimeout(() => setVisibleCount((count) => Math.min(paragraphs.length, count + 1)), delay);
+    return () => clearTimeout(timer);
+  }, [isRunning, mode, reducedMotion, visibleCount, typedCount, graphemes, paragraphs, wordsPerMinute, charactersPerSecond]);
+
+  // Keep the newest paragraph in view, but only while the reader is following
+  // along; someone who scrolled back up to re-read is left alone.
+  const lastScrolledRef = useRef(0);
+  useEffect(() => {
+    if (!autoScroll || visibleCount === 0) return;
+    const container = containerRef.current;
+    const newest = paragraphRefs.current?.[visibleCount - 1];
+    const previous = paragraphRefs.current?.[visibleCount - 2];
+    if (!container || !newest) return;
+
+    if (previous && lastScrolledRef.current > 0) {
+      const containerBox = container.getBoundingClientRect();
+      const previousBox = previous.getBoundingClientRect();
+      const following = previousBox.bottom > containerBox.top && previousBox.top < containerBox.bottom;
+      if (!following) return;
+    }
+    lastScrolledRef.current = visibleCount;
+    newest.scrollIntoView({ block: 'nearest', behavior: reducedMotion ? 'auto' : 'smooth' });
+  }, [visibleCount, typedCount !== null && typedCount % 40 === 0, autoScroll, reducedMotion]);
+
+  const finishTyping = () => {
+    if (typedCount !== null) {
+      setTypedCount(null);
+      return true;
+    }
+    return false;
+  };
+
+  // Reveal the next paragraph now (or finish the one being typed)
+  const next = () => {
+    if (finishTyping()) return;
+    setVisibleCount((count) => Math.min(paragraphs.length, count + 1));
+  };
+
+  const back = () => {
+    setTypedCount(null);
+    setPaused(true);
+    setVisibleCount((count) => Math.max(1, count - 1));
+  };
+
+  const revealUpTo = (index: number) => {
+    setTypedCount(null);
+    setVisibleCount((count) => Math.max(count, Math.min(paragraphs.length, index + 1)));
+  };
+
+  const revealAll = () => {
+    setTypedCount(null);
+    setVisibleCount(paragraphs.length);
+  };
+
+  const changeSpeed = (direction: 1 | -1) => {
+    setSpeed((current) => {
+      const index = SPEED_STEPS.indexOf(current);
+      return SPEED_STEPS[Math.min(SPEED_STEPS.length - 1, Math.max(0, index + direction))];
+    });
+  };
+
+  return {
+    visibleCount,
+    typedCount,
+    paused,
+    speed,
+    isComplete,
+    reducedMotion,
+    pause: () => setPaused(true),
+    resume: () => setPaused(false),
+    next,
+    back,
+    revealUpTo,
+    revealAll,
+    slower: () => changeSpeed(-1),
+    faster: () => changeSpeed(1),
+  };
+};
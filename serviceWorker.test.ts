@@ -0,0 +1,76 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The worker registers its listeners on `self` when it loads; the Cache API is
+// kept in memory, and the network answers with the current build
+const stored = new Map<string, Response>();
+const cache = {
+  match: async (request: Request | string) => stored.get(typeof request === 'string' ? request : request.url)?.clone(),
+  put: async (request: Request | string, response: Response) => {
+    stored.set(typeof request === 'string' ? request : request.url, response);
+  },
+};
+const listeners = new Map<string, (event: unknown) => void>();
+let build = 'v2';
+let online = true;
+const network = vi.fn(async (request: Request | string) => {
+  if (!online) throw new TypeError('Failed to fetch');
+  return new Response(`${build} of ${typeof request === 'string' ? request : request.url}`);
+});
+
+beforeAll(async () => {
+  vi.stubGlobal('self', {
+    location: new URL('https://radha.example/sw.js'),
+    addEventListener: (type: string, listener: (event: unknown) => void) => listeners.set(type, listener),
+  });
+  vi.stubGlobal('caches', { open: async () => cache, match: cache.match, keys: async () => [] });
+  vi.stubGlobal('fetch', network);
+  await import('./serviceWorker');
+});
+
+beforeEach(() => {
+  stored.clear();
+  network.mockClear();
+  build = 'v2';
+  online = true;
+});
+
+// Dispatches a fetch and waits for the answer and any work it left running
+const request = async (url: string, destination: string) => {
+  let response: Promise<Response> | undefined;
+  const pending: Promise<unknown>[] = [];
+  listeners.get('fetch')!({
+    request: { url, method: 'GET', mode: 'no-cors', destination },
+    respondWith: (answer: Promise<Response>) => {
+      response = answer;
+    },
+    waitUntil: (work: Promise<unknown>) => pending.push(work),
+  });
+  const text = await (await response!).text();
+  await Promise.all(pending);
+  return text;
+};
+
+describe('service worker', () => {
+  it('answers scripts from the cache and refreshes them for the next load', async () => {
+    const url = 'https://radha.example/assets/app.js';
+    stored.set(url, new Response(`v1 of ${url}`));
+
+    expect(await request(url, 'script')).toBe(`v1 of ${url}`);
+    expect(await request(url, 'script')).toBe(`v2 of ${url}`);
+  });
+
+  it('still answers a cached stylesheet offline', async () => {
+    const url = 'https://radha.example/assets/app.css';
+    stored.set(url, new Response(`v1 of ${url}`));
+    online = false;
+    expect(await request(url, 'style')).toBe(`v1 of ${url}`);
+  });
+
+  it('keeps serving media from the cache without going to the network', async () => {
+    const url = 'https://radha.example/music/yaman.mp3';
+    expect(await request(url, 'audio')).toBe(`v2 of ${url}`);
+    build = 'v3';
+    expect(await request(url, 'audio')).toBe(`v2 of ${url}`);
+    expect(network).toHaveBeenCalledTimes(1);
+  });
+});
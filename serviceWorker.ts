@@ -0,0 +1,166 @@
+import type { PrecacheMessage } from './offline';
+
+// Service Worker
+// Served as /sw.js (see offline.ts). Pages are fetched network-first so a new
+// deploy shows up as soon as there is signal, falling back to the cached app
+// shell. Scripts and styles are answered from the cache but refreshed from the
+// network behind it (stale-while-revalidate), so a deploy reaches returning
+// visitors on their next load without a cache version bump. Everything else
+// (fonts, photos, tracks, the keyword model) does not change under its URL and
+// is served from the cache first, stored the first time it is fetched.
+//
+// Fonts: a cached stylesheet's @font-face files are cached with it, every
+// subset rather than only those the first visit happened to draw, so the
+// Devanagari and script faces render offline too.
+
+// The page's DOM lib types `self` as a Window; these are the parts of the
+// worker scope used here
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: unknown;
+}
+
+interface WorkerScope {
+  location: Location;
+  registration: ServiceWorkerRegistration;
+  clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+const worker = self as unknown as WorkerScope;
+
+// Bump to drop every cache an older worker filled; a deploy does not need it
+const CACHE_VERSION = 1;
+const SHELL_CACHE = `radha-radha-shell-v${CACHE_VERSION}`;
+const ASSET_CACHE = `radha-radha-assets-v${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+const FONT_URL_PATTERN = /url\(\s*['"]?([^'")]+\.(?:woff2?|ttf|otf)[^'")]*)['"]?\s*\)/gi;
+
+const isCacheable = (response: Response) => response.ok || response.type === 'opaque';
+
+// Other origins (CDNs, font hosts) are fetched without CORS; their opaque
+// responses can still be cached and played back
+const fetchForCache = (url: string) => {
+  const sameOrigin = new URL(url, worker.location.href).origin === worker.location.origin;
+  return fetch(url, sameOrigin ? undefined : { mode: 'no-cors' });
+};
+
+const cacheFontsOf = async (cache: Cache, stylesheet: Response, base: string) => {
+  if (stylesheet.type === 'opaque' || !(stylesheet.headers.get('content-type') ?? '').includes('css')) return;
+  const css = await stylesheet.text();
+  const fonts = Array.from(css.matchAll(FONT_URL_PATTERN), (match) => new URL(match[1], base).href);
+  await Promise.all(fonts.map((font) => cacheUrl(cache, font)));
+};
+
+// One missing asset must not stop the rest from being cached
+const cacheUrl = async (cache: Cache, url: string): Promise<void> => {
+  try {
+    if (await cache.match(url)) return;
+    const response = await fetchForCache(url);
+    if (!isCacheable(response)) return;
+    await cache.put(url, response.clone());
+    await cacheFontsOf(cache, response, response.url || url);
+  } catch (error) {
+    console.warn(`Could not cache ${url}:`, error);
+  }
+};
+
+const precache = async (urls: string[]) => {
+  const cache = await caches.open(ASSET_CACHE);
+  await Promise.all(urls.map((url) => cacheUrl(cache, url)));
+};
+
+const networkFirst = async (request: Request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // Any page of the app is the same shell; the hash picks what it shows
+    const cached = (await cache.match(request, { ignoreSearch: true })) ?? (await cache.match('/'));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request: Request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Partial responses (audio seeking) cannot be stored; once the whole file
+  // is cached, seeking is answered from it
+  if (isCacheable(response) && response.status !== 206) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const isCode = (request: Request) =>
+  request.destination === 'script' ||
+  request.destination === 'style' ||
+  request.destination === 'worker' ||
+  /\.(?:m?js|css)$/.test(new URL(request.url).pathname);
+
+const staleWhileRevalidate = async (event: FetchEvent) => {
+  const { request } = event;
+  const cached = await caches.match(request);
+  const refreshed = fetch(request).then(async (response) => {
+    if (isCacheable(response)) {
+      const cache = await caches.open(ASSET_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  });
+  if (!cached) return refreshed;
+  // Offline, the cached copy is all there is
+  event.waitUntil(refreshed.catch(() => undefined));
+  return cached;
+};
+
+worker.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => Promise.all(SHELL_URLS.map((url) => cacheUrl(cache, url))))
+      .then(() => worker.skipWaiting())
+  );
+});
+
+worker.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('radha-radha-') && key !== SHELL_CACHE && key !== ASSET_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => worker.clients.claim())
+  );
+});
+
+worker.addEventListener('message', (event) => {
+  const message = event.data as PrecacheMessage | null;
+  if (message?.type === 'precache' && Array.isArray(message.urls)) {
+    event.waitUntil(precache(message.urls));
+  }
+});
+
+worker.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Posting analytics and the like never goes through the cache
+  if (request.method !== 'GET' || !request.url.startsWith('http')) return;
+  if (request.mode === 'navigate') event.respondWith(networkFirst(request));
+  else if (isCode(request)) event.respondWith(staleWhileRevalidate(event));
+  else event.respondWith(cacheFirst(request));
+});
@@ -0,0 +1,178 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { useState } from 'react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadExperienceScript, type StageDefinition } from './experienceScript';
+import { translate } from './i18n';
+import {
+  StagePipeline,
+  createStageRegistry,
+  defineStage,
+  resolveNextStage,
+  useStageFlow,
+  useStageMemory,
+  type StageMemory,
+  type StageProps,
+} from './stagePipeline';
+
+const stage = (id: string, next?: StageDefinition['next']): StageDefinition => ({ id, type: 'letter', next, content: {} });
+
+describe('resolveNextStage', () => {
+  const stages = [
+    stage('lock'),
+    stage('proposal', { yes: 'celebrate', declined: 'goodbye' }),
+    stage('celebrate', 'lock'),
+    stage('goodbye'),
+  ];
+
+  it('continues to the next stage listed', () => {
+    expect(resolveNextStage(stages, 'lock')).toBe('proposal');
+    expect(resolveNextStage(stages, 'goodbye')).toBeNull();
+  });
+
+  it('follows a fixed next stage whatever the outcome', () => {
+    expect(resolveNextStage(stages, 'celebrate', 'yes')).toBe('lock');
+  });
+
+  it('branches on the outcome', () => {
+    expect(resolveNextStage(stages, 'proposal', 'yes')).toBe('celebrate');
+    expect(resolveNextStage(stages, 'proposal', 'declined')).toBe('goodbye');
+  });
+
+  it('stays on the stage for an outcome the map does not mention', () => {
+    expect(resolveNextStage(stages, 'proposal', 'skipped')).toBeNull();
+    expect(resolveNextStage(stages, 'proposal')).toBeNull();
+  });
+
+  it('falls back to "default"', () => {
+    const withDefault = [stage('proposal', { yes: 'celebrate', default: 'goodbye' }), stage('celebrate'), stage('goodbye')];
+    expect(resolveNextStage(withDefault, 'proposal', 'declined')).toBe('goodbye');
+    expect(resolveNextStage(withDefault, 'proposal', 'yes')).toBe('celebrate');
+  });
+});
+
+// A stage that remembers how often it was tapped
+const TapStage = ({ content, onComplete }: StageProps<{ label: string }>) => {
+  const memory = useStageMemory<{ taps: number }>();
+  const [taps, setTaps] = useState(typeof memory.saved?.taps === 'number' ? memory.saved.taps : 0);
+  const tap = () => {
+    setTaps(taps + 1);
+    memory.save({ taps: taps + 1 });
+  };
+  return (
+    <>
+      <p>{`${content.label}: ${taps}`}</p>
+      <button onClick={tap}>tap</button>
+      <button onClick={() => onComplete()}>next</button>
+    </>
+  );
+};
+
+const registry = createStageRegistry([
+  defineStage({ type: 'tap', readContent: (content) => ({ label: content.string('label') }), component: TapStage }),
+]);
+
+// a → b → a → b …
+const loop = loadExperienceScript({
+  version: 2,
+  id: 'loop',
+  recipient: { name: 'Asha' },
+  author: { name: 'Ravi' },
+  stages: [
+    { id: 'a', type: 'tap', next: 'b', content: { label: 'a' } },
+    { id: 'b', type: 'tap', next: 'a', content: { label: 'b' } },
+  ],
+}, registry);
+
+const createMemory = (stored: Record<string, unknown> = {}): StageMemory & { stored: Record<string, unknown> } => ({
+  stored,
+  load: (key) => stored[key],
+  save: (key, state) => {
+    if (state === undefined) delete stored[key];
+    else stored[key] = state;
+  },
+});
+
+describe('useStageFlow', () => {
+  const ids = (history: { stageId: string }[]) => history.map((visit) => visit.stageId);
+
+  it('moves on once however often a stage completes', () => {
+    const { result } = renderHook(() => useStageFlow(loop));
+    act(() => {
+      result.current.complete();
+      result.current.complete();
+    });
+    expect(ids(result.current.history)).toEqual(['a', 'b']);
+  });
+
+  it('ignores a stage that is no longer on screen', () => {
+    const { result } = renderHook(() => useStageFlow(loop));
+    const first = result.current.current;
+    act(() => result.current.complete());
+    act(() => result.current.complete(undefined, first));
+    expect(ids(result.current.history)).toEqual(['a', 'b']);
+  });
+
+  it('resumes a saved history and drops stages the script no longer has', () => {
+    const { result } = renderHook(() => useStageFlow(loop, ['a', 'gone', 'b']));
+    expect(result.current.history).toEqual([{ stageId: 'a', visit: 0 }, { stageId: 'b', visit: 1 }]);
+    act(() => result.current.restart());
+    expect(result.current.history).toEqual([{ stageId: 'a', visit: 0 }]);
+  });
+});
+
+const press = (name: string) => fireEvent.click(screen.getByRole('button', { name }));
+
+describe('StagePipeline memory', () => {
+  afterEach(cleanup);
+
+  const renderLoop = (memory = createMemory(), initialHistory?: string[]) => {
+    render(<StagePipeline experience={loop} registry={registry} memory={memory} initialHistory={initialHistory} />);
+    return memory;
+  };
+
+  it('gives a stage back its state when the recipient returns to it', () => {
+    renderLoop();
+    press('tap');
+    press('tap');
+    press('next');
+    expect(screen.getByText('b: 0')).toBeTruthy();
+    press(translate('hi', 'nav.back'));
+    expect(screen.getByText('a: 2')).toBeTruthy();
+  });
+
+  it('starts a stage afresh when the flow reaches it again', () => {
+    const memory = renderLoop();
+    press('tap');
+    press('next');
+    press('next');
+    expect(screen.getByText('a: 0')).toBeTruthy();
+    expect(memory.stored).toEqual({ 'a@0': { taps: 1 } });
+  });
+
+  it('forgets a visit that was left with Back', () => {
+    renderLoop();
+    press('next');
+    press('tap');
+    press(translate('hi', 'nav.back'));
+    press('next');
+    expect(screen.getByText('b: 0')).toBeTruthy();
+  });
+
+  it('forgets every visit on restart', () => {
+    const memory = renderLoop();
+    press('tap');
+    press('next');
+    press('tap');
+    press(translate('hi', 'nav.restart'));
+    expect(screen.getByText('a: 0')).toBeTruthy();
+    expect(memory.stored).toEqual({});
+  });
+
+  it('resumes each visit of a saved flow with its own state', () => {
+    renderLoop(createMemory({ 'a@0': { taps: 1 }, 'b@1': { taps: 2 }, 'a@2': { taps: 3 } }), ['a', 'b', 'a']);
+    expect(screen.getByText('a: 3')).toBeTruthy();
+    press(translate('hi', 'nav.back'));
+    expect(screen.getByText('b: 2')).toBeTruthy();
+  });
+});
@@ -0,0 +1,244 @@
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type ComponentType } from 'react';
+import { useAudioDirector } from './audioDirector';
+import { localizeStageContent, type ExperienceScript, type FieldReader, type StageDefinition } from './experienceScript';
+import { useI18n } from './i18n';
+
+// Stage Plugins
+// Every stage component receives the same props; what it renders is driven by
+// its validated content block, and it reports completion with an optional
+// outcome that the flow can branch on.
+export interface StageProps<TContent = unknown> {
+  content: TContent;
+  experience: ExperienceScript;
+  onComplete: (outcome?: string) => void;
+}
+
+export interface StagePlugin<TContent = unknown> {
+  type: string;
+  readContent: (content: FieldReader) => TContent;
+  component: ComponentType<StageProps<TContent>>;
+}
+
+export type StageRegistry = Record<string, StagePlugin<any>>;
+
+export const defineStage = <TContent,>(plugin: StagePlugin<TContent>) => plugin;
+
+export const createStageRegistry = (plugins: StagePlugin<any>[]): StageRegistry =>
+  Object.fromEntries(plugins.map((plugin) => [plugin.type, plugin]));
+
+// Flow
+// A stage without `next` continues to the one listed after it. An outcome the
+// `next` map does not mention (and no "default") leaves the stage on screen.
+export const resolveNextStage = (
+  stages: StageDefinition[],
+  currentId: string,
+  outcome?: string
+): string | null => {
+  const index = stages.findIndex((stage) => stage.id === currentId);
+  const stage = stages[index];
+  if (!stage) return null;
+
+  if (stage.next === undefined) {
+    return stages[index + 1]?.id ?? null;
+  }
+  if (typeof stage.next === 'string') {
+    return stage.next;
+  }
+  return (outcome !== undefined ? stage.next[outcome] : undefined) ?? stage.next.default ?? null;
+};
+
+// Visits are numbered by their place in the history, which is also what a
+// resumed flow rebuilds them from
+export interface StageVisit {
+  stageId: string;
+  visit: number;
+}
+
+// `initialHistory` resumes a flow saved earlier; ids the script no longer has
+// are dropped.
+export const useStageFlow = (experience: ExperienceScript, initialHistory?: string[]) => {
+  const firstStageId = experience.stages[0].id;
+  const [history, setHistory] = useState<StageVisit[]>(() => {
+    const resumed = (initialHistory ?? []).filter((stageId) => experience.stages.some((stage) => stage.id === stageId));
+    return resumed.length > 0
+      ? resumed.map((stageId, visit) => ({ stageId, visit }))
+      : [{ stageId: firstStageId, visit: 0 }];
+  });
+  const current = history[history.length - 1];
+
+  // `from` is the visit asking to move on; one that is no longer on screen (a
+  // second tap, a timer firing after the stage was left) is ignored
+  const complete = (outcome?: string, from: StageVisit = current) => {
+    setHistory((previous) => {
+      const last = previous[previous.length - 1];
+      if (last.stageId !== from.stageId || last.visit !== from.visit) return previous;
+      const nextId = resolveNextStage(experience.stages, last.stageId, outcome);
+      return nextId === null ? previous : [...previous, { stageId: nextId, visit: previous.length }];
+    });
+  };
+
+  const back = () => {
+    setHistory((previous) => (previous.length > 1 ? previous.slice(0, -1) : previous));
+  };
+
+  const restart = () => {
+    setHistory([{ stageId: firstStageId, visit: 0 }]);
+  };
+
+  return {
+    history,
+    current,
+    stage: experience.stages.find((stage) => stage.id === current.stageId)!,
+    canGoBack: history.length > 1,
+    complete,
+    back,
+    restart,
+  };
+};
+
+// Stage Memory
+// Somewhere for a stage to keep its own state (how much of the letter has been
+// read, the answer given) so it can pick up where it was after a reload. The
+// pipeline scopes it to the visit on screen, so a stage reached again later in
+// the flow starts afresh, and forgets a visit that is left with "Back".
+export interface StageMemory {
+  load: (key: string) => unknown;
+  save: (key: string, state: unknown) => void;
+}
+
+export const stageMemoryKey = ({ stageId, visit }: StageVisit) => `${stageId}@${visit}`;
+
+const StageMemoryContext = createContext<{ key: string; memory: StageMemory } | null>(null);
+
+// `saved` comes from storage, so stages should check its shape before using it.
+// Outside a pipeline with memory (e.g. the editor preview) nothing is kept.
+export const useStageMemory = <TState,>() => {
+  const scope = useContext(StageMemoryContext);
+  return {
+    saved: scope?.memory.load(scope.key) as Partial<TState> | undefined,
+    save: (state: TState) => scope?.memory.save(scope.key, state),
+  };
+};
+
+// Stage Navigation Component
+interface StageNavigationProps {
+  canGoBack: boolean;
+  showBack: boolean;
+  showRestart: boolean;
+  onBack: () => void;
+  onRestart: () => void;
+}
+
+const StageNavigation = ({ canGoBack, showBack, showRestart, onBack, onRestart }: StageNavigationProps) => {
+  const { t } = useI18n();
+
+  if (!canGoBack) {
+    return null;
+  }
+
+  return (
+    <div className="fixed top-4 left-4 z-50 flex gap-2">
+      {showBack && (
+        <button
+          onClick={onBack}
+          className="bg-romantic/80 hover:bg-romantic text-white p-3 rounded-full transition-all duration-300 shadow-lg"
+          title={t('nav.back')}
+          aria-label={t('nav.back')}
+        >
+          ⬅️
+        </button>
+      )}
+      {showRestart && (
+        <button
+          onClick={onRestart}
+          className="bg-romantic/80 hover:bg-romantic text-white p-3 rounded-full transition-all duration-300 shadow-lg"
+          title={t('nav.restart')}
+          aria-label={t('nav.restart')}
+        >
+          🔄
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Stage Pipeline Component
+interface StagePipelineProps {
+  experience: ExperienceScript;
+  registry: StageRegistry;
+  initialHistory?: string[];
+  memory?: StageMemory;
+  onHistoryChange?: (stageIds: string[]) => void;
+  onRestart?: () => void;
+}
+
+export const StagePipeline = ({
+  experience,
+  registry,
+  initialHistory,
+  memory,
+  onHistoryChange,
+  onRestart,
+}: StagePipelineProps) => {
+  const { history, current, stage, canGoBack, complete, back, restart } = useStageFlow(experience, initialHistory);
+  const StageComponent = registry[stage.type].component;
+  const director = useAudioDirector();
+  // Switching language swaps the stage's text without restarting it
+  const { locale } = useI18n();
+  const content = useMemo(() => localizeStageContent(stage, locale, registry), [stage, locale, registry]);
+
+  const onHistoryChangeRef = useRef(onHistoryChange);
+  onHistoryChangeRef.current = onHistoryChange;
+  useEffect(() => {
+    onHistoryChangeRef.current?.(history.map((visit) => visit.stageId));
+  }, [history]);
+
+  const handleBack = () => {
+    memory?.save(stageMemoryKey(current), undefined);
+    back();
+  };
+
+  const handleRestart = () => {
+    history.forEach((visit) => memory?.save(stageMemoryKey(visit), undefined));
+    onRestart?.();
+    restart();
+  };
+
+  // Each new stage takes the focus, on the element it marks with
+  // `data-autofocus` or else on the stage as a whole, so keyboard and screen
+  // reader users are not left on a control that has gone.
+  const stageRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const container = stageRef.current;
+    const target = container?.querySelector<HTMLElement>('[data-autofocus]') ?? container;
+    target?.focus({ preventScroll: true });
+  }, [current.stageId, current.visit]);
+
+  useEffect(() => {
+    if (director && stage.music) {
+      director.play(stage.music);
+    }
+  }, [director, stage]);
+
+  return (
+    <>
+      <StageMemoryContext.Provider value={memory ? { key: stageMemoryKey(current), memory } : null}>
+        <div ref={stageRef} tabIndex={-1} className="outline-none">
+          <StageComponent
+            key={`${current.stageId}-${current.visit}`}
+            content={content}
+            experience={experience}
+            onComplete={(outcome) => complete(outcome, current)}
+          />
+        </div>
+      </StageMemoryContext.Provider>
+      <StageNavigation
+        canGoBack={canGoBack}
+        showBack={experience.navigation.back}
+        showRestart={experience.navigation.restart}
+        onBack={handleBack}
+        onRestart={handleRestart}
+      />
+    </>
+  );
+};
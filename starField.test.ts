@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStarField, type ConstellationShape } from './starField';
+
+// A 2D context that keeps what the last frame drew
+const createCanvas = () => {
+  const drawn = { stars: [] as [number, number][], lines: 0 };
+  let path: [number, number] | null = null;
+  const context = {
+    setTransform: vi.fn(),
+    clearRect: () => {
+      drawn.stars = [];
+      drawn.lines = 0;
+    },
+    beginPath: vi.fn(),
+    arc: (x: number, y: number) => {
+      path = [x, y];
+    },
+    fill: () => {
+      if (path) drawn.stars.push(path);
+      path = null;
+    },
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: () => {
+      drawn.lines++;
+    },
+  };
+  const listeners = new Set<(event: PointerEvent) => void>();
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => context,
+    getBoundingClientRect: () => ({ left: 10, top: 20 }),
+    addEventListener: (_type: string, listener: (event: PointerEvent) => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: (event: PointerEvent) => void) => listeners.delete(listener),
+  } as unknown as HTMLCanvasElement;
+  const pointerDown = (clientX: number, clientY: number) =>
+    listeners.forEach((listener) => listener({ clientX, clientY } as PointerEvent));
+  return { canvas, context, drawn, listeners, pointerDown };
+};
+
+// Frames run only when the test asks, 100 ms apart
+let frames = new Map<number, FrameRequestCallback>();
+let lastFrame = 0;
+let now = 0;
+const runFrames = (count: number) => {
+  for (let i = 0; i < count; i++) {
+    const pending = [...frames.values()];
+    frames = new Map();
+    now += 100;
+    pending.forEach((callback) => callback(now));
+  }
+};
+
+beforeEach(() => {
+  frames = new Map();
+  now = 0;
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frames.set(++lastFrame, callback);
+    return lastFrame;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (frame: number) => frames.delete(frame));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// Four corners, joined round
+const square: ConstellationShape = {
+  points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+  edges: [[0, 1], [1, 2], [2, 3], [3, 0]],
+  aspect: 1,
+};
+
+describe('createStarField', () => {
+  it('sizes the backing store for the pixel ratio and draws in CSS pixels', () => {
+    const { canvas, context } = createCanvas();
+    const field = createStarField(canvas);
+    field.resize(300, 200, 2);
+    expect([canvas.width, canvas.height]).toEqual([600, 400]);
+    expect(context.setTransform).toHaveBeenLastCalledWith(2, 0, 0, 2, 0, 0);
+
+    // Very dense screens are capped rather than allocating a huge canvas
+    field.resize(300, 200, 5);
+    expect([canvas.width, canvas.height]).toEqual([900, 600]);
+  });
+
+  it('stops drawing and listening once disposed', () => {
+    const { canvas, drawn, listeners } = createCanvas();
+    const field = createStarField(canvas, { starCount: 5 });
+    field.resize(100, 100);
+    runFrames(1);
+    expect(frames.size).toBe(1);
+    expect(listeners.size).toBe(1);
+
+    field.dispose();
+    expect(frames.size).toBe(0);
+    expect(listeners.size).toBe(0);
+    drawn.stars = [];
+    runFrames(5);
+    expect(drawn.stars).toEqual([]);
+  });
+
+  it('keeps the sky bounded however often it is tapped', () => {
+    const { canvas, drawn } = createCanvas();
+    const field = createStarField(canvas, { starCount: 10 });
+    field.resize(400, 400);
+    for (let tap = 0; tap < 200; tap++) field.tap(tap % 400, 200);
+    runFrames(1);
+    // Ten stars and at most sixty sparkles
+    expect(drawn.stars.length).toBe(70);
+
+    // The sparkles fade out
+    runFrames(20);
+    expect(drawn.stars.length).toBe(10);
+  });
+
+  it('links a star per tap and then forms the constellation', () => {
+    const { canvas, drawn, pointerDown } = createCanvas();
+    const onConnect = vi.fn();
+    const onFormed = vi.fn();
+    const field = createStarField(canvas, { starCount: 10, constellation: { taps: 3, shape: square }, onConnect, onFormed });
+    field.resize(400, 400);
+
+    // A pointer is placed relative to the canvas
+    pointerDown(60, 70);
+    field.tap(350, 350);
+    runFrames(1);
+    expect(onConnect.mock.calls).toEqual([[1], [2]]);
+    expect(drawn.lines).toBe(1);
+
+    field.tap(200, 200);
+    expect(onConnect).toHaveBeenLastCalledWith(3);
+    runFrames(10);
+    expect(onFormed).not.toHaveBeenCalled();
+    runFrames(20);
+    expect(onFormed).toHaveBeenCalledTimes(1);
+
+    // The square sits in the shape box, centred a little above the middle
+    expect(drawn.lines).toBe(4);
+    const placed = drawn.stars.map((star) => star.map(Math.round));
+    expect(placed).toEqual(expect.arrayContaining([[120, 80], [280, 80], [280, 240], [120, 240]]));
+
+    // Taps after that only sparkle
+    field.tap(10, 10);
+    expect(onConnect).toHaveBeenCalledTimes(3);
+  });
+
+  it('forms the constellation at once with reduced motion', () => {
+    const { canvas } = createCanvas();
+    const onFormed = vi.fn();
+    const field = createStarField(canvas, {
+      starCount: 2,
+      reducedMotion: true,
+      constellation: { taps: 1, shape: square },
+      onFormed,
+    });
+    field.resize(400, 400);
+    field.tap(0, 0);
+    runFrames(1);
+    expect(onFormed).toHaveBeenCalledTimes(1);
+  });
+});
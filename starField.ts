@@ -0,0 +1,348 @@
+// Star Field
+// The twinkling sky behind the proposal. Taps leave short-lived sparkles; in
+// constellation mode each tap instead links the nearest free star to the
+// chain, and once enough are linked the stars glide into a shape (a heart, or
+// a name) drawn as a constellation. Star positions are kept as fractions of
+// the canvas so a resize keeps the sky as it was. Nothing here depends on
+// React, and the canvas only needs the 2D context calls used below and a
+// pointerdown listener, so it can be driven with a mocked canvas.
+
+export interface StarPoint {
+  x: number;
+  y: number;
+}
+
+// Points in a unit box, and the pairs of points joined by lines
+export interface ConstellationShape {
+  points: StarPoint[];
+  edges: [number, number][];
+  // Width over height of the shape, to place it without stretching
+  aspect: number;
+}
+
+export interface StarFieldOptions {
+  starCount?: number;
+  reducedMotion?: boolean;
+  constellation?: {
+    taps: number;
+    shape: ConstellationShape;
+  };
+  onConnect?: (connected: number) => void;
+  onFormed?: () => void;
+}
+
+export interface StarField {
+  resize: (width: number, height: number, pixelRatio?: number) => void;
+  // CSS pixels relative to the canvas
+  tap: (x: number, y: number) => void;
+  dispose: () => void;
+}
+
+interface Star {
+  x: number;
+  y: number;
+  size: number;
+  phase: number;
+  // Where the star glides to while the constellation forms
+  from?: StarPoint;
+  to?: StarPoint;
+}
+
+interface Sparkle {
+  x: number;
+  y: number;
+  size: number;
+  age: number;
+}
+
+const DEFAULT_STAR_COUNT = 100;
+const MAX_SPARKLES = 60;
+const SPARKLE_SECONDS = 1.2;
+const FORM_SECONDS = 2.5;
+// The shape fills at most this much of the sky, centred a little above the middle
+const SHAPE_WIDTH = 0.7;
+const SHAPE_HEIGHT = 0.4;
+const SHAPE_CENTRE_Y = 0.4;
+
+// Shapes
+export const heartShape = (count = 40): ConstellationShape => {
+  const raw = Array.from({ length: count }, (_, index) => {
+    const t = (index / count) * Math.PI * 2;
+    return {
+      x: 16 * Math.sin(t) ** 3,
+      y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)),
+    };
+  });
+  const { points, aspect } = normalize(raw);
+  return {
+    points,
+    edges: points.map((_, index) => [index, (index + 1) % points.length] as [number, number]),
+    aspect,
+  };
+};
+
+// Renders the text offscreen and keeps an even spread of the inked pixels,
+// each joined to its nearest neighbour.
+export const textShape = (text: string, count = 120, font = 'bold 120px serif'): ConstellationShape => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context || !text.trim()) return heartShape();
+  context.font = font;
+  const width = Math.ceil(context.measureText(text).width) + 20;
+  const height = 160;
+  canvas.width = width;
+  canvas.height = height;
+  context.font = font;
+  context.textBaseline = 'middle';
+  context.fillText(text, 10, height / 2);
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const inked: StarPoint[] = [];
+  const grid = 4;
+  for (let y = 0; y < height; y += grid) {
+    for (let x = 0; x < width; x += grid) {
+      if (data[(y * width + x) * 4 + 3] > 128) inked.push({ x, y });
+    }
+  }
+  if (inked.length === 0) return heartShape();
+
+  const stride = Math.max(1, inked.length / count);
+  const picked = Array.from({ length: Math.min(count, inked.length) }, (_, index) => inked[Math.floor(index * stride)]);
+  const { points, aspect } = normalize(picked);
+  return { points, edges: nearestNeighbourEdges(points), aspect };
+};
+
+const normalize = (raw: StarPoint[]) => {
+  const xs = raw.map((point) => point.x);
+  const ys = raw.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1;
+  const spanY = Math.max(...ys) - minY || 1;
+  return {
+    points: raw.map((point) => ({ x: (point.x - minX) / spanX, y: (point.y - minY) / spanY })),
+    aspect: spanX / spanY,
+  };
+};
+
+const nearestNeighbourEdges = (points: StarPoint[]) => {
+  const edges = new Map<string, [number, number]>();
+  points.forEach((point, index) => {
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    points.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const distance = (other.x - point.x) ** 2 + (other.y - point.y) ** 2;
+      if (distance < nearestDistance) {
+        nearest = otherIndex;
+        nearestDistance = distance;
+      }
+    });
+    if (nearest >= 0) {
+      const edge: [number, number] = index < nearest ? [index, nearest] : [nearest, index];
+      edges.set(edge.join(':'), edge);
+    }
+  });
+  return [...edges.values()];
+};
+
+const ease = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+export const createStarField = (canvas: HTMLCanvasElement, options: StarFieldOptions = {}): StarField => {
+  const context = canvas.getContext('2d');
+  const { constellation, reducedMotion = false } = options;
+  let width = 0;
+  let height = 0;
+  let pixelRatio = 1;
+  let frame: number | null = null;
+  let lastTime: number | null = null;
+  let elapsed = 0;
+
+  const stars: Star[] = Array.from({ length: options.starCount ?? DEFAULT_STAR_COUNT }, () => ({
+    x: Math.random(),
+    y: Math.random(),
+    size: Math.random() * 3 + 1,
+    phase: Math.random() * Math.PI * 2,
+  }));
+  let sparkles: Sparkle[] = [];
+
+  // Constellation progress: indices into `stars` in the order they were linked
+  const chain: number[] = [];
+  // Star index for each point of the shape, once forming has started
+  let shapeOrder: number[] = [];
+  let formStartedAt: number | null = null;
+  let formed = false;
+
+  // Shape points in canvas fractions, fitted into the shape box
+  const shapeTargets = () => {
+    if (!constellation || width === 0) return [];
+    const { shape } = constellation;
+    const boxAspect = (SHAPE_WIDTH * width) / (SHAPE_HEIGHT * height);
+    const scaleX = shape.aspect > boxAspect ? SHAPE_WIDTH : (SHAPE_HEIGHT * height * shape.aspect) / width;
+    const scaleY = shape.aspect > boxAspect ? (SHAPE_WIDTH * width) / shape.aspect / height : SHAPE_HEIGHT;
+    return shape.points.map((point) => ({
+      x: 0.5 + (point.x - 0.5) * scaleX,
+      y: SHAPE_CENTRE_Y + (point.y - 0.5) * scaleY,
+    }));
+  };
+
+  // The linked stars go first, then the nearest free ones; the sky gains
+  // stars if the shape needs more than it has.
+  const startForming = () => {
+    if (!constellation) return;
+    const targets = shapeTargets();
+    const order = [...chain, ...stars.map((_, index) => index).filter((index) => !chain.includes(index))];
+    while (order.length < targets.length) {
+      stars.push({ x: Math.random(), y: Math.random(), size: Math.random() * 2 + 1, phase: Math.random() * Math.PI * 2 });
+      order.push(stars.length - 1);
+    }
+    targets.forEach((target, index) => {
+      const star = stars[order[index]];
+      star.from = { x: star.x, y: star.y };
+      star.to = target;
+    });
+    shapeOrder = order.slice(0, targets.length);
+    formStartedAt = elapsed;
+  };
+
+  const formProgress = () => {
+    if (formStartedAt === null) return 0;
+    if (reducedMotion) return 1;
+    return Math.min(1, (elapsed - formStartedAt) / FORM_SECONDS);
+  };
+
+  const update = (seconds: number) => {
+    elapsed += seconds;
+    sparkles = sparkles
+      .map((sparkle) => ({ ...sparkle, age: sparkle.age + seconds }))
+      .filter((sparkle) => sparkle.age < SPARKLE_SECONDS);
+
+    if (formStartedAt !== null) {
+      const progress = ease(formProgress());
+      stars.forEach((star) => {
+        if (!star.from || !star.to) return;
+        star.x = star.from.x + (star.to.x - star.from.x) * progress;
+        star.y = star.from.y + (star.to.y - star.from.y) * progress;
+      });
+      if (progress >= 1 && !formed) {
+        formed = true;
+        options.onFormed?.();
+      }
+    }
+  };
+
+  const line = (from: Star, to: Star, alpha: number) => {
+    if (!context) return;
+    context.strokeStyle = `rgba(255, 236, 179, ${alpha})`;
+    context.lineWidth = 1.2;
+    context.beginPath();
+    context.moveTo(from.x * width, from.y * height);
+    context.lineTo(to.x * width, to.y * height);
+    context.stroke();
+  };
+
+  const draw = () => {
+    if (!context) return;
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    if (formStartedAt === null) {
+      chain.slice(1).forEach((starIndex, index) => line(stars[chain[index]], stars[starIndex], 0.7));
+    } else if (constellation) {
+      // Lines fade in as the shape settles
+      const alpha = formProgress() * 0.8;
+      constellation.shape.edges.forEach(([from, to]) => line(stars[shapeOrder[from]], stars[shapeOrder[to]], alpha));
+    }
+
+    stars.forEach((star, index) => {
+      const twinkle = reducedMotion ? 0.7 : 0.55 + 0.45 * Math.sin(star.phase + elapsed * 1.6);
+      const linked = chain.includes(index);
+      context.beginPath();
+      context.arc(star.x * width, star.y * height, linked ? star.size + 1.5 : star.size, 0, Math.PI * 2);
+      context.fillStyle = linked ? `rgba(255, 215, 0, ${Math.max(0.8, twinkle)})` : `rgba(255, 255, 255, ${twinkle})`;
+      context.fill();
+    });
+
+    sparkles.forEach((sparkle) => {
+      context.beginPath();
+      context.arc(sparkle.x * width, sparkle.y * height, sparkle.size, 0, Math.PI * 2);
+      context.fillStyle = `rgba(255, 255, 255, ${1 - sparkle.age / SPARKLE_SECONDS})`;
+      context.fill();
+    });
+  };
+
+  const tick = (time: number) => {
+    const seconds = lastTime === null ? 0 : Math.min(0.1, (time - lastTime) / 1000);
+    lastTime = time;
+    update(seconds);
+    draw();
+    frame = requestAnimationFrame(tick);
+  };
+
+  const tap = (x: number, y: number) => {
+    if (width === 0 || height === 0) return;
+    const fx = x / width;
+    const fy = y / height;
+
+    if (constellation && formStartedAt === null) {
+      let nearest = -1;
+      let nearestDistance = Infinity;
+      stars.forEach((star, index) => {
+        if (chain.includes(index)) return;
+        const distance = ((star.x - fx) * width) ** 2 + ((star.y - fy) * height) ** 2;
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      if (nearest < 0) return;
+      chain.push(nearest);
+      options.onConnect?.(chain.length);
+      if (chain.length >= constellation.taps) startForming();
+      return;
+    }
+
+    // Sparkles fade out and are capped, so tapping never grows the sky
+    for (let i = 0; i < 5; i++) {
+      sparkles.push({
+        x: fx + ((Math.random() - 0.5) * 50) / width,
+        y: fy + ((Math.random() - 0.5) * 50) / height,
+        size: Math.random() * 4 + 2,
+        age: 0,
+      });
+    }
+    sparkles = sparkles.slice(-MAX_SPARKLES);
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    tap(event.clientX - rect.left, event.clientY - rect.top);
+  };
+  canvas.addEventListener('pointerdown', handlePointerDown);
+
+  frame = requestAnimationFrame(tick);
+
+  return {
+    resize: (nextWidth, nextHeight, nextPixelRatio = 1) => {
+      width = nextWidth;
+      height = nextHeight;
+      pixelRatio = Math.min(3, nextPixelRatio);
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+      // Keep a forming or formed shape fitted to the new proportions
+      if (formStartedAt !== null) {
+        shapeTargets().forEach((target, index) => {
+          const star = stars[shapeOrder[index]];
+          if (star) star.to = target;
+        });
+      }
+      draw();
+    },
+    tap,
+    dispose: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+    },
+  };
+};
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useParallax } from './useParallax';
+
+let frames = new Map<number, FrameRequestCallback>();
+let lastFrame = 0;
+const runFrame = () =>
+  act(() => {
+    const pending = [...frames.values()];
+    frames = new Map();
+    pending.forEach((callback) => callback(0));
+  });
+
+const movePointer = (clientX: number, clientY: number) =>
+  window.dispatchEvent(Object.assign(new Event('pointermove'), { clientX, clientY }));
+
+beforeEach(() => {
+  frames = new Map();
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frames.set(++lastFrame, callback);
+    return lastFrame;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (frame: number) => frames.delete(frame));
+  window.innerWidth = 1000;
+  window.innerHeight = 500;
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe('useParallax', () => {
+  it('follows the pointer at most once a frame', () => {
+    const { result } = renderHook(() => useParallax(true));
+    movePointer(0, 0);
+    movePointer(750, 125);
+    expect(frames.size).toBe(1);
+    expect(result.current).toEqual({ x: 0, y: 0 });
+    runFrame();
+    expect(result.current).toEqual({ x: 0.5, y: -0.5 });
+  });
+
+  it('follows the tilt of a phone, within range', () => {
+    const { result } = renderHook(() => useParallax(true));
+    window.dispatchEvent(Object.assign(new Event('deviceorientation'), { gamma: 15, beta: 120 }));
+    runFrame();
+    expect(result.current).toEqual({ x: 0.5, y: 1 });
+  });
+
+  it('stays centred while disabled, as with reduced motion', () => {
+    const { result, rerender } = renderHook(({ enabled }) => useParallax(enabled), { initialProps: { enabled: true } });
+    movePointer(1000, 500);
+    runFrame();
+    expect(result.current).toEqual({ x: 1, y: 1 });
+
+    movePointer(0, 0);
+    rerender({ enabled: false });
+    expect(result.current).toEqual({ x: 0, y: 0 });
+    expect(frames.size).toBe(0);
+    movePointer(1000, 500);
+    expect(frames.size).toBe(0);
+    expect(result.current).toEqual({ x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+
+// Parallax Hook
+// Where the pointer is over the window, or how far the device is tilted, as
+// -1..1 on each axis; stays at the centre while disabled.
+const TILT_RANGE_DEGREES = 30;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+export const useParallax = (enabled: boolean) => {
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+
+  useEffect(() => {
+    if (!enabled) {
+      setOffset({ x: 0, y: 0 });
+      return;
+    }
+
+    // At most one update per frame, however fast the events arrive
+    let frame: number | null = null;
+    let next = { x: 0, y: 0 };
+    const queue = (x: number, y: number) => {
+      next = { x: clamp(x), y: clamp(y) };
+      if (frame === null) {
+        frame = requestAnimationFrame(() => {
+          frame = null;
+          setOffset(next);
+        });
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) =>
+      queue((e.clientX / window.innerWidth) * 2 - 1, (e.clientY / window.innerHeight) * 2 - 1);
+    // Phones are usually held tilted about 45° towards the reader
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      if (e.gamma === null || e.beta === null) return;
+      queue(e.gamma / TILT_RANGE_DEGREES, (e.beta - 45) / TILT_RANGE_DEGREES);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('deviceorientation', handleOrientation);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [enabled]);
+
+  return offset;
+};
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(QUERY).matches;
+
+// In-app setting
+// The recipient can ask for less motion from inside the app too. It can only
+// add to the system setting, never turn motion back on against it, and is
+// kept on the device for every experience.
+const STORAGE_KEY = 'radha-radha:reduced-motion';
+const listeners = new Set<() => void>();
+let preference: boolean | null = null;
+
+export const getReducedMotionPreference = () => {
+  if (preference === null) {
+    try {
+      preference = localStorage.getItem(STORAGE_KEY) === 'true';
+    } catch {
+      preference = false;
+    }
+  }
+  return preference;
+};
+
+export const setReducedMotionPreference = (reduce: boolean) => {
+  preference = reduce;
+  try {
+    localStorage.setItem(STORAGE_KEY, String(reduce));
+  } catch {
+    // Private browsing: the setting lasts for this visit only
+  }
+  listeners.forEach((listener) => listener());
+};
+
+// System Reduced Motion Hook
+export const useSystemReducedMotion = () => {
+  const [reducedMotion, setReducedMotion] = useState(prefersReducedMotion);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(QUERY);
+    const handleChange = () => setReducedMotion(query.matches);
+    handleChange();
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return reducedMotion;
+};
+
+export const useReducedMotionPreference = () => {
+  const [reduce, setReduce] = useState(getReducedMotionPreference);
+
+  useEffect(() => {
+    const listener = () => setReduce(getReducedMotionPreference());
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  return reduce;
+};
+
+// Reduced Motion Hook
+export const useReducedMotion = () => {
+  const system = useSystemReducedMotion();
+  const preferred = useReducedMotionPreference();
+  return system || preferred;
+};
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { useVoiceRecognition, type RecognitionResult, type SpeechRecognizer, type SpeechRecognizerBackend } from './useVoiceRecognition';
+
+const createBackend = () => {
+  let recognizer: SpeechRecognizer | null = null;
+  const backend: SpeechRecognizerBackend = {
+    isSupported: () => true,
+    create: () => {
+      recognizer = {
+        start: vi.fn(() => recognizer?.onstart?.()),
+        stop: vi.fn(() => recognizer?.onend?.()),
+        abort: vi.fn(),
+        onstart: null,
+        onresult: null,
+        onerror: null,
+        onend: null,
+      };
+      return recognizer;
+    },
+  };
+  const result = (transcript: string, isFinal = false): RecognitionResult =>
+    ({ alternatives: [{ transcript, confidence: 0.8 }], isFinal });
+  return { backend, send: (...results: RecognitionResult[]) => recognizer?.onresult?.(results), result };
+};
+
+const setup = () => {
+  const speech = createBackend();
+  const onInterim = vi.fn();
+  const onResult = vi.fn();
+  renderHook(() =>
+    useVoiceRecognition({ backend: speech.backend, continuous: true, onInterim, onResult, onError: vi.fn(), onStart: vi.fn() })
+  );
+  return { ...speech, onInterim, onResult };
+};
+
+describe('useVoiceRecognition', () => {
+  it('reports the interim results of one event as a single transcript', () => {
+    const { send, result, onInterim } = setup();
+    act(() => send(result('राधे राधे'), result(' राधे'), result('राधे ')));
+    expect(onInterim).toHaveBeenCalledTimes(1);
+    expect(onInterim).toHaveBeenCalledWith('राधे राधे राधे राधे');
+  });
+
+  it('passes final results on one by one and the interim rest after them', () => {
+    const { send, result, onInterim, onResult } = setup();
+    act(() => send(result('radhe radhe', true), result('radhe'), result('   ')));
+    expect(onResult).toHaveBeenCalledWith(['radhe radhe'], [{ transcript: 'radhe radhe', confidence: 0.8 }]);
+    expect(onInterim).toHaveBeenCalledWith('radhe');
+  });
+
+  it('stops listening when the language changes mid-session', () => {
+    const { backend } = createBackend();
+    const onEnd = vi.fn();
+    const { result, rerender } = renderHook(({ lang }) =>
+      useVoiceRecognition({ backend, lang, onResult: vi.fn(), onError: vi.fn(), onStart: vi.fn(), onEnd }), {
+      initialProps: { lang: 'hi-IN' },
+    });
+    act(() => result.current.startListening());
+    expect(result.current.isListening).toBe(true);
+
+    rerender({ lang: 'en-IN' });
+    expect(result.current.isListening).toBe(false);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    act(() => result.current.startListening());
+    expect(result.current.isListening).toBe(true);
+  });
+
+  it('says nothing when every interim result is empty', () => {
+    const { send, result, onInterim } = setup();
+    act(() => send(result(''), result(' ')));
+    expect(onInterim).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+
+// Recognizer interface
+// The hook talks to a small normalised recognizer instead of the browser's
+// SpeechRecognition directly, so other backends (and test doubles under jsdom)
+// can be dropped in through SpeechRecognizerContext.
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+export interface RecognitionResult {
+  alternatives: RecognitionAlternative[];
+  isFinal: boolean;
+}
+
+export interface SpeechRecognizerOptions {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+}
+
+export interface SpeechRecognizer {
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onstart: (() => void) | null;
+  onresult: ((results: RecognitionResult[]) => void) | null;
+  onerror: ((error: string) => void) | null;
+  onend: (() => void) | null;
+}
+
+export interface SpeechRecognizerBackend {
+  isSupported: () => boolean;
+  create: (options: SpeechRecognizerOptions) => SpeechRecognizer;
+}
+
+export type VoiceRecognitionErrorKind =
+  | 'not-allowed'
+  | 'no-speech'
+  | 'network'
+  | 'audio-capture'
+  | 'no-match'
+  | 'timeout'
+  | 'unknown';
+
+const toErrorKind = (error: string): VoiceRecognitionErrorKind => {
+  switch (error) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return 'not-allowed';
+    case 'no-speech':
+    case 'network':
+    case 'audio-capture':
+    case 'no-match':
+    case 'timeout':
+      return error;
+    default:
+      return 'unknown';
+  }
+};
+
+// Browser backend
+// TypeScript's DOM library has no Web Speech recognition, so the part of it
+// used here is declared; Chrome and Safari only have the prefixed constructor.
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<RecognitionAlternative> & { isFinal: boolean }>;
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognition extends SpeechRecognizerOptions {
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onstart: (() => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => SpeechRecognition;
+    webkitSpeechRecognition?: new () => SpeechRecognition;
+  }
+}
+
+const getBrowserSpeechRecognition = () =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const browserSpeechBackend: SpeechRecognizerBackend = {
+  isSupported: () => Boolean(getBrowserSpeechRecognition()),
+  create: (options) => {
+    const SpeechRecognition = getBrowserSpeechRecognition()!;
+    const recognition = new SpeechRecognition();
+    recognition.lang = options.lang;
+    recognition.continuous = options.continuous;
+    recognition.interimResults = options.interimResults;
+    recognition.maxAlternatives = options.maxAlternatives;
+
+    const recognizer: SpeechRecognizer = {
+      start: () => recognition.start(),
+      stop: () => recognition.stop(),
+      abort: () => recognition.abort(),
+      onstart: null,
+      onresult: null,
+      onerror: null,
+      onend: null,
+    };
+
+    recognition.onstart = () => recognizer.onstart?.();
+    recognition.onresult = (event) => {
+      const results: RecognitionResult[] = [];
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const alternatives: RecognitionAlternative[] = [];
+        for (let j = 0; j < result.length; j++) {
+          alternatives.push({ transcript: result[j].transcript, confidence: result[j].confidence });
+        }
+        results.push({ alternatives, isFinal: result.isFinal });
+      }
+      recognizer.onresult?.(results);
+    };
+    recognition.onerror = (event) => recognizer.onerror?.(event.error);
+    recognition.onend = () => recognizer.onend?.();
+
+    return recognizer;
+  },
+};
+
+// Uses the first backend that is supported on this device
+export const preferBackend = (...backends: SpeechRecognizerBackend[]): SpeechRecognizerBackend => ({
+  isSupported: () => backends.some((backend) => backend.isSupported()),
+  create: (options) => backends.find((backend) => backend.isSupported())!.create(options),
+});
+
+export const SpeechRecognizerContext = createContext<SpeechRecognizerBackend>(browserSpeechBackend);
+
+// Voice Recognition Hook
+interface VoiceRecognitionOptions {
+  // Every hypothesis of a final result, best first
+  onResult: (transcripts: string[], alternatives: RecognitionAlternative[]) => void;
+  onInterim?: (transcript: string) => void;
+  onError: (kind: VoiceRecognitionErrorKind) => void;
+  onStart: () => void;
+  onEnd?: () => void;
+  // Overrides the context backend; must keep its identity between renders
+  backend?: SpeechRecognizerBackend;
+  lang?: string;
+  continuous?: boolean;
+  interimResults?: boolean;
+  maxAlternatives?: number;
+  // Give up (with a 'timeout' error) if nothing final is heard in this window
+  timeoutMs?: number;
+}
+
+export const useVoiceRecognition = ({
+  lang = 'hi-IN',
+  continuous = false,
+  interimResults = true,
+  maxAlternatives = 5,
+  timeoutMs,
+  backend: backendOverride,
+  ...callbacks
+}: VoiceRecognitionOptions) => {
+  const contextBackend = useContext(SpeechRecognizerContext);
+  const backend = backendOverride ?? contextBackend;
+  const [isSupported, setIsSupported] = useState(() => backend.isSupported());
+  const [isListening, setIsListening] = useState(false);
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const abortedRef = useRef(false);
+
+  // Callbacks are read through a ref so a re-render with new closures does not
+  // tear down a recognizer that may be mid-utterance.
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  const timeoutMsRef = useRef(timeoutMs);
+  timeoutMsRef.current = timeoutMs;
+
+  const clearListenTimeout = () => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if (!backend.isSupported()) {
+      setIsSupported(false);
+      return;
+    }
+
+    setIsSupported(true);
+    const recognizer = backend.create({ lang, continuous, interimResults, maxAlternatives });
+    let listening = false;
+
+    recognizer.onstart = () => {
+      abortedRef.current = false;
+      listening = true;
+      setIsListening(true);
+      clearListenTimeout();
+      if (timeoutMsRef.current) {
+        timeoutRef.current = setTimeout(() => {
+          abortedRef.current = true;
+          recognizer.abort();
+          callbacksRef.current.onError('timeout');
+        }, timeoutMsRef.current);
+      }
+      callbacksRef.current.onStart();
+    };
+
+    recognizer.onresult = (results) => {
+      // A continuous recogniser may split the phrase still being spoken into
+      // several interim results; together they are the one guess
+      const interim: string[] = [];
+      results.forEach((result) => {
+        const alternatives = result.alternatives.filter((alternative) => alternative.transcript.trim());
+        if (alternatives.length === 0) return;
+        if (result.isFinal) {
+          if (!continuous) clearListenTimeout();
+          callbacksRef.current.onResult(alternatives.map((alternative) => alternative.transcript), alternatives);
+        } else {
+          interim.push(alternatives[0].transcript.trim());
+        }
+      });
+      if (interim.length > 0) callbacksRef.current.onInterim?.(interim.join(' '));
+    };
+
+    recognizer.onerror = (error) => {
+      clearListenTimeout();
+      // abort() reports an 'aborted' error that the caller asked for
+      if (abortedRef.current || error === 'aborted') return;
+      callbacksRef.current.onError(toErrorKind(error));
+    };
+
+    recognizer.onend = () => {
+      clearListenTimeout();
+      listening = false;
+      setIsListening(false);
+      callbacksRef.current.onEnd?.();
+    };
+
+    recognitionRef.current = recognizer;
+
+    return () => {
+      clearListenTimeout();
+      recognizer.onstart = null;
+      recognizer.onresult = null;
+      recognizer.onerror = null;
+      recognizer.onend = null;
+      recognizer.abort();
+      recognitionRef.current = null;
+      // The session ends here rather than in the detached onend, so a change of
+      // language or backend mid-listen does not leave the mic shown as on
+      if (listening) {
+        setIsListening(false);
+        callbacksRef.current.onEnd?.();
+      }
+    };
+  }, [backend, lang, continuous, interimResults, maxAlternatives]);
+
+  const startListening = () => {
+    if (!recognitionRef.current) return;
+    try {
+      recognitionRef.current.start();
+    } catch (error) {
+      // start() throws if a session is already running
+      console.error('Speech recognition failed to start:', error);
+    }
+  };
+
+  const stopListening = () => {
+    recognitionRef.current?.stop();
+  };
+
+  const abort = () => {
+    if (!recognitionRef.current) return;
+    abortedRef.current = true;
+    clearListenTimeout();
+    recognitionRef.current.abort();
+  };
+
+  return { startListening, stopListening, abort, isSupported, isListening };
+};
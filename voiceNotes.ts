@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import { createLocalId, withStore } from './localDatabase';
+
+// Voice Notes
+// Messages recorded in-app are kept in IndexedDB and referenced from a script
+// as `{ "kind": "voice-note", "id": "..." }`, or inlined as a data: URL when the
+// experience has to travel to another device.
+
+export interface VoiceNote {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+  durationMs: number;
+}
+
+export const saveVoiceNote = async (blob: Blob, durationMs: number) => {
+  const note: VoiceNote = {
+    id: createLocalId('note'),
+    blob,
+    createdAt: Date.now(),
+    durationMs,
+  };
+  await withStore('voice-notes', 'readwrite', (store) => store.put(note));
+  return note;
+};
+
+export const loadVoiceNote = (id: string) =>
+  withStore<VoiceNote | undefined>('voice-notes', 'readonly', (store) => store.get(id));
+
+export const listVoiceNotes = () =>
+  withStore<VoiceNote[]>('voice-notes', 'readonly', (store) => store.getAll());
+
+export const deleteVoiceNote = (id: string) =>
+  withStore('voice-notes', 'readwrite', (store) => store.delete(id));
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Voice Note Recorder Hook
+export type RecorderState = 'idle' | 'recording' | 'saving' | 'error';
+
+export const useVoiceNoteRecorder = (onSaved: (note: VoiceNote) => void) => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const isSupported = typeof window !== 'undefined' && 'MediaRecorder' in window && Boolean(navigator.mediaDevices?.getUserMedia);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  useEffect(() => () => {
+    clearTimer();
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const start = async () => {
+    if (state === 'recording') return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = async () => {
+        clearTimer();
+        stream.getTracks().forEach((track) => track.stop());
+        setState('saving');
+        try {
+          const note = await saveVoiceNote(new Blob(chunks, { type: recorder.mimeType }), Date.now() - startedAt);
+          setState('idle');
+          onSavedRef.current(note);
+        } catch (error) {
+          console.error('Saving voice note failed:', error);
+          setState('error');
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setElapsedMs(0);
+      setState('recording');
+      timerRef.current = setInterval(() => setElapsedMs(Date.now() - startedAt), 250);
+    } catch (error) {
+      console.error('Voice note recording failed:', error);
+      setState('error');
+    }
+  };
+
+  const stop = () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  };
+
+  return { state, elapsedMs, isSupported, start, stop };
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import defaultScript from './experiences/radha-radha.json';
+import { ExperienceScriptError, loadExperienceScript, readLetterContent, readLockContent } from './experienceScript';
+import { YamlError, parseYaml } from './yaml';
+
+const schemas = {
+  lock: { readContent: readLockContent },
+  letter: { readContent: readLetterContent },
+};
+
+// Written out the way a person would, block style with JSON strings as scalars
+const toYaml = (value: unknown, indent = ''): string => {
+  if (Array.isArray(value)) {
+    return value.map((item) => `${indent}-${nested(item, `${indent}  `)}`).join('\n');
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).map(([key, item]) => `${indent}${key}:${nested(item, `${indent}  `)}`).join('\n');
+  }
+  return JSON.stringify(value);
+};
+
+const nested = (value: unknown, indent: string) =>
+  typeof value === 'object' && value !== null && Object.keys(value).length > 0
+    ? `\n${toYaml(value, indent)}`
+    : ` ${JSON.stringify(value)}`;
+
+describe('parseYaml', () => {
+  it('reads the bundled experience written as YAML', () => {
+    expect(parseYaml(toYaml(defaultScript))).toEqual(defaultScript);
+  });
+
+  it('reads sequences of mappings, flow sequences and comments', () => {
+    const yaml = [
+      '# A lock and its keywords',
+      'stages:',
+      '- id: lock  # the first stage',
+      '  keywords: [radha, "राधा राधा", \'it\'\'s me\']',
+      '  threshold: 0.8',
+      '  options:',
+      '    sealed: false',
+      '    hint: ~',
+      '-   id: letter',
+      '    next:',
+      '      yes: proposal',
+      '      "default": "#end"',
+    ].join('\r\n');
+    expect(parseYaml(yaml)).toEqual({
+      stages: [
+        { id: 'lock', keywords: ['radha', 'राधा राधा', "it's me"], threshold: 0.8, options: { sealed: false, hint: null } },
+        { id: 'letter', next: { yes: 'proposal', default: '#end' } },
+      ],
+    });
+  });
+
+  it('reads line breaks and braces in quoted text', () => {
+    const yaml = [
+      'letter: "**मेरी प्यारी {recipient},**\\n> राधे राधे"',
+      "title: '{recipient}'",
+    ].join('\n');
+    expect(parseYaml(yaml)).toEqual({
+      letter: '**मेरी प्यारी {recipient},**\n> राधे राधे',
+      title: '{recipient}',
+    });
+  });
+
+  it('tells numbers, booleans and null from text', () => {
+    expect(parseYaml('[1, -2.5, 1e3, true, false, null, ~, "1", 1.2.3, v1]')).toEqual([
+      1, -2.5, 1000, true, false, null, null, '1', '1.2.3', 'v1',
+    ]);
+  });
+
+  it('does not let a key reach the prototype', () => {
+    const parsed = parseYaml('__proto__:\n  polluted: true') as Record<string, unknown>;
+    expect(Object.keys(parsed)).toEqual(['__proto__']);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it.each([
+    ['a: 1\na: 2', 2, /duplicate key "a"/],
+    ['a:\n\tb: 1', 2, /tabs/],
+    ['a: 1\n    b: 2', 2, /indentation/],
+    ['a: &name radha', 1, /anchors/],
+    ['a: 1\nb: {c: 2}', 2, /flow mappings/],
+    ['a: {recipient}', 1, /quote text that starts with \{/],
+    ['a:\n  - [1, {b: 2}]', 2, /flow mappings/],
+    ['letter: |\n  Dear Asha', 1, /block scalars/],
+    ['- >-\n  folded', 1, /block scalars/],
+    ['a: [1, 2', 1, /expected/],
+    ['a: "unclosed', 1, /unclosed quote/],
+    ['---\na: 1\n---\nb: 2', 3, /one document/],
+    ['- a\nb: 1', 2, /unexpected "b: 1"/],
+  ])('reports the line of a mistake in %j', (yaml, line, message) => {
+    try {
+      parseYaml(yaml);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(YamlError);
+      expect((error as YamlError).line).toBe(line);
+      expect((error as Error).message).toMatch(message);
+    }
+  });
+});
+
+describe('loadExperienceScript', () => {
+  const yaml = `
+version: 2
+id: yaml-test
+recipient:
+  name: Asha
+author:
+  name: Ravi
+stages:
+  - id: lock
+    type: lock
+    content:
+      greeting: "Radhe Radhe, {recipient}"
+      riddle: Say it
+      blessing: Blessings
+      prompt: Speak
+      fallbackPlaceholder: Type it
+      keywords: [radha]
+  - id: letter
+    type: letter
+    content:
+      title: For {recipient}
+      paragraphs:
+        - "Dear {recipient},\\nfrom {author}"
+      nextLabel: Next
+      signature:
+        closing: Yours,
+        name: "{author}"
+`;
+
+  it('loads a YAML script as it would the same script in JSON', () => {
+    const script = loadExperienceScript(yaml, schemas);
+    expect(script).toEqual(loadExperienceScript(JSON.stringify(parseYaml(yaml)), schemas));
+    expect(script.stages[1].content).toMatchObject({
+      title: 'For Asha',
+      paragraphs: ['Dear Asha,\nfrom Ravi'],
+    });
+  });
+
+  it('names the line of a YAML mistake and the field of a wrong value', () => {
+    const issues = (source: string) => {
+      try {
+        loadExperienceScript(source, schemas);
+      } catch (error) {
+        return (error as ExperienceScriptError).issues;
+      }
+      return [];
+    };
+    expect(issues(yaml.replace('  name: Ravi', '\tname: Ravi'))).toEqual([
+      { path: '(root)', message: 'invalid YAML: line 7: indent with spaces, not tabs' },
+    ]);
+    expect(issues(yaml.replace('keywords: [radha]', 'keywords: radha'))).toEqual([
+      expect.objectContaining({ path: 'stages[0].content.keywords' }),
+    ]);
+    expect(issues('{"version": 2,')[0].message).toMatch(/^invalid JSON/);
+  });
+});
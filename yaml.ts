@@ -0,0 +1,242 @@
+// YAML
+// Experience scripts may be written in YAML, which is kinder than JSON to a
+// long letter edited by hand. This reads only the part of YAML a script needs:
+//
+//   key: value           mappings, nested by indentation
+//   - item               sequences, including "- key: value" entries
+//   "a" 'b' c 2 true     quoted and plain scalars; numbers, booleans and null
+//   [a, b]               flow sequences written on one line
+//   # comment
+//
+// Everything else is reported with its line rather than misread: flow
+// mappings ({a: 1}), block scalars (| and >), anchors, aliases, tags and files
+// with more than one document. Text with line breaks is a double-quoted
+// string with \n, and text starting with { is quoted.
+
+export class YamlError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`line ${line}: ${message}`);
+    this.name = 'YamlError';
+    this.line = line;
+  }
+}
+
+interface Line {
+  number: number;
+  indent: number;
+  raw: string;
+  // Without its indentation and comment
+  content: string;
+}
+
+// A # starts a comment at the start of a line or after a space, outside quotes
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,]/.test(text[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const isItem = (content: string) => content === '-' || content.startsWith('- ');
+
+const QUOTED_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+(.*))?$/;
+
+const splitKey = (content: string): { key: string; rest: string } | null => {
+  const quoted = QUOTED_KEY.exec(content);
+  if (quoted) return { key: String(parseInline(quoted[1], 0)), rest: quoted[2] ?? '' };
+
+  const colon = content.search(/:(\s|$)/);
+  if (colon <= 0 || isItem(content) || /^[[\]{},#&*!|>'"%@`]/.test(content)) return null;
+  return { key: content.slice(0, colon).trim(), rest: content.slice(colon + 1).trim() };
+};
+
+// Keys are defined rather than assigned, so "__proto__" is only ever a key
+const setKey = (mapping: Record<string, unknown>, key: string, value: unknown, line: number) => {
+  if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+    throw new YamlError(line, `duplicate key "${key}"`);
+  }
+  Object.defineProperty(mapping, key, { value, enumerable: true, writable: true, configurable: true });
+};
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+const plainScalar = (text: string, line: number): unknown => {
+  if (/^[|>]/.test(text)) {
+    throw new YamlError(line, 'block scalars (| and >) are not supported; write the text as a "quoted string" with \\n for line breaks');
+  }
+  if (/^[&*!%@`]/.test(text)) {
+    throw new YamlError(line, `"${text}" needs quotes (anchors, aliases and tags are not supported)`);
+  }
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (NUMBER.test(text)) return Number(text);
+  return text;
+};
+
+// A scalar or flow sequence written on one line
+const parseInline = (text: string, line: number): unknown => {
+  let at = 0;
+  const fail = (message: string): never => {
+    throw new YamlError(line, message);
+  };
+  const skipSpace = () => {
+    while (text[at] === ' ') at++;
+  };
+
+  const quoted = (): string => {
+    const quote = text[at];
+    let end = at + 1;
+    for (;;) {
+      if (end >= text.length) fail(`unclosed quote in ${text}`);
+      if (quote === '"' && text[end] === '\\') end += 2;
+      else if (quote === "'" && text[end] === "'" && text[end + 1] === "'") end += 2;
+      else if (text[end] === quote) break;
+      else end++;
+    }
+    const body = text.slice(at + 1, end);
+    at = end + 1;
+    if (quote === "'") return body.replace(/''/g, "'");
+    try {
+      return JSON.parse(`"${body}"`);
+    } catch {
+      return fail(`invalid escape in "${body}"`);
+    }
+  };
+
+  // Inside a flow sequence a plain scalar ends at , or ]
+  const plain = (inFlow: boolean) => {
+    const start = at;
+    while (at < text.length && !(inFlow && (text[at] === ',' || text[at] === ']'))) at++;
+    return text.slice(start, at).trim();
+  };
+
+  const value = (inFlow: boolean): unknown => {
+    skipSpace();
+    if (text[at] === '[') {
+      const items: unknown[] = [];
+      at++;
+      for (;;) {
+        skipSpace();
+        if (text[at] === ']') {
+          at++;
+          return items;
+        }
+        items.push(value(true));
+        skipSpace();
+        if (text[at] === ',') at++;
+        else if (text[at] !== ']') fail(`expected "," or "]" in ${text}`);
+      }
+    }
+    if (text[at] === '{') {
+      return fail('flow mappings ({...}) are not supported; put each key on its own line, or quote text that starts with {');
+    }
+    if (text[at] === '"' || text[at] === "'") return quoted();
+    return plainScalar(plain(inFlow), line);
+  };
+
+  const result = value(false);
+  skipSpace();
+  if (at < text.length) fail(`unexpected "${text.slice(at)}"`);
+  return result;
+};
+
+export const parseYaml = (source: string): unknown => {
+  const lines: Line[] = source.replace(/^\uFEFF/, '').split(/\r?\n/).map((raw, index) => {
+    const indent = /^ */.exec(raw)![0].length;
+    return { number: index + 1, indent, raw, content: stripComment(raw.slice(indent)) };
+  });
+  let index = 0;
+  let started = false;
+
+  // The next line with something on it
+  const next = (): Line | undefined => {
+    while (index < lines.length && lines[index].content === '') index++;
+    const line = lines[index];
+    if (line && line.raw[line.indent] === '\t') {
+      throw new YamlError(line.number, 'indent with spaces, not tabs');
+    }
+    if (started && line?.content === '---') {
+      throw new YamlError(line.number, 'only one document is supported');
+    }
+    return line;
+  };
+
+  const unexpectedIndent = (line: Line) => new YamlError(line.number, `unexpected indentation before "${line.content}"`);
+
+  const sequence = (indent: number) => {
+    const items: unknown[] = [];
+    for (let line = next(); line && line.indent >= indent; line = next()) {
+      if (line.indent > indent) throw unexpectedIndent(line);
+      if (!isItem(line.content)) break;
+
+      const rest = line.content.slice(1).trimStart();
+      if (rest === '') {
+        index++;
+        const child = next();
+        items.push(child && child.indent > indent ? node(child.indent) : null);
+      } else if (isItem(rest) || splitKey(rest)) {
+        // "- key: value" opens a mapping at the column of its key
+        const column = indent + line.content.length - rest.length;
+        lines[index] = { ...line, indent: column, content: rest };
+        items.push(node(column));
+      } else {
+        index++;
+        items.push(parseInline(rest, line.number));
+      }
+    }
+    return items;
+  };
+
+  const mapping = (indent: number) => {
+    const entries: Record<string, unknown> = {};
+    for (let line = next(); line && line.indent >= indent; line = next()) {
+      if (line.indent > indent) throw unexpectedIndent(line);
+      const entry = splitKey(line.content);
+      if (!entry) throw new YamlError(line.number, `expected "key: value", found "${line.content}"`);
+      index++;
+
+      let value: unknown = null;
+      if (entry.rest !== '') {
+        value = parseInline(entry.rest, line.number);
+      } else {
+        // A sequence may sit at the same indentation as its key
+        const child = next();
+        if (child && child.indent > indent) value = node(child.indent);
+        else if (child && child.indent === indent && isItem(child.content)) value = sequence(indent);
+      }
+      setKey(entries, entry.key, value, line.number);
+    }
+    return entries;
+  };
+
+  const node = (indent: number): unknown => {
+    const line = next()!;
+    if (isItem(line.content)) return sequence(indent);
+    if (splitKey(line.content)) return mapping(indent);
+    index++;
+    return parseInline(line.content, line.number);
+  };
+
+  if (next()?.content === '---') index++;
+  started = true;
+  const start = next();
+  if (!start) return null;
+  const result = node(start.indent);
+  const left = next();
+  if (left) {
+    throw left.indent > 0 ? unexpectedIndent(left) : new YamlError(left.number, `unexpected "${left.content}"`);
+  }
+  return result;
+};